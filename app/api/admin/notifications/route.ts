@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOutboxOverview, requeueNotifications } from '@/lib/services/notification-outbox-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function authorize(req: NextRequest): boolean {
+	const token = req.headers.get('x-admin-token') || req.nextUrl.searchParams.get('token');
+	const expected = process.env.ADMIN_SYNC_TOKEN;
+	return !!expected && token === expected;
+}
+
+// Outbox state counts plus stuck and failed messages, each with its attempt log
+export async function GET(req: NextRequest) {
+	try {
+		if (!authorize(req)) {
+			return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const limit = parseInt(req.nextUrl.searchParams.get('limit') || '', 10);
+		const overview = await getOutboxOverview(Number.isFinite(limit) && limit > 0 ? { limit } : {});
+		return NextResponse.json({ ok: true, ...overview });
+	} catch (error: any) {
+		console.error('[admin/notifications] error', error);
+		return NextResponse.json({ ok: false, error: error?.message || 'failed to load outbox' }, { status: 500 });
+	}
+}
+
+// Requeue failed or skipped messages: body { ids: number[] }
+export async function POST(req: NextRequest) {
+	try {
+		if (!authorize(req)) {
+			return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const body = await req.json().catch(() => null);
+		const ids = Array.isArray(body?.ids) ? body.ids.map(Number).filter(Number.isInteger) : [];
+		if (ids.length === 0) {
+			return NextResponse.json({ ok: false, error: 'ids must be a non-empty array of outbox ids' }, { status: 400 });
+		}
+
+		const requeued = await requeueNotifications(ids);
+		return NextResponse.json({ ok: true, requeued });
+	} catch (error: any) {
+		console.error('[admin/notifications] error', error);
+		return NextResponse.json({ ok: false, error: error?.message || 'requeue failed' }, { status: 500 });
+	}
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { syncLockupsFromDune } from '@/lib/indexers/lockupsFromDune';
+import { syncLockups } from '@/lib/indexers';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -16,8 +16,10 @@ export async function POST(req: NextRequest) {
 			return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 		}
 
-		const { castsUpserted } = await syncLockupsFromDune();
-		return NextResponse.json({ ok: true, castsUpserted });
+		// Forced full rebuild by default; ?mode=incremental runs from the persisted cursor instead
+		const full = req.nextUrl.searchParams.get('mode') !== 'incremental';
+		const { castsUpserted, lockupsProcessed, mode, snapshotId } = await syncLockups({ full, source: 'dune' });
+		return NextResponse.json({ ok: true, castsUpserted, lockupsProcessed, mode, snapshotId });
 	} catch (error: any) {
 		console.error('[admin/sync/dune] error', error);
 		return NextResponse.json({ ok: false, error: error?.message || 'sync failed' }, { status: 500 });
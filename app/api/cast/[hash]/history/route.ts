@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidCastHash } from '@/lib/cast-helpers';
+import { getCastHistory, parseTimeParam } from '@/lib/services/snapshot-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_POINTS = 1000;
+
+/**
+ * Rank and totals of a cast across leaderboard snapshots, oldest first.
+ * Query params: from / to (unix seconds or ISO date), limit (most recent points, default 500)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { hash: string } }
+) {
+  try {
+    let castHash = params.hash?.toLowerCase();
+    if (castHash && !castHash.startsWith('0x') && /^[a-f0-9]+$/.test(castHash)) {
+      castHash = '0x' + castHash;
+    }
+
+    if (!castHash || !isValidCastHash(castHash)) {
+      return NextResponse.json(
+        { error: 'Invalid cast hash format' },
+        { status: 400 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    const from = fromParam !== null ? parseTimeParam(fromParam) : undefined;
+    const to = toParam !== null ? parseTimeParam(toParam) : undefined;
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'Invalid from/to: expected a unix timestamp (seconds) or an ISO date' },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = parseInt(searchParams.get('limit') || '', 10);
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_POINTS) : undefined;
+
+    const points = await getCastHistory(castHash, { from, to, limit });
+
+    return NextResponse.json({ castHash, points });
+  } catch (error: any) {
+    console.error('[Cast History API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: error.message || String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getHigherCast } from '@/lib/services/db-service';
+import { getHigherCast, getLockupsForCast } from '@/lib/services/db-service';
 import { isValidCastHash } from '@/lib/cast-helpers';
 import { calculateWeightedStake } from '@/lib/supporter-helpers';
+import { getUserProvider } from '@/lib/providers';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -54,50 +55,35 @@ export async function GET(
 
     const currentTime = Math.floor(Date.now() / 1000);
 
-    // Calculate weighted caster stake (ALL stakes, including unlocked/expired)
-    const casterStakeLockTimes = castData.casterStakeLockTimes || [];
-    const casterStakeUnlockTimes = castData.casterStakeUnlockTimes || [];
-    const casterStakeAmounts = castData.casterStakeAmounts || [];
-    
-    let totalCasterWeightedStake = 0;
-    for (let i = 0; i < casterStakeAmounts.length; i++) {
-      const amount = BigInt(casterStakeAmounts[i] || '0');
-      const lockTime = casterStakeLockTimes[i] || 0;
-      const unlockTime = casterStakeUnlockTimes[i] || 0;
-      
-      if (lockTime > 0 && unlockTime > 0 && amount > 0) {
-        const weighted = calculateWeightedStake(amount, lockTime, unlockTime, currentTime);
-        totalCasterWeightedStake += weighted;
-      }
-    }
+    const lockups = await getLockupsForCast(castHash);
 
-    // Calculate weighted supporter stakes per FID (ALL stakes, including unlocked/expired)
-    const supporterStakeLockTimes = castData.supporterStakeLockTimes || [];
-    const supporterStakeUnlockTimes = castData.supporterStakeUnlockTimes || [];
-    const supporterStakeAmounts = castData.supporterStakeAmounts || [];
-    const supporterStakeFids = castData.supporterStakeFids || [];
+    // Weighted stakes over ALL lockups, including unlocked/expired
+    let totalCasterWeightedStake = 0;
 
-    // Map to aggregate by FID
+    // Map to aggregate supporter stakes by FID
     const supporterWeightedStakesMap = new Map<number, {
       fid: number;
       weightedStake: number;
     }>();
 
-    for (let i = 0; i < supporterStakeAmounts.length; i++) {
-      const amount = BigInt(supporterStakeAmounts[i] || '0');
-      const lockTime = supporterStakeLockTimes[i] || 0;
-      const unlockTime = supporterStakeUnlockTimes[i] || 0;
-      const fid = supporterStakeFids[i] || 0;
-
-      if (lockTime > 0 && unlockTime > 0 && amount > 0 && fid > 0) {
-        const weighted = calculateWeightedStake(amount, lockTime, unlockTime, currentTime);
-        
-        if (supporterWeightedStakesMap.has(fid)) {
-          const existing = supporterWeightedStakesMap.get(fid)!;
-          existing.weightedStake += weighted;
+    for (const lockup of lockups) {
+      const amount = BigInt(lockup.amount || '0');
+      const lockTime = lockup.lockTime || 0;
+      const unlockTime = lockup.unlockTime || 0;
+
+      if (lockTime <= 0 || unlockTime <= 0 || amount <= 0) {
+        continue;
+      }
+      const weighted = calculateWeightedStake(amount, lockTime, unlockTime, currentTime);
+
+      if (lockup.stakeType === 'caster') {
+        totalCasterWeightedStake += weighted;
+      } else if (lockup.fid > 0) {
+        if (supporterWeightedStakesMap.has(lockup.fid)) {
+          supporterWeightedStakesMap.get(lockup.fid)!.weightedStake += weighted;
         } else {
-          supporterWeightedStakesMap.set(fid, {
-            fid,
+          supporterWeightedStakesMap.set(lockup.fid, {
+            fid: lockup.fid,
             weightedStake: weighted,
           });
         }
@@ -107,38 +93,22 @@ export async function GET(
     // Convert to array and sort
     let supporters = Array.from(supporterWeightedStakesMap.values());
 
-    // Fetch usernames from Neynar API
+    // Fetch usernames from the user provider
     const uniqueFids = supporters.map(s => s.fid);
     const userMap = new Map<number, { username: string; displayName: string; pfp: string }>();
 
     if (uniqueFids.length > 0) {
       try {
-        const neynarApiKey = process.env.NEYNAR_API_KEY;
-        if (neynarApiKey && neynarApiKey !== 'your_neynar_api_key_here') {
-          const { NeynarAPIClient } = await import('@neynar/nodejs-sdk');
-          const neynarClient = new NeynarAPIClient({ apiKey: neynarApiKey });
-          
-          // Fetch in batches (Neynar supports up to 100 FIDs per request)
-          const batchSize = 100;
-          for (let i = 0; i < uniqueFids.length; i += batchSize) {
-            const batch = uniqueFids.slice(i, i + batchSize);
-            try {
-              const userResponse = await neynarClient.fetchBulkUsers({ fids: batch });
-              for (const user of userResponse.users) {
-                userMap.set(user.fid, {
-                  username: user.username,
-                  displayName: user.display_name || user.username,
-                  pfp: user.pfp_url || '',
-                });
-              }
-            } catch (neynarError) {
-              console.error('[Leaderboard API] Error fetching users from Neynar:', neynarError);
-              // Continue with other batches even if one fails
-            }
-          }
+        const users = await getUserProvider().getUsersByFids(uniqueFids);
+        for (const user of users) {
+          userMap.set(user.fid, {
+            username: user.username,
+            displayName: user.displayName || user.username,
+            pfp: user.pfpUrl,
+          });
         }
-      } catch (neynarError) {
-        console.error('[Leaderboard API] Error initializing Neynar client:', neynarError);
+      } catch (userError) {
+        console.error('[Leaderboard API] Error fetching users:', userError);
         // Continue without usernames
       }
     }
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getHigherCast } from '@/lib/services/db-service';
+import { getHigherCast, getLockupsForCast, getCastStakeTotals } from '@/lib/services/db-service';
 import { isValidCastHash } from '@/lib/cast-helpers';
+import { getStakeRules } from '@/lib/stake-rules';
+import { getKnownStakeToken, HIGHER_STAKE_TOKEN, StakeToken } from '@/lib/tokens';
+import { getStakeTokenPrices, summarizeStakesByToken } from '@/lib/services/stake-service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -45,66 +48,36 @@ export async function GET(
       );
     }
 
-    // Filter valid caster stakes: !unlocked only (no expiry check)
-    const casterStakeUnlocked = castData.casterStakeUnlocked || [];
-    const validCasterStakes = castData.casterStakeLockupIds
-      .map((lockupId, index) => ({
-        lockupId,
-        amount: castData.casterStakeAmounts[index] || '0',
-        unlockTime: castData.casterStakeUnlockTimes[index] || 0,
-        unlocked: casterStakeUnlocked[index] || false,
-      }))
-      .filter(stake => !stake.unlocked);
-
-    // Calculate min and max caster unlock times from valid stakes
-    const validCasterUnlockTimes = validCasterStakes.map(s => s.unlockTime);
-    const minCasterUnlockTime = validCasterUnlockTimes.length > 0
-      ? Math.min(...validCasterUnlockTimes)
-      : 0;
-    const maxCasterUnlockTime = validCasterUnlockTimes.length > 0
-      ? Math.max(...validCasterUnlockTimes)
-      : 0;
-
-    // Calculate total caster staked (only valid stakes)
-    const totalCasterStaked = validCasterStakes.reduce((sum, stake) => {
-      return sum + BigInt(stake.amount);
-    }, BigInt(0)).toString();
-
-    // Filter + aggregate valid supporter stakes (no PFPs stored in DB)
-    // Rules:
-    // - active = !unlocked (no expiry check)
-    // - valid = unlockTime matches at least one caster unlockTime (ALL caster unlockTimes, not just valid ones)
-    const supporterStakeUnlockTimes = castData.supporterStakeUnlockTimes || [];
-    const supporterStakeUnlocked = castData.supporterStakeUnlocked || [];
-    const supporterStakeFids = castData.supporterStakeFids || [];
-    const supporterStakeAmounts = castData.supporterStakeAmounts || [];
-
-    // Build Set of ALL caster unlockTimes (regardless of unlocked status or validity)
-    const casterUnlockSet = new Set(
-      castData.casterStakeUnlockTimes.filter((t: any) => typeof t === 'number' && Number.isFinite(t))
-    );
-    const supporterTotals = new Map<number, bigint>();
+    // Stakes come from the normalized lockups table; validity follows the stake rules (lib/stake-rules.ts)
+    const rules = getStakeRules();
+    const [lockups, totals] = await Promise.all([
+      getLockupsForCast(castHash, { rules }),
+      getCastStakeTotals(castHash, { rules }),
+    ]);
 
-    for (let i = 0; i < castData.supporterStakeLockupIds.length; i++) {
-      const unlocked = supporterStakeUnlocked[i] || false;
-      if (unlocked) continue;
+    const validCasterStakes = lockups.filter(l => l.stakeType === 'caster' && l.isValid);
 
-      const unlockTime = supporterStakeUnlockTimes[i] || 0;
-      if (!casterUnlockSet.has(unlockTime)) continue;
-
-      const fid = Number(supporterStakeFids[i] || 0);
-      if (!Number.isFinite(fid) || fid <= 0) continue;
+    // Stakes can mix tokens (e.g. native ETH and HIGHER); amounts are HIGHER-equivalent, with a per-token breakdown
+    const stakeTokens = new Map<string, StakeToken>();
+    for (const l of lockups) {
+      const token = l.isValid ? getKnownStakeToken(l.token) : null;
+      if (token) stakeTokens.set(token.symbol, token);
+    }
+    const tokenPrices = await getStakeTokenPrices(Array.from(stakeTokens.values()));
+    const tokenBreakdown = summarizeStakesByToken(lockups, tokenPrices);
+    const { minCasterUnlockTime, maxCasterUnlockTime, totalCasterStaked, totalSupporterStaked } = totals;
 
-      const rawAmount = String(supporterStakeAmounts[i] || '0');
+    const supporterTotals = new Map<number, bigint>();
+    for (const l of lockups) {
+      if (l.stakeType !== 'supporter' || !l.isValid || l.fid <= 0) continue;
       let amountWei: bigint;
       try {
-        amountWei = BigInt(rawAmount);
+        amountWei = BigInt(l.amount);
       } catch {
         continue;
       }
       if (amountWei <= 0n) continue;
-
-      supporterTotals.set(fid, (supporterTotals.get(fid) || 0n) + amountWei);
+      supporterTotals.set(l.fid, (supporterTotals.get(l.fid) || 0n) + amountWei);
     }
 
     const totalUniqueSupporters = supporterTotals.size;
@@ -118,10 +91,6 @@ export async function GET(
         totalAmount: totalAmount.toString(),
       }));
 
-    const totalSupporterStaked = Array.from(supporterTotals.values())
-      .reduce((sum, v) => sum + v, 0n)
-      .toString();
-
     // Get connected user's stake if userFid is provided
     const userFidParam = request.nextUrl.searchParams.get('userFid');
     const userFid = userFidParam ? parseInt(userFidParam, 10) : null;
@@ -149,11 +118,15 @@ export async function GET(
       casterStakes: validCasterStakes.map(stake => ({
         lockupId: stake.lockupId,
         amount: stake.amount,
+        token: (getKnownStakeToken(stake.token) ?? HIGHER_STAKE_TOKEN).symbol,
+        tokenAmount: stake.tokenAmount ?? stake.amount,
         unlockTime: stake.unlockTime,
       })),
+      tokenBreakdown,
       topSupporters,
       totalUniqueSupporters,
       connectedUserStake,
+      stakeRulesVersion: rules.version,
     });
 
   } catch (error: any) {
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCreatorProfile } from '@/lib/services/profile-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Creator profile behind /u/[fid]: every cast the fid has cooked with stake timelines, caster conviction,
+ * the supporters they attracted and the casts they backed
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { fid: string } }
+) {
+  try {
+    const fid = parseInt(params.fid, 10);
+    if (!Number.isFinite(fid) || fid <= 0 || String(fid) !== params.fid) {
+      return NextResponse.json({ error: 'Invalid fid' }, { status: 400 });
+    }
+
+    const profile = await getCreatorProfile(fid);
+    if (!profile) {
+      return NextResponse.json({ error: 'Creator not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(profile, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: any) {
+    console.error('[Creator API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: error.message || String(error) },
+      { status: 500, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deliverPendingNotifications } from '@/lib/services/notification-outbox-service';
+import { queueStakeExpiryNotifications } from '@/lib/services/notification-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Notification outbox worker: queues due stake reminders, then delivers due messages. Schedule every few
+// minutes for timely reminders and retries.
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    // Once CRON_SECRET is set, every call must carry it
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized - invalid secret' },
+        { status: 401 }
+      );
+    }
+
+    const notificationsQueued = await queueStakeExpiryNotifications();
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '', 10);
+    const outbox = await deliverPendingNotifications(Number.isFinite(limit) && limit > 0 ? { limit } : {});
+
+    return NextResponse.json({
+      success: true,
+      notificationsQueued,
+      outbox,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('[cron/deliver-notifications] error', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: error.message || String(error) },
+      { status: 500 }
+    );
+  }
+}
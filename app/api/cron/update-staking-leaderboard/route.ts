@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { syncLockupsFromDune } from '@/lib/indexers/lockupsFromDune';
-import { checkAndSendExpiredStakeNotifications } from '@/lib/services/notification-service';
+import { syncLockups, getLockupSourceName } from '@/lib/indexers';
+import { queueStakeExpiryNotifications } from '@/lib/services/notification-service';
+import { deliverPendingNotifications } from '@/lib/services/notification-outbox-service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -12,29 +13,36 @@ export async function GET(request: NextRequest) {
     const authHeader = request.headers.get('authorization');
     const cronSecret = process.env.CRON_SECRET;
     
-    // Only enforce auth if CRON_SECRET is set
-    if (cronSecret && authHeader && authHeader !== `Bearer ${cronSecret}`) {
+    // Once CRON_SECRET is set, every call must carry it
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
       return NextResponse.json(
         { error: 'Unauthorized - invalid secret' },
         { status: 401 }
       );
     }
     
-    console.log('=== Starting staking leaderboard update (Dune-based) ===');
+    console.log(`=== Starting staking leaderboard update (source: ${getLockupSourceName()}) ===`);
 
-    const { castsUpserted } = await syncLockupsFromDune();
+    const { castsUpserted, source, snapshotId } = await syncLockups();
 
-    console.log('=== Staking leaderboard updated successfully (Dune) ===', { castsUpserted });
+    console.log('=== Staking leaderboard updated successfully ===', { castsUpserted, source, snapshotId });
 
-    // Check for expired stakes and send notifications
-    console.log('=== Checking for expired stakes and sending notifications ===');
-    const notificationsSent = await checkAndSendExpiredStakeNotifications();
-    console.log('=== Expired stake notifications sent ===', { notificationsSent });
+    // Check for expiring and expired stakes and enqueue reminders and notifications
+    console.log('=== Checking for expiring stakes and queueing notifications ===');
+    const notificationsQueued = await queueStakeExpiryNotifications();
+    console.log('=== Stake expiry notifications queued ===', notificationsQueued);
+
+    // Deliver them in batches, along with due retries (earlier failures, rate-limited tokens)
+    const outbox = await deliverPendingNotifications();
+    console.log('=== Notification outbox processed ===', outbox);
 
     return NextResponse.json({
       success: true,
       castsUpserted,
-      notificationsSent,
+      source,
+      snapshotId,
+      notificationsQueued,
+      outbox,
       timestamp: new Date().toISOString(),
     });
     
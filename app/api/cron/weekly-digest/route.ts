@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deliverPendingNotifications } from '@/lib/services/notification-outbox-service';
+import { queueWeeklyDigestNotifications } from '@/lib/services/notification-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Weekly digest: queues one summary of stakes and casts per user with notifications enabled, then runs the
+// outbox worker. Schedule once a week; a repeated run in the same week queues nothing new.
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    // Once CRON_SECRET is set, every call must carry it
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized - invalid secret' },
+        { status: 401 }
+      );
+    }
+
+    const digestsQueued = await queueWeeklyDigestNotifications();
+    const outbox = await deliverPendingNotifications();
+
+    return NextResponse.json({
+      success: true,
+      digestsQueued,
+      outbox,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('[cron/weekly-digest] error', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: error.message || String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupporterLeaderboard, SUPPORTER_SORTS, SupporterSort } from '@/lib/services/leaderboard-service';
+import { getUserProvider } from '@/lib/providers';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ENTRIES_PER_PAGE = 20;
+
+/**
+ * Network-wide supporter ("patron") leaderboard across all casts, as ranked by the last sync.
+ * Query params: sort = active (total active supporter stake, default) | weighted (higher-days),
+ * cursor = nextCursor from the previous page
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sortParam = request.nextUrl.searchParams.get('sort') || 'active';
+    if (!SUPPORTER_SORTS.includes(sortParam as SupporterSort)) {
+      return NextResponse.json(
+        { error: `Invalid sort: expected one of ${SUPPORTER_SORTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const sort = sortParam as SupporterSort;
+
+    const cursorParam = request.nextUrl.searchParams.get('cursor');
+    const after = cursorParam !== null ? Number(cursorParam) : 0;
+    if (!Number.isInteger(after) || after < 0) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const page = await getSupporterLeaderboard(sort, { after, limit: ENTRIES_PER_PAGE });
+    const pageEntries = page.supporters;
+
+    // Profiles for this page only
+    const userMap = new Map<number, { username: string; displayName: string; pfp: string }>();
+    if (pageEntries.length > 0) {
+      try {
+        const users = await getUserProvider().getUsersByFids(pageEntries.map(s => s.fid));
+        for (const user of users) {
+          userMap.set(user.fid, {
+            username: user.username,
+            displayName: user.displayName || user.username,
+            pfp: user.pfpUrl,
+          });
+        }
+      } catch (userError) {
+        console.error('[Supporter Leaderboard API] Error fetching users:', userError);
+        // Continue without usernames
+      }
+    }
+
+    const supporters = pageEntries.map(supporter => ({
+      ...supporter,
+      username: userMap.get(supporter.fid)?.username || `fid-${supporter.fid}`,
+      displayName: userMap.get(supporter.fid)?.displayName || `fid-${supporter.fid}`,
+      pfp: userMap.get(supporter.fid)?.pfp || '',
+    }));
+
+    return NextResponse.json({
+      supporters,
+      sort,
+      nextCursor: page.nextCursor,
+      totalSupporters: page.totalSupporters,
+    }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: any) {
+    console.error('[Supporter Leaderboard API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: error.message || String(error) },
+      { status: 500, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
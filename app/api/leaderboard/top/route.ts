@@ -1,98 +1,178 @@
-import { NextResponse } from 'next/server';
-import { sql } from '@vercel/postgres';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSnapshotAt, getSnapshotEntries, parseTimeParam } from '@/lib/services/snapshot-service';
+import {
+  decodeCursor,
+  getLeaderboardPage,
+  LEADERBOARD_SORTS,
+  LeaderboardQuery,
+  LeaderboardSort,
+  MAX_PAGE_SIZE,
+} from '@/lib/services/leaderboard-service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic'; // Disable caching for fresh data
 export const revalidate = 0; // Never cache
 
-export async function GET() {
-  try {
-    console.log('=== Fetching leaderboard entries ===');
-    console.log('POSTGRES_URL exists:', !!process.env.POSTGRES_URL);
-    console.log('POSTGRES_PRISMA_URL exists:', !!process.env.POSTGRES_PRISMA_URL);
-    console.log('POSTGRES_URL_NON_POOLING exists:', !!process.env.POSTGRES_URL_NON_POOLING);
-    
-    // First, let's verify the connection works
-    const testQuery = await sql`SELECT 1 as test`;
-    console.log('Database connection test:', testQuery.rows[0]);
-    
-    // Query top casts by HIGHER staked amount
-    // Filter out casts where no valid caster stake exists (cast_state != 'higher')
-    const result = await sql`
-      SELECT * FROM leaderboard_entries 
-      WHERE cast_state = 'higher'
-      ORDER BY total_higher_staked DESC
-      LIMIT 10
-    `;
-
-    console.log(`Query returned ${result.rows.length} rows`);
-    
-    if (result.rows.length === 0) {
-      console.log('No entries found in database');
-      return NextResponse.json({ entries: [] });
+// Format a leaderboard_entries row (or a snapshot row with the same columns) for the frontend
+function formatEntry(row: any, index: number) {
+  return {
+    fid: row.creator_fid,
+    username: row.creator_username,
+    displayName: row.creator_display_name || row.creator_username,
+    pfpUrl: row.creator_pfp_url || '',
+    castHash: row.cast_hash,
+    castText: row.cast_text,
+    description: row.description,
+    castTimestamp: row.cast_timestamp,
+    higherBalance: row.total_higher_staked 
+      ? parseFloat(row.total_higher_staked).toLocaleString('en-US', {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2,
+        })
+      : '0.00',
+    usdValue: row.usd_value
+      ? `$${parseFloat(row.usd_value).toLocaleString('en-US', {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2,
+        })}`
+      : '$0.00',
+    rank: row.rank || index + 1,
+  };
+}
+
+/**
+ * Leaderboard as of the latest snapshot taken at or before `at`
+ */
+async function getHistoricalTop(atParam: string) {
+  const at = parseTimeParam(atParam);
+  if (!at) {
+    return NextResponse.json(
+      { entries: [], error: 'Invalid at: expected a unix timestamp (seconds) or an ISO date' },
+      { status: 400 }
+    );
+  }
+
+  const snapshot = await getSnapshotAt(at);
+  if (!snapshot) {
+    return NextResponse.json(
+      { entries: [], error: `No leaderboard snapshot at or before ${at.toISOString()}` },
+      { status: 404 }
+    );
+  }
+
+  const rows = await getSnapshotEntries(snapshot.id, 10);
+  const entries = rows.map((row, i) => ({
+    ...formatEntry(row, i),
+    supporterCount: Number(row.supporter_count || 0),
+  }));
+
+  return NextResponse.json({ entries, snapshot });
+}
+
+/**
+ * Parse the live leaderboard query: sort, cursor, limit and filters (fid, from, to, minStake).
+ * Returns an error message instead when a parameter is invalid.
+ */
+function parseLeaderboardQuery(searchParams: URLSearchParams): LeaderboardQuery | { error: string } {
+  const sortParam = searchParams.get('sort') || 'staked';
+  if (!LEADERBOARD_SORTS.includes(sortParam as LeaderboardSort)) {
+    return { error: `Invalid sort: expected one of ${LEADERBOARD_SORTS.join(', ')}` };
+  }
+  const sort = sortParam as LeaderboardSort;
+
+  const query: LeaderboardQuery = { sort };
+
+  const cursorParam = searchParams.get('cursor');
+  if (cursorParam) {
+    const cursor = decodeCursor(cursorParam);
+    if (!cursor || cursor.sort !== sort) {
+      return { error: 'Invalid cursor for this sort' };
     }
+    query.after = cursor;
+  }
 
-    // Format data for frontend - with error handling per row
-    const entries = [];
-    
-    for (let i = 0; i < result.rows.length; i++) {
-      const row = result.rows[i];
-      try {
-        console.log(`Processing row ${i + 1}:`, {
-          creator_fid: row.creator_fid,
-          username: row.creator_username,
-          has_description: !!row.description,
-          total_higher_staked: row.total_higher_staked?.toString(),
-          usd_value: row.usd_value?.toString(),
-        });
-        
-        const entry = {
-          fid: row.creator_fid,
-          username: row.creator_username,
-          displayName: row.creator_display_name || row.creator_username,
-          pfpUrl: row.creator_pfp_url || '',
-          castHash: row.cast_hash,
-          castText: row.cast_text,
-          description: row.description,
-          castTimestamp: row.cast_timestamp,
-          higherBalance: row.total_higher_staked 
-            ? parseFloat(row.total_higher_staked).toLocaleString('en-US', {
-                minimumFractionDigits: 2,
-                maximumFractionDigits: 2,
-              })
-            : '0.00',
-          usdValue: row.usd_value
-            ? `$${parseFloat(row.usd_value).toLocaleString('en-US', {
-                minimumFractionDigits: 2,
-                maximumFractionDigits: 2,
-              })}`
-            : '$0.00',
-          rank: row.rank || i + 1,
-        };
-        
-        entries.push(entry);
-        console.log(`Row ${i + 1} formatted successfully`);
-      } catch (rowError: any) {
-        console.error(`Error processing row ${i + 1}:`, rowError.message);
-        console.error('Row data:', row);
-        // Continue to next row
+  const limitParam = searchParams.get('limit');
+  if (limitParam !== null) {
+    const limit = parseInt(limitParam, 10);
+    if (!Number.isFinite(limit) || limit <= 0) {
+      return { error: 'Invalid limit' };
+    }
+    query.limit = Math.min(limit, MAX_PAGE_SIZE);
+  }
+
+  const fidParam = searchParams.get('fid');
+  if (fidParam !== null) {
+    const fid = parseInt(fidParam, 10);
+    if (!Number.isFinite(fid) || fid <= 0) {
+      return { error: 'Invalid fid' };
+    }
+    query.fid = fid;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = searchParams.get(key);
+    if (value !== null) {
+      const date = parseTimeParam(value);
+      if (!date) {
+        return { error: `Invalid ${key}: expected a unix timestamp (seconds) or an ISO date` };
       }
+      query[key] = date;
     }
+  }
 
-    console.log(`=== Returning ${entries.length} entries ===`);
-    return NextResponse.json({ entries });
+  const minStakeParam = searchParams.get('minStake');
+  if (minStakeParam !== null) {
+    const minStake = Number(minStakeParam);
+    if (!Number.isFinite(minStake) || minStake < 0) {
+      return { error: 'Invalid minStake' };
+    }
+    query.minStake = minStake;
+  }
+
+  return query;
+}
+
+/**
+ * Ranked casts, one page at a time.
+ * Query params:
+ * - sort: staked (default) | usd | weighted (higher-days) | supporters | newest
+ * - cursor: nextCursor from the previous page; limit: page size (default 10, max 50)
+ * - fid: creator fid; from / to: cast timestamp window (unix seconds or ISO date); minStake: minimum HIGHER staked
+ * - at: unix seconds or ISO date; returns the snapshot leaderboard instead (other params ignored)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // ?at=<timestamp> returns the leaderboard as it stood at that time
+    const atParam = request.nextUrl.searchParams.get('at');
+    if (atParam !== null) {
+      return await getHistoricalTop(atParam);
+    }
+
+    const query = parseLeaderboardQuery(request.nextUrl.searchParams);
+    if ('error' in query) {
+      return NextResponse.json({ entries: [], error: query.error }, { status: 400 });
+    }
+
+    const page = await getLeaderboardPage(query);
+
+    const entries = page.rows.map(r => ({
+      ...formatEntry(r.row, r.position - 1),
+      position: r.position,
+      totalHigherStaked: r.totalHigherStaked,
+      usdValueRaw: r.usdValue,
+      weightedStake: r.weightedStake,
+      weightedRank: r.row.weighted_rank != null ? Number(r.row.weighted_rank) : null,
+      supporterCount: r.supporterCount,
+    }));
+
+    return NextResponse.json({ entries, nextCursor: page.nextCursor, sort: page.sort });
   } catch (error: any) {
     console.error('=== LEADERBOARD API ERROR ===');
     console.error('Error:', error);
-    console.error('Message:', error.message);
-    console.error('Stack:', error.stack);
     
-    // Return detailed error for debugging
     return NextResponse.json({ 
       entries: [],
-      error: error.message || 'Database error',
-      details: error.stack,
+      error: 'Database error',
     }, { status: 500 });
   }
 }
-
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { sql } from '@vercel/postgres';
+import { getNetworkStakeTotals } from '@/lib/services/db-service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -7,91 +7,20 @@ export const revalidate = 0; // Never cache
 
 export async function GET() {
   try {
-    // Query only non-expired casts (cast_state = 'higher')
-    const result = await sql`
-      SELECT 
-        caster_stake_amounts,
-        caster_stake_unlocked,
-        caster_stake_unlock_times,
-        supporter_stake_amounts,
-        supporter_stake_unlocked,
-        supporter_stake_unlock_times,
-        cast_hash
-      FROM leaderboard_entries
-      WHERE cast_state = 'higher'
-    `;
-
-    let totalCasterStaked = BigInt(0);
-    let totalSupporterStaked = BigInt(0);
-    const castHashes = new Set<string>();
-
-    // Process each row
-    for (const row of result.rows) {
-      const castHash = row.cast_hash;
-      if (castHash) {
-        castHashes.add(castHash);
-      }
-
-      // Process caster stakes
-      const casterAmounts = row.caster_stake_amounts || [];
-      const casterUnlocked = row.caster_stake_unlocked || [];
-      const casterUnlockTimes = row.caster_stake_unlock_times || [];
-
-      for (let i = 0; i < casterAmounts.length; i++) {
-        const amount = casterAmounts[i];
-        const unlocked = casterUnlocked[i] || false;
-
-        // Valid caster stake: !unlocked only (no expiry check)
-        if (!unlocked) {
-          try {
-            // Amounts are stored as wei (string representation of BigInt)
-            const amountBigInt = BigInt(String(amount || '0'));
-            totalCasterStaked += amountBigInt;
-          } catch (e) {
-            // Skip invalid amounts
-          }
-        }
-      }
-
-      // Process supporter stakes
-      // Valid supporter stake: !unlocked && unlockTime matches at least one caster unlockTime
-      const supporterAmounts = row.supporter_stake_amounts || [];
-      const supporterUnlocked = row.supporter_stake_unlocked || [];
-      const supporterUnlockTimes = row.supporter_stake_unlock_times || [];
-
-      // Build Set of ALL caster unlockTimes (regardless of unlocked status)
-      const casterUnlockSet = new Set(
-        casterUnlockTimes.filter((t: any) => typeof t === 'number' && Number.isFinite(t))
-      );
-
-      for (let i = 0; i < supporterAmounts.length; i++) {
-        const amount = supporterAmounts[i];
-        const unlocked = supporterUnlocked[i] || false;
-        const unlockTime = supporterUnlockTimes[i] || 0;
-
-        // Valid supporter stake: !unlocked && unlockTime matches at least one caster unlockTime
-        if (!unlocked && casterUnlockSet.has(unlockTime)) {
-          try {
-            // Amounts are stored as wei (string representation of BigInt)
-            const amountBigInt = BigInt(String(amount || '0'));
-            totalSupporterStaked += amountBigInt;
-          } catch (e) {
-            // Skip invalid amounts
-          }
-        }
-      }
-    }
+    // Valid stake totals over non-expired casts (cast_state = 'higher'); validity follows lib/stake-rules.ts
+    const totals = await getNetworkStakeTotals();
 
     // Convert from wei (18 decimals) to number
-    const totalCasterStakedNum = Number(totalCasterStaked) / 1e18;
-    const totalSupporterStakedNum = Number(totalSupporterStaked) / 1e18;
+    const totalCasterStakedNum = Number(BigInt(totals.totalCasterStaked)) / 1e18;
+    const totalSupporterStakedNum = Number(BigInt(totals.totalSupporterStaked)) / 1e18;
     const totalHigherStakedNum = totalCasterStakedNum + totalSupporterStakedNum;
 
     return NextResponse.json({
       totalHigherStaked: totalHigherStakedNum.toString(),
       totalCasterStaked: totalCasterStakedNum.toString(),
       totalSupporterStaked: totalSupporterStakedNum.toString(),
-      totalCastsStakedOn: castHashes.size,
+      totalCastsStakedOn: totals.totalCastsStakedOn,
+      stakeRulesVersion: totals.stakeRulesVersion,
     }, { headers: { 'Cache-Control': 'no-store' } });
   } catch (error: any) {
     console.error('[Network Stats API] Error:', error);
@@ -101,4 +30,3 @@ export async function GET() {
     );
   }
 }
-
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sendSupporterNotification } from '@/lib/services/notification-service';
 import { getCastByHash } from '@/lib/services/cast-service';
-import { NeynarAPIClient } from '@neynar/nodejs-sdk';
+import { getUserProvider } from '@/lib/providers';
+import { getStakeTokens } from '@/lib/tokens';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -9,7 +10,7 @@ export const dynamic = 'force-dynamic';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { castHash, supporterFid, amount, txHash } = body;
+    const { castHash, supporterFid, amount, txHash, token: tokenSymbol = 'HIGHER' } = body;
     
     if (!castHash || !supporterFid || !amount) {
       return NextResponse.json(
@@ -18,6 +19,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // amount is in the staked token
+    const token = getStakeTokens().find(t => t.symbol === String(tokenSymbol).toUpperCase());
+    if (!token) {
+      return NextResponse.json(
+        { error: `Token ${tokenSymbol} is not stakeable` },
+        { status: 400 }
+      );
+    }
+
     // Get cast data to find owner FID and description
     const castData = await getCastByHash(castHash);
     if (!castData) {
@@ -37,17 +47,12 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Get supporter username from Neynar
+    // Get supporter username from the user provider
     let supporterUsername = `user-${supporterFid}`;
     try {
-      const apiKey = process.env.NEYNAR_API_KEY;
-      if (apiKey) {
-        const neynar = new NeynarAPIClient({ apiKey });
-        const userResponse = await neynar.fetchBulkUsers({ fids: [supporterFid] });
-        const user = userResponse.users?.[0];
-        if (user?.username) {
-          supporterUsername = user.username;
-        }
+      const [user] = await getUserProvider().getUsersByFids([supporterFid]);
+      if (user?.username) {
+        supporterUsername = user.username;
       }
     } catch (err) {
       console.warn('[send-supporter] Failed to fetch supporter username:', err);
@@ -60,7 +65,8 @@ export async function POST(request: NextRequest) {
       amount,
       castHash,
       castData.description,
-      supporterUsername
+      supporterUsername,
+      token
     );
 
     if (success) {
@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { getCastSummary, normalizeCastHashParam } from '@/lib/services/cast-summary-service';
+import { formatOgTokens, OgAvatars, OgFrame, renderOgImage, renderOgMessage } from '@/lib/og-images';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 3:2 embed image for a cast: description, total HIGHER staked, rank and supporter avatars
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { hash: string } }
+) {
+  const castHash = normalizeCastHashParam(params.hash);
+  if (!castHash) {
+    return renderOgMessage('Cast not found');
+  }
+
+  try {
+    const summary = await getCastSummary(castHash, { supporterLimit: 8 });
+    if (!summary) {
+      return renderOgMessage('Cast not found');
+    }
+    const { cast, creator } = summary;
+
+    return renderOgImage(
+      <OgFrame
+        title={cast.rank !== null ? `#${cast.rank} on the menu` : cast.castState === 'expired' ? 'Off the menu' : 'Cooking'}
+        footer={`${summary.totalSupporters} supporter${summary.totalSupporters === 1 ? '' : 's'}`}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: 20 }}>
+          <OgAvatars urls={[creator.pfpUrl]} size={88} />
+          <div style={{ display: 'flex', fontSize: 40, fontWeight: 700 }}>@{creator.username}</div>
+        </div>
+        <div style={{ display: 'flex', fontSize: 48, fontStyle: 'italic', marginTop: 28, lineHeight: 1.2 }}>
+          {cast.description.length > 90 ? cast.description.slice(0, 87) + '...' : cast.description}
+        </div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', marginTop: 'auto', paddingBottom: 20 }}>
+          <OgAvatars urls={summary.topSupporters.map(s => s.pfp)} />
+          <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end' }}>
+            <div style={{ display: 'flex', fontSize: 72, fontWeight: 700 }}>{formatOgTokens(cast.totalHigherStaked)}</div>
+            <div style={{ display: 'flex', fontSize: 28, opacity: 0.6 }}>HIGHER staked</div>
+          </div>
+        </div>
+      </OgFrame>
+    );
+  } catch (error) {
+    console.error('[OG Cast] Error:', error);
+    return renderOgMessage('Higher Network Discovery');
+  }
+}
@@ -0,0 +1,35 @@
+import { getLeaderboardPage } from '@/lib/services/leaderboard-service';
+import { formatOgTokens, OgFrame, renderOgImage, renderOgMessage } from '@/lib/og-images';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 3:2 embed image of the current top-10 menu
+ */
+export async function GET() {
+  try {
+    const { rows } = await getLeaderboardPage({ sort: 'staked', limit: 10 });
+    if (rows.length === 0) {
+      return renderOgMessage('Sold Out');
+    }
+
+    return renderOgImage(
+      <OgFrame title="Today's Menu" footer="Higher Network Discovery · Attention → Belief">
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+          {rows.map((r, i) => (
+            <div key={r.row.cast_hash} style={{ display: 'flex', alignItems: 'flex-end', fontSize: 30 }}>
+              <div style={{ display: 'flex', fontWeight: 700, width: 64 }}>{i + 1}.</div>
+              <div style={{ display: 'flex', fontWeight: 700 }}>@{r.row.creator_username}</div>
+              <div style={{ display: 'flex', flex: 1, borderBottom: '2px dotted rgba(0,0,0,0.3)', margin: '0 16px 8px' }} />
+              <div style={{ display: 'flex', fontWeight: 700 }}>{formatOgTokens(r.totalHigherStaked)}</div>
+            </div>
+          ))}
+        </div>
+      </OgFrame>
+    );
+  } catch (error) {
+    console.error('[OG Leaderboard] Error:', error);
+    return renderOgMessage('Higher Network Discovery');
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { getCreatorProfile } from '@/lib/services/profile-service';
+import { formatOgTokens, OgAvatars, OgFrame, renderOgImage, renderOgMessage } from '@/lib/og-images';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
+      <div style={{ display: 'flex', fontSize: 56, fontWeight: 700 }}>{value}</div>
+      <div style={{ display: 'flex', fontSize: 26, opacity: 0.6 }}>{label}</div>
+    </div>
+  );
+}
+
+/**
+ * 3:2 embed image of a user's stake summary
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { fid: string } }
+) {
+  const fid = parseInt(params.fid, 10);
+  if (!Number.isFinite(fid) || fid <= 0) {
+    return renderOgMessage('User not found');
+  }
+
+  try {
+    const profile = await getCreatorProfile(fid);
+    if (!profile) {
+      return renderOgMessage('User not found');
+    }
+
+    const backedStake = profile.backedCasts.reduce((sum, cast) => sum + cast.activeStake, 0);
+
+    return renderOgImage(
+      <OgFrame title="Stake Summary" footer={`${profile.casts.length} cast${profile.casts.length === 1 ? '' : 's'} cooked`}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 20 }}>
+          <OgAvatars urls={[profile.pfpUrl]} size={88} />
+          <div style={{ display: 'flex', fontSize: 44, fontWeight: 700 }}>@{profile.username}</div>
+        </div>
+        <div style={{ display: 'flex', marginTop: 48, gap: 24 }}>
+          <Stat label="HIGHER on own casts" value={formatOgTokens(profile.activeCasterStake)} />
+          <Stat label="HIGHER backing others" value={formatOgTokens(backedStake)} />
+        </div>
+        <div style={{ display: 'flex', marginTop: 36, gap: 24 }}>
+          <Stat label="higher-days of conviction" value={formatOgTokens(profile.casterConviction)} />
+          <Stat label="supporters attracted" value={String(profile.supporters.length)} />
+        </div>
+        <div style={{ display: 'flex', marginTop: 'auto', paddingBottom: 16 }}>
+          <OgAvatars urls={profile.supporters.slice(0, 8).map(s => s.pfp)} size={56} />
+        </div>
+      </OgFrame>
+    );
+  } catch (error) {
+    console.error('[OG User] Error:', error);
+    return renderOgMessage('Higher Network Discovery');
+  }
+}
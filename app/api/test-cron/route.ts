@@ -25,10 +25,12 @@ export async function POST(request: Request) {
 
     // Step 1: Run the cron job
     console.log('Step 1: Triggering cron job...');
-    const cronUrl = `${baseUrl}/api/cron/update-staking-leaderboard?secret=${cronSecret}`;
+    const cronUrl = `${baseUrl}/api/cron/update-staking-leaderboard`;
     console.log('Cron URL:', cronUrl);
     
-    const cronResponse = await fetch(cronUrl);
+    const cronResponse = await fetch(cronUrl, {
+      headers: { 'Authorization': `Bearer ${cronSecret}` },
+    });
     console.log('Cron response status:', cronResponse.status);
     console.log('Cron response headers:', Object.fromEntries(cronResponse.headers.entries()));
     
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { NeynarAPIClient } from '@neynar/nodejs-sdk';
-import { sql } from '@vercel/postgres';
 import { convertAmount } from '@/lib/utils/token';
+import { getPriceProvider, getUserProvider, getProfileAddresses } from '@/lib/providers';
+import { getLockupsForFid } from '@/lib/services/db-service';
 import { createPublicClient, http } from 'viem';
 import { base } from 'viem/chains';
 
@@ -46,20 +46,6 @@ function createCDPClient() {
   });
 }
 
-type DbRow = {
-  cast_hash: string;
-  creator_fid: number;
-  caster_stake_lockup_ids: number[] | null;
-  caster_stake_amounts: any[] | null;
-  caster_stake_unlock_times: number[] | null;
-  caster_stake_unlocked: boolean[] | null;
-  supporter_stake_lockup_ids: number[] | null;
-  supporter_stake_amounts: any[] | null;
-  supporter_stake_fids: number[] | null;
-  supporter_stake_unlock_times: number[] | null;
-  supporter_stake_unlocked: boolean[] | null;
-};
-
 type UserLockup = {
   lockupId: string;
   amount: string;
@@ -69,30 +55,6 @@ type UserLockup = {
   unlocked: boolean;
 };
 
-function normalizeAddress(value: string | null | undefined): string | null {
-  if (!value) return null;
-  return value.toLowerCase();
-}
-
-function asNumber(value: any, fallback = 0): number {
-  const num = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
-  return Number.isFinite(num) ? num : fallback;
-}
-
-function asBoolean(value: any, fallback = false): boolean {
-  if (typeof value === 'boolean') return value;
-  if (typeof value === 'number') return value !== 0;
-  if (typeof value === 'string') {
-    const normalized = value.toLowerCase();
-    return normalized === 'true' || normalized === '1';
-  }
-  return fallback;
-}
-
-function toArray<T>(value: T[] | null | undefined): T[] {
-  return Array.isArray(value) ? value : [];
-}
-
 function formatUsd(total: number, pricePerToken: number): string {
   if (!Number.isFinite(total) || !Number.isFinite(pricePerToken)) {
     return '$0.00';
@@ -122,17 +84,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const neynarApiKey = process.env.NEYNAR_API_KEY;
-    if (!neynarApiKey) {
-      return NextResponse.json(
-        { error: 'NEYNAR_API_KEY not configured' },
-        { status: 500, headers: { 'Cache-Control': 'no-store' } },
-      );
-    }
-
-    const neynar = new NeynarAPIClient({ apiKey: neynarApiKey });
-    const userResponse = await neynar.fetchBulkUsers({ fids: [fid] });
-    const user = userResponse.users?.[0];
+    const [user] = await getUserProvider().getUsersByFids([fid]);
     if (!user) {
       return NextResponse.json(
         { error: 'user not found' },
@@ -141,27 +93,9 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch HIGHER price (5 min cache)
-    let pricePerToken = 0;
-    try {
-      const priceResponse = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=higher&vs_currencies=usd', {
-        next: { revalidate: 300 },
-      });
-      if (priceResponse.ok) {
-        const priceData = await priceResponse.json();
-        pricePerToken = priceData?.higher?.usd || 0;
-      }
-    } catch (err) {
-      console.warn('[user/balance] Failed to fetch HIGHER price:', err);
-    }
+    const pricePerToken = (await getPriceProvider().getUsdPrice('higher')) ?? 0;
 
-    const walletSet = new Set<string>();
-    const custody = normalizeAddress(user.custody_address);
-    if (custody) walletSet.add(custody);
-    for (const addr of user.verified_addresses?.eth_addresses ?? []) {
-      const normalized = normalizeAddress(addr);
-      if (normalized) walletSet.add(normalized);
-    }
-    const walletAddresses = Array.from(walletSet);
+    const walletAddresses = getProfileAddresses(user);
     const walletBalanceMap = await fetchWalletBalances(walletAddresses);
     const walletEntries = walletAddresses.map((address) => {
       const amount = walletBalanceMap.get(address) ?? '0';
@@ -176,64 +110,15 @@ export async function GET(request: NextRequest) {
       return sum + (Number.isFinite(value) ? value : 0);
     }, 0);
 
-    const result = await sql<DbRow>`
-      SELECT
-        cast_hash,
-        creator_fid,
-        caster_stake_lockup_ids,
-        caster_stake_amounts,
-        caster_stake_unlock_times,
-        caster_stake_unlocked,
-        supporter_stake_lockup_ids,
-        supporter_stake_amounts,
-        supporter_stake_fids,
-        supporter_stake_unlock_times,
-        supporter_stake_unlocked
-      FROM leaderboard_entries
-      WHERE creator_fid = ${fid} OR ${fid} = ANY(supporter_stake_fids)
-    `;
-
-    const lockups: UserLockup[] = [];
-
-    for (const row of result.rows) {
-      if (row.creator_fid === fid) {
-        const lockupIds = toArray(row.caster_stake_lockup_ids);
-        const amounts = toArray(row.caster_stake_amounts);
-        const unlockTimes = toArray(row.caster_stake_unlock_times);
-        const unlockedFlags = toArray(row.caster_stake_unlocked);
-
-        for (let i = 0; i < lockupIds.length; i++) {
-          const amount = convertAmount(amounts[i] ?? '0');
-          lockups.push({
-            lockupId: String(lockupIds[i]),
-            amount,
-            unlockTime: asNumber(unlockTimes[i]),
-            castHash: row.cast_hash,
-            stakeType: 'caster',
-            unlocked: asBoolean(unlockedFlags[i]),
-          });
-        }
-      }
-
-      const supporterFids = toArray(row.supporter_stake_fids);
-      const supporterLockupIds = toArray(row.supporter_stake_lockup_ids);
-      const supporterAmounts = toArray(row.supporter_stake_amounts);
-      const supporterUnlockTimes = toArray(row.supporter_stake_unlock_times);
-      const supporterUnlocked = toArray(row.supporter_stake_unlocked);
-
-      for (let i = 0; i < supporterFids.length; i++) {
-        if (asNumber(supporterFids[i]) !== fid) continue;
-        const amount = convertAmount(supporterAmounts[i] ?? '0');
-        lockups.push({
-          lockupId: String(supporterLockupIds[i]),
-          amount,
-          unlockTime: asNumber(supporterUnlockTimes[i]),
-          castHash: row.cast_hash,
-          stakeType: 'supporter',
-          unlocked: asBoolean(supporterUnlocked[i]),
-        });
-      }
-    }
+    // Caster stakes on the user's casts and the user's supporter stakes, amounts in HIGHER
+    const lockups: UserLockup[] = (await getLockupsForFid(fid)).map(l => ({
+      lockupId: String(l.lockupId),
+      amount: convertAmount(l.amount),
+      unlockTime: l.unlockTime,
+      castHash: l.castHash,
+      stakeType: l.stakeType,
+      unlocked: l.unlocked,
+    }));
 
     const totals = lockups.reduce(
       (acc, lockup) => {
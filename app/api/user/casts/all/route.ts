@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sql } from '@vercel/postgres';
+import { getLockupsForCasts, groupLockupsByCast, LockupRecord } from '@/lib/services/db-service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -55,22 +56,24 @@ export async function GET(request: NextRequest) {
       `;
 
       if (dbResult.rows && dbResult.rows.length > 0) {
-        const casts = dbResult.rows.map((row) => ({
-          hash: row.cast_hash,
-          text: row.cast_text,
-          description: row.description,
-          timestamp: row.cast_timestamp,
-          castState: row.cast_state || 'higher',
-          rank: row.rank,
-          totalHigherStaked: parseFloat(row.total_higher_staked || '0'),
-          casterStakeLockupIds: row.caster_stake_lockup_ids || [],
-          casterStakeAmounts: row.caster_stake_amounts?.map((a: any) => a.toString()) || [],
-          casterStakeUnlockTimes: row.caster_stake_unlock_times || [],
-          supporterStakeLockupIds: row.supporter_stake_lockup_ids || [],
-          supporterStakeAmounts: row.supporter_stake_amounts?.map((a: any) => a.toString()) || [],
-          supporterStakeFids: row.supporter_stake_fids || [],
-          username: row.creator_username || undefined,
-        }));
+        const lockupsByCast = groupLockupsByCast(await getLockupsForCasts(dbResult.rows.map(row => row.cast_hash)));
+        const casts = dbResult.rows.map((row) => {
+          const lockups = lockupsByCast.get(row.cast_hash) ?? [];
+          const casterLockups: LockupRecord[] = lockups.filter(l => l.stakeType === 'caster');
+          const supporterLockups: LockupRecord[] = lockups.filter(l => l.stakeType === 'supporter');
+          return {
+            hash: row.cast_hash,
+            text: row.cast_text,
+            description: row.description,
+            timestamp: row.cast_timestamp,
+            castState: row.cast_state || 'higher',
+            rank: row.rank,
+            totalHigherStaked: parseFloat(row.total_higher_staked || '0'),
+            casterLockups,
+            supporterLockups,
+            username: row.creator_username || undefined,
+          };
+        });
 
         console.log(`[User Casts All API] Found ${casts.length} casts in database`);
         
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sql } from '@vercel/postgres';
-import { extractDescription, isValidHigherCast } from '@/lib/cast-helpers';
+import { extractDescription, isValidProviderCast } from '@/lib/cast-helpers';
+import { getCastProvider } from '@/lib/providers';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -57,34 +58,14 @@ export async function GET(request: NextRequest) {
       // Continue to Neynar fallback
     }
 
-    // Step 2: Fallback to Neynar if not found in database (minimal - mostly for new casts)
-    console.log(`[User Casts API] No cast found in database, checking Neynar...`);
-    
-    const neynarApiKey = process.env.NEYNAR_API_KEY;
-
-    if (!neynarApiKey || neynarApiKey === 'your_neynar_api_key_here') {
-      return NextResponse.json({
-        hasCast: false,
-        totalStaked: 0,
-        rank: null,
-        state: 'invalid',
-      });
-    }
-
-    // Lazy import Neynar SDK
-    const { NeynarAPIClient } = await import('@neynar/nodejs-sdk');
-    const neynarClient = new NeynarAPIClient({ apiKey: neynarApiKey });
+    // Step 2: Fallback to the cast provider if not found in database (minimal - mostly for new casts)
+    console.log(`[User Casts API] No cast found in database, checking cast provider...`);
 
     // Fetch user's casts
-    const userCasts = await neynarClient.fetchCastsForUser({
-      fid: fid,
-      limit: 25,
-    });
+    const userCasts = await getCastProvider().getCastsForUser(fid, 25);
 
     // Filter for /higher channel casts with keyphrase using consolidated validation
-    const higherCasts = (userCasts.casts || []).filter((cast: any) => {
-      return isValidHigherCast(cast.text, cast);
-    });
+    const higherCasts = userCasts.filter(isValidProviderCast);
 
     if (higherCasts.length > 0) {
       // Take most recent matching cast
@@ -92,7 +73,7 @@ export async function GET(request: NextRequest) {
       const description = extractDescription(latestCast.text);
       
       if (description) {
-        console.log(`[User Casts API] Found cast via Neynar: ${latestCast.hash}`);
+        console.log(`[User Casts API] Found cast via cast provider: ${latestCast.hash}`);
         
         return NextResponse.json({
           hasCast: true,
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Hex } from 'viem';
+import { confirmLockupTransaction } from '@/lib/services/lockup-ingest-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function normalizeTxHash(hash: string | null | undefined): Hex | null {
+  if (!hash) return null;
+  let h = String(hash).trim().toLowerCase();
+  if (!h.startsWith('0x')) {
+    h = `0x${h}`;
+  }
+  return /^0x[0-9a-f]{64}$/.test(h) ? (h as Hex) : null;
+}
+
+/**
+ * Confirm a createLockUp transaction: fetch the receipt from Base, decode LockUpCreated,
+ * validate with isValidStake and record the stake on its cast right away
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const txHash = normalizeTxHash(body.txHash);
+
+    if (!txHash) {
+      return NextResponse.json({ error: 'invalid payload' }, { status: 400 });
+    }
+
+    const result = await confirmLockupTransaction(txHash);
+
+    switch (result.status) {
+      case 'pending':
+        return NextResponse.json({ error: 'transaction not found' }, { status: 404 });
+      case 'reverted':
+        return NextResponse.json({ error: 'transaction reverted' }, { status: 422 });
+      case 'no_lockup':
+        return NextResponse.json({ error: 'no LockUpCreated event in transaction' }, { status: 422 });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      lockups: result.lockups,
+      castsUpdated: result.castsUpdated,
+      skipped: result.skipped,
+    });
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || 'failed' }, { status: 500 });
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { updateLockupUnlockedState } from '@/lib/services/db-service';
+import { getLockupById, recomputeRanks, setLockupUnlocked } from '@/lib/services/db-service';
+import { rebuildCastFromLockups } from '@/lib/indexers/lockupsFromDune';
+import { createBaseClient } from '@/lib/base-client';
+import { LOCKUP_ABI, LOCKUP_CONTRACT } from '@/lib/contracts';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -25,18 +28,30 @@ export async function POST(req: NextRequest) {
     const lockUpId = Number(body.lockUpId);
     const stakeType = body.stakeType === 'caster' || body.stakeType === 'supporter' ? body.stakeType : null;
 
-    if (!castHash || !Number.isFinite(lockUpId) || !stakeType) {
+    if (!castHash || !Number.isInteger(lockUpId) || lockUpId < 0 || !stakeType) {
       return NextResponse.json({ error: 'invalid payload' }, { status: 400 });
     }
 
-    const updated = await updateLockupUnlockedState(castHash, {
-      type: stakeType,
-      lockupId: lockUpId,
-      unlocked: true,
+    const lockup = await getLockupById(lockUpId);
+    if (!lockup || lockup.castHash !== castHash || lockup.stakeType !== stakeType) {
+      return NextResponse.json({ error: 'lockup not found' }, { status: 404 });
+    }
+
+    // Unlocked never reverts, so only the contract may say so: the request body alone is not trusted
+    const [, , , unlockedOnChain] = await createBaseClient().readContract({
+      address: LOCKUP_CONTRACT,
+      abi: LOCKUP_ABI,
+      functionName: 'lockUps',
+      args: [BigInt(lockUpId)],
     });
+    if (!unlockedOnChain) {
+      return NextResponse.json({ error: 'lockup is still locked on-chain' }, { status: 409 });
+    }
 
-    if (!updated) {
-      return NextResponse.json({ error: 'lockup not found' }, { status: 404 });
+    // The cast's totals and state are rebuilt from its lockups
+    if (await setLockupUnlocked(lockUpId)) {
+      await rebuildCastFromLockups(castHash);
+      await recomputeRanks();
     }
 
     return NextResponse.json({ ok: true });
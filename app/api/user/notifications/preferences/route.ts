@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPreferenceDefinition, NotificationPreferenceKey, validatePreferenceThreshold } from '@/lib/notification-preferences';
+import {
+  getNotificationPreferences,
+  NotificationPreferenceUpdate,
+  saveNotificationPreferences,
+} from '@/lib/services/notification-preferences-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const fidParam = request.nextUrl.searchParams.get('fid');
+    if (!fidParam) {
+      return NextResponse.json(
+        { error: 'fid is required' },
+        { status: 400 }
+      );
+    }
+
+    const fid = parseInt(fidParam, 10);
+    if (isNaN(fid)) {
+      return NextResponse.json(
+        { error: 'Invalid fid' },
+        { status: 400 }
+      );
+    }
+
+    const preferences = await getNotificationPreferences(fid);
+    return NextResponse.json({ preferences });
+  } catch (err: any) {
+    console.error('[notifications/preferences] Error:', err);
+    return NextResponse.json(
+      { error: 'Failed to load notification preferences', message: err?.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { fid, preferences: [{ key, enabled?, threshold? }] }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { preferences } = body;
+
+    if (body.fid === undefined || body.fid === null || body.fid === '') {
+      return NextResponse.json(
+        { error: 'fid is required' },
+        { status: 400 }
+      );
+    }
+
+    const fid = parseInt(body.fid, 10);
+    if (isNaN(fid)) {
+      return NextResponse.json(
+        { error: 'Invalid fid' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(preferences) || preferences.length === 0) {
+      return NextResponse.json(
+        { error: 'preferences must be a non-empty array' },
+        { status: 400 }
+      );
+    }
+
+    const updates: NotificationPreferenceUpdate[] = [];
+    for (const pref of preferences) {
+      if (!getPreferenceDefinition(pref?.key)) {
+        return NextResponse.json(
+          { error: `Unknown notification type ${pref?.key}` },
+          { status: 400 }
+        );
+      }
+      const key = pref.key as NotificationPreferenceKey;
+      const update: NotificationPreferenceUpdate = { key };
+
+      if (pref.enabled !== undefined) {
+        if (typeof pref.enabled !== 'boolean') {
+          return NextResponse.json(
+            { error: 'enabled must be a boolean' },
+            { status: 400 }
+          );
+        }
+        update.enabled = pref.enabled;
+      }
+
+      if (pref.threshold !== undefined) {
+        const threshold = parseFloat(pref.threshold);
+        const error = validatePreferenceThreshold(key, threshold);
+        if (error) {
+          return NextResponse.json(
+            { error },
+            { status: 400 }
+          );
+        }
+        update.threshold = threshold;
+      }
+
+      updates.push(update);
+    }
+
+    const saved = await saveNotificationPreferences(fid, updates);
+    console.log('[notifications/preferences] Updated preferences for fid:', fid, updates.map(u => u.key));
+
+    return NextResponse.json({
+      success: true,
+      preferences: saved,
+    });
+  } catch (err: any) {
+    console.error('[notifications/preferences] Error:', err);
+    return NextResponse.json(
+      { error: 'Failed to update notification preferences', message: err?.message },
+      { status: 500 }
+    );
+  }
+}
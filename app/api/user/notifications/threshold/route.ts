@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sql } from '@vercel/postgres';
+import { saveNotificationPreferences } from '@/lib/services/notification-preferences-service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -46,6 +47,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The new-support preference holds the threshold that is enforced (see /api/user/notifications/preferences)
+    await saveNotificationPreferences(Number(fid), [{ key: 'supporter_added', threshold: thresholdNum }]);
+
     console.log('[notifications/threshold] Updated threshold for fid:', fid, 'to', thresholdNum);
 
     return NextResponse.json({ 
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getUserProvider } from '@/lib/providers';
 
 // Force Node.js runtime
 export const runtime = 'nodejs';
@@ -26,30 +27,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Check if Neynar API key is available
-    const neynarApiKey = process.env.NEYNAR_API_KEY;
-    
-    if (!neynarApiKey || neynarApiKey === 'your_neynar_api_key_here') {
-      // Return mock data when Neynar API key is not configured
-      console.warn('Neynar API key not configured, returning mock data');
-      return NextResponse.json({
-        fid,
-        username: 'demo_user',
-        displayName: 'Demo User',
-        pfpUrl: 'https://via.placeholder.com/150',
-        walletAddress: '0x0000000000000000000000000000000000000000',
-        bio: 'Neynar API key not configured',
-      });
-    }
-
-    // Lazy import Neynar SDK to avoid client-side bundling
-    const { NeynarAPIClient } = await import('@neynar/nodejs-sdk');
-    const neynarClient = new NeynarAPIClient({ apiKey: neynarApiKey });
-    
-    // Fetch user profile from Neynar
     try {
-      const userResponse = await neynarClient.fetchBulkUsers({ fids: [fid] });
-      const user = userResponse.users[0];
+      const [user] = await getUserProvider().getUsersByFids([fid]);
 
       if (!user) {
         return NextResponse.json(
@@ -59,22 +38,22 @@ export async function GET(request: NextRequest) {
       }
 
       // Extract verified Ethereum address (primary custody or verified address)
-      const walletAddress = user.verified_addresses?.eth_addresses?.[0] || 
-                           user.custody_address || 
+      const walletAddress = user.verifiedAddresses[0] ||
+                           user.custodyAddress ||
                            null;
 
       return NextResponse.json({
         fid: user.fid,
         username: user.username,
-        displayName: user.display_name || user.username,
-        pfpUrl: user.pfp_url || '',
+        displayName: user.displayName || user.username,
+        pfpUrl: user.pfpUrl || '',
         walletAddress,
-        bio: user.profile?.bio?.text || '',
+        bio: user.bio,
       });
-    } catch (neynarError) {
-      console.error('Neynar API error:', neynarError);
+    } catch (providerError) {
+      console.error('User provider error:', providerError);
       return NextResponse.json(
-        { error: 'Failed to fetch user profile from Neynar' },
+        { error: 'Failed to fetch user profile' },
         { status: 500 }
       );
     }
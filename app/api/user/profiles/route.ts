@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getUserProvider } from '@/lib/providers';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -35,21 +36,10 @@ export async function GET(request: NextRequest) {
     // Safety cap (Neynar fetchBulkUsers supports up to 100)
     const capped = fids.slice(0, 100);
 
-    const neynarApiKey = process.env.NEYNAR_API_KEY;
-    if (!neynarApiKey || neynarApiKey === 'your_neynar_api_key_here') {
-      return NextResponse.json(
-        { users: capped.map(fid => ({ fid, pfpUrl: '' })) },
-        { headers: { 'Cache-Control': 'no-store' } }
-      );
-    }
-
-    const { NeynarAPIClient } = await import('@neynar/nodejs-sdk');
-    const neynarClient = new NeynarAPIClient({ apiKey: neynarApiKey });
-
-    const res = await neynarClient.fetchBulkUsers({ fids: capped });
+    const users = await getUserProvider().getUsersByFids(capped);
     const map = new Map<number, string>();
-    for (const u of (res.users ?? [])) {
-      map.set(u.fid, u.pfp_url || '');
+    for (const u of users) {
+      map.set(u.fid, u.pfpUrl || '');
     }
 
     return NextResponse.json(
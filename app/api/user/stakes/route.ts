@@ -1,15 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { NeynarAPIClient } from '@neynar/nodejs-sdk';
-import { fetchAllLatestResults } from '@/lib/dune';
-import { getHigherCast, HigherCastData } from '@/lib/services/db-service';
-import { buildInFilter, normalizeAddr, normalizeHash, serverSort, convertAmount } from './utils';
+import { getLockupSource, getUserProvider, getProfileAddresses } from '@/lib/providers';
+import { getLockupsByIds, getLockupsForFid } from '@/lib/services/db-service';
+import { getLatestStakeTokenPrices, valueLockup } from '@/lib/services/price-service';
+import { getKnownStakeToken, isHigherToken, HIGHER_STAKE_TOKEN } from '@/lib/tokens';
+import { formatUnits } from 'viem';
+import { normalizeHash, serverSort, convertAmount } from './utils';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const QUERY_ID = 6214515;
-const COLUMNS = ['sender','lockTime','lockUpId','title','amount','receiver','unlockTime','unlocked'];
-
 export async function GET(req: NextRequest) {
   try {
     const search = req.nextUrl.searchParams;
@@ -27,48 +26,22 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'invalid fid' }, { status: 400 });
     }
 
-    // Resolve wallets via Neynar (custody + verified)
-    const neynarApiKey = process.env.NEYNAR_API_KEY;
-    if (!neynarApiKey) {
-      return NextResponse.json({ error: 'NEYNAR_API_KEY not configured' }, { status: 500 });
-    }
-    const neynar = new NeynarAPIClient({ apiKey: neynarApiKey });
-    const users = await neynar.fetchBulkUsers({ fids: [fid] });
-    const user = users.users?.[0];
+    // Resolve wallets (custody + verified)
+    const [user] = await getUserProvider().getUsersByFids([fid]);
     if (!user) {
       return NextResponse.json({ items: [], nextOffset: null });
     }
-    const walletsSet = new Set<string>();
-    if (user.custody_address) walletsSet.add(normalizeAddr(user.custody_address)!);
-    for (const ea of (user.verified_addresses?.eth_addresses ?? [])) {
-      const n = normalizeAddr(ea);
-      if (n) walletsSet.add(n);
-    }
-    if (walletsSet.size === 0) {
+    const addresses = getProfileAddresses(user);
+    if (addresses.length === 0) {
       return NextResponse.json({ items: [], nextOffset: null });
     }
 
-    const addresses = Array.from(walletsSet);
-    const filters = buildInFilter(addresses);
+    // Fetch every locked lockup for the wallets, then sort and page server-side
+    const rows = await getLockupSource().fetchLockupRows({ unlocked: false, receivers: addresses });
 
-    // Fetch from Dune; get a reasonable chunk to sort properly server-side
-    const rows = await fetchAllLatestResults(QUERY_ID, {
-      columns: COLUMNS,
-      limit: 1000, // fetch a window; server-side sort then page
-      filters,
-    });
-
-    const castHashes = Array.from(new Set(
-      rows
-        .map((r: any) => normalizeHash(String(r.title || '')))
-        .filter((h): h is string => Boolean(h))
-    ));
-    const castCache = new Map<string, HigherCastData | null>();
-    await Promise.all(
-      castHashes.map(async hash => {
-        const data = await getHigherCast(hash);
-        castCache.set(hash, data);
-      })
+    // Stake type, unlock state and amount as recorded in the lockups table
+    const recorded = new Map(
+      (await getLockupsByIds(rows.map((r: any) => Number(r.lockUpId)))).map(l => [l.lockupId, l])
     );
 
     const normalized = rows.map((r: any) => {
@@ -78,29 +51,11 @@ export async function GET(req: NextRequest) {
       let unlocked = Boolean(r.unlocked);
       let stakeType: 'caster' | 'supporter' | null = null;
 
-      if (castHash) {
-        const cast = castCache.get(castHash);
-        if (cast) {
-          const casterIdx = cast.casterStakeLockupIds?.findIndex((id: number) => Number(id) === lockUpId) ?? -1;
-          if (casterIdx !== -1) {
-            stakeType = 'caster';
-            unlocked = cast.casterStakeUnlocked?.[casterIdx] ?? unlocked;
-            const raw = cast.casterStakeAmounts?.[casterIdx];
-            if (raw !== undefined) {
-              overrideAmount = convertAmount(raw);
-            }
-          } else {
-            const supporterIdx = cast.supporterStakeLockupIds?.findIndex((id: number) => Number(id) === lockUpId) ?? -1;
-            if (supporterIdx !== -1) {
-              stakeType = 'supporter';
-              unlocked = cast.supporterStakeUnlocked?.[supporterIdx] ?? unlocked;
-              const raw = cast.supporterStakeAmounts?.[supporterIdx];
-              if (raw !== undefined) {
-                overrideAmount = convertAmount(raw);
-              }
-            }
-          }
-        }
+      const lockup = castHash ? recorded.get(lockUpId) : undefined;
+      if (lockup && lockup.castHash === castHash) {
+        stakeType = lockup.stakeType;
+        unlocked = lockup.unlocked;
+        overrideAmount = convertAmount(lockup.amount);
       }
 
       return {
@@ -114,16 +69,53 @@ export async function GET(req: NextRequest) {
         unlocked,
         title: castHash || String(r.title || ''),
         stakeType,
+        token: 'HIGHER',
       };
     });
 
-    const totalActiveStaked = normalized.reduce((sum, item) => {
-      if (item.unlocked) return sum;
+    // The lockup source only has HIGHER lockups; stakes in other tokens (e.g. native ETH) come from the lockups table
+    const seen = new Set(normalized.map(item => item.lockUpId));
+    const otherTokenStakes = (await getLockupsForFid(fid))
+      .filter(l => !l.unlocked && !seen.has(l.lockupId) && l.token && !isHigherToken(l.token))
+      .flatMap(l => {
+        const token = getKnownStakeToken(l.token);
+        if (!token) return [];
+        return [{
+          lockUpId: l.lockupId,
+          castHash: l.castHash,
+          sender: (l.sender || '').toLowerCase(),
+          receiver: (l.receiver || '').toLowerCase(),
+          amount: formatUnits(BigInt(l.tokenAmount ?? l.amount), token.decimals),
+          unlockTime: l.unlockTime,
+          lockTime: l.lockTime || 0,
+          unlocked: l.unlocked,
+          title: l.castHash,
+          stakeType: l.stakeType,
+          token: token.symbol,
+        }];
+      });
+    normalized.push(...otherTokenStakes);
+
+    // USD value at lock time and now, in each lockup's own token (lib/services/price-service.ts)
+    const stored = new Map((await getLockupsByIds(normalized.map(item => item.lockUpId))).map(l => [l.lockupId, l]));
+    const prices = await getLatestStakeTokenPrices();
+    const higherPrice = prices[HIGHER_STAKE_TOKEN.priceId];
+    const valued = normalized.map(item => {
+      const lockup = stored.get(item.lockUpId);
+      const valuation = lockup
+        ? valueLockup(lockup, prices)
+        : { lockUsdValue: null, usdValue: higherPrice > 0 ? Number(item.amount) * higherPrice : null };
+      return { ...item, ...valuation };
+    });
+
+    // Total is in HIGHER, shown against the wallets' HIGHER balance
+    const totalActiveStaked = valued.reduce((sum, item) => {
+      if (item.unlocked || item.token !== 'HIGHER') return sum;
       const num = Number(item.amount);
       return sum + (Number.isFinite(num) ? num : 0);
     }, 0);
 
-    const sorted = serverSort(normalized, connectedAddress);
+    const sorted = serverSort(valued, connectedAddress);
     const paged = sorted.slice(offset, offset + pageSize);
     const nextOffset = offset + pageSize < sorted.length ? offset + pageSize : null;
 
@@ -17,11 +17,6 @@ export function normalizeHash(hash: string | null | undefined): string | null {
   return h;
 }
 
-export function buildInFilter(addresses: string[]): string {
-  const quoted = addresses.map(a => `'${a}'`).join(',');
-  return `(unlocked = false) AND (receiver IN (${quoted}))`;
-}
-
 export function serverSort(lockups: any[], connectedAddress?: string | null): any[] {
   const now = Math.floor(Date.now() / 1000);
   const conn = normalizeAddr(connectedAddress || '');
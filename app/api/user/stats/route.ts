@@ -1,18 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { NeynarAPIClient } from '@neynar/nodejs-sdk';
 import { sql } from '@vercel/postgres';
-import { createClient } from '@vercel/postgres';
-import { fetchAllLatestResults } from '@/lib/dune';
-import { getHigherCast } from '@/lib/services/db-service';
-import { buildInFilter, normalizeAddr, normalizeHash, convertAmount } from '../stakes/utils';
+import { getLockupSource, getUserProvider, getProfileAddresses } from '@/lib/providers';
+import { getHigherCast, getLockupsByIds, getLockupsForCasts, getLockupsForFid } from '@/lib/services/db-service';
+import { getLatestStakeTokenPrices, sumValuations, valueLockup } from '@/lib/services/price-service';
+import { getStakeRules } from '@/lib/stake-rules';
+import { normalizeHash, convertAmount } from '../stakes/utils';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const revalidate = 0; // Never cache
 
-const QUERY_ID = 6214515;
-const COLUMNS = ['sender','lockTime','lockUpId','title','amount','receiver','unlockTime','unlocked'];
-
 export async function GET(req: NextRequest) {
   try {
     const search = req.nextUrl.searchParams;
@@ -26,14 +23,9 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'invalid fid' }, { status: 400 });
     }
 
-    // Resolve wallets via Neynar (custody + verified)
-    const neynarApiKey = process.env.NEYNAR_API_KEY;
-    if (!neynarApiKey) {
-      return NextResponse.json({ error: 'NEYNAR_API_KEY not configured' }, { status: 500 });
-    }
-    const neynar = new NeynarAPIClient({ apiKey: neynarApiKey });
-    const users = await neynar.fetchBulkUsers({ fids: [fid] });
-    const user = users.users?.[0];
+    // Resolve wallets (custody + verified)
+    const users = getUserProvider();
+    const [user] = await users.getUsersByFids([fid]);
     if (!user) {
       return NextResponse.json({
         totalUserStaked: '0',
@@ -46,13 +38,8 @@ export async function GET(req: NextRequest) {
         totalSupporterStakesOnUserCasts: '0',
       });
     }
-    const walletsSet = new Set<string>();
-    if (user.custody_address) walletsSet.add(normalizeAddr(user.custody_address)!);
-    for (const ea of (user.verified_addresses?.eth_addresses ?? [])) {
-      const n = normalizeAddr(ea);
-      if (n) walletsSet.add(n);
-    }
-    if (walletsSet.size === 0) {
+    const addresses = getProfileAddresses(user);
+    if (addresses.length === 0) {
       return NextResponse.json({
         totalUserStaked: '0',
         totalCasterStaked: '0',
@@ -65,15 +52,8 @@ export async function GET(req: NextRequest) {
       });
     }
 
-    const addresses = Array.from(walletsSet);
-    const filters = buildInFilter(addresses);
-
-    // Fetch from Dune
-    const rows = await fetchAllLatestResults(QUERY_ID, {
-      columns: COLUMNS,
-      limit: 1000, // Get all user's lockups
-      filters,
-    });
+    // Get all of the user's locked lockups
+    const rows = await getLockupSource().fetchLockupRows({ unlocked: false, receivers: addresses });
 
     const castHashes = Array.from(new Set(
       rows
@@ -89,6 +69,11 @@ export async function GET(req: NextRequest) {
       })
     );
 
+    // Stake type, unlock state and amount as recorded in the lockups table
+    const recorded = new Map(
+      (await getLockupsByIds(rows.map((r: any) => Number(r.lockUpId)))).map(l => [l.lockupId, l])
+    );
+
     let totalCasterStaked = BigInt(0);
     let totalSupporterStaked = BigInt(0);
     const supportedCastsMap = new Map<string, { castHash: string; totalAmount: bigint }>();
@@ -111,29 +96,11 @@ export async function GET(req: NextRequest) {
       const duneAmount = r.amount;
       const duneUnlocked = r.unlocked;
 
-      if (castHash) {
-        const cast = castCache.get(castHash);
-        if (cast) {
-          const casterIdx = cast.casterStakeLockupIds?.findIndex((id: number) => Number(id) === lockUpId) ?? -1;
-          if (casterIdx !== -1) {
-            stakeType = 'caster';
-            unlocked = cast.casterStakeUnlocked?.[casterIdx] ?? unlocked;
-            const raw = cast.casterStakeAmounts?.[casterIdx];
-            if (raw !== undefined) {
-              overrideAmount = convertAmount(raw);
-            }
-          } else {
-            const supporterIdx = cast.supporterStakeLockupIds?.findIndex((id: number) => Number(id) === lockUpId) ?? -1;
-            if (supporterIdx !== -1) {
-              stakeType = 'supporter';
-              unlocked = cast.supporterStakeUnlocked?.[supporterIdx] ?? unlocked;
-              const raw = cast.supporterStakeAmounts?.[supporterIdx];
-              if (raw !== undefined) {
-                overrideAmount = convertAmount(raw);
-              }
-            }
-          }
-        }
+      const lockup = castHash ? recorded.get(lockUpId) : undefined;
+      if (lockup && lockup.castHash === castHash) {
+        stakeType = lockup.stakeType;
+        unlocked = lockup.unlocked;
+        overrideAmount = convertAmount(lockup.amount);
       }
 
       // Skip unlocked stakes
@@ -206,9 +173,9 @@ export async function GET(req: NextRequest) {
 
       // Fetch user profiles for creators
       const fidsToFetch = Array.from(creatorFids);
-      const userProfiles = await neynar.fetchBulkUsers({ fids: fidsToFetch });
+      const userProfiles = await users.getUsersByFids(fidsToFetch);
       const profileMap = new Map(
-        userProfiles.users.map(u => [u.fid, u])
+        userProfiles.map(u => [u.fid, u])
       );
 
       // Build cast entries with full information
@@ -224,8 +191,8 @@ export async function GET(req: NextRequest) {
           castTimestamp: cast.castTimestamp || '',
           creatorFid: cast.creatorFid,
           creatorUsername: cast.creatorUsername || profile?.username || `user-${cast.creatorFid}`,
-          creatorDisplayName: cast.creatorDisplayName || profile?.display_name || profile?.username || `User ${cast.creatorFid}`,
-          creatorPfpUrl: cast.creatorPfpUrl || profile?.pfp_url || '',
+          creatorDisplayName: cast.creatorDisplayName || profile?.displayName || profile?.username || `User ${cast.creatorFid}`,
+          creatorPfpUrl: cast.creatorPfpUrl || profile?.pfpUrl || '',
           totalAmount: (Number(data.totalAmount) / 1e18).toString(),
           rank: cast.rank || null,
           castState: cast.castState || 'valid',
@@ -239,140 +206,54 @@ export async function GET(req: NextRequest) {
     let totalSupporterStakesOnUserCasts = BigInt(0);
     const uniqueSupporterFids = new Set<number>();
 
-    // Use non-pooling connection for fresh data
-    let client: ReturnType<typeof createClient> | undefined;
-    
     try {
-      let userCastsResult;
-      
-      if (process.env.POSTGRES_URL_NON_POOLING) {
-        client = createClient({
-          connectionString: process.env.POSTGRES_URL_NON_POOLING,
-        });
-        await client.connect();
-        userCastsResult = await client.sql`
-          SELECT 
-            caster_stake_amounts,
-            caster_stake_unlocked,
-            caster_stake_unlock_times,
-            supporter_stake_amounts,
-            supporter_stake_fids,
-            supporter_stake_unlocked,
-            supporter_stake_unlock_times
-          FROM leaderboard_entries
-          WHERE creator_fid = ${fid}
-          AND cast_state IN ('higher', 'expired')
-        `;
-      } else {
-        // Fallback to pooled connection if non-pooling not available
-        userCastsResult = await sql`
-          SELECT 
-            caster_stake_amounts,
-            caster_stake_unlocked,
-            caster_stake_unlock_times,
-            supporter_stake_amounts,
-            supporter_stake_fids,
-            supporter_stake_unlocked,
-            supporter_stake_unlock_times
-          FROM leaderboard_entries
-          WHERE creator_fid = ${fid}
-          AND cast_state IN ('higher', 'expired')
-        `;
-      }
-
-      let castRowIndex = 0;
-      let totalCasterStakesCount = 0;
-      let unlockedCasterStakesCount = 0;
-      let totalSupporterStakesCount = 0;
-      let unlockedSupporterStakesCount = 0;
-      let unmatchedSupporterStakesCount = 0;
-
-      for (const row of userCastsResult.rows) {
-        castRowIndex++;
-        // Sum caster stakes (stakes the user made on their own casts)
-        // Valid caster stake: !unlocked only (no expiry check)
-        // Amounts are stored as wei (string representation of BigInt)
-        const casterAmounts = row.caster_stake_amounts || [];
-        const casterUnlocked = row.caster_stake_unlocked || [];
-        
-        for (let i = 0; i < casterAmounts.length; i++) {
-          if (casterUnlocked[i]) {
-            unlockedCasterStakesCount++;
-          }
-          if (!casterUnlocked[i]) {
-            try {
-              const amountBigInt = BigInt(String(casterAmounts[i] || '0'));
-              totalCasterStakesOnUserCasts += amountBigInt;
-              totalCasterStakesCount++;
-            } catch (e) {
-              // Skip invalid amounts
-            }
-          }
-        }
-
-        // Sum supporter stakes (stakes others made on the user's casts)
-        // Valid supporter stake: !unlocked && unlockTime matches at least one caster unlockTime
-        // Amounts are stored as wei (string representation of BigInt)
-        const supporterAmounts = row.supporter_stake_amounts || [];
-        const supporterFids = row.supporter_stake_fids || [];
-        const supporterUnlocked = row.supporter_stake_unlocked || [];
-        const supporterUnlockTimes = row.supporter_stake_unlock_times || [];
-        const casterUnlockTimes = row.caster_stake_unlock_times || [];
-
-        // Build Set of ALL caster unlockTimes (regardless of unlocked status)
-        const casterUnlockSet = new Set(
-          casterUnlockTimes.filter((t: any) => typeof t === 'number' && Number.isFinite(t))
-        );
-
-        for (let i = 0; i < supporterAmounts.length; i++) {
-          const unlocked = supporterUnlocked[i] || false;
-          const unlockTime = supporterUnlockTimes[i] || 0;
-
-          if (unlocked) {
-            unlockedSupporterStakesCount++;
-          }
-
-          // Valid supporter stake: !unlocked && unlockTime matches at least one caster unlockTime
-          if (!unlocked && casterUnlockSet.has(unlockTime)) {
-            try {
-              const amountBigInt = BigInt(String(supporterAmounts[i] || '0'));
-              totalSupporterStakesOnUserCasts += amountBigInt;
-              totalSupporterStakesCount++;
+      const userCastsResult = await sql`
+        SELECT cast_hash
+        FROM leaderboard_entries
+        WHERE creator_fid = ${fid}
+        AND cast_state IN ('higher', 'expired')
+      `;
+
+      // Validity of each caster/supporter stake follows the stake rules (lib/stake-rules.ts)
+      // Amounts are stored as wei (string representation of BigInt)
+      const lockups = await getLockupsForCasts(
+        userCastsResult.rows.map(row => row.cast_hash),
+        { rules: getStakeRules() }
+      );
 
-              // Track unique supporter FIDs
-              if (i < supporterFids.length && supporterFids[i]) {
-                uniqueSupporterFids.add(Number(supporterFids[i]));
-              }
-            } catch (e) {
-              // Skip invalid amounts
-            }
-          } else if (!unlocked && !casterUnlockSet.has(unlockTime)) {
-            unmatchedSupporterStakesCount++;
+      for (const lockup of lockups) {
+        if (!lockup.isValid) continue;
+        const amountBigInt = BigInt(lockup.amount || '0');
+        if (lockup.stakeType === 'caster') {
+          // Stakes the user made on their own casts
+          totalCasterStakesOnUserCasts += amountBigInt;
+        } else {
+          // Stakes others made on the user's casts
+          totalSupporterStakesOnUserCasts += amountBigInt;
+          if (lockup.fid > 0) {
+            uniqueSupporterFids.add(lockup.fid);
           }
         }
       }
 
       // Calculate total from caster + supporter stakes
       totalStakedOnUserCasts = totalCasterStakesOnUserCasts + totalSupporterStakesOnUserCasts;
-      
-      // Close non-pooling connection if used
-      if (client) {
-        await client.end();
-      }
     } catch (dbError: any) {
       // Continue with 0 values if query fails
       totalStakedOnUserCasts = BigInt(0);
       totalCasterStakesOnUserCasts = BigInt(0);
       totalSupporterStakesOnUserCasts = BigInt(0);
-      
-      // Ensure connection is closed even on error
-      if (client) {
-        try {
-          await client.end();
-        } catch (closeError) {
-          // Ignore close errors
-        }
-      }
+    }
+
+    // USD value of the user's active stakes when locked vs now
+    let stakeValue: { lockUsdValue: number | null; usdValue: number | null; valued: number } = { lockUsdValue: null, usdValue: null, valued: 0 };
+    try {
+      const activeLockups = (await getLockupsForFid(fid)).filter(l => l.isValid);
+      const prices = await getLatestStakeTokenPrices();
+      stakeValue = sumValuations(activeLockups.map(l => valueLockup(l, prices)));
+    } catch (valueError) {
+      console.error('[user/stats] Error valuing stakes:', valueError);
+      // Continue without USD values
     }
 
     // Convert from wei (18 decimals) to token units
@@ -391,6 +272,7 @@ export async function GET(req: NextRequest) {
       totalCasterStakesOnUserCasts: totalCasterStakesOnUserCastsNum.toString(),
       totalSupporterStakesOnUserCasts: totalSupporterStakesOnUserCastsNum.toString(),
       totalSupporters: uniqueSupporterFids.size,
+      stakeValue,
     }, { headers: { 'Cache-Control': 'no-store' } });
   } catch (err: any) {
     return NextResponse.json(
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  verifyWebhookSignature,
+  decodeLockupWebhookPayload,
+  ingestLockupEvents,
+} from '@/lib/services/lockup-ingest-service';
+import { reconcileUnconfirmedLockups } from '@/lib/indexers/sync';
+import { recomputeRanks } from '@/lib/services/db-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Lockup contract activity webhook (Alchemy address-activity / custom webhook payloads)
+ * Signed with HMAC-SHA256 of the raw body using LOCKUP_WEBHOOK_SIGNING_KEY (x-alchemy-signature or x-webhook-signature)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const signingKey = process.env.LOCKUP_WEBHOOK_SIGNING_KEY;
+    if (!signingKey) {
+      console.error('[webhooks/lockups] LOCKUP_WEBHOOK_SIGNING_KEY not configured');
+      return NextResponse.json({ error: 'Webhook not configured' }, { status: 500 });
+    }
+
+    // Read the raw request body as text for signature verification
+    const rawBody = await request.text();
+    const signature = request.headers.get('x-alchemy-signature') || request.headers.get('x-webhook-signature');
+
+    if (!verifyWebhookSignature(rawBody, signature, signingKey)) {
+      console.warn('[webhooks/lockups] Invalid signature');
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const events = decodeLockupWebhookPayload(payload);
+    console.log('[webhooks/lockups] Decoded events:', {
+      created: events.created.map(e => e.lockUpId),
+      unlocked: events.unlockedIds,
+    });
+
+    // Settle lockups earlier webhooks wrote unconfirmed, whichever source the scheduled sync uses
+    const reconciled = await reconcileUnconfirmedLockups();
+    if (reconciled.dropped.length > 0) {
+      await recomputeRanks();
+    }
+
+    if (events.created.length === 0 && events.unlockedIds.length === 0) {
+      return NextResponse.json({ success: true, castsUpdated: [] });
+    }
+
+    const { castsUpdated, skipped } = await ingestLockupEvents(events);
+    console.log('[webhooks/lockups] Ingested:', { castsUpdated, skipped });
+
+    return NextResponse.json({ success: true, castsUpdated, skipped });
+  } catch (err) {
+    console.error('[webhooks/lockups] Error processing webhook:', err);
+    // Non-2xx so the event source retries
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
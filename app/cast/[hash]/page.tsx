@@ -0,0 +1,157 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getCastSummary, normalizeCastHashParam } from '@/lib/services/cast-summary-service';
+import { castPageUrl, ogImageUrl } from '@/lib/app-url';
+import { CastSupportButton } from '@/components/CastSupportButton';
+
+export const dynamic = 'force-dynamic';
+
+interface CastPageProps {
+  params: { hash: string };
+  searchParams?: { action?: string };
+}
+
+function formatTokens(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDate(unixSeconds: number | null): string {
+  if (!unixSeconds) return '?';
+  return new Date(unixSeconds * 1000).toISOString().slice(0, 10);
+}
+
+export async function generateMetadata({ params }: CastPageProps): Promise<Metadata> {
+  const castHash = normalizeCastHashParam(params.hash);
+  const summary = castHash ? await getCastSummary(castHash).catch(() => null) : null;
+  if (!castHash || !summary) {
+    return { title: 'Higher Steaks' };
+  }
+
+  const title = `@${summary.creator.username}: ${summary.cast.description}`;
+  const description = `${formatTokens(summary.cast.totalHigherStaked)} HIGHER staked`
+    + (summary.cast.rank !== null ? ` · #${summary.cast.rank} on the menu` : '');
+  const imageUrl = ogImageUrl(`cast/${castHash}`);
+
+  return {
+    title,
+    description,
+    openGraph: { title, description, images: [imageUrl] },
+    other: {
+      // Mini app embed: shared links open this cast inside the mini app
+      'fc:miniapp': JSON.stringify({
+        version: '1',
+        imageUrl,
+        button: {
+          title: `Support @${summary.creator.username}`.slice(0, 32),
+          action: {
+            type: 'launch_frame',
+            url: castPageUrl(castHash),
+            name: 'Higher Steaks',
+          },
+        },
+      }),
+    },
+  };
+}
+
+export default async function CastPage({ params, searchParams }: CastPageProps) {
+  const castHash = normalizeCastHashParam(params.hash);
+  if (!castHash) {
+    notFound();
+  }
+  const summary = await getCastSummary(castHash);
+  if (!summary) {
+    notFound();
+  }
+
+  const { cast, creator } = summary;
+  const now = Math.floor(Date.now() / 1000);
+  const casterStakes = cast.timeline.filter(t => t.stakeType === 'caster');
+
+  return (
+    <main className="min-h-screen bg-[#f9f7f1] text-black p-2 sm:p-4 md:p-6 font-mono">
+      <div className="max-w-2xl mx-auto bg-[#fefdfb] shadow-lg p-3 sm:p-4 md:p-8 border border-[#e5e3db]">
+        <Link href="/" className="text-xs text-black/60 hover:text-black">← Menu</Link>
+
+        <div className="flex items-center gap-3 mt-3 pb-3 border-b-2 border-black">
+          {creator.pfpUrl && (
+            <img src={creator.pfpUrl} alt={creator.username} className="w-12 h-12 rounded-full border border-black/20" />
+          )}
+          <div className="min-w-0 flex-1">
+            <Link href={`/u/${creator.fid}`} className="font-bold hover:text-purple-700 transition-colors block truncate">
+              @{creator.username}
+            </Link>
+            <div className="text-xs text-black/60">
+              {cast.castState === 'higher' ? 'Cooking' : cast.castState === 'expired' ? 'Expired' : 'Awaiting caster stake'}
+              {cast.rank !== null && <> · #{cast.rank} on the menu</>}
+            </div>
+          </div>
+          <div className="text-right flex-shrink-0">
+            <div className="text-sm font-bold">{formatTokens(cast.totalHigherStaked)} HIGHER</div>
+            {cast.usdValue !== null && (
+              <div className="text-xs text-black/60">${formatTokens(cast.usdValue)}</div>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-4 text-sm whitespace-pre-wrap break-words">{cast.castText}</div>
+        <div className="mt-2 text-xs text-black/60 italic">
+          {new Date(cast.castTimestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+        </div>
+
+        <section className="mt-6">
+          <h2 className="text-sm font-bold mb-2 border-b border-black/20 pb-1">
+            Caster stakes · {formatTokens(summary.activeCasterStake)} HIGHER active
+          </h2>
+          {casterStakes.length === 0 ? (
+            <p className="text-xs text-black/60 italic">No caster stake yet</p>
+          ) : (
+            <div className="space-y-1 text-xs">
+              {casterStakes.map(stake => (
+                <div key={stake.lockupId} className="flex justify-between gap-2">
+                  <span>{formatTokens(stake.amount)} HIGHER</span>
+                  <span className="text-black/60">
+                    until {formatDate(stake.unlockTime)}
+                    {stake.unlocked ? ' · unlocked' : stake.unlockTime <= now ? ' · expired' : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="mt-6">
+          <h2 className="text-sm font-bold mb-2 border-b border-black/20 pb-1">
+            Top supporters · {summary.totalSupporters} total · {formatTokens(summary.activeSupporterStake)} HIGHER active
+          </h2>
+          {summary.topSupporters.length === 0 ? (
+            <p className="text-xs text-black/60 italic">No supporters yet</p>
+          ) : (
+            <div className="space-y-2">
+              {summary.topSupporters.map(supporter => (
+                <div key={supporter.fid} className="flex items-center gap-3 p-2 rounded border border-black/20">
+                  <img src={supporter.pfp || ''} alt={supporter.username} className="w-8 h-8 rounded-full border border-black/20 flex-shrink-0" />
+                  <Link href={`/u/${supporter.fid}`} className="text-sm font-bold flex-1 min-w-0 truncate hover:text-purple-700">
+                    @{supporter.username}
+                  </Link>
+                  <div className="text-right flex-shrink-0 text-xs font-bold">
+                    {formatTokens(supporter.weightedStake)} h-days
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <div className="mt-6">
+          <CastSupportButton
+            castHash={cast.castHash}
+            username={creator.username}
+            autoOpen={searchParams?.action === 'extend'}
+          />
+        </div>
+      </div>
+    </main>
+  );
+}
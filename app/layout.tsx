@@ -3,6 +3,7 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 import { MiniAppProvider } from "@/components/MiniAppProvider";
 import { Providers } from "@/components/Providers";
+import { APP_URL, ogImageUrl } from "@/lib/app-url";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -12,17 +13,17 @@ export const metadata: Metadata = {
   openGraph: {
     title: "Higher Steaks",
     description: "Staking interface for higher network discovery",
-    images: ["/embed.png"],
+    images: [ogImageUrl("leaderboard")],
   },
   other: {
     "fc:miniapp": JSON.stringify({
       version: "1",
-      imageUrl: "https://higher-steaks.vercel.app/embed.png",
+      imageUrl: ogImageUrl("leaderboard"),
       button: {
         title: "See what's cooking 👀",
         action: {
           type: "launch_frame",
-          url: "https://higher-steaks.vercel.app/",
+          url: `${APP_URL}/`,
           name: "Higher Steaks",
         },
       },
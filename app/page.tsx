@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
+import Link from 'next/link';
 import { sdk } from '@farcaster/miniapp-sdk';
 import { OnboardingModal } from '@/components/OnboardingModal';
 import { StakingModal } from '@/components/StakingModal';
@@ -56,8 +57,17 @@ interface LeaderboardEntry {
   higherBalance: string;
   usdValue: string;
   rank: number;
+  // Raw values behind the display strings
+  totalHigherStaked: number;
+  usdValueRaw: number | null;
+  weightedStake: number;
+  weightedRank: number | null;
+  supporterCount: number;
 }
 
+// Main menu ranking: 'staked' = most staked, 'weighted' = longest conviction (higher-days)
+type LeaderboardView = 'staked' | 'weighted';
+
 interface LockupDetail {
   lockupId: string;
   amount: string;
@@ -68,6 +78,9 @@ interface LockupDetail {
   castHash?: string | null;
   stakeType?: 'caster' | 'supporter' | null;
   unlocked?: boolean;
+  token?: string;
+  lockUsdValue?: number | null;
+  usdValue?: number | null;
 }
 
 interface WalletDetail {
@@ -93,6 +106,10 @@ export default function HigherSteakMenu() {
   } | null>(null);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [loadingLeaderboard, setLoadingLeaderboard] = useState(true);
+  const [leaderboardView, setLeaderboardView] = useState<LeaderboardView>('staked');
+  const [leaderboardCursor, setLeaderboardCursor] = useState<string | null>(null);
+  const [loadingMoreLeaderboard, setLoadingMoreLeaderboard] = useState(false);
+  const leaderboardSentinelRef = useRef<HTMLDivElement>(null);
   const [showOnboardingModal, setShowOnboardingModal] = useState(false);
   const [castData, setCastData] = useState<{
     hasCast: boolean;
@@ -443,10 +460,16 @@ export default function HigherSteakMenu() {
     };
 
 
+    fetchUserProfile();
+  }, []);
+
+
+  // Load the first leaderboard page whenever the view changes
+  useEffect(() => {
     const fetchLeaderboard = async () => {
       setLoadingLeaderboard(true);
       try {
-        const response = await fetch('/api/leaderboard/top');
+        const response = await fetch(`/api/leaderboard/top?sort=${leaderboardView}`);
         console.log('Leaderboard response status:', response.status, response.ok);
         
         if (response.ok) {
@@ -460,6 +483,7 @@ export default function HigherSteakMenu() {
           }
           
           setLeaderboard(data.entries || []);
+          setLeaderboardCursor(data.nextCursor || null);
         } else {
           console.error('Failed to fetch leaderboard, status:', response.status);
           const errorText = await response.text();
@@ -472,10 +496,47 @@ export default function HigherSteakMenu() {
       }
     };
 
-    fetchUserProfile();
+    setLeaderboardCursor(null);
     fetchLeaderboard();
-  }, []);
+  }, [leaderboardView]);
+
+  // Append the next leaderboard page (infinite scroll past the first page)
+  const loadMoreLeaderboard = useCallback(async () => {
+    if (!leaderboardCursor || loadingMoreLeaderboard) return;
+    setLoadingMoreLeaderboard(true);
+    try {
+      const response = await fetch(`/api/leaderboard/top?sort=${leaderboardView}&cursor=${encodeURIComponent(leaderboardCursor)}`);
+      if (!response.ok) {
+        console.error('Failed to fetch more leaderboard entries, status:', response.status);
+        setLeaderboardCursor(null);
+        return;
+      }
+      const data = await response.json();
+      setLeaderboard(prev => {
+        const seen = new Set(prev.map(entry => entry.castHash));
+        return [...prev, ...(data.entries || []).filter((entry: LeaderboardEntry) => !seen.has(entry.castHash))];
+      });
+      setLeaderboardCursor(data.nextCursor || null);
+    } catch (error) {
+      console.error('Error fetching more leaderboard entries:', error);
+      setLeaderboardCursor(null);
+    } finally {
+      setLoadingMoreLeaderboard(false);
+    }
+  }, [leaderboardCursor, leaderboardView, loadingMoreLeaderboard]);
 
+  useEffect(() => {
+    const sentinel = leaderboardSentinelRef.current;
+    if (!sentinel || !leaderboardCursor) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) {
+        loadMoreLeaderboard();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [leaderboardCursor, loadMoreLeaderboard]);
 
   // Handle simulated profile changes in development mode
   useEffect(() => {
@@ -856,6 +917,21 @@ export default function HigherSteakMenu() {
 
           <div className="px-1 sm:px-2 md:px-4 mt-4 sm:mt-6 md:mt-8">
 
+            <div className="flex justify-center gap-4 mb-4 md:mb-5 text-[0.65rem] sm:text-xs md:text-sm tracking-wider">
+              {([
+                ['staked', 'Most Staked'],
+                ['weighted', 'Longest Conviction'],
+              ] as const).map(([view, label]) => (
+                <button
+                  key={view}
+                  onClick={() => setLeaderboardView(view)}
+                  className={`uppercase pb-0.5 border-b ${leaderboardView === view ? 'font-bold border-black' : 'opacity-60 border-transparent hover:opacity-100'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
             <div className="space-y-4 md:space-y-5">
               {loadingLeaderboard ? (
                 // Loading state
@@ -866,23 +942,43 @@ export default function HigherSteakMenu() {
               ) : filteredLeaderboard.length > 0 ? (
                 // Leaderboard entries
                 filteredLeaderboard.map((entry, index) => (
-                  <button
+                  // Not a <button>: the row contains the creator profile link
+                  <div
                     key={entry.castHash}
+                    role="button"
+                    tabIndex={0}
                     onClick={() => {
                       setSelectedCastHash(entry.castHash);
                       setShowSupporterModal(true);
                     }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' || e.key === ' ') {
+                        e.preventDefault();
+                        setSelectedCastHash(entry.castHash);
+                        setShowSupporterModal(true);
+                      }
+                    }}
                     className="w-full text-left group hover:bg-gray-50/50 transition-colors cursor-pointer rounded-sm p-1 -m-1"
                   >
                     <div className="flex items-baseline text-xs sm:text-sm md:text-base">
-                      <span className="flex-shrink-0 font-bold">@{entry.username}</span>
+                      <Link
+                        href={`/u/${entry.fid}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="flex-shrink-0 font-bold hover:underline"
+                      >
+                        @{entry.username}
+                      </Link>
                       <span className="flex-grow mx-2 border-b border-dotted border-black/30 mb-1"></span>
-                      <span className="flex-shrink-0 font-bold tracking-wider">{entry.usdValue}</span>
+                      <span className="flex-shrink-0 font-bold tracking-wider">
+                        {leaderboardView === 'weighted'
+                          ? `${Math.round(entry.weightedStake).toLocaleString('en-US')} higher-days`
+                          : entry.usdValue}
+                      </span>
                     </div>
                     <div className="mt-1 text-[0.65rem] sm:text-xs text-gray-600 italic">
                       {entry.description}
                     </div>
-                  </button>
+                  </div>
                 ))
               ) : (
                 // Sold Out if leaderboard is empty
@@ -890,6 +986,14 @@ export default function HigherSteakMenu() {
                   <p className="text-base sm:text-lg md:text-xl font-bold">Sold Out</p>
                 </div>
               )}
+              {!loadingLeaderboard && leaderboardCursor && (
+                // Loads the next page when scrolled into view
+                <div ref={leaderboardSentinelRef} className="text-center py-4">
+                  {loadingMoreLeaderboard && (
+                    <div className="animate-spin h-5 w-5 border-2 border-black border-t-transparent rounded-full mx-auto"></div>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="mt-8 md:mt-10 text-center text-[0.65rem] xs:text-[0.7rem] sm:text-xs md:text-sm border-t border-black/20 pt-4">
@@ -0,0 +1,212 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getCreatorProfile, CookedCast, StakeTimelineEntry } from '@/lib/services/profile-service';
+import { ogImageUrl } from '@/lib/app-url';
+
+export const dynamic = 'force-dynamic';
+
+interface CreatorPageProps {
+  params: { fid: string };
+}
+
+function parseFid(value: string): number | null {
+  const fid = parseInt(value, 10);
+  return Number.isFinite(fid) && fid > 0 && String(fid) === value ? fid : null;
+}
+
+function formatTokens(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDate(unixSeconds: number | null): string {
+  if (!unixSeconds) return '?';
+  return new Date(unixSeconds * 1000).toISOString().slice(0, 10);
+}
+
+function stakeStatus(stake: StakeTimelineEntry, now: number): string {
+  if (stake.unlocked) return 'unlocked';
+  if (stake.unlockTime <= now) return 'expired';
+  return stake.isValid ? 'active' : 'not counted';
+}
+
+const STATE_LABELS: Record<CookedCast['castState'], string> = {
+  higher: 'Cooking',
+  expired: 'Expired',
+  valid: 'Awaiting caster stake',
+};
+
+export async function generateMetadata({ params }: CreatorPageProps): Promise<Metadata> {
+  const fid = parseFid(params.fid);
+  const profile = fid ? await getCreatorProfile(fid).catch(() => null) : null;
+  if (!profile) {
+    return { title: 'Higher Steaks' };
+  }
+  const title = `@${profile.username} on Higher Steaks`;
+  const description = `${profile.casts.length} casts cooked · ${formatTokens(profile.casterConviction)} higher-days of conviction`;
+  return {
+    title,
+    description,
+    openGraph: { title, description, images: [ogImageUrl(`user/${profile.fid}`)] },
+  };
+}
+
+// Lock periods of a cast's stakes drawn on a shared time axis
+function StakeTimeline({ stakes, now }: { stakes: StakeTimelineEntry[]; now: number }) {
+  if (stakes.length === 0) {
+    return <p className="text-xs text-black/60 italic">No stakes yet</p>;
+  }
+
+  const start = Math.min(...stakes.map(s => s.lockTime ?? s.unlockTime));
+  const end = Math.max(now, ...stakes.map(s => s.unlockTime));
+  const span = Math.max(end - start, 1);
+
+  return (
+    <div className="space-y-1.5">
+      {stakes.map(stake => {
+        const from = stake.lockTime ?? start;
+        const left = ((from - start) / span) * 100;
+        const width = Math.max(((stake.unlockTime - from) / span) * 100, 1);
+        const status = stakeStatus(stake, now);
+        return (
+          <div key={stake.lockupId} className="text-[0.65rem] sm:text-xs">
+            <div className="flex justify-between gap-2">
+              <span className="truncate">
+                {stake.stakeType === 'caster' ? 'Caster' : `Supporter fid ${stake.fid || '?'}`} · {formatTokens(stake.amount)} HIGHER
+              </span>
+              <span className="flex-shrink-0 text-black/60">
+                {formatDate(stake.lockTime)} → {formatDate(stake.unlockTime)} · {status}
+              </span>
+            </div>
+            <div className="relative h-1.5 bg-black/5 mt-0.5">
+              <div
+                className={`absolute h-1.5 ${status === 'active' ? 'bg-black' : 'bg-black/30'}`}
+                style={{ left: `${left}%`, width: `${Math.min(width, 100 - left)}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default async function CreatorPage({ params }: CreatorPageProps) {
+  const fid = parseFid(params.fid);
+  if (!fid) {
+    notFound();
+  }
+  const profile = await getCreatorProfile(fid);
+  if (!profile) {
+    notFound();
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+
+  return (
+    <main className="min-h-screen bg-[#f9f7f1] text-black p-2 sm:p-4 md:p-6 font-mono">
+      <div className="max-w-4xl mx-auto bg-[#fefdfb] shadow-lg p-3 sm:p-4 md:p-8 border border-[#e5e3db]">
+        <Link href="/" className="text-xs text-black/60 hover:text-black">← Menu</Link>
+
+        <div className="flex items-center gap-3 mt-3 pb-4 border-b-2 border-black">
+          {profile.pfpUrl && (
+            <img src={profile.pfpUrl} alt={profile.username} className="w-12 h-12 rounded-full border border-black/20" />
+          )}
+          <div className="min-w-0 flex-1">
+            <a
+              href={`https://farcaster.xyz/${profile.username}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-bold text-lg hover:text-purple-700 transition-colors block truncate"
+            >
+              @{profile.username}
+            </a>
+            {profile.displayName !== profile.username && (
+              <div className="text-xs text-black/60 truncate">{profile.displayName}</div>
+            )}
+          </div>
+          <div className="text-right flex-shrink-0">
+            <div className="text-xs text-black/60">Caster conviction</div>
+            <div className="text-sm font-bold">{formatTokens(profile.casterConviction)} higher-days</div>
+            <div className="text-xs text-black/60">{formatTokens(profile.activeCasterStake)} HIGHER locked</div>
+          </div>
+        </div>
+
+        <section className="mt-6">
+          <h2 className="text-base font-bold mb-3 border-b border-black/20 pb-1">Cooked ({profile.casts.length})</h2>
+          {profile.casts.length === 0 ? (
+            <p className="text-xs text-black/60 italic">Nothing cooked yet</p>
+          ) : (
+            <div className="space-y-5">
+              {profile.casts.map(cast => (
+                <div key={cast.castHash}>
+                  <div className="flex items-baseline text-xs sm:text-sm">
+                    <span className="font-bold truncate">{cast.description || cast.castText}</span>
+                    <span className="flex-grow mx-2 border-b border-dotted border-black/30 mb-1"></span>
+                    <span className="flex-shrink-0 font-bold">{formatTokens(cast.totalHigherStaked)}</span>
+                  </div>
+                  <div className="text-[0.65rem] sm:text-xs text-black/60 mb-2">
+                    {STATE_LABELS[cast.castState]}
+                    {cast.rank !== null && <> · #{cast.rank} most staked</>}
+                    {cast.weightedRank !== null && <> · #{cast.weightedRank} longest conviction</>}
+                    {' '}· {cast.supporterCount} supporter{cast.supporterCount === 1 ? '' : 's'}
+                    {' '}· {formatTokens(cast.casterConviction)} caster higher-days
+                  </div>
+                  <StakeTimeline stakes={cast.timeline} now={now} />
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="mt-8">
+          <h2 className="text-base font-bold mb-3 border-b border-black/20 pb-1">Supported by ({profile.supporters.length})</h2>
+          {profile.supporters.length === 0 ? (
+            <p className="text-xs text-black/60 italic">No supporters yet</p>
+          ) : (
+            <div className="space-y-2">
+              {profile.supporters.map(supporter => (
+                <div key={supporter.fid} className="flex items-center gap-3 p-2 rounded border border-black/20">
+                  <img src={supporter.pfp || ''} alt={supporter.username} className="w-8 h-8 rounded-full border border-black/20 flex-shrink-0" />
+                  <Link href={`/u/${supporter.fid}`} className="text-sm font-bold flex-1 min-w-0 truncate hover:text-purple-700">
+                    @{supporter.username}
+                  </Link>
+                  <div className="text-right flex-shrink-0 text-xs">
+                    <div className="font-bold">{formatTokens(supporter.weightedStake)} h-days</div>
+                    <div className="text-black/60">{formatTokens(supporter.activeStake)} HIGHER active</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="mt-8">
+          <h2 className="text-base font-bold mb-3 border-b border-black/20 pb-1">Backed ({profile.backedCasts.length})</h2>
+          {profile.backedCasts.length === 0 ? (
+            <p className="text-xs text-black/60 italic">Hasn&apos;t backed anyone yet</p>
+          ) : (
+            <div className="space-y-2">
+              {profile.backedCasts.map(cast => (
+                <div key={cast.castHash} className="text-xs sm:text-sm">
+                  <div className="flex items-baseline">
+                    {cast.creatorFid > 0 ? (
+                      <Link href={`/u/${cast.creatorFid}`} className="font-bold hover:text-purple-700">@{cast.creatorUsername}</Link>
+                    ) : (
+                      <span className="font-bold">unknown cast</span>
+                    )}
+                    <span className="flex-grow mx-2 border-b border-dotted border-black/30 mb-1"></span>
+                    <span className="flex-shrink-0 font-bold">{formatTokens(cast.weightedStake)} h-days</span>
+                  </div>
+                  <div className="text-[0.65rem] sm:text-xs text-black/60 italic truncate">
+                    {cast.description} · {formatTokens(cast.activeStake)} HIGHER active
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
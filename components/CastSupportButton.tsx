@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { sdk } from '@farcaster/miniapp-sdk';
+import { SupporterModal } from './SupporterModal';
+
+interface CastSupportButtonProps {
+  castHash: string;
+  username: string;
+  autoOpen?: boolean; // open the modal on load (stake reminder "extend now" links)
+}
+
+/**
+ * "Support" button for the shareable cast page. Opens SupporterModal for the viewer from the mini app context.
+ */
+export function CastSupportButton({ castHash, username, autoOpen = false }: CastSupportButtonProps) {
+  const router = useRouter();
+  const [userFid, setUserFid] = useState<number | null>(null);
+  const [showSupporterModal, setShowSupporterModal] = useState(autoOpen);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const init = async () => {
+      try {
+        // Opened from an embed, this page is the mini app's entry point
+        await sdk.actions.ready();
+        const context = await sdk.context;
+        setUserFid(context?.user?.fid ?? null);
+      } catch (error) {
+        console.log('Not in Farcaster client:', error);
+      }
+    };
+
+    init();
+  }, []);
+
+  return (
+    <>
+      <button
+        onClick={() => {
+          setMessage(null);
+          setShowSupporterModal(true);
+        }}
+        className="w-full px-4 py-2.5 bg-black text-white font-bold border-2 border-black hover:bg-white hover:text-black transition text-sm"
+      >
+        Support @{username}
+      </button>
+      {message && (
+        <p className="mt-2 text-xs text-center text-black/70">{message}</p>
+      )}
+
+      {showSupporterModal && (
+        <SupporterModal
+          castHash={castHash}
+          userFid={userFid}
+          onClose={() => setShowSupporterModal(false)}
+          onStakeSuccess={() => router.refresh()}
+          onLockSuccess={() => {
+            setShowSupporterModal(false);
+            setMessage('Stake submitted. Totals update once it is confirmed.');
+            router.refresh();
+          }}
+          onTransactionFailure={(failure) => {
+            setMessage(failure || 'Transaction failed');
+          }}
+        />
+      )}
+    </>
+  );
+}
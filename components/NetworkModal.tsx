@@ -13,6 +13,35 @@ interface NetworkStats {
   totalCastsStakedOn: number;
 }
 
+type NetworkTab = 'stats' | 'supporters';
+type SupporterSort = 'active' | 'weighted';
+
+interface TopSupporter {
+  fid: number;
+  username: string;
+  displayName: string;
+  pfp: string;
+  rank: number;
+  activeStake: number;
+  weightedStake: number;
+  castsBacked: number;
+  buildersBacked: number;
+  biggestBacking: {
+    castHash: string;
+    creatorFid: number;
+    creatorUsername: string;
+    activeStake: number;
+  } | null;
+}
+
+interface TopSupportersData {
+  supporters: TopSupporter[];
+  nextCursor: string | null;
+  totalSupporters: number;
+}
+
+const SUPPORTERS_PER_PAGE = 20;
+
 // Format token amount with K/M/B suffixes
 function formatTokenAmount(amount: string): string {
   const safe = (amount ?? '0').toString();
@@ -30,7 +59,162 @@ function formatTokenAmount(amount: string): string {
   }
 }
 
+function LoadingDots() {
+  return (
+    <div className="flex items-center justify-center py-12">
+      <div className="text-center">
+        <div className="text-base font-bold text-black">
+          Loading
+          <span className="inline-block ml-1">
+            <span className="loading-dot-1">.</span>
+            <span className="loading-dot-2">.</span>
+            <span className="loading-dot-3">.</span>
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Network-wide supporter ranking from /api/leaderboard/supporters
+function TopSupporters() {
+  const [sort, setSort] = useState<SupporterSort>('active');
+  // Cursor of every page visited so far; the last one is the current page
+  const [cursors, setCursors] = useState<Array<string | null>>([null]);
+  const cursor = cursors[cursors.length - 1];
+  const page = cursors.length;
+  const [data, setData] = useState<TopSupportersData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSupporters = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `/api/leaderboard/supporters?sort=${sort}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`
+        );
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch top supporters');
+        }
+
+        setData(await response.json());
+      } catch (err: any) {
+        console.error('[NetworkModal] Error fetching top supporters:', err);
+        setError(err?.message || 'Failed to load top supporters');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSupporters();
+  }, [sort, cursor]);
+
+  const handleSortChange = (next: SupporterSort) => {
+    setSort(next);
+    setCursors([null]);
+  };
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.totalSupporters / SUPPORTERS_PER_PAGE)) : 1;
+
+  return (
+    <div>
+      <div className="flex justify-center gap-4 mb-3 text-xs">
+        {([
+          ['active', 'Active stake'],
+          ['weighted', 'Higher-days'],
+        ] as const).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => handleSortChange(value)}
+            className={`pb-0.5 border-b ${sort === value ? 'font-bold border-black' : 'text-black/60 border-transparent hover:text-black'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <LoadingDots />
+      ) : error || !data ? (
+        <div className="text-center text-red-600 py-12">
+          {error || 'Failed to load top supporters'}
+        </div>
+      ) : data.supporters.length === 0 ? (
+        <div className="text-center text-black/60 py-8">
+          No supporters yet
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {data.supporters.map(supporter => (
+            <div key={supporter.fid} className="flex items-center gap-3 p-2 rounded border border-black/20">
+              <div className="text-xs font-bold text-black/60 w-6 text-right">
+                #{supporter.rank}
+              </div>
+              <img
+                src={supporter.pfp || ''}
+                alt={supporter.username}
+                className="w-8 h-8 rounded-full border border-black/20 flex-shrink-0"
+              />
+              <div className="text-sm flex-1 min-w-0">
+                <a
+                  href={`https://farcaster.xyz/${supporter.username}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-bold text-black hover:text-purple-700 transition-colors block truncate"
+                  title={`@${supporter.username}`}
+                >
+                  @{supporter.username}
+                </a>
+                <div className="text-[0.65rem] text-black/60 truncate">
+                  Backs {supporter.buildersBacked} builder{supporter.buildersBacked === 1 ? '' : 's'}
+                  {supporter.biggestBacking && (
+                    <> · most on @{supporter.biggestBacking.creatorUsername} ({formatTokenAmount(String(supporter.biggestBacking.activeStake))})</>
+                  )}
+                </div>
+              </div>
+              <div className="text-right flex-shrink-0">
+                <div className="text-xs font-bold text-black">
+                  {sort === 'active'
+                    ? formatTokenAmount(String(supporter.activeStake))
+                    : `${supporter.weightedStake.toFixed(2)} h-days`}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {data && (page > 1 || data.nextCursor) && (
+        <div className="flex items-center justify-between pt-3 mt-3 border-t border-black/20">
+          <button
+            onClick={() => setCursors(cursors.slice(0, -1))}
+            disabled={loading || page === 1}
+            className="px-3 py-1.5 bg-white text-black font-bold border-2 border-black hover:bg-black hover:text-white transition text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <div className="text-xs text-black font-bold">
+            Page {page} of {totalPages}
+          </div>
+          <button
+            onClick={() => setCursors([...cursors, data.nextCursor])}
+            disabled={loading || !data.nextCursor}
+            className="px-3 py-1.5 bg-white text-black font-bold border-2 border-black hover:bg-black hover:text-white transition text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function NetworkModal({ onClose }: NetworkModalProps) {
+  const [tab, setTab] = useState<NetworkTab>('stats');
   const [networkStats, setNetworkStats] = useState<NetworkStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -109,19 +293,25 @@ export function NetworkModal({ onClose }: NetworkModalProps) {
           Higher Network Stats
         </h2>
 
-        {loading ? (
-          <div className="flex items-center justify-center py-12">
-            <div className="text-center">
-              <div className="text-base font-bold text-black">
-                Loading
-                <span className="inline-block ml-1">
-                  <span className="loading-dot-1">.</span>
-                  <span className="loading-dot-2">.</span>
-                  <span className="loading-dot-3">.</span>
-                </span>
-              </div>
-            </div>
-          </div>
+        <div className="flex gap-4 mb-3 text-sm">
+          {([
+            ['stats', 'Network'],
+            ['supporters', 'Top supporters'],
+          ] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`pb-0.5 border-b-2 ${tab === value ? 'font-bold border-black' : 'text-black/60 border-transparent hover:text-black'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'supporters' ? (
+          <TopSupporters />
+        ) : loading ? (
+          <LoadingDots />
         ) : error ? (
           <div className="text-center text-red-600 py-12">
             {error}
@@ -1,12 +1,16 @@
 'use client';
 
 import React, { useEffect, useState, useRef, useMemo, useCallback } from 'react';
-import { useWriteContract, useWaitForTransactionReceipt, useReadContract, useAccount } from 'wagmi';
+import { useWriteContract, useWaitForTransactionReceipt, useReadContract, useAccount, useBalance } from 'wagmi';
 import { parseUnits, formatUnits } from 'viem';
 import { sdk } from '@farcaster/miniapp-sdk';
-import { LOCKUP_CONTRACT, HIGHER_TOKEN_ADDRESS, LOCKUP_ABI, ERC20_ABI } from '@/lib/contracts';
+import { LOCKUP_CONTRACT, LOCKUP_ABI, ERC20_ABI } from '@/lib/contracts';
+import { getStakeTokens, StakeToken } from '@/lib/tokens';
 import { KEYPHRASE_TEXT } from '@/lib/constants';
 import { extractDescription } from '@/lib/cast-helpers';
+import type { LockupRecord } from '@/lib/services/db-service';
+
+const STAKE_TOKENS = getStakeTokens();
 
 interface CastCard {
   hash: string;
@@ -18,12 +22,8 @@ interface CastCard {
   totalHigherStaked: number;
   totalCasterStaked: number;
   totalSupporterStaked: number;
-  casterStakeLockupIds: number[];
-  casterStakeAmounts: string[];
-  casterStakeUnlockTimes: number[];
-  supporterStakeLockupIds: number[];
-  supporterStakeAmounts: string[];
-  supporterStakeFids: number[];
+  casterLockups: LockupRecord[];
+  supporterLockups: LockupRecord[];
   username?: string; // Optional username for constructing cast URL
 }
 
@@ -65,40 +65,23 @@ function durationToSeconds(duration: number, unit: 'minute' | 'day' | 'week' | '
   }
 }
 
-// Calculate valid caster and supporter stakes from arrays
+// Calculate valid caster and supporter stakes from the cast's lockups
 function calculateStakeTotals(
-  casterStakeAmounts: string[],
-  casterStakeUnlockTimes: number[],
-  supporterStakeAmounts: string[],
-  totalHigherStaked: number
+  casterLockups: LockupRecord[],
+  supporterLockups: LockupRecord[]
 ): { totalCasterStaked: number; totalSupporterStaked: number } {
   const currentTime = Math.floor(Date.now() / 1000);
-  
-  // Filter valid caster stakes: currentTime < unlockTime
-  const validCasterStakes = casterStakeAmounts
-    .map((amount, index) => ({
-      amount: BigInt(amount || '0'),
-      unlockTime: (index < casterStakeUnlockTimes.length ? casterStakeUnlockTimes[index] : 0) || 0,
-    }))
-    .filter(stake => stake.unlockTime > currentTime);
-  
-  // Calculate total valid caster staked
-  const totalCasterStaked = validCasterStakes.reduce((sum, stake) => sum + stake.amount, BigInt(0));
-  
-  // For supporter stakes, we don't have unlock times in DB, so we'll use all of them
-  // This is a limitation - ideally we'd filter by unlock time too
-  const totalSupporterStaked = supporterStakeAmounts.reduce(
-    (sum, amount) => sum + BigInt(amount || '0'),
-    BigInt(0)
-  );
-  
-  // Convert to numbers (HIGHER tokens with 18 decimals)
-  const casterStakedNum = parseFloat(formatUnits(totalCasterStaked, 18));
-  const supporterStakedNum = parseFloat(formatUnits(totalSupporterStaked, 18));
-  
+
+  // Only stakes that have not reached their unlock time count
+  const sumValid = (lockups: LockupRecord[]) =>
+    lockups
+      .filter(lockup => lockup.unlockTime > currentTime)
+      .reduce((sum, lockup) => sum + BigInt(lockup.amount || '0'), BigInt(0));
+
+  // Convert to numbers (HIGHER-equivalent amounts with 18 decimals)
   return {
-    totalCasterStaked: casterStakedNum,
-    totalSupporterStaked: supporterStakedNum,
+    totalCasterStaked: parseFloat(formatUnits(sumValid(casterLockups), 18)),
+    totalSupporterStaked: parseFloat(formatUnits(sumValid(supporterLockups), 18)),
   };
 }
 
@@ -155,6 +138,7 @@ export function OnboardingModal({
   const [stakeAmount, setStakeAmount] = useState('');
   const [lockupDuration, setLockupDuration] = useState<string>('');
   const [lockupUnit, setLockupUnit] = useState<'minute' | 'day' | 'week' | 'month' | 'year'>('day');
+  const [stakeToken, setStakeToken] = useState<StakeToken>(STAKE_TOKENS[0]);
   const [stakeError, setStakeError] = useState<string | null>(null);
   
   // Staking transaction state
@@ -162,9 +146,10 @@ export function OnboardingModal({
   const [createLockUpParams, setCreateLockUpParams] = useState<{
     amountWei: bigint;
     unlockTime: number;
+    token: StakeToken;
   } | null>(null);
   // Metadata storage for optimistic updates (keyed by params key or tx hash)
-  const pendingStakeMetadataRef = useRef<Map<string, { amount: string; unlockTime: number }>>(new Map());
+  const pendingStakeMetadataRef = useRef<Map<string, { amount: string; unlockTime: number; token: string }>>(new Map());
   const pendingParamsKeyRef = useRef<string | null>(null);
   
   // Card navigation state
@@ -177,34 +162,41 @@ export function OnboardingModal({
   // Wagmi hooks
   const { address: wagmiAddress } = useAccount();
   
-  // Read balance from connected wallet address
+  // Read balance of the selected stake token from connected wallet address
   const { data: walletBalanceRaw } = useReadContract({
-    address: HIGHER_TOKEN_ADDRESS,
+    address: stakeToken.address,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
     args: wagmiAddress ? [wagmiAddress] : undefined,
     query: {
-      enabled: !!wagmiAddress,
+      enabled: !!wagmiAddress && stakeToken.isERC20,
       refetchInterval: false,
       refetchOnMount: false,
       refetchOnWindowFocus: false,
     },
   });
   
-  // Convert balance from wei to number (18 decimals)
-  const connectedWalletBalance = walletBalanceRaw 
-    ? parseFloat(formatUnits(walletBalanceRaw, 18))
+  // Native ETH balance, when ETH is the selected stake token
+  const { data: nativeBalance } = useBalance({
+    address: wagmiAddress,
+    query: { enabled: !!wagmiAddress && !stakeToken.isERC20 },
+  });
+  const stakeTokenBalanceRaw = stakeToken.isERC20 ? walletBalanceRaw : nativeBalance?.value;
+
+  // Convert balance from the token's smallest unit to number
+  const connectedWalletBalance = stakeTokenBalanceRaw 
+    ? parseFloat(formatUnits(stakeTokenBalanceRaw, stakeToken.decimals))
     : 0; // Fallback to 0 if no wallet connected
   
   // Read current allowance to avoid unnecessary approvals
   // Only read when we're in staking mode (not create cast flow)
   const { data: currentAllowance } = useReadContract({
-    address: HIGHER_TOKEN_ADDRESS,
+    address: stakeToken.address,
     abi: ERC20_ABI,
     functionName: 'allowance',
     args: wagmiAddress && !showCreateCast && castsRef.current.length > 0 ? [wagmiAddress, LOCKUP_CONTRACT] : undefined,
     query: {
-      enabled: !!wagmiAddress && !showCreateCast && castsRef.current.length > 0,
+      enabled: !!wagmiAddress && stakeToken.isERC20 && !showCreateCast && castsRef.current.length > 0,
       refetchInterval: false,
       refetchOnMount: false,
       refetchOnWindowFocus: false,
@@ -267,10 +259,8 @@ export function OnboardingModal({
           const data = await response.json();
           const castsWithTotals: CastCard[] = data.casts.map((cast: any) => {
             const { totalCasterStaked, totalSupporterStaked } = calculateStakeTotals(
-              cast.casterStakeAmounts || [],
-              cast.casterStakeUnlockTimes || [],
-              cast.supporterStakeAmounts || [],
-              cast.totalHigherStaked
+              cast.casterLockups || [],
+              cast.supporterLockups || []
             );
             return {
               hash: cast.hash,
@@ -282,12 +272,8 @@ export function OnboardingModal({
               totalHigherStaked: cast.totalHigherStaked,
               totalCasterStaked,
               totalSupporterStaked,
-              casterStakeLockupIds: cast.casterStakeLockupIds || [],
-              casterStakeAmounts: cast.casterStakeAmounts || [],
-              casterStakeUnlockTimes: cast.casterStakeUnlockTimes || [],
-              supporterStakeLockupIds: cast.supporterStakeLockupIds || [],
-              supporterStakeAmounts: cast.supporterStakeAmounts || [],
-              supporterStakeFids: cast.supporterStakeFids || [],
+              casterLockups: cast.casterLockups || [],
+              supporterLockups: cast.supporterLockups || [],
               username: cast.username,
             };
           });
@@ -396,8 +382,8 @@ export function OnboardingModal({
           abi: LOCKUP_ABI,
           functionName: 'createLockUp',
           args: [
-            HIGHER_TOKEN_ADDRESS,
-            true, // isERC20
+            paramsToUse.token.address,
+            paramsToUse.token.isERC20,
             paramsToUse.amountWei,
             paramsToUse.unlockTime,
             wagmiAddress,
@@ -474,7 +460,8 @@ export function OnboardingModal({
       
       // Call parent callback with metadata for optimistic update
       const metadata = pendingStakeMetadataRef.current.get(createLockUpHash);
-      if (metadata) {
+      // The optimistic update adds HIGHER; stakes in other tokens show up once the lockup is confirmed
+      if (metadata && metadata.token === 'HIGHER') {
         const tempLockupId = `temp-${createLockUpHash}`;
         onLockSuccess?.(createLockUpHash, castHashForCallback, metadata.amount, metadata.unlockTime, tempLockupId);
         pendingStakeMetadataRef.current.delete(createLockUpHash);
@@ -483,6 +470,13 @@ export function OnboardingModal({
       }
       onStakeSuccess?.();
 
+      // Record the stake server-side from the transaction receipt (the daily sync reconciles anything missed)
+      fetch('/api/user/lockup/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash: createLockUpHash }),
+      }).catch(err => console.error('[OnboardingModal] Failed to confirm lockup:', err));
+
       // Trigger supporter notification (only for supporter stakes on other users' casts)
       if (castHashForCallback && otherUserCast && otherUserCast.casterFid !== userFid && metadata) {
         fetch('/api/notifications/send-supporter', {
@@ -492,6 +486,7 @@ export function OnboardingModal({
             castHash: castHashForCallback,
             supporterFid: userFid,
             amount: metadata.amount,
+            token: metadata.token,
             txHash: createLockUpHash,
           }),
         }).catch(err => console.error('[OnboardingModal] Failed to send supporter notification:', err));
@@ -565,12 +560,8 @@ export function OnboardingModal({
           totalHigherStaked: 0,
           totalCasterStaked: 0,
           totalSupporterStaked: 0,
-          casterStakeLockupIds: [],
-          casterStakeAmounts: [],
-          casterStakeUnlockTimes: [],
-          supporterStakeLockupIds: [],
-          supporterStakeAmounts: [],
-          supporterStakeFids: [],
+          casterLockups: [],
+          supporterLockups: [],
           // Username not available from composeCast result
         };
         
@@ -706,12 +697,8 @@ export function OnboardingModal({
               totalHigherStaked: parseFloat(castData.totalHigherStaked || '0'),
               totalCasterStaked: parseFloat(castData.totalCasterStaked || '0'),
               totalSupporterStaked: parseFloat(castData.totalSupporterStaked || '0'),
-              casterStakeLockupIds: [],
-              casterStakeAmounts: [],
-              casterStakeUnlockTimes: [],
-              supporterStakeLockupIds: [],
-              supporterStakeAmounts: [],
-              supporterStakeFids: [],
+              casterLockups: [],
+              supporterLockups: [],
               username: castData.username || data.author?.username || data.username,
             };
             
@@ -741,12 +728,8 @@ export function OnboardingModal({
           totalHigherStaked: 0,
           totalCasterStaked: 0,
           totalSupporterStaked: 0,
-          casterStakeLockupIds: [],
-          casterStakeAmounts: [],
-          casterStakeUnlockTimes: [],
-          supporterStakeLockupIds: [],
-          supporterStakeAmounts: [],
-          supporterStakeFids: [],
+          casterLockups: [],
+          supporterLockups: [],
           username: data.author?.username || data.username,
         };
         
@@ -776,12 +759,8 @@ export function OnboardingModal({
           totalHigherStaked: 0,
           totalCasterStaked: 0,
           totalSupporterStaked: 0,
-          casterStakeLockupIds: [],
-          casterStakeAmounts: [],
-          casterStakeUnlockTimes: [],
-          supporterStakeLockupIds: [],
-          supporterStakeAmounts: [],
-          supporterStakeFids: [],
+          casterLockups: [],
+          supporterLockups: [],
           username: data.author?.username || data.username,
         };
         
@@ -907,8 +886,8 @@ export function OnboardingModal({
     transactionErrorReportedRef.current = false;
 
     try {
-      // Convert amount to wei (18 decimals)
-      const amountWei = parseUnits(amountStr.replace(/,/g, ''), 18);
+      // Convert amount to the token's smallest unit
+      const amountWei = parseUnits(amountStr.replace(/,/g, ''), stakeToken.decimals);
       
       // Calculate unlock time (current time + duration in seconds)
       const durationSeconds = durationToSeconds(durationNum, inputLockupUnit);
@@ -921,19 +900,21 @@ export function OnboardingModal({
       }
 
       // Store params for createLockUp (will be called after approve succeeds or if already approved)
-      setCreateLockUpParams({ amountWei, unlockTime });
+      setCreateLockUpParams({ amountWei, unlockTime, token: stakeToken });
       setSelectedCastHash(normalizedCastHash);
       // Store metadata for optimistic update keyed by params (moved to hash when available)
       const paramsKey = `${amountWei.toString()}-${unlockTime}`;
       pendingStakeMetadataRef.current.set(paramsKey, {
         amount: amountStr.replace(/,/g, ''),
         unlockTime,
+        token: stakeToken.symbol,
       });
 
-      // Step 1: Check if we need to approve (only approve if current allowance is insufficient)
+      // Step 1: Check if we need to approve (only approve if current allowance is insufficient).
+      // Native ETH is sent as value with createLockUp, so it never needs an approval.
       const allowance = currentAllowance || BigInt(0);
       
-      if (allowance >= amountWei) {
+      if (!stakeToken.isERC20 || allowance >= amountWei) {
         // Sufficient allowance - simulate approve success to trigger createLockUp
         hasScheduledCreateLockUp.current = true;
         setPendingCreateLockUp(true);
@@ -948,13 +929,14 @@ export function OnboardingModal({
               abi: LOCKUP_ABI,
               functionName: 'createLockUp',
               args: [
-                HIGHER_TOKEN_ADDRESS,
-                true, // isERC20
+                stakeToken.address,
+                stakeToken.isERC20,
                 amountWei,
                 unlockTime,
                 wagmiAddress,
                 normalizedCastHash // Use normalized cast hash as title
               ],
+              value: stakeToken.isERC20 ? undefined : amountWei,
             });
           } catch (error: any) {
             const message = error?.message || 'Failed to create lockup';
@@ -971,7 +953,7 @@ export function OnboardingModal({
         // Step 1: Approve the lockup contract to spend tokens
         transactionErrorReportedRef.current = false;
         writeContractApprove({
-          address: HIGHER_TOKEN_ADDRESS,
+          address: stakeToken.address,
           abi: ERC20_ABI,
           functionName: 'approve',
           args: [LOCKUP_CONTRACT, amountWei],
@@ -1142,6 +1124,7 @@ export function OnboardingModal({
     initialLockupUnit,
     isLoadingTransaction,
     connectedWalletBalance,
+    stakeToken,
     castHash,
     stakeAmountInputRef,
     lockupDurationInputRef,
@@ -1149,6 +1132,7 @@ export function OnboardingModal({
     onCommitLockupDuration,
     onSetAmount,
     onLockupUnitChange,
+    onStakeTokenChange,
     onStake,
     onCancel,
     errorMessage
@@ -1158,6 +1142,7 @@ export function OnboardingModal({
     initialLockupUnit: 'minute' | 'day' | 'week' | 'month' | 'year';
     isLoadingTransaction: boolean;
     connectedWalletBalance: number;
+    stakeToken: StakeToken;
     castHash: string;
     stakeAmountInputRef: React.RefObject<HTMLInputElement>;
     lockupDurationInputRef: React.RefObject<HTMLInputElement>;
@@ -1165,6 +1150,7 @@ export function OnboardingModal({
     onCommitLockupDuration: (value: string) => void;
     onSetAmount: (percentage: number) => void;
     onLockupUnitChange: (unit: 'minute' | 'day' | 'week' | 'month' | 'year') => void;
+    onStakeTokenChange: (token: StakeToken) => void;
     onStake: (hash: string, amount: string, duration: string, unit: 'minute' | 'day' | 'week' | 'month' | 'year') => void;
     onCancel: () => void;
     errorMessage: string | null;
@@ -1183,7 +1169,7 @@ export function OnboardingModal({
     return (
       <div className="mb-4">
         <div className="mb-3">
-          <label className="text-xs text-black/70 mb-1 block">Amount (HIGHER)</label>
+          <label className="text-xs text-black/70 mb-1 block">Amount ({stakeToken.symbol})</label>
           <div className="flex gap-2">
             <input
               ref={stakeAmountInputRef}
@@ -1191,8 +1177,24 @@ export function OnboardingModal({
               value={localStakeAmount}
               onChange={(e) => setLocalStakeAmount(e.target.value)}
               placeholder="0.00"
-              className="flex-1 text-sm font-mono bg-white border border-black/20 p-2 text-black focus:outline-none focus:border-black"
+              className="flex-1 min-w-0 text-sm font-mono bg-white border border-black/20 p-2 text-black focus:outline-none focus:border-black"
             />
+            {STAKE_TOKENS.length > 1 && (
+              <select
+                value={stakeToken.symbol}
+                onChange={(e) => {
+                  // Persist current amount/duration to parent so they survive the balance refetch
+                  onCommitStakeAmount(localStakeAmount);
+                  onCommitLockupDuration(localLockupDuration);
+                  onStakeTokenChange(STAKE_TOKENS.find(t => t.symbol === e.target.value) ?? STAKE_TOKENS[0]);
+                }}
+                className="text-sm font-mono bg-white border border-black/20 p-2 text-black focus:outline-none focus:border-black"
+              >
+                {STAKE_TOKENS.map(t => (
+                  <option key={t.symbol} value={t.symbol}>{t.symbol}</option>
+                ))}
+              </select>
+            )}
             <div className="flex gap-1">
               <button
                 type="button"
@@ -1218,7 +1220,7 @@ export function OnboardingModal({
             </div>
           </div>
           <div className="text-xs text-black/50 mt-1">
-            Available: {connectedWalletBalance.toFixed(2)} HIGHER
+            Available: {connectedWalletBalance.toFixed(2)} {stakeToken.symbol}
           </div>
         </div>
 
@@ -1532,6 +1534,7 @@ export function OnboardingModal({
                 initialLockupUnit={lockupUnit}
                 isLoadingTransaction={isLoadingTransaction}
                 connectedWalletBalance={connectedWalletBalance}
+                stakeToken={stakeToken}
                 castHash={castsRef.current[activeCardIndex].hash}
                 stakeAmountInputRef={stakeAmountInputRef}
                 lockupDurationInputRef={lockupDurationInputRef}
@@ -1539,6 +1542,7 @@ export function OnboardingModal({
                 onCommitLockupDuration={commitLockupDuration}
                 onSetAmount={handleSetAmount}
                 onLockupUnitChange={setLockupUnit}
+                onStakeTokenChange={setStakeToken}
                 onStake={handleStake}
                 onCancel={handleCancelStake}
                 errorMessage={stakeError}
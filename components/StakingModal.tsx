@@ -15,6 +15,9 @@ interface LockupDetail {
   castHash?: string | null;
   stakeType?: 'caster' | 'supporter' | null;
   unlocked?: boolean;
+  token?: string; // stake token symbol; HIGHER when absent
+  lockUsdValue?: number | null; // USD value when locked
+  usdValue?: number | null; // USD value now
 }
 
 interface WalletDetail {
@@ -46,6 +49,10 @@ interface StakingModalProps {
   onUnlockSuccess?: (txHash?: string, lockupId?: string, amount?: string) => void;
 }
 
+function formatUsd(value: number): string {
+  return '$' + value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
 // Format time remaining to show only largest unit
 function formatTimeRemaining(seconds: number): string {
   if (seconds <= 0) {
@@ -374,7 +381,8 @@ export function StakingModal({
       lockupId: lockup.lockupId,
       castHash: lockup.castHash,
       stakeType: lockup.stakeType,
-      amount: lockup.amount,
+      // The staked total is in HIGHER, so unstaking another token leaves it unchanged
+      amount: !lockup.token || lockup.token === 'HIGHER' ? lockup.amount : '0',
     };
     
     try {
@@ -522,14 +530,18 @@ export function StakingModal({
                         <div>
                           <div className="flex items-center gap-2">
                             <div className="flex items-center gap-2 flex-shrink-0">
-                              <img 
-                                src={balance.higherLogoUrl || '/higher-logo.png'} 
-                                alt="HIGHER" 
-                                className="w-4 h-4 rounded-full"
-                                onError={(e) => {
-                                  (e.target as HTMLImageElement).style.display = 'none';
-                                }}
-                              />
+                              {!lockup.token || lockup.token === 'HIGHER' ? (
+                                <img 
+                                  src={balance.higherLogoUrl || '/higher-logo.png'} 
+                                  alt="HIGHER" 
+                                  className="w-4 h-4 rounded-full"
+                                  onError={(e) => {
+                                    (e.target as HTMLImageElement).style.display = 'none';
+                                  }}
+                                />
+                              ) : (
+                                <span className="text-xs font-bold text-gray-600">{lockup.token}</span>
+                              )}
                               <span className="font-bold text-black">
                                 {formatTokenAmount(lockup.amountFormatted)}
                               </span>
@@ -585,6 +597,20 @@ export function StakingModal({
                               </a>
                             </div>
                           </div>
+                          {lockup.usdValue != null && (
+                            <p className="text-xs text-gray-600 mt-1">
+                              {lockup.lockUsdValue != null ? (
+                                <>
+                                  {formatUsd(lockup.lockUsdValue)} when staked →{' '}
+                                  <span className={lockup.usdValue >= lockup.lockUsdValue ? 'text-green-700' : 'text-red-700'}>
+                                    {formatUsd(lockup.usdValue)} now
+                                  </span>
+                                </>
+                              ) : (
+                                <>{formatUsd(lockup.usdValue)} now</>
+                              )}
+                            </p>
+                          )}
                           {/* Cast text or link */}
                           {(() => {
                             const castHash = lockup.castHash || lockup.title;
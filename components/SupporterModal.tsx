@@ -1,11 +1,12 @@
 'use client';
 
 import { useEffect, useState, useRef, useCallback } from 'react';
-import { useWriteContract, useWaitForTransactionReceipt, useReadContract, useAccount } from 'wagmi';
+import { useWriteContract, useWaitForTransactionReceipt, useReadContract, useAccount, useBalance } from 'wagmi';
 import { parseUnits, formatUnits } from 'viem';
 import { sdk } from '@farcaster/miniapp-sdk';
-import { LOCKUP_CONTRACT, HIGHER_TOKEN_ADDRESS, LOCKUP_ABI, ERC20_ABI } from '@/lib/contracts';
+import { LOCKUP_CONTRACT, LOCKUP_ABI, ERC20_ABI } from '@/lib/contracts';
 import { formatTimeRemaining } from '@/lib/supporter-helpers';
+import { getStakeTokens, StakeToken } from '@/lib/tokens';
 import { SupporterLeaderboardModal } from './SupporterLeaderboardModal';
 
 interface SupporterModalProps {
@@ -41,6 +42,8 @@ interface CastData {
   connectedUserStake?: { fid: number; totalAmount: string };
 }
 
+const STAKE_TOKENS = getStakeTokens();
+
 // Format timestamp to readable date
 function formatTimestamp(timestamp: string): string {
   try {
@@ -83,6 +86,7 @@ export function SupporterModal({
   const [error, setError] = useState<string | null>(null);
   const [showStakingForm, setShowStakingForm] = useState(false);
   const [stakeAmount, setStakeAmount] = useState('');
+  const [stakeToken, setStakeToken] = useState<StakeToken>(STAKE_TOKENS[0]);
   const [lockupDuration, setLockupDuration] = useState<string>('');
   const [lockupDurationUnit, setLockupDurationUnit] = useState<'minute' | 'day' | 'week' | 'month' | 'year'>('day');
   const [stakeError, setStakeError] = useState<string | null>(null);
@@ -94,38 +98,49 @@ export function SupporterModal({
   const [createLockUpParams, setCreateLockUpParams] = useState<{
     amountWei: bigint;
     unlockTime: number;
+    token: StakeToken;
   } | null>(null);
   // Store metadata keyed by transaction hash to handle multiple concurrent stakes
-  const pendingStakeMetadataRef = useRef<Map<string, { amount: string; unlockTime: number }>>(new Map());
+  const pendingStakeMetadataRef = useRef<Map<string, { amount: string; unlockTime: number; token: string }>>(new Map());
   
   // Wagmi hooks
   const { address: wagmiAddress, isConnected } = useAccount();
   
-  // Read balance from connected wallet address
+  // Read balance of the selected stake token from connected wallet address
   const { data: walletBalanceRaw } = useReadContract({
-    address: HIGHER_TOKEN_ADDRESS,
+    address: stakeToken.address,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
     args: wagmiAddress ? [wagmiAddress] : undefined,
     query: {
-      enabled: !!wagmiAddress,
+      enabled: !!wagmiAddress && stakeToken.isERC20,
       refetchInterval: false,
       refetchOnMount: false,
       refetchOnWindowFocus: false,
     },
   });
   
-  // Convert balance from wei to number (18 decimals)
-  const connectedWalletBalance = walletBalanceRaw 
-    ? parseFloat(formatUnits(walletBalanceRaw, 18))
+  // Native ETH balance, when ETH is the selected stake token
+  const { data: nativeBalance } = useBalance({
+    address: wagmiAddress,
+    query: { enabled: !!wagmiAddress && !stakeToken.isERC20 },
+  });
+  const stakeTokenBalanceRaw = stakeToken.isERC20 ? walletBalanceRaw : nativeBalance?.value;
+
+  // Convert balance from the token's smallest unit to number
+  const connectedWalletBalance = stakeTokenBalanceRaw 
+    ? parseFloat(formatUnits(stakeTokenBalanceRaw, stakeToken.decimals))
     : 0; // Fallback to 0 if no wallet connected
   
   // Read current allowance to avoid unnecessary approvals
   const { data: currentAllowance } = useReadContract({
-    address: HIGHER_TOKEN_ADDRESS,
+    address: stakeToken.address,
     abi: ERC20_ABI,
     functionName: 'allowance',
     args: wagmiAddress ? [wagmiAddress, LOCKUP_CONTRACT] : undefined,
+    query: {
+      enabled: !!wagmiAddress && stakeToken.isERC20,
+    },
   });
   
   const { writeContract: writeContractApprove, data: approveHash, isPending: isApprovePending, error: approveError } = useWriteContract();
@@ -349,8 +364,8 @@ export function SupporterModal({
           abi: LOCKUP_ABI,
           functionName: 'createLockUp',
           args: [
-            HIGHER_TOKEN_ADDRESS,
-            true, // isERC20
+            paramsToUse.token.address,
+            paramsToUse.token.isERC20,
             paramsToUse.amountWei,
             paramsToUse.unlockTime,
             wagmiAddress,
@@ -425,7 +440,8 @@ export function SupporterModal({
       // Call success callback with metadata for optimistic update
       // Look up metadata by transaction hash
       const metadata = pendingStakeMetadataRef.current.get(createLockUpHash);
-      if (metadata) {
+      // The optimistic update adds HIGHER; stakes in other tokens show up once the lockup is confirmed
+      if (metadata && metadata.token === 'HIGHER') {
         // Generate temporary lockupId from tx hash (will be replaced when Dune updates)
         const tempLockupId = `temp-${createLockUpHash}`;
         onLockSuccess?.(createLockUpHash, castHash, metadata.amount, metadata.unlockTime, tempLockupId);
@@ -436,6 +452,13 @@ export function SupporterModal({
       }
       onStakeSuccess?.();
 
+      // Record the stake server-side from the transaction receipt (the daily sync reconciles anything missed)
+      fetch('/api/user/lockup/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash: createLockUpHash }),
+      }).catch(err => console.error('[SupporterModal] Failed to confirm lockup:', err));
+
       // Trigger supporter notification (only for supporter stakes on other users' casts)
       if (userFid && castData && castData.fid !== userFid && metadata) {
         fetch('/api/notifications/send-supporter', {
@@ -445,6 +468,7 @@ export function SupporterModal({
             castHash,
             supporterFid: userFid,
             amount: metadata.amount,
+            token: metadata.token,
             txHash: createLockUpHash,
           }),
         }).catch(err => console.error('[SupporterModal] Failed to send supporter notification:', err));
@@ -496,8 +520,8 @@ export function SupporterModal({
     setStakeError(null);
 
     try {
-      // Convert amount to wei (18 decimals)
-      const amountWei = parseUnits(amountStr.replace(/,/g, ''), 18);
+      // Convert amount to the token's smallest unit
+      const amountWei = parseUnits(amountStr.replace(/,/g, ''), stakeToken.decimals);
       
       let unlockTime: number;
       
@@ -529,19 +553,21 @@ export function SupporterModal({
       }
 
       // Store params for createLockUp (will be called after approve succeeds or if already approved)
-      setCreateLockUpParams({ amountWei, unlockTime });
+      setCreateLockUpParams({ amountWei, unlockTime, token: stakeToken });
       // Store metadata for optimistic update, keyed by transaction params (will be moved to hash key when hash is available)
       const paramsKey = `${amountWei.toString()}-${unlockTime}`;
       pendingStakeMetadataRef.current.set(paramsKey, {
         amount: amountStr.replace(/,/g, ''),
         unlockTime,
+        token: stakeToken.symbol,
       });
 
-      // Step 1: Check if we need to approve (only approve if current allowance is insufficient)
+      // Step 1: Check if we need to approve (only approve if current allowance is insufficient).
+      // Native ETH is sent as value with createLockUp, so it never needs an approval.
       const allowance = currentAllowance || BigInt(0);
       
-      if (allowance >= amountWei) {
-        console.log('[SupporterModal] Sufficient allowance exists, skipping approve');
+      if (!stakeToken.isERC20 || allowance >= amountWei) {
+        console.log('[SupporterModal] No approval needed, skipping approve');
         // Sufficient allowance - simulate approve success to trigger createLockUp
         hasScheduledCreateLockUp.current = true;
         setPendingCreateLockUp(true);
@@ -558,13 +584,14 @@ export function SupporterModal({
               abi: LOCKUP_ABI,
               functionName: 'createLockUp',
               args: [
-                HIGHER_TOKEN_ADDRESS,
-                true, // isERC20
+                stakeToken.address,
+                stakeToken.isERC20,
                 amountWei,
                 unlockTime,
                 wagmiAddress,
                 castHash // Use cast hash as title
               ],
+              value: stakeToken.isERC20 ? undefined : amountWei,
             });
             // Metadata is already stored with paramsKey - will be moved to hash key when hash is available
           } catch (error: any) {
@@ -586,7 +613,7 @@ export function SupporterModal({
         console.log('[SupporterModal] Insufficient allowance, calling approve');
         // Step 1: Approve the lockup contract to spend tokens
         writeContractApprove({
-          address: HIGHER_TOKEN_ADDRESS,
+          address: stakeToken.address,
           abi: ERC20_ABI,
           functionName: 'approve',
           args: [LOCKUP_CONTRACT, amountWei],
@@ -873,20 +900,36 @@ export function SupporterModal({
           <div className="mb-4">
             <div className="mb-3">
               <label className="block text-xs font-bold text-black mb-1">
-                Amount (HIGHER)
+                Amount ({stakeToken.symbol})
               </label>
-              <input
-                type="text"
-                value={stakeAmount}
-                onChange={(e) => {
-                  setStakeAmount(e.target.value);
-                  setStakeError(null);
-                }}
-                placeholder="0.00"
-                className="w-full text-sm font-mono bg-white border border-black/20 p-2 text-black placeholder-black/40 focus:outline-none focus:border-black"
-              />
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={stakeAmount}
+                  onChange={(e) => {
+                    setStakeAmount(e.target.value);
+                    setStakeError(null);
+                  }}
+                  placeholder="0.00"
+                  className="flex-1 min-w-0 text-sm font-mono bg-white border border-black/20 p-2 text-black placeholder-black/40 focus:outline-none focus:border-black"
+                />
+                {STAKE_TOKENS.length > 1 && (
+                  <select
+                    value={stakeToken.symbol}
+                    onChange={(e) => {
+                      setStakeToken(STAKE_TOKENS.find(t => t.symbol === e.target.value) ?? STAKE_TOKENS[0]);
+                      setStakeError(null);
+                    }}
+                    className="text-sm font-mono bg-white border border-black/20 p-2 text-black focus:outline-none focus:border-black"
+                  >
+                    {STAKE_TOKENS.map(t => (
+                      <option key={t.symbol} value={t.symbol}>{t.symbol}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
               <div className="text-xs text-black/50 mt-1">
-                Available: {connectedWalletBalance.toFixed(2)} HIGHER
+                Available: {connectedWalletBalance.toFixed(2)} {stakeToken.symbol}
               </div>
             </div>
             {isCaster ? (
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { sdk } from '@farcaster/miniapp-sdk';
+import { castPageUrl } from '@/lib/app-url';
 
 type TransactionModalVariant = 'failure' | 'lock-success' | 'unlock-success';
 
@@ -45,6 +46,8 @@ export function TransactionModal({
       const basescanLink = txHash ? `\nhttps://basescan.org/tx/${txHash}` : '';
       await sdk.actions.composeCast({
         text: `🥩${basescanLink}`,
+        // The cast page embeds its live stake image
+        embeds: [castPageUrl(castHash)],
         parent: {
           type: 'cast',
           hash: castHash,
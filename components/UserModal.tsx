@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { sdk } from '@farcaster/miniapp-sdk';
+import { NOTIFICATION_PREFERENCES, NotificationPreference, NotificationPreferenceKey } from '@/lib/notification-preferences';
 
 interface UserModalProps {
   onClose: () => void;
@@ -31,6 +32,11 @@ interface UserStats {
   totalCasterStakesOnUserCasts?: string;
   totalSupporterStakesOnUserCasts?: string;
   totalSupporters?: number;
+  stakeValue?: {
+    lockUsdValue: number | null; // USD value of active stakes when locked
+    usdValue: number | null; // and now
+    valued: number; // stakes with both values
+  };
 }
 
 // Format token amount with K/M/B suffixes
@@ -50,6 +56,17 @@ function formatTokenAmount(amount: string): string {
   }
 }
 
+function formatUsd(value: number): string {
+  return '$' + value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// Change from the value at lock time, e.g. "+12.5%"
+function formatChange(then: number, now: number): string {
+  if (then <= 0) return '';
+  const pct = ((now - then) / then) * 100;
+  return `${pct >= 0 ? '+' : ''}${pct.toFixed(1)}%`;
+}
+
 // Format timestamp to readable date
 function formatTimestamp(timestamp: string): string {
   try {
@@ -65,7 +82,8 @@ export function UserModal({ onClose, userFid, onOpenSupporterModal }: UserModalP
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [notificationsEnabled, setNotificationsEnabled] = useState<boolean | null>(null);
-  const [notificationThreshold, setNotificationThreshold] = useState<number>(10);
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreference[]>([]);
+  const [savingPreference, setSavingPreference] = useState<NotificationPreferenceKey | null>(null);
   const [miniappAdded, setMiniappAdded] = useState<boolean | null>(null);
   const [updatingThreshold, setUpdatingThreshold] = useState(false);
   const [isOptimistic, setIsOptimistic] = useState(false);
@@ -97,6 +115,7 @@ export function UserModal({ onClose, userFid, onOpenSupporterModal }: UserModalP
 
     fetchStats();
     fetchNotificationStatus();
+    fetchNotificationPreferences();
     checkMiniappAdded();
   }, [userFid]);
 
@@ -148,9 +167,6 @@ export function UserModal({ onClose, userFid, onOpenSupporterModal }: UserModalP
         // This prevents reverting optimistic state while waiting for webhook
         if (!isOptimistic || data.enabled === true) {
           setNotificationsEnabled(data.enabled || false);
-          if (data.enabled && data.threshold !== undefined) {
-            setNotificationThreshold(data.threshold);
-          }
           // If database confirms enabled, clear optimistic flag
           if (data.enabled === true) {
             setIsOptimistic(false);
@@ -217,9 +233,6 @@ export function UserModal({ onClose, userFid, onOpenSupporterModal }: UserModalP
               // Database confirmed notifications are enabled
               setNotificationsEnabled(true);
               setIsOptimistic(false); // Clear optimistic flag since we have confirmation
-              if (data.threshold !== undefined) {
-                setNotificationThreshold(data.threshold);
-              }
               confirmed = true;
               break;
             }
@@ -282,33 +295,49 @@ export function UserModal({ onClose, userFid, onOpenSupporterModal }: UserModalP
     }
   };
 
-  const handleThresholdUpdate = async (newThreshold: number) => {
-    if (newThreshold <= 0 || isNaN(newThreshold)) {
+  const fetchNotificationPreferences = async () => {
+    try {
+      const response = await fetch(`/api/user/notifications/preferences?fid=${userFid}`);
+      if (response.ok) {
+        const data = await response.json();
+        setNotificationPreferences(data.preferences || []);
+      }
+    } catch (err) {
+      console.error('[UserModal] Error fetching notification preferences:', err);
+    }
+  };
+
+  const handlePreferenceUpdate = async (key: NotificationPreferenceKey, update: { enabled?: boolean; threshold?: number }) => {
+    if (update.threshold !== undefined && (isNaN(update.threshold) || update.threshold < 0)) {
       return;
     }
 
-    setUpdatingThreshold(true);
+    // Optimistic update; the saved preferences replace it
+    setNotificationPreferences(prev => prev.map(p => (p.key === key ? { ...p, ...update } : p)));
+    setSavingPreference(key);
     try {
-      const response = await fetch('/api/user/notifications/threshold', {
+      const response = await fetch('/api/user/notifications/preferences', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           fid: userFid,
-          threshold: newThreshold,
+          preferences: [{ key, ...update }],
         }),
       });
 
       if (response.ok) {
         const data = await response.json();
-        setNotificationThreshold(data.threshold);
+        setNotificationPreferences(data.preferences || []);
       } else {
         const error = await response.json();
-        console.error('[UserModal] Failed to update threshold:', error);
+        console.error('[UserModal] Failed to update notification preference:', error);
+        fetchNotificationPreferences();
       }
     } catch (err) {
-      console.error('[UserModal] Error updating threshold:', err);
+      console.error('[UserModal] Error updating notification preference:', err);
+      fetchNotificationPreferences();
     } finally {
-      setUpdatingThreshold(false);
+      setSavingPreference(null);
     }
   };
 
@@ -434,6 +463,18 @@ export function UserModal({ onClose, userFid, onOpenSupporterModal }: UserModalP
                     </span>
                   </div>
                 </div>
+
+                {userStats?.stakeValue?.lockUsdValue != null && userStats.stakeValue.usdValue != null && (
+                  <div className="flex items-center justify-between pl-3">
+                    <span className="text-xs text-black/60">Value staked → now</span>
+                    <span className="text-xs font-bold text-black">
+                      {formatUsd(userStats.stakeValue.lockUsdValue)} → {formatUsd(userStats.stakeValue.usdValue)}
+                      <span className={`ml-1 font-normal ${userStats.stakeValue.usdValue >= userStats.stakeValue.lockUsdValue ? 'text-green-700' : 'text-red-700'}`}>
+                        {formatChange(userStats.stakeValue.lockUsdValue, userStats.stakeValue.usdValue)}
+                      </span>
+                    </span>
+                  </div>
+                )}
               </div>
 
               {/* Stakes on User's Casts Section */}
@@ -637,43 +678,65 @@ export function UserModal({ onClose, userFid, onOpenSupporterModal }: UserModalP
                     </button>
                   </div>
                 ) : notificationsEnabled ? (
-                  // State 2: Miniapp added + notifications enabled
+                  // State 2: Miniapp added + notifications enabled: per-event preferences
                   <div>
-                    <div className="flex items-center justify-between gap-3 mb-1">
-                      <label className="text-xs font-bold text-black mb-0">
-                        Notification Threshold (USD)
-                      </label>
-                      <input
-                        type="number"
-                        min="0"
-                        value={notificationThreshold}
-                        onChange={(e) => {
-                          const value = parseFloat(e.target.value);
-                          if (!isNaN(value) && value >= 0) {
-                            setNotificationThreshold(value);
-                          }
-                        }}
-                        onBlur={(e) => {
-                          const value = parseFloat(e.target.value);
-                          if (!isNaN(value) && value > 0) {
-                            handleThresholdUpdate(value);
-                          } else {
-                            setNotificationThreshold(10);
-                          }
-                        }}
-                        disabled={updatingThreshold}
-                        className="w-24 border border-black/20 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-black/20 disabled:bg-gray-100 disabled:text-gray-500 text-right"
-                        placeholder="10.00"
-                      />
+                    <label className="text-xs font-bold text-black mb-1 block">
+                      Notifications
+                    </label>
+                    <div className="space-y-2">
+                      {NOTIFICATION_PREFERENCES.map((def) => {
+                        const pref = notificationPreferences.find(p => p.key === def.key);
+                        if (!pref) return null;
+                        return (
+                          <div key={def.key}>
+                            <div className="flex items-center justify-between gap-3">
+                              <label className="flex items-center gap-2 text-xs text-black cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={pref.enabled}
+                                  onChange={(e) => handlePreferenceUpdate(def.key, { enabled: e.target.checked })}
+                                  disabled={savingPreference === def.key}
+                                  className="accent-black"
+                                />
+                                <span className="font-bold">{def.label}</span>
+                              </label>
+                              <div className="flex items-center gap-1">
+                                <span className="text-[10px] text-black/50">{def.thresholdLabel}</span>
+                                <input
+                                  type="number"
+                                  min={def.thresholdKind === 'rank' ? 1 : 0}
+                                  step={def.thresholdKind === 'rank' ? 1 : 'any'}
+                                  value={pref.threshold}
+                                  onChange={(e) => {
+                                    const value = parseFloat(e.target.value);
+                                    if (!isNaN(value) && value >= 0) {
+                                      setNotificationPreferences(prev => prev.map(p => (p.key === def.key ? { ...p, threshold: value } : p)));
+                                    }
+                                  }}
+                                  onBlur={(e) => {
+                                    const value = parseFloat(e.target.value);
+                                    const valid = def.thresholdKind === 'rank' ? Number.isInteger(value) && value >= 1 : !isNaN(value) && value >= 0;
+                                    if (valid) {
+                                      handlePreferenceUpdate(def.key, { threshold: value });
+                                    } else {
+                                      fetchNotificationPreferences();
+                                    }
+                                  }}
+                                  disabled={!pref.enabled || savingPreference === def.key}
+                                  className="w-16 border border-black/20 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-black/20 disabled:bg-gray-100 disabled:text-gray-500 text-right"
+                                />
+                              </div>
+                            </div>
+                            <p className="text-[10px] text-black/60 ml-5">{def.description}</p>
+                          </div>
+                        );
+                      })}
                     </div>
-                    {updatingThreshold && (
-                      <div className="flex items-center gap-2">
+                    {savingPreference && (
+                      <div className="flex items-center gap-2 mt-1">
                         <span className="text-xs text-black/40">Saving...</span>
                       </div>
                     )}
-                    <p className="text-xs text-black/60 mt-1">
-                      Get notified when new support is added
-                    </p>
                   </div>
                 ) : (
                   // State 3: Miniapp added + notifications disabled
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { isNotificationAllowed, resolvePreferences, validatePreferenceThreshold } from '../notification-preferences';
+
+describe('notification preferences', () => {
+	it('defaults every event to on, seeding the new-support threshold from the older setting', () => {
+		const prefs = resolvePreferences([], 25);
+		expect(prefs.map(p => p.key)).toEqual(['supporter_added', 'stake_expiring', 'caster_stake_lost', 'rank_change', 'weekly_digest']);
+		expect(prefs.every(p => p.enabled)).toBe(true);
+		expect(prefs.find(p => p.key === 'supporter_added')?.threshold).toBe(25);
+		expect(resolvePreferences([]).find(p => p.key === 'supporter_added')?.threshold).toBe(10);
+		expect(prefs.find(p => p.key === 'rank_change')?.threshold).toBe(10);
+	});
+
+	it('uses stored rows over defaults', () => {
+		const prefs = resolvePreferences([
+			{ key: 'supporter_added', enabled: true, threshold: 50 },
+			{ key: 'weekly_digest', enabled: false, threshold: null },
+		], 25);
+		expect(prefs.find(p => p.key === 'supporter_added')).toEqual({ key: 'supporter_added', enabled: true, threshold: 50 });
+		expect(prefs.find(p => p.key === 'weekly_digest')).toEqual({ key: 'weekly_digest', enabled: false, threshold: 0 });
+	});
+
+	it('enforces toggles and thresholds per event', () => {
+		const prefs = resolvePreferences([
+			{ key: 'supporter_added', enabled: true, threshold: 10 },
+			{ key: 'stake_expiring', enabled: false, threshold: 0 },
+			{ key: 'rank_change', enabled: true, threshold: 3 },
+		]);
+		expect(isNotificationAllowed(prefs, 'supporter_added', 10)).toBe(true);
+		expect(isNotificationAllowed(prefs, 'supporter_added', 9.99)).toBe(false);
+		expect(isNotificationAllowed(prefs, 'stake_expiring', 1000)).toBe(false);
+		// Rank thresholds are a top N
+		expect(isNotificationAllowed(prefs, 'rank_change', 3)).toBe(true);
+		expect(isNotificationAllowed(prefs, 'rank_change', 4)).toBe(false);
+		expect(isNotificationAllowed([], 'supporter_added', 100)).toBe(false);
+	});
+
+	it('validates thresholds by kind', () => {
+		expect(validatePreferenceThreshold('supporter_added', 0)).toBeNull();
+		expect(validatePreferenceThreshold('supporter_added', -1)).not.toBeNull();
+		expect(validatePreferenceThreshold('rank_change', 2.5)).not.toBeNull();
+		expect(validatePreferenceThreshold('rank_change', 0)).not.toBeNull();
+		expect(validatePreferenceThreshold('rank_change', 5)).toBeNull();
+	});
+});
@@ -0,0 +1,121 @@
+import { afterEach, beforeAll, describe, it, expect, vi } from 'vitest';
+import {
+	getStakeRules,
+	isCasterStakeValid,
+	isSupporterStakeValid,
+	validateLockups,
+	STAKE_RULE_VERSIONS,
+} from '../stake-rules';
+import { upsertLockups, LockupRecord } from '../services/db-service';
+import { resetTestDb, setupTestDb, sql } from './test-db';
+
+vi.mock('@vercel/postgres', () => import('./test-db'));
+
+const NOW = 1_800_000_000;
+const T = 1_900_000_000;
+
+afterEach(() => {
+	delete process.env.STAKE_RULES_VERSION;
+});
+
+describe('getStakeRules', () => {
+	it('defaults to version 1 and honours STAKE_RULES_VERSION', () => {
+		expect(getStakeRules().version).toBe(1);
+		process.env.STAKE_RULES_VERSION = '3';
+		expect(getStakeRules().supporterMatch).toBe('min');
+	});
+
+	it('falls back to the default for unknown versions', () => {
+		process.env.STAKE_RULES_VERSION = '99';
+		expect(getStakeRules()).toBe(STAKE_RULE_VERSIONS[1]);
+	});
+});
+
+describe('stake validity', () => {
+	const v1 = { rules: getStakeRules(1), currentTime: NOW };
+	const v2 = { rules: getStakeRules(2), currentTime: NOW };
+	const v3 = { rules: getStakeRules(3), currentTime: NOW };
+
+	it('requires caster stakes to be locked, and unexpired only when the rules check expiry', () => {
+		expect(isCasterStakeValid({ unlocked: false, unlockTime: T }, v1)).toBe(true);
+		expect(isCasterStakeValid({ unlocked: true, unlockTime: T }, v1)).toBe(false);
+		expect(isCasterStakeValid({ unlocked: false, unlockTime: NOW - 1 }, v1)).toBe(true);
+		expect(isCasterStakeValid({ unlocked: false, unlockTime: NOW - 1 }, v2)).toBe(false);
+	});
+
+	it('matches supporter unlockTimes exactly, within a window, or against the earliest caster unlockTime', () => {
+		const casterTimes = [T, T + 86400];
+		const supporter = (unlockTime: number) => ({ unlocked: false, unlockTime });
+
+		expect(isSupporterStakeValid(supporter(T + 86400), casterTimes, v1)).toBe(true);
+		expect(isSupporterStakeValid(supporter(T + 60), casterTimes, v1)).toBe(false);
+
+		expect(isSupporterStakeValid(supporter(T + 3600), casterTimes, v2)).toBe(true);
+		expect(isSupporterStakeValid(supporter(T + 3601), casterTimes, v2)).toBe(false);
+
+		expect(isSupporterStakeValid(supporter(T + 60), casterTimes, v3)).toBe(true);
+		expect(isSupporterStakeValid(supporter(T - 1), casterTimes, v3)).toBe(false);
+	});
+
+	it('rejects supporter stakes that are unlocked, have no unlockTime, or have no caster stake to match', () => {
+		expect(isSupporterStakeValid({ unlocked: true, unlockTime: T }, [T], v1)).toBe(false);
+		expect(isSupporterStakeValid({ unlocked: false }, [T], v1)).toBe(false);
+		expect(isSupporterStakeValid({ unlocked: false, unlockTime: T }, [], v3)).toBe(false);
+	});
+
+	it('validates supporter lockups against the caster lockups of the same cast', () => {
+		const lockups = [
+			{ castHash: '0xa', stakeType: 'caster' as const, unlockTime: T, unlocked: true },
+			{ castHash: '0xa', stakeType: 'caster' as const, unlockTime: T + 10, unlocked: false },
+			{ castHash: '0xa', stakeType: 'supporter' as const, unlockTime: T, unlocked: false },
+			{ castHash: '0xa', stakeType: 'supporter' as const, unlockTime: T + 5, unlocked: false },
+			{ castHash: '0xa', stakeType: 'supporter' as const, unlockTime: T + 10, unlocked: true },
+			// Caster stakes of another cast never validate these supporters
+			{ castHash: '0xb', stakeType: 'caster' as const, unlockTime: T + 5, unlocked: false },
+		];
+
+		const valid = validateLockups(lockups, v1).filter(l => l.castHash === '0xa').map(l => l.isValid);
+		expect(valid).toEqual([false, true, true, false, false]);
+	});
+});
+
+describe('stake validity views', () => {
+	beforeAll(async () => {
+		await setupTestDb();
+		await resetTestDb();
+	}, 60_000);
+
+	it('mirrors every rule version in stake_rule_versions', async () => {
+		const { rows } = await sql`SELECT * FROM stake_rule_versions ORDER BY version`;
+		expect(rows.map(r => ({
+			version: r.version,
+			supporterMatch: r.supporter_match,
+			toleranceSeconds: r.tolerance_seconds,
+			checkExpiry: r.check_expiry,
+		}))).toEqual(Object.values(STAKE_RULE_VERSIONS));
+	});
+
+	it('flags the same lockups as valid as validateLockups under each version', async () => {
+		const now = Math.floor(Date.now() / 1000);
+		const stake = (lockupId: number, stakeType: LockupRecord['stakeType'], unlockTime: number, unlocked = false): LockupRecord => ({
+			lockupId, castHash: '0xa', sender: null, receiver: null, fid: lockupId, amount: '1',
+			lockTime: null, unlockTime, unlocked, stakeType,
+		});
+		const lockups = [
+			stake(1, 'caster', now + 1000),
+			stake(2, 'caster', now - 1000), // expired
+			stake(3, 'supporter', now + 1000),
+			stake(4, 'supporter', now + 2000),
+			stake(5, 'supporter', now + 3000, true),
+			stake(6, 'supporter', now + 4601),
+			stake(7, 'supporter', now - 1000),
+		];
+		await upsertLockups(lockups);
+
+		for (const version of Object.keys(STAKE_RULE_VERSIONS).map(Number)) {
+			const { rows } = await sql`SELECT lockup_id, is_valid FROM valid_lockups WHERE rules_version = ${version} ORDER BY lockup_id`;
+			const expected = validateLockups(lockups, { rules: getStakeRules(version), currentTime: now });
+			expect(rows.map(r => r.is_valid), `version ${version}`).toEqual(expected.map(l => l.isValid));
+		}
+	});
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { calculateWeightedStake, filterValidSupporterStakes } from '../supporter-helpers';
+import { getStakeRules } from '../stake-rules';
+
+const DAY = 86400;
+const WEI = 10n ** 18n;
+const LOCK = 1_800_000_000;
+
+describe('calculateWeightedStake', () => {
+	it('weights an active stake by the time locked so far', () => {
+		expect(calculateWeightedStake(100n * WEI, LOCK, LOCK + 30 * DAY, LOCK + 10 * DAY)).toBe(1000);
+	});
+
+	it('stops accruing at unlockTime', () => {
+		expect(calculateWeightedStake(100n * WEI, LOCK, LOCK + 30 * DAY, LOCK + 365 * DAY)).toBe(3000);
+	});
+
+	it('returns 0 before the lock starts, at lockTime, and for inverted periods', () => {
+		expect(calculateWeightedStake(100n * WEI, LOCK, LOCK + 30 * DAY, LOCK - DAY)).toBe(0);
+		expect(calculateWeightedStake(100n * WEI, LOCK, LOCK + 30 * DAY, LOCK)).toBe(0);
+		expect(calculateWeightedStake(100n * WEI, LOCK, LOCK - DAY, LOCK + DAY)).toBe(0);
+	});
+
+	it('returns 0 for a zero amount and handles fractional tokens and days', () => {
+		expect(calculateWeightedStake(0n, LOCK, LOCK + 30 * DAY, LOCK + 10 * DAY)).toBe(0);
+		expect(calculateWeightedStake(WEI / 2n, LOCK, LOCK + DAY, LOCK + DAY / 2)).toBeCloseTo(0.25);
+	});
+
+	it('keeps precision for large stakes', () => {
+		expect(calculateWeightedStake(1_000_000_000n * WEI, LOCK, LOCK + DAY, LOCK + DAY)).toBe(1_000_000_000);
+	});
+});
+
+describe('filterValidSupporterStakes', () => {
+	it('keeps stakes matching a caster unlockTime and drops stakes without an unlockTime', () => {
+		const stakes = [
+			{ fid: 1, pfp: '', totalAmount: '1', unlockTime: LOCK },
+			{ fid: 2, pfp: '', totalAmount: '1', unlockTime: LOCK + 1 },
+			{ fid: 3, pfp: '', totalAmount: '1' },
+		];
+		expect(filterValidSupporterStakes(stakes, [LOCK, NaN], { rules: getStakeRules(1) }).map(s => s.fid)).toEqual([1]);
+	});
+});
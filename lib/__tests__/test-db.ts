@@ -0,0 +1,68 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+
+/**
+ * In-memory Postgres (PGlite) loaded with sql/schema.sql, standing in for @vercel/postgres in tests:
+ *
+ *   vi.mock('@vercel/postgres', () => import('<relative path>/lib/__tests__/test-db'));
+ *
+ * Create it once per test file (loading the schema takes a few seconds) and reset it between tests.
+ */
+let pg: PGlite | null = null;
+
+const TABLES = [
+	'leaderboard_entries',
+	'lockups',
+	'lockup_sync_cursors',
+	'leaderboard_snapshots',
+	'leaderboard_snapshot_entries',
+	'supporter_weighted_ranks',
+	'price_history',
+];
+
+export async function setupTestDb(): Promise<PGlite> {
+	if (!pg) {
+		pg = new PGlite();
+		await pg.exec(readFileSync(path.join(__dirname, '../../sql/schema.sql'), 'utf8'));
+	}
+	return pg;
+}
+
+export async function resetTestDb(): Promise<void> {
+	await pg!.exec(`TRUNCATE ${TABLES.join(', ')} RESTART IDENTITY CASCADE`);
+}
+
+async function run(strings: TemplateStringsArray, values: unknown[]) {
+	if (!pg) throw new Error('test database not set up (call setupTestDb in beforeAll)');
+	const text = strings.reduce((query, part, i) => query + (i > 0 ? `$${i}` : '') + part, '');
+	const result = await pg.query<any>(text, values);
+	return { rows: result.rows, rowCount: result.affectedRows ?? result.rows.length };
+}
+
+let transactions: Promise<void> = Promise.resolve();
+
+// A pooled connection (sql.connect()). PGlite has a single session, so connections are handed out one
+// at a time and transactions never interleave.
+async function connect() {
+	const previous = transactions;
+	let release!: () => void;
+	transactions = new Promise<void>(resolve => {
+		release = resolve;
+	});
+	await previous;
+	return { sql, release: () => release() };
+}
+
+export const sql = Object.assign(
+	(strings: TemplateStringsArray, ...values: unknown[]) => run(strings, values),
+	{ connect }
+);
+
+export function createClient() {
+	return {
+		connect: async () => {},
+		end: async () => {},
+		sql,
+	};
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { getStakeToken, parseStakeTokens, toHigherEquivalent, KNOWN_STAKE_TOKENS } from '../tokens';
+
+const PRICES = { higher: 0.005, 'degen-base': 0.01, 'usd-coin': 1, ethereum: 3000 };
+
+describe('parseStakeTokens', () => {
+	it('always allows HIGHER first and ignores unknown symbols', () => {
+		expect(parseStakeTokens(undefined).map(t => t.symbol)).toEqual(['HIGHER']);
+		expect(parseStakeTokens('usdc, WETH ,HIGHER').map(t => t.symbol)).toEqual(['HIGHER', 'USDC']);
+	});
+
+	it('applies per-token weights and keeps the default for invalid ones', () => {
+		const tokens = parseStakeTokens('DEGEN:0.5,USDC:-1');
+		expect(tokens.find(t => t.symbol === 'DEGEN')?.weight).toBe(0.5);
+		expect(tokens.find(t => t.symbol === 'USDC')?.weight).toBe(1);
+	});
+
+	it('looks tokens up by address regardless of case, within the allow-list only', () => {
+		const tokens = parseStakeTokens('DEGEN');
+		expect(getStakeToken(KNOWN_STAKE_TOKENS.DEGEN.address.toLowerCase(), tokens)?.symbol).toBe('DEGEN');
+		expect(getStakeToken(KNOWN_STAKE_TOKENS.USDC.address, tokens)).toBeNull();
+	});
+});
+
+describe('toHigherEquivalent', () => {
+	it('leaves HIGHER amounts unchanged', () => {
+		expect(toHigherEquivalent(123n, KNOWN_STAKE_TOKENS.HIGHER, {})).toBe(123n);
+	});
+
+	it('converts by USD price ratio, decimals and weight', () => {
+		// 100 DEGEN at $0.01, weight 0.5 -> $0.50 -> 100 HIGHER
+		const [, degen] = parseStakeTokens('DEGEN:0.5');
+		expect(toHigherEquivalent(100n * 10n ** 18n, degen, PRICES)).toBe(100n * 10n ** 18n);
+		// 1 USDC (6 decimals) -> 200 HIGHER
+		expect(toHigherEquivalent(1_000_000n, KNOWN_STAKE_TOKENS.USDC, PRICES)).toBe(200n * 10n ** 18n);
+	});
+
+	it('converts native ETH lockups, recorded with the zero address as token', () => {
+		const tokens = parseStakeTokens('ETH');
+		const eth = getStakeToken('0x0000000000000000000000000000000000000000', tokens);
+		expect(eth?.isERC20).toBe(false);
+		// 0.01 ETH at $3000 -> $30 -> 6000 HIGHER
+		expect(toHigherEquivalent(10n ** 16n, eth!, PRICES)).toBe(6000n * 10n ** 18n);
+	});
+
+	it('returns null without a price for the token or for HIGHER', () => {
+		expect(toHigherEquivalent(1_000_000n, KNOWN_STAKE_TOKENS.USDC, { higher: 0.005 })).toBeNull();
+		expect(toHigherEquivalent(1_000_000n, KNOWN_STAKE_TOKENS.USDC, { 'usd-coin': 1 })).toBeNull();
+	});
+});
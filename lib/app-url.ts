@@ -0,0 +1,26 @@
+/**
+ * Public URL of the deployed mini app, used for share links and embeds.
+ * Override with NEXT_PUBLIC_APP_URL for preview deployments.
+ */
+export const APP_URL = (process.env.NEXT_PUBLIC_APP_URL || 'https://higher-steaks.vercel.app').replace(/\/$/, '');
+
+/**
+ * Shareable page of a cast
+ */
+export function castPageUrl(castHash: string): string {
+  return `${APP_URL}/cast/${castHash}`;
+}
+
+/**
+ * Cast page with the stake modal open, for extending a stake that is about to unlock
+ */
+export function stakeExtendUrl(castHash: string): string {
+  return `${castPageUrl(castHash)}?action=extend`;
+}
+
+/**
+ * Dynamic 3:2 embed image (app/api/og): 'leaderboard', 'cast/{hash}' or 'user/{fid}'
+ */
+export function ogImageUrl(path: string): string {
+  return `${APP_URL}/api/og/${path}`;
+}
@@ -0,0 +1,29 @@
+import { createPublicClient, http } from 'viem';
+import { base } from 'viem/chains';
+
+/**
+ * Resolve the server-side Base RPC URL
+ * Priority: Alchemy, then BASE_RPC_URL (e.g. a local anvil fork), then the public Base RPC
+ */
+export function getBaseRpcUrl(): string {
+  if (process.env.ALCHEMY_API_KEY) {
+    return `https://base-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_API_KEY}`;
+  }
+  return process.env.BASE_RPC_URL || 'https://mainnet.base.org';
+}
+
+/**
+ * Create a viem public client for Base (server-side only)
+ */
+export function createBaseClient() {
+  return createPublicClient({
+    chain: base,
+    transport: http(getBaseRpcUrl(), {
+      batch: {
+        wait: 10,
+      },
+      retryCount: 3,
+      retryDelay: 1000,
+    }),
+  });
+}
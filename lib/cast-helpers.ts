@@ -36,6 +36,13 @@ export function isValidHigherCast(
   return containsKeyphrase(castText) && isHigherChannel(cast);
 }
 
+/**
+ * isValidHigherCast for casts returned by a CastProvider
+ */
+export function isValidProviderCast(cast: { text: string; channelId: string | null; parentUrl: string | null }): boolean {
+  return isValidHigherCast(cast.text, { channel: { id: cast.channelId ?? undefined }, parent_url: cast.parentUrl });
+}
+
 /**
  * Extracts description from cast text after keyphrase
  */
@@ -89,7 +89,8 @@ export const LOCKUP_ABI = [
     ],
     name: 'createLockUp',
     outputs: [],
-    stateMutability: 'nonpayable',
+    // Native ETH lockups (isERC20 = false) send the amount as value
+    stateMutability: 'payable',
     type: 'function',
   },
   {
@@ -0,0 +1,168 @@
+import { beforeAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import { isBlockConfirmed } from '../lockupWrites';
+import { writeCastFromLockups } from '../lockupsFromDune';
+import { getHigherCast, getLockupsByIds, upsertLockups, LockupRecord } from '../../services/db-service';
+import { resetTestDb, setupTestDb } from '../../__tests__/test-db';
+
+vi.mock('@vercel/postgres', () => import('../../__tests__/test-db'));
+
+const CAST = '0xabcdef0123456789abcdef0123456789abcdef01';
+const OTHER_CAST = '0x1234567890123456789012345678901234567890';
+
+function lockup(lockupId: number, overrides: Partial<LockupRecord> = {}): LockupRecord {
+	return {
+		lockupId,
+		castHash: CAST,
+		sender: '0x1111111111111111111111111111111111111111',
+		receiver: '0x1111111111111111111111111111111111111111',
+		fid: 1,
+		amount: '1000000000000000000',
+		lockTime: 1_700_000_000,
+		unlockTime: 1_900_000_000,
+		unlocked: false,
+		stakeType: 'caster',
+		...overrides,
+	};
+}
+
+// Apply batches of writes to an empty lockups table in order and read back the stored rows
+async function applyWrites(writes: LockupRecord[][]): Promise<Map<number, LockupRecord>> {
+	await resetTestDb();
+	for (const batch of writes) {
+		await upsertLockups(batch);
+	}
+	const ids = Array.from(new Set(writes.flat().map(r => r.lockupId)));
+	return new Map((await getLockupsByIds(ids)).map(({ isValid: _valid, ...r }) => [r.lockupId, r]));
+}
+
+beforeAll(async () => {
+	await setupTestDb();
+}, 60_000);
+
+beforeEach(async () => {
+	await resetTestDb();
+});
+
+function permutations<T>(items: T[]): T[][] {
+	if (items.length <= 1) return [items];
+	return items.flatMap((item, i) =>
+		permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+	);
+}
+
+describe('per-lockup writes', () => {
+	it('converges to the same state for any interleaving of sync, webhook and unlock writes', async () => {
+		// Cron read a snapshot before the unlock and before lockup 3 existed
+		const staleSync = [lockup(1), lockup(2, { stakeType: 'supporter', fid: 0, sender: null, receiver: null })];
+		// Unlock route marks lockup 1 unlocked
+		const unlock = [lockup(1, { unlocked: true, sender: null, receiver: null, lockTime: null })];
+		// Webhook sees lockup 3 (unconfirmed) and resolves the supporter fid of lockup 2
+		const webhook = [
+			lockup(2, { stakeType: 'supporter', fid: 42, sender: '0x2222222222222222222222222222222222222222' }),
+			lockup(3, { stakeType: 'supporter', fid: 7, blockNumber: 100, txHash: '0xf3', confirmed: false }),
+		];
+
+		const results: LockupRecord[][] = [];
+		for (const order of permutations([staleSync, unlock, webhook])) {
+			const table = await applyWrites(order);
+			results.push(Array.from(table.values()).sort((a, b) => a.lockupId - b.lockupId));
+		}
+
+		for (const result of results) {
+			expect(result).toEqual(results[0]);
+		}
+
+		const [l1, l2, l3] = results[0];
+		expect(l1.unlocked).toBe(true);
+		expect(l2.fid).toBe(42);
+		expect(l2.sender).toBe('0x2222222222222222222222222222222222222222');
+		expect(l3.lockupId).toBe(3);
+		expect(l3.confirmed).toBe(false);
+	});
+
+	it('is idempotent when the same write is replayed', async () => {
+		const write = [lockup(1, { unlocked: true })];
+		expect(await applyWrites([write, write, write])).toEqual(await applyWrites([write]));
+	});
+
+	it('never reverts unlocked, even from a later full sync', async () => {
+		const table = await applyWrites([
+			[lockup(1)],
+			[lockup(1, { unlocked: true })],
+			[lockup(1, { unlocked: false })],
+		]);
+		expect(table.get(1)?.unlocked).toBe(true);
+	});
+
+	it('keeps the event fields of a confirmed lockup', async () => {
+		const table = await applyWrites([
+			[lockup(1)],
+			[lockup(1, { castHash: OTHER_CAST, amount: '5', unlockTime: 1 })],
+		]);
+		expect(table.get(1)).toMatchObject({ castHash: CAST, amount: '1000000000000000000', unlockTime: 1_900_000_000 });
+	});
+
+	it('replaces an unconfirmed lockup whose lockUpId was reused after a reorg', async () => {
+		const table = await applyWrites([
+			[lockup(5, { unlocked: true, blockNumber: 100, txHash: '0xaa', confirmed: false })],
+			[lockup(5, { castHash: OTHER_CAST, amount: '5', blockNumber: 101, txHash: '0xbb', confirmed: false })],
+		]);
+		expect(table.get(5)).toMatchObject({
+			castHash: OTHER_CAST,
+			amount: '5',
+			unlocked: false,
+			blockNumber: 101,
+			txHash: '0xbb',
+			confirmed: false,
+		});
+	});
+
+	it('confirms an unconfirmed lockup once a confirmed source reports it, but not from unknown writes', async () => {
+		const pending = lockup(6, { blockNumber: 100, txHash: '0xcc', confirmed: false });
+
+		expect((await applyWrites([[pending], [lockup(6)]])).get(6)?.confirmed).toBe(false);
+		expect((await applyWrites([[pending], [lockup(6, { confirmed: true })]])).get(6)).toMatchObject({
+			confirmed: true,
+			blockNumber: 100,
+			txHash: '0xcc',
+		});
+	});
+
+});
+
+describe('cast rebuilds', () => {
+	const cast = (lockups: LockupRecord[]) => ({
+		castHash: CAST,
+		creatorFid: 1,
+		creatorUsername: 'alice',
+		castText: 'Cooking up a higher steak! test',
+		description: 'test',
+		castTimestamp: '2025-01-01T00:00:00.000Z',
+		totalHigherStaked: 0,
+		castState: 'valid' as const,
+		lockups,
+	});
+
+	it('counts every lockup when writers of the same cast run concurrently', async () => {
+		const writes = [
+			[lockup(1)],
+			[lockup(2, { stakeType: 'supporter', fid: 7 })],
+			[lockup(3, { stakeType: 'supporter', fid: 8 })],
+		];
+
+		for (const order of permutations(writes)) {
+			await resetTestDb();
+			await Promise.all(order.map(lockups => writeCastFromLockups(cast(lockups), { currentTime: 1_800_000_000 })));
+
+			expect(await getHigherCast(CAST)).toMatchObject({ castState: 'higher', totalHigherStaked: '3.000000000000000000' });
+		}
+	});
+});
+
+describe('confirmation depth', () => {
+	it('treats lockups within the depth as unconfirmed', () => {
+		expect(isBlockConfirmed(95, 100, 5)).toBe(true);
+		expect(isBlockConfirmed(96, 100, 5)).toBe(false);
+		expect(isBlockConfirmed(null, 100, 5)).toBe(true);
+	});
+});
@@ -0,0 +1,138 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, type Hex, type Log } from 'viem';
+import { ERC20_ABI, HIGHER_TOKEN_ADDRESS, LOCKUP_CONTRACT } from '../../contracts';
+import { fetchLockupRowsFromChain, getLockupStartBlock, LockupChainClient } from '../lockupsFromChain';
+import fixture from './fixtures/lockupLogs.json';
+
+// Recorded logs/state from the lockup contract. To run against a local anvil fork instead,
+// set BASE_RPC_URL=http://127.0.0.1:8545 and call fetchLockupRowsFromChain() without a client.
+function fixtureClient(receiptLogs: Record<string, Log[]> = {}): LockupChainClient & { getLogsCalls: number; getLogsFrom: bigint[] } {
+	const logs = fixture.logs.map(l => ({ ...l, blockNumber: BigInt(l.blockNumber) })) as unknown as Log[];
+	const lockUps = fixture.lockUps as Record<string, {
+		token: `0x${string}`;
+		isERC20: boolean;
+		unlockTime: number;
+		unlocked: boolean;
+		amount: string;
+		receiver: `0x${string}`;
+		title: string;
+	}>;
+
+	return {
+		getLogsCalls: 0,
+		getLogsFrom: [],
+		async getBlockNumber() {
+			return BigInt(fixture.toBlock);
+		},
+		async getLogs({ fromBlock, toBlock }) {
+			this.getLogsCalls += 1;
+			this.getLogsFrom.push(fromBlock);
+			return logs.filter(l => l.blockNumber! >= fromBlock && l.blockNumber! <= toBlock);
+		},
+		async getBlock({ blockNumber }) {
+			return { timestamp: BigInt((fixture.blocks as Record<string, string>)[blockNumber.toString()]) };
+		},
+		async getTransactionReceipt({ hash }) {
+			return {
+				from: (fixture.transactions as Record<string, `0x${string}`>)[hash],
+				logs: [...(receiptLogs[hash] ?? []), ...logs.filter(l => l.transactionHash === hash)],
+			};
+		},
+		async getCode({ blockNumber }) {
+			// Deployed in the fixture's first block
+			return blockNumber >= BigInt(fixture.fromBlock) ? '0x6080' : undefined;
+		},
+		async readContract({ args }) {
+			const l = lockUps[args[0].toString()];
+			return [l.token, l.isERC20, l.unlockTime, l.unlocked, BigInt(l.amount), l.receiver, l.title] as const;
+		},
+	};
+}
+
+// An ERC20 Transfer of HIGHER into the lockup contract
+function transferLog(from: Hex, value: bigint, transactionHash: Hex): Log {
+	return {
+		address: HIGHER_TOKEN_ADDRESS.toLowerCase() as Hex,
+		topics: encodeEventTopics({ abi: ERC20_ABI, eventName: 'Transfer', args: { from, to: LOCKUP_CONTRACT } }) as [Hex, ...Hex[]],
+		data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+		transactionHash,
+	} as Log;
+}
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+});
+
+describe('lockupsFromChain indexer', () => {
+	it('produces Dune-shaped rows for lockups in stake tokens only', async () => {
+		const rows = await fetchLockupRowsFromChain({
+			client: fixtureClient(),
+			fromBlock: BigInt(fixture.fromBlock),
+		});
+
+		expect(rows.map(r => r.lockUpId)).toEqual([101, 102, 104]);
+		expect(rows[0]).toEqual({
+			sender: '0x1111111111111111111111111111111111111111',
+			lockTime: 1760000000,
+			lockUpId: 101,
+			title: '0xabcdef0123456789abcdef0123456789abcdef01',
+			amount: '1000000000000000000000',
+			receiver: '0x1111111111111111111111111111111111111111',
+			unlockTime: 1900000000,
+			unlocked: false,
+			token: '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe',
+			blockNumber: 20000010,
+			txHash: '0x0000000000000000000000000000000000000000000000000000000000000f01',
+		});
+	});
+
+	it('marks lockups with unlock events as unlocked', async () => {
+		const rows = await fetchLockupRowsFromChain({
+			client: fixtureClient(),
+			fromBlock: BigInt(fixture.fromBlock),
+		});
+
+		const byId = new Map(rows.map(r => [r.lockUpId, r]));
+		expect(byId.get(102)?.unlocked).toBe(false);
+		expect(byId.get(104)?.unlocked).toBe(true);
+	});
+
+	it('pages eth_getLogs by chunk size', async () => {
+		const client = fixtureClient();
+		const rows = await fetchLockupRowsFromChain({
+			client,
+			fromBlock: BigInt(fixture.fromBlock),
+			chunkSize: BigInt(25),
+		});
+
+		// 20000000..20000100 in 25-block chunks
+		expect(client.getLogsCalls).toBe(5);
+		expect(rows).toHaveLength(3);
+	});
+
+	it('takes the sender from the token transfer into the lockup contract, not the transaction origin', async () => {
+		// 0x2222… relays a call in which a smart wallet funds lockup 102
+		const tx = '0x0000000000000000000000000000000000000000000000000000000000000f02';
+		const wallet = '0x3333333333333333333333333333333333333333';
+		const rows = await fetchLockupRowsFromChain({
+			client: fixtureClient({ [tx]: [transferLog(wallet, BigInt(fixture.lockUps['102'].amount), tx)] }),
+			fromBlock: BigInt(fixture.fromBlock),
+		});
+
+		const byId = new Map(rows.map(r => [r.lockUpId, r]));
+		expect(byId.get(102)?.sender).toBe(wallet);
+		// Without a transfer in the receipt (as for native ETH) the transaction origin is used
+		expect(byId.get(101)?.sender).toBe('0x1111111111111111111111111111111111111111');
+	});
+
+	it('starts a scan without fromBlock at the lockup contract deployment block', async () => {
+		const client = fixtureClient();
+		expect(await getLockupStartBlock(client, BigInt(fixture.toBlock))).toBe(BigInt(fixture.fromBlock));
+
+		await fetchLockupRowsFromChain({ client });
+		expect(client.getLogsFrom[0]).toBe(BigInt(fixture.fromBlock));
+
+		vi.stubEnv('LOCKUP_START_BLOCK', '20000050');
+		expect(await getLockupStartBlock(client, BigInt(fixture.toBlock))).toBe(BigInt(20000050));
+	});
+});
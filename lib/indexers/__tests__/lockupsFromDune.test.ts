@@ -1,11 +1,258 @@
-import { describe, it, expect } from 'vitest';
-import { fetchAndAggregateLockupsFromDune } from '../../indexers/lockupsFromDune';
+import { afterEach, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import {
+	aggregateLockupRows,
+	calculateCastState,
+	calculateTotalHigherStaked,
+	syncAggregatedCasts,
+	syncLockupsFromDune,
+	LockupRow,
+} from '../lockupsFromDune';
+import { createFixtureLockupSource, createFixturePriceProvider, createFixtureUserProvider, loadProviderFixtures } from '../../providers/fixtures';
+import { resetProviders, setProviders } from '../../providers';
+import type { CastProvider, ProviderCast } from '../../providers';
+import { getHigherCast, getLockupById, getLockupsByIds, LockupRecord } from '../../services/db-service';
+import { recordPrice, refreshPriceValuations } from '../../services/price-service';
+import { resetTestDb, setupTestDb } from '../../__tests__/test-db';
+import dune from './fixtures/duneLockups.json';
 
-// NOTE: This is a placeholder. In CI, you should mock fetchAllLatestResults and getCastByHash.
+vi.mock('@vercel/postgres', () => import('../../__tests__/test-db'));
 
-describe('lockupsFromDune transformer', () => {
-	it('exists', () => {
-		// sanity
-		expect(typeof fetchAndAggregateLockupsFromDune).toBe('function');
+const CAST_A = '0xabcdef0123456789abcdef0123456789abcdef01'; // alice
+const CAST_B = '0x1234567890123456789012345678901234567890'; // carol
+const CAST_C = '0x5555555555555555555555555555555555555555'; // bob
+
+const rows = dune.rows as LockupRow[];
+const WEI = (tokens: number) => (BigInt(tokens) * 10n ** 18n).toString();
+
+const ids = (lockups: LockupRecord[], stakeType: LockupRecord['stakeType']) =>
+	lockups.filter(l => l.stakeType === stakeType).map(l => l.lockupId);
+
+// The leaderboard entry as stored, with the total as a number
+async function entry(castHash: string) {
+	const cast = await getHigherCast(castHash);
+	return cast && { ...cast, totalHigherStaked: Number(cast.totalHigherStaked) };
+}
+
+function mockCastProvider(casts: ProviderCast[]) {
+	return {
+		name: 'mock',
+		lookupCast: vi.fn(async (identifier: string) => casts.find(c => c.hash === identifier.toLowerCase()) ?? null),
+		getCastsForUser: vi.fn(async () => []),
+	} satisfies CastProvider;
+}
+
+let castProvider: ReturnType<typeof mockCastProvider>;
+
+function useLockupRows(lockupIds: number[]) {
+	setProviders({
+		users: createFixtureUserProvider(loadProviderFixtures().users),
+		casts: castProvider,
+		lockups: createFixtureLockupSource(rows.filter(r => lockupIds.includes(Number(r.lockUpId)))),
+	});
+}
+
+beforeAll(async () => {
+	await setupTestDb();
+}, 60_000);
+
+beforeEach(async () => {
+	await resetTestDb();
+	castProvider = mockCastProvider(dune.casts as ProviderCast[]);
+	useLockupRows(rows.map(r => Number(r.lockUpId)));
+	vi.useFakeTimers({ toFake: ['Date'] });
+	vi.setSystemTime(1_820_000_000 * 1000);
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	resetProviders();
+});
+
+describe('caster/supporter classification', () => {
+	it('classifies lockups from the cast owner wallets as caster stakes and the rest as supporter stakes', async () => {
+		const aggregated = await aggregateLockupRows(rows);
+		const a = aggregated.get(CAST_A)!;
+
+		const supporters = a.lockups.filter(l => l.stakeType === 'supporter');
+
+		expect(a.creatorFid).toBe(1);
+		expect(ids(a.lockups, 'caster')).toEqual([201]);
+		expect(supporters.map(l => l.lockupId)).toEqual([202, 203, 204, 208]);
+		// Supporter fids resolved from sender wallets; unknown wallets map to 0
+		expect(supporters.map(l => l.fid)).toEqual([2, 3, 0, 2]);
+		expect(supporters.map(l => l.unlocked)).toEqual([false, false, false, true]);
+	});
+
+	it('treats both custody and verified addresses of the owner as caster wallets', async () => {
+		const b = (await aggregateLockupRows(rows)).get(CAST_B)!;
+
+		expect(ids(b.lockups, 'caster')).toEqual([205, 209]);
+		expect(ids(b.lockups, 'supporter')).toEqual([206]);
+		expect(b.lockups.find(l => l.lockupId === 206)?.fid).toBe(1);
+	});
+
+	it('normalizes titles and skips rows without a resolvable cast', async () => {
+		const aggregated = await aggregateLockupRows(rows);
+
+		// Uppercase and un-prefixed titles of 202/203 still land on cast A
+		expect(Array.from(aggregated.keys()).sort()).toEqual([CAST_B, CAST_C, CAST_A].sort());
+		expect(castProvider.lookupCast).toHaveBeenCalledWith('0xdeaddeaddeaddeaddeaddeaddeaddeaddeaddead', 'hash');
+	});
+});
+
+describe('supporter unlockTime rule', () => {
+	it('counts a supporter stake only if it is locked and its unlockTime matches a caster unlockTime', async () => {
+		const a = (await aggregateLockupRows(rows)).get(CAST_A)!;
+
+		// 201 caster + 202 and 204 matching supporters; 203 has a different unlockTime and 208 is unlocked
+		expect(a.totalHigherStaked).toBe(1600);
+	});
+
+	const stake = (stakeType: LockupRecord['stakeType'], tokens: number, unlockTime: number, unlocked = false) =>
+		({ castHash: CAST_A, stakeType, amount: WEI(tokens), unlockTime, unlocked });
+
+	it('counts no supporter stakes when the cast has no caster stake', () => {
+		expect(calculateTotalHigherStaked([stake('supporter', 500, 1_900_000_000)])).toBe(0);
+	});
+
+	it('skips unlocked caster stakes but still matches supporters against their unlockTime', () => {
+		expect(calculateTotalHigherStaked([
+			stake('caster', 10, 1_900_000_000),
+			stake('caster', 5, 1_950_000_000, true),
+			stake('supporter', 1, 1_950_000_000),
+			stake('supporter', 2, 1_800_000_000),
+		])).toBe(11);
+	});
+});
+
+describe('stake tokens', () => {
+	const DEGEN = '0x4ed4e862860bed51a9570b96d89af5e1b0efefed';
+	const degenRow = (lockUpId: number, token = DEGEN): LockupRow => ({ ...rows[1], lockUpId, token, amount: WEI(100) });
+	const usePrices = (prices: Record<string, number>) => setProviders({
+		users: createFixtureUserProvider(loadProviderFixtures().users),
+		casts: castProvider,
+		prices: createFixturePriceProvider(prices),
+	});
+
+	beforeEach(() => {
+		vi.stubEnv('NEXT_PUBLIC_STAKE_TOKENS', 'DEGEN:0.5');
+	});
+
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	it('stores allow-listed tokens at 0 until they are priced and drops other tokens', async () => {
+		const withDegen = [...rows, degenRow(301), degenRow(302, '0x4200000000000000000000000000000000000006')];
+		const a = (await aggregateLockupRows(withDegen)).get(CAST_A)!;
+
+		expect(ids(a.lockups, 'supporter')).toEqual([202, 203, 204, 208, 301]);
+		expect(a.lockups.find(l => l.lockupId === 301)).toMatchObject({ amount: '0', token: DEGEN, tokenAmount: WEI(100) });
+		expect(a.lockups.filter(l => l.token !== undefined).map(l => l.lockupId)).toEqual([301]);
+		expect(a.totalHigherStaked).toBe(1600);
+	});
+
+	it('converts lockups at their lock-time prices, once', async () => {
+		// Current prices differ from the lock-time ones and must not be used
+		usePrices({ higher: 0.01, 'degen-base': 1 });
+		await recordPrice('higher', 0.005, 'fixture', 1_800_000_000);
+		await recordPrice('degen-base', 0.01, 'fixture', 1_800_000_000);
+		await syncAggregatedCasts(await aggregateLockupRows([...rows, degenRow(301)]));
+		expect((await entry(CAST_A))?.totalHigherStaked).toBe(1600);
+
+		expect((await refreshPriceValuations()).castsRepriced).toBe(1);
+
+		// 100 DEGEN at $0.01 with weight 0.5 counts as 100 HIGHER at $0.005
+		expect(await getLockupById(301)).toMatchObject({ amount: WEI(100), tokenAmount: WEI(100), lockUsdPrice: 0.01 });
+		expect((await entry(CAST_A))?.totalHigherStaked).toBe(1700);
+
+		// A later sync of the same lockup keeps the converted amount
+		await syncAggregatedCasts(await aggregateLockupRows([...rows, degenRow(301)]));
+		expect((await getLockupById(301))?.amount).toBe(WEI(100));
+		expect((await entry(CAST_A))?.totalHigherStaked).toBe(1700);
+	});
+
+	it('keeps lockups whose token has no lock-time price at 0', async () => {
+		usePrices({ higher: 0.005, 'degen-base': 0.01 });
+		await syncAggregatedCasts(await aggregateLockupRows([...rows, degenRow(301)]));
+
+		expect((await refreshPriceValuations()).castsRepriced).toBe(0);
+		expect(await getLockupById(301)).toMatchObject({ amount: '0', lockUsdPrice: null });
+		expect((await entry(CAST_A))?.totalHigherStaked).toBe(1600);
+	});
+});
+
+describe('castState', () => {
+	const stakes = [
+		{ stakeType: 'caster' as const, unlockTime: 1_900_000_000, unlocked: false },
+		{ stakeType: 'caster' as const, unlockTime: 1_850_000_000, unlocked: true },
+	];
+
+	it('is valid or invalid without caster stakes, depending on whether the cast is known', () => {
+		const supporterOnly = [{ stakeType: 'supporter' as const, unlockTime: 1_900_000_000, unlocked: false }];
+		expect(calculateCastState(supporterOnly, true)).toBe('valid');
+		expect(calculateCastState([], false)).toBe('invalid');
+	});
+
+	it('is higher while any caster stake is locked and unexpired, expired afterwards', () => {
+		expect(calculateCastState(stakes, true, 1_820_000_000)).toBe('higher');
+		// Exactly at unlockTime the stake no longer counts
+		expect(calculateCastState(stakes, true, 1_900_000_000)).toBe('expired');
+		expect(calculateCastState(stakes.map(l => ({ ...l, unlocked: true })), true, 1_820_000_000)).toBe('expired');
+	});
+
+	it('moves valid -> higher -> expired across syncs', async () => {
+		// Only a supporter stake so far
+		useLockupRows([202]);
+		await syncLockupsFromDune();
+		expect(await entry(CAST_A)).toMatchObject({ castState: 'valid', rank: null, totalHigherStaked: 0 });
+
+		// The caster stakes with a matching unlockTime
+		useLockupRows([201, 202]);
+		await syncLockupsFromDune();
+		expect(await entry(CAST_A)).toMatchObject({ castState: 'higher', rank: 1, totalHigherStaked: 1500 });
+
+		// The caster stake lapses
+		vi.setSystemTime(1_900_000_001 * 1000);
+		await syncLockupsFromDune();
+		expect(await entry(CAST_A)).toMatchObject({ castState: 'expired', rank: null });
+	});
+});
+
+describe('syncLockupsFromDune', () => {
+	it('ranks higher casts by total staked and leaves other casts unranked', async () => {
+		const { castsUpserted } = await syncLockupsFromDune();
+
+		expect(castsUpserted).toBe(3);
+		expect(await entry(CAST_B)).toMatchObject({ rank: 1, totalHigherStaked: 2200 });
+		expect(await entry(CAST_A)).toMatchObject({ rank: 2, totalHigherStaked: 1600 });
+		expect(await entry(CAST_C)).toMatchObject({ rank: 3, totalHigherStaked: 200 });
+
+		// Once cast C's only caster stake expires it drops out of the ranking
+		vi.setSystemTime(1_860_000_000 * 1000);
+		await syncLockupsFromDune();
+		expect(await entry(CAST_C)).toMatchObject({ castState: 'expired', rank: null });
+		expect((await entry(CAST_B))?.rank).toBe(1);
+		expect((await entry(CAST_A))?.rank).toBe(2);
+	});
+
+	it('writes every lockup row of a resolved cast to the lockups table', async () => {
+		await syncLockupsFromDune();
+
+		const written = await getLockupsByIds([201, 202, 203, 204, 205, 206, 207, 208, 209, 210, 211]);
+		expect(written.map(l => l.lockupId).sort((a, b) => a - b)).toEqual([201, 202, 203, 204, 205, 206, 207, 208, 209]);
+		expect(await getLockupById(203)).toMatchObject({ stakeType: 'supporter', fid: 3, unlockTime: 1_950_000_000 });
+		expect(await getLockupById(209)).toMatchObject({ stakeType: 'caster', fid: 3 });
+		expect((await getLockupById(208))?.unlocked).toBe(true);
+	});
+
+	it('uses cast metadata from the cast provider', async () => {
+		await syncLockupsFromDune();
+
+		expect(await entry(CAST_C)).toMatchObject({
+			creatorFid: 2,
+			creatorUsername: 'bob',
+			description: 'quick sear',
+		});
 	});
 });
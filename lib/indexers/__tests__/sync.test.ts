@@ -0,0 +1,134 @@
+import { afterEach, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import { reconcileUnconfirmedLockups, syncLockupsFull, syncLockupsIncremental, LockupReceiptClient } from '../sync';
+import type { LockupRow } from '../lockupsFromDune';
+import { createFixtureLockupSource, createFixtureUserProvider, loadProviderFixtures } from '../../providers/fixtures';
+import { resetProviders, setProviders } from '../../providers';
+import type { CastProvider, ProviderCast } from '../../providers';
+import { getHigherCast, getLockupById, getLockupsForCast, upsertLockups } from '../../services/db-service';
+import { resetTestDb, setupTestDb } from '../../__tests__/test-db';
+import dune from './fixtures/duneLockups.json';
+
+vi.mock('@vercel/postgres', () => import('../../__tests__/test-db'));
+
+const CAST_A = '0xabcdef0123456789abcdef0123456789abcdef01'; // alice
+
+const rows = dune.rows as LockupRow[];
+
+function useLockupRows(lockupIds: number[], overrides: Record<number, Partial<LockupRow>> = {}) {
+	const casts = dune.casts as ProviderCast[];
+	setProviders({
+		users: createFixtureUserProvider(loadProviderFixtures().users),
+		casts: {
+			name: 'mock',
+			lookupCast: async (identifier: string) => casts.find(c => c.hash === identifier.toLowerCase()) ?? null,
+			getCastsForUser: async () => [],
+		} satisfies CastProvider,
+		lockups: createFixtureLockupSource(rows
+			.filter(r => lockupIds.includes(Number(r.lockUpId)))
+			.map(r => ({ ...r, ...overrides[Number(r.lockUpId)] }))),
+	});
+}
+
+beforeAll(async () => {
+	await setupTestDb();
+}, 60_000);
+
+beforeEach(async () => {
+	await resetTestDb();
+	vi.useFakeTimers({ toFake: ['Date'] });
+	vi.setSystemTime(1_820_000_000 * 1000);
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	resetProviders();
+});
+
+describe('incremental sync', () => {
+	it('appends new lockups to an existing cast and recomputes the total', async () => {
+		useLockupRows([201, 202]);
+		await syncLockupsFull('dune');
+		expect(Number((await getHigherCast(CAST_A))?.totalHigherStaked)).toBe(1500);
+
+		useLockupRows([201, 202, 204]);
+		const { castsUpserted } = await syncLockupsIncremental('dune');
+
+		expect(castsUpserted).toBe(1);
+		const supporters = (await getLockupsForCast(CAST_A)).filter(l => l.stakeType === 'supporter');
+		expect(supporters.map(l => l.lockupId)).toEqual([202, 204]);
+		expect(Number((await getHigherCast(CAST_A))?.totalHigherStaked)).toBe(1600);
+	});
+
+	it('applies unlocked lockups and never re-locks them', async () => {
+		useLockupRows([201, 202]);
+		await syncLockupsFull('dune');
+
+		// Past the unlockTime the source reports 202 as unlocked
+		vi.setSystemTime(1_900_000_001 * 1000);
+		useLockupRows([201, 202], { 202: { unlocked: true } });
+		await syncLockupsIncremental('dune');
+		expect((await getLockupById(202))?.unlocked).toBe(true);
+
+		// A stale source still reporting it as locked must not revert it
+		useLockupRows([201, 202]);
+		await syncLockupsFull('dune');
+		expect((await getLockupById(202))?.unlocked).toBe(true);
+	});
+
+	it('moves a cast to expired once its caster stakes lapse', async () => {
+		useLockupRows([201, 202]);
+		await syncLockupsFull('dune');
+		expect(await getHigherCast(CAST_A)).toMatchObject({ castState: 'higher', rank: 1 });
+
+		vi.setSystemTime(1_900_000_001 * 1000);
+		await syncLockupsIncremental('dune');
+		expect(await getHigherCast(CAST_A)).toMatchObject({ castState: 'expired', rank: null });
+	});
+});
+
+describe('unconfirmed lockups', () => {
+	const TX = '0x0000000000000000000000000000000000000000000000000000000000000f01';
+
+	async function writeUnconfirmed() {
+		await upsertLockups([{
+			lockupId: 301,
+			castHash: CAST_A,
+			sender: '0x2222222222222222222222222222222222222222',
+			receiver: '0x2222222222222222222222222222222222222222',
+			fid: 2,
+			amount: '1000000000000000000',
+			lockTime: 1_800_000_000,
+			unlockTime: 1_900_000_000,
+			unlocked: false,
+			stakeType: 'supporter',
+			blockNumber: 100,
+			txHash: TX,
+			confirmed: false,
+		}]);
+	}
+
+	const receiptClient = (getTransactionReceipt: LockupReceiptClient['getTransactionReceipt']): LockupReceiptClient => ({
+		getBlockNumber: async () => BigInt(1000),
+		getTransactionReceipt,
+	});
+
+	it('keeps a lockup unconfirmed when its receipt cannot be read', async () => {
+		await writeUnconfirmed();
+
+		const reconciled = await reconcileUnconfirmedLockups(receiptClient(async () => {
+			throw new Error('429 Too Many Requests');
+		}));
+
+		expect(reconciled).toEqual({ confirmed: [], dropped: [] });
+		expect(await getLockupById(301)).toMatchObject({ confirmed: false });
+	});
+
+	it('drops a lockup whose transaction reverted', async () => {
+		await writeUnconfirmed();
+
+		const reconciled = await reconcileUnconfirmedLockups(receiptClient(async () => ({ status: 'reverted', blockNumber: BigInt(100), logs: [] })));
+
+		expect(reconciled).toEqual({ confirmed: [], dropped: [301] });
+		expect(await getLockupById(301)).toBeNull();
+	});
+});
@@ -0,0 +1,71 @@
+import { syncLockupsFull, syncLockupsIncremental, LockupSourceName, SyncResult } from './sync';
+import { recordLeaderboardSnapshot } from '../services/snapshot-service';
+import { recomputeWeightedRanks } from '../services/leaderboard-service';
+import { refreshPriceValuations } from '../services/price-service';
+import { diffRanks, getRankedCasts, RankedCast } from '../services/rank-change-service';
+import { queueRankChangeNotifications } from '../services/notification-service';
+
+export type { LockupSourceName, SyncResult };
+
+/**
+ * Lockup source selected via LOCKUP_SOURCE ('dune' by default, 'chain' for direct RPC log indexing)
+ */
+export function getLockupSourceName(): LockupSourceName {
+	return process.env.LOCKUP_SOURCE?.toLowerCase() === 'chain' ? 'chain' : 'dune';
+}
+
+/**
+ * Sync leaderboard_entries from the configured lockup source, convert new other-token lockups at their
+ * lock-time prices and refresh USD valuations from price_history, recompute the higher-days rankings, then
+ * record a leaderboard snapshot and enqueue rank-change notifications (old vs new ranks). Incremental from
+ * the persisted cursor by default; pass full: true to force a full rebuild. A failed valuation, ranking, snapshot or notification step is logged and does not
+ * fail the sync (snapshotId is null).
+ */
+export async function syncLockups(opts: {
+	full?: boolean;
+	source?: LockupSourceName;
+} = {}): Promise<SyncResult & { source: LockupSourceName; snapshotId: number | null }> {
+	const source = opts.source ?? getLockupSourceName();
+
+	let ranksBefore: RankedCast[] = [];
+	try {
+		ranksBefore = await getRankedCasts();
+	} catch (error) {
+		console.error('[sync] Failed to read ranks before sync:', error);
+	}
+
+	const result = opts.full
+		? await syncLockupsFull(source)
+		: await syncLockupsIncremental(source);
+
+	try {
+		await refreshPriceValuations();
+	} catch (error) {
+		console.error('[sync] Failed to refresh price valuations:', error);
+	}
+
+	try {
+		await recomputeWeightedRanks();
+	} catch (error) {
+		console.error('[sync] Failed to recompute weighted ranks:', error);
+	}
+
+	let snapshotId: number | null = null;
+	try {
+		({ snapshotId } = await recordLeaderboardSnapshot({ source, mode: result.mode }));
+	} catch (error) {
+		console.error('[sync] Failed to record leaderboard snapshot:', error);
+	}
+
+	try {
+		const events = diffRanks(ranksBefore, await getRankedCasts());
+		const queued = await queueRankChangeNotifications(events);
+		if (events.length > 0) {
+			console.log(`[sync] Rank changes: ${events.length}, notifications queued: ${queued}`);
+		}
+	} catch (error) {
+		console.error('[sync] Failed to queue rank change notifications:', error);
+	}
+
+	return { ...result, source, snapshotId };
+}
@@ -0,0 +1,26 @@
+// Blocks a lockup must be buried under before it is treated as final (override with LOCKUP_CONFIRMATION_DEPTH)
+const DEFAULT_CONFIRMATION_DEPTH = 10;
+
+/**
+ * Number of confirmations required before a lockup seen on-chain is considered final
+ */
+export function getConfirmationDepth(): number {
+	const raw = parseInt(process.env.LOCKUP_CONFIRMATION_DEPTH || '', 10);
+	return Number.isFinite(raw) && raw >= 0 ? raw : DEFAULT_CONFIRMATION_DEPTH;
+}
+
+/**
+ * Highest block whose lockups are considered final for the given chain head
+ */
+export function getSafeBlock(headBlock: number, depth: number = getConfirmationDepth()): number {
+	return Math.max(0, headBlock - depth);
+}
+
+/**
+ * A lockup is confirmed once its block is at or below the safe block.
+ * Lockups without a block number (e.g. from Dune, which only reports indexed blocks) are confirmed.
+ */
+export function isBlockConfirmed(blockNumber: number | null | undefined, headBlock: number, depth: number = getConfirmationDepth()): boolean {
+	if (blockNumber == null) return true;
+	return blockNumber <= getSafeBlock(headBlock, depth);
+}
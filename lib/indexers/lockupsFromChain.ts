@@ -0,0 +1,209 @@
+import { parseEventLogs, type Address, type Hash, type Hex, type Log } from 'viem';
+import { ERC20_ABI, LOCKUP_ABI, LOCKUP_CONTRACT } from '../contracts';
+import { createBaseClient } from '../base-client';
+import { getStakeToken } from '../tokens';
+import { aggregateLockupRows, syncAggregatedCasts, AggregatedCast, LockupRow } from './lockupsFromDune';
+
+// Max block span per eth_getLogs request (most Base RPCs cap at 10k)
+const DEFAULT_LOG_CHUNK_SIZE = BigInt(10_000);
+
+/**
+ * Minimal subset of a viem PublicClient used by the on-chain indexer.
+ * Kept narrow so tests can drive the indexer with recorded logs instead of an RPC.
+ */
+export interface LockupChainClient {
+	getBlockNumber(): Promise<bigint>;
+	getLogs(args: { address: Address; fromBlock: bigint; toBlock: bigint }): Promise<Log[]>;
+	getBlock(args: { blockNumber: bigint }): Promise<{ timestamp: bigint }>;
+	getTransactionReceipt(args: { hash: Hash }): Promise<{ from: Address; logs: Log[] }>;
+	getCode(args: { address: Address; blockNumber: bigint }): Promise<Hex | undefined>;
+	readContract(args: {
+		address: Address;
+		abi: typeof LOCKUP_ABI;
+		functionName: 'lockUps';
+		args: readonly [bigint];
+	}): Promise<readonly [Address, boolean, number, boolean, bigint, Address, string]>;
+}
+
+export interface FetchChainLockupsOptions {
+	client?: LockupChainClient;
+	fromBlock?: bigint;
+	toBlock?: bigint;
+	chunkSize?: bigint;
+}
+
+function readBigIntEnv(name: string): bigint | null {
+	const raw = process.env[name];
+	if (!raw) return null;
+	try {
+		return BigInt(raw);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * First block of a scan without a fromBlock: LOCKUP_START_BLOCK if set, otherwise the block the lockup
+ * contract was deployed in, found by binary search over eth_getCode. The search needs an RPC with
+ * historical state; set LOCKUP_START_BLOCK to skip it.
+ */
+export async function getLockupStartBlock(client: LockupChainClient, head: bigint): Promise<bigint> {
+	const configured = readBigIntEnv('LOCKUP_START_BLOCK');
+	if (configured !== null) return configured;
+
+	const hasCode = async (blockNumber: bigint) => {
+		const code = await client.getCode({ address: LOCKUP_CONTRACT, blockNumber });
+		return code !== undefined && code !== '0x';
+	};
+	try {
+		if (!(await hasCode(head))) {
+			throw new Error(`no contract code at ${LOCKUP_CONTRACT}`);
+		}
+		let low = BigInt(0);
+		let high = head;
+		while (low < high) {
+			const mid = (low + high) / BigInt(2);
+			if (await hasCode(mid)) high = mid;
+			else low = mid + BigInt(1);
+		}
+		return low;
+	} catch (error) {
+		throw new Error(`Could not find the lockup contract deployment block (set LOCKUP_START_BLOCK): ${error instanceof Error ? error.message : error}`);
+	}
+}
+
+/**
+ * Wallet that funded a lockup: the sender of the token Transfer into the lockup contract that precedes
+ * the lockup's LockUpCreated log in the receipt. Unlike the transaction origin this is the staker for
+ * smart wallets, relayers and batched calls. Native ETH lockups emit no Transfer and fall back to the
+ * transaction origin.
+ */
+export function getLockupSender(receipt: { from: Address; logs: Log[] }, lockUpId: bigint): string {
+	const lockup = LOCKUP_CONTRACT.toLowerCase();
+	const transfers: Array<{ token: string; from: string }> = [];
+	const events = parseEventLogs({ abi: [...ERC20_ABI, ...LOCKUP_ABI], logs: receipt.logs, strict: false });
+
+	for (const ev of events) {
+		const address = ev.address.toLowerCase();
+		if (ev.eventName === 'Transfer') {
+			if (String(ev.args.to ?? '').toLowerCase() === lockup && ev.args.from) {
+				transfers.push({ token: address, from: String(ev.args.from).toLowerCase() });
+			}
+			continue;
+		}
+		if (ev.eventName !== 'LockUpCreated' || address !== lockup) continue;
+
+		// Each lockup in a batch takes the latest unclaimed transfer of its token
+		const token = String(ev.args.token ?? '').toLowerCase();
+		const index = transfers.map(t => t.token).lastIndexOf(token);
+		const [transfer] = index >= 0 ? transfers.splice(index, 1) : [];
+		if (ev.args.lockUpId === lockUpId) {
+			return transfer?.from ?? String(receipt.from).toLowerCase();
+		}
+	}
+	return String(receipt.from).toLowerCase();
+}
+
+/**
+ * Read LockUpCreated / Unlock / LockUpUnlocked events from the lockup contract and
+ * return one row per lockup in an allow-listed stake token (lib/tokens.ts), in the same shape as the Dune query rows.
+ *
+ * - sender is the wallet whose tokens were locked (getLockupSender); events only carry the receiver
+ * - lockTime is the timestamp of the block the lockup was created in
+ * - title/amount/unlockTime/unlocked are resolved from lockUps(id)
+ */
+export async function fetchLockupRowsFromChain(opts: FetchChainLockupsOptions = {}): Promise<LockupRow[]> {
+	const { rows } = await fetchLockupChangesFromChain(opts);
+	return rows;
+}
+
+/**
+ * Same as fetchLockupRowsFromChain, but also returns every lockUpId that emitted an unlock event in the
+ * block range (including lockups created before fromBlock) and the last block scanned.
+ * Used by the incremental sync to resume from a block checkpoint.
+ */
+export async function fetchLockupChangesFromChain(opts: FetchChainLockupsOptions = {}): Promise<{
+	rows: LockupRow[];
+	unlockedIds: number[];
+	toBlock: bigint;
+}> {
+	const client = opts.client ?? (createBaseClient() as unknown as LockupChainClient);
+	const toBlock = opts.toBlock ?? await client.getBlockNumber();
+	const fromBlock = opts.fromBlock ?? await getLockupStartBlock(client, toBlock);
+	const chunkSize = opts.chunkSize ?? readBigIntEnv('LOCKUP_LOG_CHUNK_SIZE') ?? DEFAULT_LOG_CHUNK_SIZE;
+
+	const created = new Map<string, { blockNumber: bigint; transactionHash: Hash; token: string }>();
+	const unlockedIds = new Set<string>();
+
+	for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+		const end = start + chunkSize - BigInt(1) < toBlock ? start + chunkSize - BigInt(1) : toBlock;
+		const logs = await client.getLogs({ address: LOCKUP_CONTRACT, fromBlock: start, toBlock: end });
+		const events = parseEventLogs({ abi: LOCKUP_ABI, logs, strict: false });
+
+		for (const ev of events) {
+			const lockUpId = ev.args.lockUpId?.toString();
+			if (lockUpId == null) continue;
+
+			if (ev.eventName === 'LockUpCreated') {
+				// Only lockups in stakeable tokens count as stakes
+				const token = String(ev.args.token || '').toLowerCase();
+				if (!getStakeToken(token)) continue;
+				if (ev.blockNumber == null || ev.transactionHash == null) continue;
+				created.set(lockUpId, { blockNumber: ev.blockNumber, transactionHash: ev.transactionHash, token });
+			} else {
+				unlockedIds.add(lockUpId);
+			}
+		}
+	}
+
+	const blockTimes = new Map<bigint, number>();
+	const receipts = new Map<string, { from: Address; logs: Log[] }>();
+	const rows: LockupRow[] = [];
+
+	for (const [lockUpId, meta] of created) {
+		if (!blockTimes.has(meta.blockNumber)) {
+			const block = await client.getBlock({ blockNumber: meta.blockNumber });
+			blockTimes.set(meta.blockNumber, Number(block.timestamp));
+		}
+		if (!receipts.has(meta.transactionHash)) {
+			receipts.set(meta.transactionHash, await client.getTransactionReceipt({ hash: meta.transactionHash }));
+		}
+
+		const [, , unlockTime, unlocked, amount, receiver, title] = await client.readContract({
+			address: LOCKUP_CONTRACT,
+			abi: LOCKUP_ABI,
+			functionName: 'lockUps',
+			args: [BigInt(lockUpId)],
+		});
+
+		rows.push({
+			sender: getLockupSender(receipts.get(meta.transactionHash)!, BigInt(lockUpId)),
+			lockTime: blockTimes.get(meta.blockNumber)!,
+			lockUpId: Number(lockUpId),
+			title,
+			amount: amount.toString(),
+			receiver: String(receiver).toLowerCase(),
+			unlockTime: Number(unlockTime),
+			unlocked: unlocked || unlockedIds.has(lockUpId),
+			token: meta.token,
+			blockNumber: Number(meta.blockNumber),
+			txHash: meta.transactionHash,
+		});
+	}
+
+	return {
+		rows,
+		unlockedIds: Array.from(unlockedIds).map(id => Number(id)),
+		toBlock,
+	};
+}
+
+export async function fetchAndAggregateLockupsFromChain(opts: FetchChainLockupsOptions = {}): Promise<Map<string, AggregatedCast>> {
+	const rows = await fetchLockupRowsFromChain(opts);
+	return aggregateLockupRows(rows);
+}
+
+export async function syncLockupsFromChain(opts: FetchChainLockupsOptions = {}): Promise<{ castsUpserted: number }> {
+	const aggregated = await fetchAndAggregateLockupsFromChain(opts);
+	return syncAggregatedCasts(aggregated);
+}
@@ -1,22 +1,22 @@
-import { fetchAllLatestResults, DuneRow } from '../dune';
+import type { DuneRow } from '../dune';
 import { formatUnits } from 'viem';
-import { upsertHigherCast, getHigherCast } from '../services/db-service';
+import {
+	upsertHigherCast,
+	getCastState,
+	getHigherCast,
+	getLockupsByIds,
+	getLockupsForCast,
+	upsertLockups,
+	recomputeRanks,
+	withCastLock,
+	LockupRecord,
+} from '../services/db-service';
 import { getCastByHash } from '../services/cast-service';
 import { getFidsFromAddresses } from '../services/stake-service';
-import { NeynarAPIClient } from '@neynar/nodejs-sdk';
-
-// Query and columns per plan
-const DUNE_QUERY_ID = 6214515;
-const DUNE_COLUMNS = [
-	'sender',
-	'lockTime',
-	'lockUpId',
-	'title',
-	'amount',
-	'receiver',
-	'unlockTime',
-	'unlocked',
-];
+import { getStakeToken, isHigherToken, StakeToken } from '../tokens';
+import { getLockupSource, getUserProvider, getProfileAddresses, LockupQuery } from '../providers';
+import { validateLockups, StakeRuleOptions } from '../stake-rules';
+import { queueCasterStakeLostNotifications } from '../services/notification-service';
 
 // Helper: normalize cast hash string from title
 function normalizeCastHash(title: string | null | undefined): string | null {
@@ -33,12 +33,12 @@ function normalizeCastHash(title: string | null | undefined): string | null {
 // Resolve fid owner and wallet associations for caster/supporter classification
 async function resolveCastOwnerAndWallets(castHash: string): Promise<{ ownerFid: number | null; ownerWallets: Set<string> }> {
 	try {
-		const cast = await getCastByHash(castHash); // may hit DB first, fallback to Neynar
+		const cast = await getCastByHash(castHash); // may hit DB first, fallback to the cast provider
 		if (!cast) {
 			return { ownerFid: null, ownerWallets: new Set() };
 		}
 		const ownerFid = cast.fid;
-		// Hydrate owner wallets (custody + verified) via Neynar
+		// Hydrate owner wallets (custody + verified) via the user provider
 		const wallets = await fetchWalletsForFid(ownerFid);
 		return { ownerFid, ownerWallets: wallets };
 	} catch (err) {
@@ -49,18 +49,8 @@ async function resolveCastOwnerAndWallets(castHash: string): Promise<{ ownerFid:
 
 async function fetchWalletsForFid(fid: number): Promise<Set<string>> {
 	try {
-		const apiKey = process.env.NEYNAR_API_KEY;
-		if (!apiKey) return new Set();
-		const client = new NeynarAPIClient({ apiKey });
-		const res = await client.fetchBulkUsers({ fids: [fid] });
-		const u = res.users?.[0];
-		if (!u) return new Set();
-		const addrs = new Set<string>();
-		if (u.custody_address) addrs.add(String(u.custody_address).toLowerCase());
-		for (const v of (u.verified_addresses?.eth_addresses ?? [])) {
-			addrs.add(String(v).toLowerCase());
-		}
-		return addrs;
+		const [user] = await getUserProvider().getUsersByFids([fid]);
+		return new Set(user ? getProfileAddresses(user) : []);
 	} catch {
 		return new Set();
 	}
@@ -101,33 +91,106 @@ export interface AggregatedCast {
 	description: string;
 	castTimestamp: string;
 	totalHigherStaked: number;
-	casterStakeLockupIds: number[];
-	casterStakeAmounts: string[];
-	casterStakeUnlockTimes: number[];
-	casterStakeLockTimes: number[];
-	casterStakeUnlocked: boolean[];
-	supporterStakeLockupIds: number[];
-	supporterStakeAmounts: string[];
-	supporterStakeFids: number[]; // can be left empty if unknown
-	supporterStakeUnlockTimes: number[];
-	supporterStakeLockTimes: number[];
-	supporterStakeUnlocked: boolean[];
-	castState: 'invalid' | 'valid' | 'higher' | 'expired';
+	castState: CastState;
+	lockups: LockupRecord[]; // caster and supporter stakes, in lockupId order
+}
+
+export type CastState = 'invalid' | 'valid' | 'higher' | 'expired';
+
+type CastMetadata = Omit<AggregatedCast, 'totalHigherStaked' | 'castState' | 'lockups'>;
+
+type StakeLockup = Pick<LockupRecord, 'castHash' | 'stakeType' | 'amount' | 'unlockTime' | 'unlocked'>;
+
+/**
+ * Sum the caster and supporter stakes of a cast that are valid under the stake rules (lib/stake-rules.ts)
+ */
+export function calculateTotalHigherStaked(lockups: StakeLockup[], opts: StakeRuleOptions = {}): number {
+	return validateLockups(lockups, opts)
+		.filter(l => l.isValid)
+		.reduce((total, l) => total + parseTokenAmount(l.amount), 0);
+}
+
+/**
+ * Derive cast_state from caster stakes:
+ * - 'higher' if any caster stake is still locked and not expired
+ * - 'expired' if caster stakes exist but all are expired or unlocked
+ * - 'valid' / 'invalid' if there are no caster stakes, depending on whether the cast is known
+ */
+export function calculateCastState(
+	lockups: Array<Pick<LockupRecord, 'stakeType' | 'unlockTime' | 'unlocked'>>,
+	castKnown: boolean,
+	currentTime: number = Math.floor(Date.now() / 1000)
+): CastState {
+	const casterStakes = lockups.filter(l => l.stakeType === 'caster');
+	if (casterStakes.length === 0) {
+		return castKnown ? 'valid' : 'invalid';
+	}
+
+	const hasValidCasterStake = casterStakes.some(l => !l.unlocked && l.unlockTime > currentTime);
+	return hasValidCasterStake ? 'higher' : 'expired';
+}
+
+/**
+ * A single lockup row in the shape of the Dune query columns.
+ * Every lockup source (Dune, on-chain logs) produces rows of this shape so they can share aggregation.
+ */
+export interface LockupRow {
+	sender: string;
+	lockTime: number | string;
+	lockUpId: number | string;
+	title: string;
+	amount: string;
+	receiver: string;
+	unlockTime: number | string;
+	unlocked: boolean | string | number;
+	token?: string; // staked token address; absent rows are HIGHER (the Dune query only returns HIGHER lockups)
+	blockNumber?: number; // on-chain sources only
+	txHash?: string; // on-chain sources only
+}
+
+/**
+ * Resolve the stake token of each row (null for HIGHER). Rows in tokens off the allow-list are dropped.
+ */
+function resolveRowTokens<T extends LockupRow | DuneRow>(rows: T[]): Array<{ row: T; token: StakeToken | null }> {
+	const resolved: Array<{ row: T; token: StakeToken | null }> = [];
+	for (const row of rows) {
+		if (row.token == null || isHigherToken(row.token)) {
+			resolved.push({ row, token: null });
+			continue;
+		}
+		const token = getStakeToken(row.token);
+		if (token) resolved.push({ row, token });
+	}
+	return resolved;
+}
+
+/**
+ * Fetch lockup rows from the configured lockup source (the Dune query in production), optionally filtered
+ */
+export async function fetchLockupRowsFromDune(query?: LockupQuery): Promise<LockupRow[]> {
+	return getLockupSource().fetchLockupRows(query);
 }
 
 export async function fetchAndAggregateLockupsFromDune(): Promise<Map<string, AggregatedCast>> {
-	const rows = await fetchAllLatestResults(DUNE_QUERY_ID, {
-		columns: DUNE_COLUMNS,
-		limit: 1000,
-	});
+	const rows = await fetchLockupRowsFromDune();
+	return aggregateLockupRows(rows);
+}
 
+/**
+ * Group lockup rows by cast hash and classify each lockup as caster or supporter stake.
+ */
+export async function aggregateLockupRows(
+	rows: Array<LockupRow | DuneRow>,
+	opts: { safeBlock?: number } = {}
+): Promise<Map<string, AggregatedCast>> {
 	// Group rows by cast hash (title)
-	const grouped: Map<string, DuneRow[]> = new Map();
-	for (const r of rows) {
-		const castHash = normalizeCastHash(r.title);
+	const tokenRows = resolveRowTokens(rows);
+	const grouped: Map<string, Array<{ row: LockupRow | DuneRow; token: StakeToken | null }>> = new Map();
+	for (const entry of tokenRows) {
+		const castHash = normalizeCastHash(entry.row.title);
 		if (!castHash) continue;
 		if (!grouped.has(castHash)) grouped.set(castHash, []);
-		grouped.get(castHash)!.push(r);
+		grouped.get(castHash)!.push(entry);
 	}
 
 	const result = new Map<string, AggregatedCast>();
@@ -151,102 +214,12 @@ export async function fetchAndAggregateLockupsFromDune(): Promise<Map<string, Ag
 		}
 
 		// Batch map unique senders to FIDs for this cast
-		const uniqueSenders = Array.from(new Set(castRows.map(r => String(r.sender || '').toLowerCase()).filter(Boolean)));
+		const uniqueSenders = Array.from(new Set(castRows.map(({ row }) => String(row.sender || '').toLowerCase()).filter(Boolean)));
 		const senderToFid = uniqueSenders.length > 0 ? await getFidsFromAddresses(uniqueSenders) : new Map<string, number>();
 
-		const casterStakeLockupIds: number[] = [];
-		const casterStakeAmounts: string[] = [];
-		const casterStakeUnlockTimes: number[] = [];
-		const casterStakeLockTimes: number[] = [];
-		const casterStakeUnlocked: boolean[] = [];
-
-		const supporterStakeLockupIds: number[] = [];
-		const supporterStakeAmounts: string[] = [];
-		const supporterStakeFids: number[] = [];
-		const supporterStakeUnlockTimes: number[] = [];
-		const supporterStakeLockTimes: number[] = [];
-		const supporterStakeUnlocked: boolean[] = [];
-
-		for (const r of castRows) {
-			const amount = String(r.amount ?? '0');
-
-			const sender = String(r.sender || '').toLowerCase();
-			const senderFid = senderToFid.get(sender) || 0;
-			const lockUpId = toInt(r.lockUpId);
-			const unlockTime = toInt(r.unlockTime);
-			const lockTime = toInt(r.lockTime);
-			const unlocked = isTruthyBoolean(r.unlocked);
-
-			// caster if sender is in owner wallets; otherwise supporter. If we don't know wallets, default to supporter until hydration is implemented.
-			const isCaster = ownerWallets.has(sender);
-			if (isCaster) {
-				casterStakeLockupIds.push(lockUpId);
-				casterStakeAmounts.push(amount);
-				casterStakeUnlockTimes.push(unlockTime);
-				casterStakeLockTimes.push(lockTime);
-				casterStakeUnlocked.push(unlocked);
-			} else {
-				supporterStakeLockupIds.push(lockUpId);
-				supporterStakeAmounts.push(amount);
-				// Map sender to FID (0 if unknown)
-				supporterStakeFids.push(senderFid);
-				supporterStakeUnlockTimes.push(unlockTime);
-				supporterStakeLockTimes.push(lockTime);
-				supporterStakeUnlocked.push(unlocked);
-			}
-		}
-
-		// Calculate totalHigherStaked using only valid stakes (for display)
-		// But store ALL supporter stakes in DB for historical calculations
-		const casterUnlockSet = new Set(
-			casterStakeUnlockTimes.filter(t => typeof t === 'number' && Number.isFinite(t))
-		);
-
-		let totalHigherStaked = 0;
-		// Count all caster stakes (they're all stored)
-		for (const amt of casterStakeAmounts) {
-			totalHigherStaked += parseTokenAmount(amt);
-		}
-
-		// Count only valid supporter stakes for totalHigherStaked
-		for (let i = 0; i < supporterStakeUnlockTimes.length; i++) {
-			const unlockTime = supporterStakeUnlockTimes[i];
-			const unlocked = supporterStakeUnlocked[i] || false;
-
-			// Only count valid supporter stakes in totalHigherStaked
-			if (unlocked) continue;
-			if (!casterUnlockSet.has(unlockTime)) continue;
-
-			totalHigherStaked += parseTokenAmount(supporterStakeAmounts[i]);
-		}
-
-		// Calculate cast_state based on actual caster stake data
-		// This ensures casts are properly marked as 'higher', 'expired', or 'valid'
-		const currentTime = Math.floor(Date.now() / 1000);
-		let calculatedState: 'invalid' | 'valid' | 'higher' | 'expired' = 'valid';
-
-		if (casterStakeLockupIds.length > 0) {
-			// Check if there are any valid (not expired, not unlocked) caster stakes
-			const hasValidCasterStake = casterStakeUnlockTimes.some((unlockTime, index) => {
-				const unlocked = casterStakeUnlocked[index] || false;
-				return !unlocked && unlockTime > currentTime;
-			});
-
-			if (hasValidCasterStake) {
-				calculatedState = 'higher';
-			} else {
-				// All caster stakes are expired or unlocked
-				calculatedState = 'expired';
-			}
-		} else {
-			// No caster stakes yet - keep as 'valid' if cast exists, otherwise 'invalid'
-			// If we have cast metadata, it's valid; otherwise invalid
-			calculatedState = castMeta ? 'valid' : 'invalid';
-		}
-
 		// Preserve existing DB metadata if cast is deleted/expired in Farcaster
 		// Use castMeta if available (fresh from Neynar), otherwise fall back to existing DB values
-		const aggregated: AggregatedCast = {
+		const meta: CastMetadata = {
 			castHash,
 			creatorFid: castMeta?.fid || existingDbCast?.creatorFid || ownerFid || 0,
 			creatorUsername: castMeta?.username || existingDbCast?.creatorUsername || '',
@@ -255,23 +228,52 @@ export async function fetchAndAggregateLockupsFromDune(): Promise<Map<string, Ag
 			castText: castMeta?.castText || existingDbCast?.castText || '',
 			description: castMeta?.description || existingDbCast?.description || '',
 			castTimestamp: castMeta?.timestamp || existingDbCast?.castTimestamp || new Date().toISOString(),
-			totalHigherStaked,
-			casterStakeLockupIds,
-			casterStakeAmounts,
-			casterStakeUnlockTimes,
-			casterStakeLockTimes,
-			casterStakeUnlocked,
-			// Store ALL supporter stakes (not filtered) for historical calculations
-			supporterStakeLockupIds,
-			supporterStakeAmounts,
-			supporterStakeFids,
-			supporterStakeUnlockTimes,
-			supporterStakeLockTimes,
-			supporterStakeUnlocked,
-			castState: calculatedState, // Use calculated state instead of castMeta?.state
 		};
 
-		result.set(castHash, aggregated);
+		const lockups: LockupRecord[] = [];
+		for (const { row: r, token } of castRows) {
+			let amount = String(r.amount ?? '0');
+			let tokenAmount: Pick<LockupRecord, 'token' | 'tokenAmount'> = {};
+			if (token) {
+				// Stakes in other tokens count as 0 until priceLockupsAtLockTime converts them at their lock-time price
+				tokenAmount = { token: token.address.toLowerCase(), tokenAmount: amount };
+				amount = '0';
+			}
+
+			const sender = String(r.sender || '').toLowerCase();
+			// Rows with a block number come from the chain; those above the safe block are unconfirmed
+			const blockNumber = r.blockNumber != null ? toInt(r.blockNumber) : null;
+			// caster if sender is in owner wallets; otherwise supporter. If we don't know wallets, default to supporter until hydration is implemented.
+			const isCaster = ownerWallets.has(sender);
+
+			lockups.push({
+				lockupId: toInt(r.lockUpId),
+				castHash,
+				sender,
+				receiver: String(r.receiver || '').toLowerCase(),
+				// Supporter fid from the sender wallet (0 if unknown)
+				fid: isCaster ? meta.creatorFid : senderToFid.get(sender) || 0,
+				amount,
+				...tokenAmount,
+				lockTime: toInt(r.lockTime),
+				unlockTime: toInt(r.unlockTime),
+				unlocked: isTruthyBoolean(r.unlocked),
+				stakeType: isCaster ? 'caster' : 'supporter',
+				blockNumber,
+				txHash: r.txHash ? String(r.txHash) : null,
+				confirmed: blockNumber == null || opts.safeBlock == null || blockNumber <= opts.safeBlock,
+			});
+		}
+		lockups.sort((a, b) => a.lockupId - b.lockupId);
+
+		result.set(castHash, {
+			...meta,
+			// Total of the valid stakes among these rows; the stored total is rebuilt from every lockup of the cast
+			totalHigherStaked: calculateTotalHigherStaked(lockups),
+			// If we have cast metadata, a cast without caster stakes is valid; otherwise invalid
+			castState: calculateCastState(lockups, Boolean(castMeta)),
+			lockups,
+		});
 	}
 
 	return result;
@@ -279,54 +281,80 @@ export async function fetchAndAggregateLockupsFromDune(): Promise<Map<string, Ag
 
 export async function syncLockupsFromDune(): Promise<{ castsUpserted: number }> {
 	const aggregated = await fetchAndAggregateLockupsFromDune();
-	
-	// Calculate ranks for casts with state 'higher' based on total_higher_staked
-	// Only 'higher' casts get ranks; others get null
-	const higherCasts = Array.from(aggregated.values())
-		.filter(cast => cast.castState === 'higher')
-		.sort((a, b) => b.totalHigherStaked - a.totalHigherStaked); // Sort DESC by total staked
-	
-	// Create a map of cast hash to rank
-	const rankMap = new Map<string, number>();
-	higherCasts.forEach((cast, index) => {
-		rankMap.set(cast.castHash, index + 1); // Rank starts at 1
+	return syncAggregatedCasts(aggregated);
+}
+
+/**
+ * Write a cast through the lockups table: upsert its lockups (idempotent per lockupId, see
+ * upsertLockups), then derive the leaderboard entry's total and state from every stored lockup of
+ * the cast. A stale or partial caller snapshot therefore never drops a lockup or re-locks an unlocked
+ * one. Casts that lost a lockup to a reorg-reused lockUpId are rebuilt too. Ranks are left to
+ * recomputeRanks. Returns the cast as written.
+ */
+export async function writeCastFromLockups(
+	cast: AggregatedCast,
+	opts: { currentTime?: number } = {}
+): Promise<AggregatedCast> {
+	const previous = await getLockupsByIds(cast.lockups.map(r => r.lockupId));
+	await upsertLockups(cast.lockups);
+
+	const { totalHigherStaked: _total, castState, lockups: _lockups, ...meta } = cast;
+	const written = await writeCastEntry(meta, castState !== 'invalid', opts.currentTime);
+
+	const movedFrom = new Set(previous.filter(r => r.castHash !== cast.castHash).map(r => r.castHash));
+	for (const castHash of movedFrom) {
+		await rebuildCastFromLockups(castHash, opts.currentTime);
+	}
+
+	return written;
+}
+
+/**
+ * Rebuild an existing leaderboard entry from its stored lockups (e.g. after lockups were unlocked or
+ * dropped by a reorg)
+ */
+export async function rebuildCastFromLockups(castHash: string, currentTime?: number): Promise<AggregatedCast | null> {
+	const existing = await getHigherCast(castHash);
+	if (!existing) {
+		return null;
+	}
+
+	const { totalHigherStaked: _total, usdValue: _usd, rank: _rank, castState, ...meta } = existing;
+	return writeCastEntry(meta, castState !== 'invalid', currentTime);
+}
+
+// Derive a cast's total and state from its stored lockups and write the leaderboard entry, atomically
+// with respect to other writers of the cast. Supporters are notified when the cast loses its caster stake.
+async function writeCastEntry(meta: CastMetadata, castKnown: boolean, currentTime?: number): Promise<AggregatedCast> {
+	const { written, previousState } = await withCastLock(meta.castHash, async tx => {
+		const previousState = await getCastState(meta.castHash, tx);
+		const lockups = await getLockupsForCast(meta.castHash, undefined, tx);
+		const written: AggregatedCast = {
+			...meta,
+			totalHigherStaked: calculateTotalHigherStaked(lockups, { currentTime }),
+			castState: calculateCastState(lockups, castKnown || lockups.some(l => l.stakeType === 'caster'), currentTime),
+			lockups,
+		};
+		await upsertHigherCast(written, tx);
+		return { written, previousState };
 	});
-	
+
+	if (previousState === 'higher' && written.castState === 'expired') {
+		await queueCasterStakeLostNotifications(meta.castHash, currentTime);
+	}
+	return written;
+}
+
+/**
+ * Write aggregated casts into leaderboard_entries via the lockups table, then rank the 'higher' casts.
+ * Shared by every lockup source.
+ */
+export async function syncAggregatedCasts(aggregated: Map<string, AggregatedCast>): Promise<{ castsUpserted: number }> {
 	let upserts = 0;
-	for (const [_hash, data] of aggregated) {
-		// Get rank for this cast (only 'higher' casts have ranks)
-		// Convert null to undefined to match the function signature (rank?: number)
-		const rankValue = data.castState === 'higher' ? rankMap.get(data.castHash) : null;
-		const rank = rankValue !== null ? rankValue : undefined;
-		
-		await upsertHigherCast({
-			castHash: data.castHash,
-			creatorFid: data.creatorFid,
-			creatorUsername: data.creatorUsername,
-			creatorDisplayName: data.creatorDisplayName,
-			creatorPfpUrl: data.creatorPfpUrl,
-			castText: data.castText,
-			description: data.description,
-			castTimestamp: data.castTimestamp,
-			totalHigherStaked: data.totalHigherStaked,
-			casterStakeLockupIds: data.casterStakeLockupIds,
-			casterStakeAmounts: data.casterStakeAmounts,
-			casterStakeUnlockTimes: data.casterStakeUnlockTimes,
-			// new lock times to be supported in DB migration; will be ignored if column absent
-			// @ts-ignore
-			casterStakeLockTimes: data.casterStakeLockTimes,
-			casterStakeUnlocked: data.casterStakeUnlocked,
-			supporterStakeLockupIds: data.supporterStakeLockupIds,
-			supporterStakeAmounts: data.supporterStakeAmounts,
-			supporterStakeFids: data.supporterStakeFids,
-			supporterStakeUnlockTimes: data.supporterStakeUnlockTimes,
-			// @ts-ignore
-			supporterStakeLockTimes: data.supporterStakeLockTimes,
-			supporterStakeUnlocked: data.supporterStakeUnlocked,
-			castState: data.castState,
-			rank, // Include calculated rank (undefined for non-higher casts)
-		});
+	for (const cast of aggregated.values()) {
+		await writeCastFromLockups(cast);
 		upserts += 1;
 	}
+	await recomputeRanks();
 	return { castsUpserted: upserts };
 }
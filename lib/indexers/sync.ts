@@ -0,0 +1,236 @@
+import { parseEventLogs, type Hash, type Log } from 'viem';
+import { LOCKUP_ABI, LOCKUP_CONTRACT } from '../contracts';
+import { createBaseClient } from '../base-client';
+import {
+	getUnconfirmedLockups,
+	confirmLockups,
+	deleteUnconfirmedLockups,
+	getSyncCursor,
+	saveSyncCursor,
+	getExpiredLockedLockupIds,
+	getCastHashesForLockupIds,
+	getStaleHigherCastHashes,
+	setLockupsUnlocked,
+	recomputeRanks,
+	SyncCursor,
+} from '../services/db-service';
+import {
+	aggregateLockupRows,
+	syncAggregatedCasts,
+	writeCastFromLockups,
+	rebuildCastFromLockups,
+	fetchLockupRowsFromDune,
+	LockupRow,
+} from './lockupsFromDune';
+import { fetchLockupChangesFromChain } from './lockupsFromChain';
+import { getSafeBlock } from './lockupWrites';
+
+export type LockupSourceName = 'dune' | 'chain';
+
+export interface SyncResult {
+	castsUpserted: number;
+	lockupsProcessed: number;
+	mode: 'full' | 'incremental';
+}
+
+/**
+ * Minimal RPC surface used to confirm or drop lockups seen in recent blocks
+ */
+export interface LockupReceiptClient {
+	getBlockNumber(): Promise<bigint>;
+	getTransactionReceipt(args: { hash: Hash }): Promise<{ status: 'success' | 'reverted'; blockNumber: bigint; logs: Log[] }>;
+}
+
+function toNumber(v: any): number {
+	const n = typeof v === 'number' ? v : parseInt(String(v ?? '0'), 10);
+	return Number.isFinite(n) ? n : 0;
+}
+
+function cursorFromRows(
+	source: LockupSourceName,
+	rows: LockupRow[],
+	previous: SyncCursor | null,
+	lastBlock: number | null
+): Omit<SyncCursor, 'updatedAt'> {
+	let lastLockupId = previous?.lastLockupId ?? 0;
+	let lastLockTime = previous?.lastLockTime ?? 0;
+	for (const r of rows) {
+		lastLockupId = Math.max(lastLockupId, toNumber(r.lockUpId));
+		lastLockTime = Math.max(lastLockTime, toNumber(r.lockTime));
+	}
+	return { source, lastLockupId, lastLockTime, lastBlock: lastBlock ?? previous?.lastBlock ?? null };
+}
+
+/**
+ * Full rebuild: fetch every lockup from the source, re-aggregate every cast and reset the cursor.
+ */
+export async function syncLockupsFull(source: LockupSourceName): Promise<SyncResult> {
+	if (source === 'chain') {
+		await reconcileUnconfirmedLockups();
+	}
+
+	let rows: LockupRow[];
+	let lastBlock: number | null = null;
+	if (source === 'chain') {
+		const changes = await fetchLockupChangesFromChain();
+		rows = changes.rows;
+		// Resume below the unconfirmed tail so reorged blocks are rescanned
+		lastBlock = getSafeBlock(Number(changes.toBlock));
+	} else {
+		rows = await fetchLockupRowsFromDune();
+	}
+
+	const aggregated = await aggregateLockupRows(rows, { safeBlock: lastBlock ?? undefined });
+	const { castsUpserted } = await syncAggregatedCasts(aggregated);
+	await saveSyncCursor(cursorFromRows(source, rows, null, lastBlock));
+
+	return { castsUpserted, lockupsProcessed: rows.length, mode: 'full' };
+}
+
+/**
+ * Incremental sync from the persisted cursor:
+ * - new lockups (lockUpId > cursor for Dune, blocks > cursor for chain) are aggregated, resolving
+ *   owner wallets only for the casts they touch
+ * - lockups that may have been unlocked since the last run are re-checked
+ * - 'higher' casts whose caster stakes lapsed are moved to 'expired'
+ * New and unlocked lockups are written to the lockups table, then only the affected leaderboard_entries
+ * rows are rebuilt from it; ranks are then recomputed in SQL.
+ * Falls back to a full rebuild when no cursor exists yet.
+ */
+export async function syncLockupsIncremental(source: LockupSourceName): Promise<SyncResult> {
+	const cursor = await getSyncCursor(source);
+	if (!cursor) {
+		console.log(`[sync] No cursor for source ${source}, running full rebuild`);
+		return syncLockupsFull(source);
+	}
+
+	const currentTime = Math.floor(Date.now() / 1000);
+	// Only chain sources write unconfirmed lockups (Dune rows carry no block or tx to re-check)
+	const reconciled = source === 'chain' ? await reconcileUnconfirmedLockups() : { confirmed: [], dropped: [] };
+	let newRows: LockupRow[];
+	let unlockedIds: number[];
+	let lastBlock: number | null = null;
+
+	if (source === 'chain') {
+		// A cursor without a block checkpoint starts from the contract's deployment
+		const fromBlock = cursor.lastBlock != null ? BigInt(cursor.lastBlock + 1) : undefined;
+		const changes = await fetchLockupChangesFromChain({ fromBlock });
+		newRows = changes.rows;
+		unlockedIds = changes.unlockedIds;
+		lastBlock = Math.max(cursor.lastBlock ?? 0, getSafeBlock(Number(changes.toBlock)));
+	} else {
+		newRows = await fetchLockupRowsFromDune({ afterLockupId: cursor.lastLockupId });
+		const candidates = await getExpiredLockedLockupIds(currentTime);
+		const unlockedRows = await fetchLockupRowsFromDune({ unlocked: true, lockupIds: candidates });
+		unlockedIds = unlockedRows.map(r => toNumber(r.lockUpId));
+	}
+
+	const aggregated = await aggregateLockupRows(newRows, { safeBlock: lastBlock ?? undefined });
+	await setLockupsUnlocked(unlockedIds);
+
+	const affected = new Set<string>();
+	for (const hash of await getCastHashesForLockupIds(unlockedIds)) affected.add(hash);
+	for (const hash of await getStaleHigherCastHashes(currentTime)) affected.add(hash);
+
+	let castsUpserted = 0;
+	for (const cast of aggregated.values()) {
+		await writeCastFromLockups(cast, { currentTime });
+		affected.delete(cast.castHash);
+		castsUpserted += 1;
+	}
+	for (const castHash of affected) {
+		if (await rebuildCastFromLockups(castHash, currentTime)) castsUpserted += 1;
+	}
+
+	if (castsUpserted > 0 || reconciled.dropped.length > 0) {
+		await recomputeRanks();
+	}
+	await saveSyncCursor(cursorFromRows(source, newRows, cursor, lastBlock));
+
+	console.log('[sync] incremental sync complete', {
+		source,
+		newLockups: newRows.length,
+		unlocked: unlockedIds.length,
+		castsUpserted,
+		confirmed: reconciled.confirmed.length,
+		reorged: reconciled.dropped.length,
+	});
+
+	return { castsUpserted, lockupsProcessed: newRows.length + unlockedIds.length, mode: 'incremental' };
+}
+
+function normalizeTitle(title: string | undefined): string {
+	const t = String(title || '').trim().toLowerCase();
+	return t.startsWith('0x') ? t : `0x${t}`;
+}
+
+/**
+ * Settle lockups that were written unconfirmed (seen within LOCKUP_CONFIRMATION_DEPTH blocks of the head):
+ * once their block is deep enough, re-fetch the creating transaction receipt and either confirm the lockup
+ * or, if the transaction reverted or no longer emits its LockUpCreated event (reorged), drop it and rebuild
+ * its cast. A failed receipt lookup (timeout, rate limit, transaction not found) is retried on the next run:
+ * the cursor has already moved past the block, so a wrongly dropped lockup would not come back.
+ * No RPC calls are made when there is nothing unconfirmed.
+ */
+export async function reconcileUnconfirmedLockups(
+	client?: LockupReceiptClient,
+	currentTime: number = Math.floor(Date.now() / 1000)
+): Promise<{ confirmed: number[]; dropped: number[] }> {
+	const pending = await getUnconfirmedLockups(Number.MAX_SAFE_INTEGER);
+	if (pending.length === 0) {
+		return { confirmed: [], dropped: [] };
+	}
+
+	const rpc = client ?? (createBaseClient() as unknown as LockupReceiptClient);
+	const safeBlock = getSafeBlock(Number(await rpc.getBlockNumber()));
+	const confirmed: number[] = [];
+	const dropped: number[] = [];
+	const affected = new Set<string>();
+
+	for (const lockup of pending) {
+		if (lockup.blockNumber != null && lockup.blockNumber > safeBlock) continue;
+		if (!lockup.txHash) {
+			// Nothing to re-check against; the block is deep enough
+			confirmed.push(lockup.lockupId);
+			continue;
+		}
+
+		let receipt: Awaited<ReturnType<LockupReceiptClient['getTransactionReceipt']>>;
+		try {
+			receipt = await rpc.getTransactionReceipt({ hash: lockup.txHash as Hash });
+		} catch (error) {
+			console.warn(`[sync] Failed to read the receipt of lockup ${lockup.lockupId}, retrying next run:`, error);
+			continue;
+		}
+		if (!receipt || Number(receipt.blockNumber) > safeBlock) {
+			// Not visible yet, or re-included in a newer block; check again on the next run
+			continue;
+		}
+
+		const stillCreated = receipt.status === 'success' && parseEventLogs({
+			abi: LOCKUP_ABI,
+			eventName: 'LockUpCreated',
+			logs: receipt.logs.filter(log => log.address.toLowerCase() === LOCKUP_CONTRACT.toLowerCase()),
+			strict: false,
+		}).some(ev => Number(ev.args.lockUpId) === lockup.lockupId && normalizeTitle(ev.args.title) === lockup.castHash);
+
+		if (stillCreated) {
+			confirmed.push(lockup.lockupId);
+		} else {
+			dropped.push(lockup.lockupId);
+			affected.add(lockup.castHash);
+		}
+	}
+
+	await confirmLockups(confirmed);
+	await deleteUnconfirmedLockups(dropped);
+	for (const castHash of affected) {
+		await rebuildCastFromLockups(castHash, currentTime);
+	}
+
+	if (dropped.length > 0) {
+		console.warn('[sync] Dropped reorged lockups:', dropped);
+	}
+
+	return { confirmed, dropped };
+}
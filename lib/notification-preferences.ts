@@ -0,0 +1,120 @@
+/**
+ * Notification events a user can switch on or off, each with its own threshold
+ */
+export type NotificationPreferenceKey =
+  | 'supporter_added'
+  | 'stake_expiring'
+  | 'caster_stake_lost'
+  | 'rank_change'
+  | 'weekly_digest';
+
+export interface NotificationPreferenceDefinition {
+  key: NotificationPreferenceKey;
+  label: string;
+  description: string;
+  // 'usd': notify when the value involved is at least the threshold; 'rank': when the rank is within the top N
+  thresholdKind: 'usd' | 'rank';
+  thresholdLabel: string;
+  defaultThreshold: number;
+}
+
+export interface NotificationPreference {
+  key: NotificationPreferenceKey;
+  enabled: boolean;
+  threshold: number;
+}
+
+export const NOTIFICATION_PREFERENCES: readonly NotificationPreferenceDefinition[] = [
+  {
+    key: 'supporter_added',
+    label: 'New support',
+    description: 'Someone stakes on your cast',
+    thresholdKind: 'usd',
+    thresholdLabel: 'Min stake (USD)',
+    defaultThreshold: 10,
+  },
+  {
+    key: 'stake_expiring',
+    label: 'Stake expiring',
+    description: 'Reminders before your stakes unlock, and when they do',
+    thresholdKind: 'usd',
+    thresholdLabel: 'Min stake (USD)',
+    defaultThreshold: 0,
+  },
+  {
+    key: 'caster_stake_lost',
+    label: 'Caster stake lost',
+    description: 'A cast you support loses its caster stake',
+    thresholdKind: 'usd',
+    thresholdLabel: 'Min support (USD)',
+    defaultThreshold: 0,
+  },
+  {
+    key: 'rank_change',
+    label: 'Rank changes',
+    description: 'Your cast moves on the menu',
+    thresholdKind: 'rank',
+    thresholdLabel: 'Within top',
+    defaultThreshold: 10,
+  },
+  {
+    key: 'weekly_digest',
+    label: 'Weekly digest',
+    description: 'A summary of your stakes and casts',
+    thresholdKind: 'usd',
+    thresholdLabel: 'Min staked (USD)',
+    defaultThreshold: 0,
+  },
+];
+
+export function getPreferenceDefinition(key: string): NotificationPreferenceDefinition | null {
+  return NOTIFICATION_PREFERENCES.find(p => p.key === key) ?? null;
+}
+
+/**
+ * Full preference list from stored rows, with defaults for events that have none. Every event is on by
+ * default; `supporterThreshold` (the older notification_tokens.threshold_usd) seeds the new-support threshold.
+ */
+export function resolvePreferences(
+  rows: Array<{ key: string; enabled: boolean; threshold: number | null }>,
+  supporterThreshold?: number
+): NotificationPreference[] {
+  const stored = new Map(rows.map(r => [r.key, r]));
+  return NOTIFICATION_PREFERENCES.map(def => {
+    const row = stored.get(def.key);
+    const fallback = def.key === 'supporter_added' && supporterThreshold !== undefined ? supporterThreshold : def.defaultThreshold;
+    return {
+      key: def.key,
+      enabled: row ? row.enabled : true,
+      threshold: row?.threshold ?? fallback,
+    };
+  });
+}
+
+/**
+ * Whether a notification may be sent: the event is enabled and `value` (USD value or rank) meets its threshold
+ */
+export function isNotificationAllowed(
+  preferences: NotificationPreference[],
+  key: NotificationPreferenceKey,
+  value: number
+): boolean {
+  const def = getPreferenceDefinition(key);
+  const pref = preferences.find(p => p.key === key);
+  if (!def || !pref || !pref.enabled) return false;
+  return def.thresholdKind === 'rank' ? value <= pref.threshold : value >= pref.threshold;
+}
+
+/**
+ * Error message for an invalid threshold, or null. USD thresholds are non-negative; rank thresholds are
+ * whole numbers of at least 1.
+ */
+export function validatePreferenceThreshold(key: NotificationPreferenceKey, threshold: number): string | null {
+  const def = getPreferenceDefinition(key);
+  if (!def) return `Unknown notification type ${key}`;
+  if (!Number.isFinite(threshold)) return 'threshold must be a number';
+  if (def.thresholdKind === 'rank') {
+    return Number.isInteger(threshold) && threshold >= 1 ? null : 'rank threshold must be a whole number of at least 1';
+  }
+  return threshold >= 0 ? null : 'threshold must not be negative';
+}
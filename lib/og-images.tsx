@@ -0,0 +1,104 @@
+import { ImageResponse } from 'next/og';
+
+/**
+ * Embed images are 3:2, as mini app embeds require
+ */
+export const OG_IMAGE_SIZE = { width: 1200, height: 800 };
+
+// Short CDN cache: images show live totals but are fetched by every client rendering the embed
+const OG_CACHE_CONTROL = 'public, max-age=0, s-maxage=300, stale-while-revalidate=600';
+
+export function formatOgTokens(amount: number): string {
+  if (amount >= 1_000_000_000) return (amount / 1_000_000_000).toFixed(2) + 'B';
+  if (amount >= 1_000_000) return (amount / 1_000_000).toFixed(2) + 'M';
+  if (amount >= 1_000) return (amount / 1_000).toFixed(2) + 'K';
+  return amount.toFixed(2);
+}
+
+// Remote images that fail to load break the whole render, so only https URLs are drawn
+function isDrawableImage(url: string | null | undefined): url is string {
+  return typeof url === 'string' && url.startsWith('https://');
+}
+
+/**
+ * Menu-card frame shared by every embed image
+ */
+export function OgFrame({ title, footer, children }: { title: string; footer?: string; children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#f9f7f1',
+        padding: 40,
+        fontFamily: 'monospace',
+        color: '#000',
+      }}
+    >
+      <div
+        style={{
+          flex: 1,
+          display: 'flex',
+          flexDirection: 'column',
+          backgroundColor: '#fefdfb',
+          border: '2px solid #000',
+          padding: '40px 56px',
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', borderBottom: '3px solid #000', paddingBottom: 16 }}>
+          <div style={{ fontSize: 44, fontWeight: 700 }}>{title}</div>
+          <div style={{ fontSize: 28, opacity: 0.6, alignSelf: 'flex-end' }}>Higher Steaks</div>
+        </div>
+        <div style={{ flex: 1, display: 'flex', flexDirection: 'column', paddingTop: 28 }}>{children}</div>
+        {footer && (
+          <div style={{ display: 'flex', fontSize: 24, opacity: 0.6, borderTop: '1px solid rgba(0,0,0,0.2)', paddingTop: 14 }}>
+            {footer}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Row of circular avatars; non-drawable URLs are skipped
+ */
+export function OgAvatars({ urls, size = 72 }: { urls: Array<string | null | undefined>; size?: number }) {
+  const drawable = urls.filter(isDrawableImage);
+  if (drawable.length === 0) {
+    return null;
+  }
+  return (
+    <div style={{ display: 'flex' }}>
+      {drawable.map((url, i) => (
+        <img
+          key={url + i}
+          src={url}
+          width={size}
+          height={size}
+          style={{ borderRadius: size / 2, border: '3px solid #fefdfb', marginLeft: i === 0 ? 0 : -size / 4 }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function renderOgImage(element: React.ReactElement): ImageResponse {
+  return new ImageResponse(element, {
+    ...OG_IMAGE_SIZE,
+    headers: { 'Cache-Control': OG_CACHE_CONTROL },
+  });
+}
+
+/**
+ * Fallback image when the subject of an embed cannot be loaded
+ */
+export function renderOgMessage(message: string): ImageResponse {
+  return renderOgImage(
+    <OgFrame title="Higher Steaks">
+      <div style={{ display: 'flex', fontSize: 40, margin: 'auto' }}>{message}</div>
+    </OgFrame>
+  );
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Address } from 'viem';
+import { averageTick, createDexTwapPriceProvider, DexPoolClient, DexPriceConfig, tickToPrice } from '../dex';
+import { createCrossCheckedPriceProvider } from '../crossCheck';
+import { createFixturePriceProvider } from '../fixtures';
+import fixture from './fixtures/dexPools.json';
+
+const WETH = { address: '0x4200000000000000000000000000000000000006' as Address, decimals: 18 };
+const USDC = { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Address, decimals: 6 };
+const HIGHER = { address: '0x0578d8A44db98B23BF096A382e016e29a5Ce0ffe' as Address, decimals: 18 };
+
+const CONFIG: DexPriceConfig = {
+	higherWethPool: { address: '0x00000000000000000000000000000000000a11ce', base: HIGHER, quote: WETH },
+	wethUsdcPool: { address: '0xd0b53D9277642d899DF5C87A3966A349A798F224', base: WETH, quote: USDC },
+	windowSeconds: fixture.windowSeconds,
+};
+
+// Recorded observe() results. To run against a local anvil fork instead, set BASE_RPC_URL=http://127.0.0.1:8545
+// and HIGHER_WETH_POOL, and call createDexTwapPriceProvider() without a client.
+function fixtureClient(): DexPoolClient {
+	const pools = fixture.pools as Record<string, { tickCumulatives: string[] }>;
+	return {
+		async readContract({ address, args }) {
+			const pool = pools[address.toLowerCase()];
+			if (!pool || args[0][0] !== fixture.windowSeconds) throw new Error('OLD');
+			return [pool.tickCumulatives.map(BigInt), [0n, 0n]] as const;
+		},
+	};
+}
+
+describe('DEX TWAP math', () => {
+	it('rounds the mean tick towards negative infinity', () => {
+		expect(averageTick([0n, 3600n], 1800)).toBe(2);
+		expect(averageTick([0n, -3601n], 1800)).toBe(-3);
+		expect(averageTick([0n, -3600n], 1800)).toBe(-2);
+	});
+
+	it('prices the base token whichever side of the pool it is on', () => {
+		// WETH is token0 of WETH/USDC; HIGHER is token0 of HIGHER/WETH
+		expect(tickToPrice(-196257, { base: WETH, quote: USDC })).toBeCloseTo(2999.8, 1);
+		expect(tickToPrice(-196257, { base: USDC, quote: WETH })).toBeCloseTo(1 / 2999.8, 8);
+		expect(tickToPrice(0, { base: HIGHER, quote: WETH })).toBe(1);
+	});
+});
+
+describe('DEX TWAP price provider', () => {
+	it('prices ETH and HIGHER from recorded pool state', async () => {
+		const prices = createDexTwapPriceProvider({ client: fixtureClient(), config: CONFIG });
+
+		expect(await prices.getUsdPrice('ethereum')).toBeCloseTo(2999.8, 1);
+		expect(await prices.getUsdPrice('higher')).toBeCloseTo(0.005, 5);
+		expect(await prices.getUsdPrice('degen-base')).toBeNull();
+	});
+
+	it('has no price when the pool cannot cover the window or is not configured', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const longWindow = createDexTwapPriceProvider({ client: fixtureClient(), config: { ...CONFIG, windowSeconds: 3600 } });
+		const noPool = createDexTwapPriceProvider({ client: fixtureClient(), config: { ...CONFIG, higherWethPool: null } });
+
+		expect(await longWindow.getUsdPrice('ethereum')).toBeNull();
+		expect(await noPool.getUsdPrice('higher')).toBeNull();
+		warn.mockRestore();
+	});
+});
+
+describe('cross-checked prices', () => {
+	const dex = () => createDexTwapPriceProvider({ client: fixtureClient(), config: CONFIG });
+
+	it('raises the divergence alarm but keeps the primary price', async () => {
+		const onDivergence = vi.fn();
+		const prices = createCrossCheckedPriceProvider(dex(), createFixturePriceProvider({ higher: 0.006, ethereum: 3010 }), {
+			threshold: 0.05,
+			onDivergence,
+		});
+
+		expect(await prices.getUsdPrice('ethereum')).toBeCloseTo(2999.8, 1);
+		expect(onDivergence).not.toHaveBeenCalled();
+
+		expect(await prices.getUsdPrice('higher')).toBeCloseTo(0.005, 5);
+		expect(onDivergence).toHaveBeenCalledTimes(1);
+		expect(onDivergence.mock.calls[0][0]).toMatchObject({ assetId: 'higher', reference: { name: 'fixture', price: 0.006 } });
+	});
+
+	it('falls back to the reference when the primary has no price', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const prices = createCrossCheckedPriceProvider(dex(), createFixturePriceProvider({ 'degen-base': 0.01 }));
+
+		expect(await prices.getUsdPrice('degen-base')).toBe(0.01);
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+});
@@ -0,0 +1,81 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { buildDuneLockupFilter } from '../dune';
+import { createFixtureLockupSource, createFixturePriceProvider, loadProviderFixtures } from '../fixtures';
+import { getCastProvider, getProviderMode, getUserProvider, resetProviders, setProviders } from '../index';
+import type { UserProvider } from '../types';
+
+afterEach(() => {
+	delete process.env.DATA_PROVIDER;
+	delete process.env.USER_PROVIDER;
+	resetProviders();
+});
+
+describe('buildDuneLockupFilter', () => {
+	it('returns undefined for an empty query', () => {
+		expect(buildDuneLockupFilter()).toBeUndefined();
+	});
+
+	it('leaves a single clause unwrapped', () => {
+		expect(buildDuneLockupFilter({ unlocked: false })).toBe('unlocked = false');
+	});
+
+	it('ANDs multiple clauses and lowercases receivers', () => {
+		expect(buildDuneLockupFilter({ unlocked: true, receivers: ['0xABC'], lockupIds: [1, 2] })).toBe(
+			"(unlocked = true) AND (receiver IN ('0xabc')) AND (lockUpId IN (1,2))"
+		);
+	});
+});
+
+describe('fixture providers', () => {
+	it('filters lockup rows like the Dune filter', async () => {
+		const source = createFixtureLockupSource(loadProviderFixtures().lockups);
+
+		expect((await source.fetchLockupRows()).map(r => Number(r.lockUpId))).toEqual([101, 102, 103]);
+		expect((await source.fetchLockupRows({ afterLockupId: 101 })).map(r => Number(r.lockUpId))).toEqual([102, 103]);
+		expect((await source.fetchLockupRows({ lockupIds: [103], unlocked: false })).map(r => Number(r.lockUpId))).toEqual([103]);
+	});
+
+	it('serves price history within the requested range', async () => {
+		const prices = createFixturePriceProvider({ higher: 0.005 }, {
+			higher: [{ timestamp: 100, usdPrice: 0.004 }, { timestamp: 200, usdPrice: 0.0045 }, { timestamp: 300, usdPrice: 0.005 }],
+		});
+
+		expect((await prices.getUsdPriceHistory!('higher', 150, 300)).map(p => p.usdPrice)).toEqual([0.0045, 0.005]);
+		expect(await prices.getUsdPriceHistory!('ethereum', 0, 300)).toEqual([]);
+	});
+
+	it('is selected by DATA_PROVIDER and resolves users by verified address', async () => {
+		process.env.DATA_PROVIDER = 'fixture';
+		resetProviders();
+
+		expect(getProviderMode('users')).toBe('fixture');
+		const users = await getUserProvider().getUsersByAddresses(['0x3333333333333333333333333333333333333334']);
+		expect(users.get('0x3333333333333333333333333333333333333334')?.[0].username).toBe('carol');
+	});
+
+	it('lets a per-kind env var override DATA_PROVIDER', () => {
+		process.env.DATA_PROVIDER = 'fixture';
+		process.env.USER_PROVIDER = 'live';
+		expect(getProviderMode('users')).toBe('live');
+		expect(getProviderMode('casts')).toBe('fixture');
+	});
+
+	it('looks up casts by hash and by shortened URL', async () => {
+		process.env.DATA_PROVIDER = 'fixture';
+		const casts = getCastProvider();
+
+		const byHash = await casts.lookupCast('0xabcdef0123456789abcdef0123456789abcdef01', 'hash');
+		expect(byHash?.author.username).toBe('alice');
+		expect(await casts.lookupCast('https://warpcast.com/alice/0xabcdef01', 'url')).toEqual(byHash);
+	});
+
+	it('prefers providers set in-process over env selection', async () => {
+		const stub: UserProvider = {
+			name: 'stub',
+			getUsersByFids: async () => [],
+			getUsersByAddresses: async () => new Map(),
+		};
+		setProviders({ users: stub });
+		expect(getUserProvider().name).toBe('stub');
+	});
+});
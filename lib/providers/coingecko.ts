@@ -0,0 +1,45 @@
+import type { PricePoint, PriceProvider } from './types';
+
+const COINGECKO_SIMPLE_PRICE_URL = 'https://api.coingecko.com/api/v3/simple/price';
+const COINGECKO_COINS_URL = 'https://api.coingecko.com/api/v3/coins';
+
+/**
+ * CoinGecko simple price API (responses cached for 5 minutes by Next.js)
+ */
+export function createCoinGeckoPriceProvider(): PriceProvider {
+	return {
+		name: 'coingecko',
+
+		async getUsdPrice(assetId = 'higher') {
+			try {
+				const res = await fetch(`${COINGECKO_SIMPLE_PRICE_URL}?ids=${encodeURIComponent(assetId)}&vs_currencies=usd`, {
+					next: { revalidate: 300 },
+				});
+				if (!res.ok) return null;
+				const data = await res.json();
+				const price = Number(data?.[assetId]?.usd);
+				return Number.isFinite(price) && price > 0 ? price : null;
+			} catch (err) {
+				console.warn(`[providers/coingecko] Failed to fetch ${assetId} price:`, err);
+				return null;
+			}
+		},
+
+		// Hourly granularity for ranges up to 90 days, daily beyond
+		async getUsdPriceHistory(assetId, from, to) {
+			try {
+				const url = `${COINGECKO_COINS_URL}/${encodeURIComponent(assetId)}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`;
+				const res = await fetch(url, { cache: 'no-store' });
+				if (!res.ok) return [];
+				const data = await res.json();
+				const prices: unknown[] = Array.isArray(data?.prices) ? data.prices : [];
+				return prices
+					.map(p => (Array.isArray(p) ? { timestamp: Math.floor(Number(p[0]) / 1000), usdPrice: Number(p[1]) } : null))
+					.filter((p): p is PricePoint => p !== null && Number.isFinite(p.timestamp) && Number.isFinite(p.usdPrice) && p.usdPrice > 0);
+			} catch (err) {
+				console.warn(`[providers/coingecko] Failed to fetch ${assetId} price history:`, err);
+				return [];
+			}
+		},
+	};
+}
@@ -0,0 +1,79 @@
+import type { PriceProvider } from './types';
+
+// Relative difference between the two sources that raises the alarm (override with PRICE_DIVERGENCE_THRESHOLD)
+const DEFAULT_DIVERGENCE_THRESHOLD = 0.05;
+
+export interface PriceDivergence {
+	assetId: string;
+	primary: { name: string; price: number };
+	reference: { name: string; price: number };
+	divergence: number; // |primary - reference| / reference
+}
+
+export interface CrossCheckOptions {
+	threshold?: number;
+	onDivergence?: (divergence: PriceDivergence) => void;
+}
+
+function getDivergenceThreshold(): number {
+	const threshold = parseFloat(process.env.PRICE_DIVERGENCE_THRESHOLD || '');
+	return Number.isFinite(threshold) && threshold > 0 ? threshold : DEFAULT_DIVERGENCE_THRESHOLD;
+}
+
+function logDivergence(d: PriceDivergence): void {
+	console.error(
+		`[providers/price-alarm] ${d.assetId}: ${d.primary.name} ${d.primary.price} vs ${d.reference.name} ${d.reference.price} ` +
+		`(${(d.divergence * 100).toFixed(1)}% apart)`
+	);
+}
+
+/**
+ * Prices from `primary`, checked against `reference` on every lookup. A divergence above the threshold
+ * raises the alarm (onDivergence, logged by default) but the primary price is still returned. When the
+ * primary has no price the reference is used, with a warning. Price history comes from the reference.
+ */
+export function createCrossCheckedPriceProvider(
+	primary: PriceProvider,
+	reference: PriceProvider,
+	opts: CrossCheckOptions = {}
+): PriceProvider {
+	const threshold = opts.threshold ?? getDivergenceThreshold();
+	const onDivergence = opts.onDivergence ?? logDivergence;
+
+	return {
+		name: `${primary.name}/${reference.name}`,
+
+		async getUsdPrice(assetId = 'higher') {
+			const [primaryPrice, referencePrice] = await Promise.all([
+				primary.getUsdPrice(assetId),
+				reference.getUsdPrice(assetId),
+			]);
+
+			if (primaryPrice === null) {
+				if (referencePrice === null) {
+					console.error(`[providers/price-alarm] No ${assetId} price from ${primary.name} or ${reference.name}`);
+				} else {
+					console.warn(`[providers/price-alarm] No ${assetId} price from ${primary.name}, using ${reference.name}`);
+				}
+				return referencePrice;
+			}
+
+			if (referencePrice !== null) {
+				const divergence = Math.abs(primaryPrice - referencePrice) / referencePrice;
+				if (divergence > threshold) {
+					onDivergence({
+						assetId,
+						primary: { name: primary.name, price: primaryPrice },
+						reference: { name: reference.name, price: referencePrice },
+						divergence,
+					});
+				}
+			}
+			return primaryPrice;
+		},
+
+		getUsdPriceHistory: reference.getUsdPriceHistory
+			? (assetId, from, to) => reference.getUsdPriceHistory!(assetId, from, to)
+			: undefined,
+	};
+}
@@ -0,0 +1,157 @@
+import type { Address } from 'viem';
+import { createBaseClient } from '../base-client';
+import { HIGHER_TOKEN_ADDRESS } from '../contracts';
+import type { PriceProvider } from './types';
+
+const WETH_ADDRESS: Address = '0x4200000000000000000000000000000000000006';
+const USDC_ADDRESS: Address = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+// Uniswap v3 WETH/USDC 0.05% pool on Base (override with WETH_USDC_POOL)
+const DEFAULT_WETH_USDC_POOL: Address = '0xd0b53D9277642d899DF5C87A3966A349A798F224';
+const DEFAULT_TWAP_WINDOW_SECONDS = 30 * 60;
+
+export const UNISWAP_V3_POOL_ABI = [
+	{
+		inputs: [{ internalType: 'uint32[]', name: 'secondsAgos', type: 'uint32[]' }],
+		name: 'observe',
+		outputs: [
+			{ internalType: 'int56[]', name: 'tickCumulatives', type: 'int56[]' },
+			{ internalType: 'uint160[]', name: 'secondsPerLiquidityCumulativeX128s', type: 'uint160[]' },
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+] as const;
+
+/**
+ * Minimal subset of a viem PublicClient used by the DEX oracle.
+ * Kept narrow so tests can drive it with recorded pool state instead of an RPC.
+ */
+export interface DexPoolClient {
+	readContract(args: {
+		address: Address;
+		abi: typeof UNISWAP_V3_POOL_ABI;
+		functionName: 'observe';
+		args: readonly [readonly number[]];
+	}): Promise<readonly [readonly bigint[], readonly bigint[]]>;
+}
+
+interface PoolToken {
+	address: Address;
+	decimals: number;
+}
+
+/**
+ * A Uniswap v3 pool, priced as `base` in units of `quote`
+ */
+export interface DexPool {
+	address: Address;
+	base: PoolToken;
+	quote: PoolToken;
+}
+
+export interface DexPriceConfig {
+	higherWethPool: DexPool | null; // null when HIGHER_WETH_POOL is not set
+	wethUsdcPool: DexPool;
+	windowSeconds: number;
+}
+
+/**
+ * Pools and TWAP window from HIGHER_WETH_POOL, WETH_USDC_POOL and DEX_TWAP_WINDOW_SECONDS
+ */
+export function getDexPriceConfig(): DexPriceConfig {
+	const weth = { address: WETH_ADDRESS, decimals: 18 };
+	const window = parseInt(process.env.DEX_TWAP_WINDOW_SECONDS || '', 10);
+	const higherPool = process.env.HIGHER_WETH_POOL as Address | undefined;
+	return {
+		higherWethPool: higherPool ? { address: higherPool, base: { address: HIGHER_TOKEN_ADDRESS, decimals: 18 }, quote: weth } : null,
+		wethUsdcPool: {
+			address: (process.env.WETH_USDC_POOL as Address | undefined) || DEFAULT_WETH_USDC_POOL,
+			base: weth,
+			quote: { address: USDC_ADDRESS, decimals: 6 },
+		},
+		windowSeconds: Number.isFinite(window) && window > 0 ? window : DEFAULT_TWAP_WINDOW_SECONDS,
+	};
+}
+
+/**
+ * Arithmetic mean tick between two observe() tick cumulatives, rounded towards negative infinity
+ * like Uniswap's OracleLibrary.consult
+ */
+export function averageTick(tickCumulatives: readonly bigint[], windowSeconds: number): number {
+	const delta = tickCumulatives[1] - tickCumulatives[0];
+	const window = BigInt(windowSeconds);
+	let tick = delta / window;
+	if (delta < 0n && delta % window !== 0n) tick -= 1n;
+	return Number(tick);
+}
+
+/**
+ * Price of the pool's base token in its quote token at a tick. Uniswap orders pool tokens by address,
+ * and a tick prices token0 in token1 raw units (1.0001^tick).
+ */
+export function tickToPrice(tick: number, pool: Pick<DexPool, 'base' | 'quote'>): number {
+	const baseIsToken0 = pool.base.address.toLowerCase() < pool.quote.address.toLowerCase();
+	const [token0, token1] = baseIsToken0 ? [pool.base, pool.quote] : [pool.quote, pool.base];
+	const price0in1 = Math.pow(1.0001, tick) * Math.pow(10, token0.decimals - token1.decimals);
+	return baseIsToken0 ? price0in1 : 1 / price0in1;
+}
+
+/**
+ * Time-weighted average price of the pool's base token in its quote token over the last windowSeconds.
+ * Throws if the pool's observations do not reach back that far.
+ */
+export async function readPoolTwap(client: DexPoolClient, pool: DexPool, windowSeconds: number): Promise<number> {
+	const [tickCumulatives] = await client.readContract({
+		address: pool.address,
+		abi: UNISWAP_V3_POOL_ABI,
+		functionName: 'observe',
+		args: [[windowSeconds, 0]],
+	});
+	return tickToPrice(averageTick(tickCumulatives, windowSeconds), pool);
+}
+
+/**
+ * USD prices from Uniswap v3 TWAPs on Base: 'ethereum' from WETH/USDC (USDC taken as $1) and 'higher'
+ * from HIGHER/WETH times the ETH price. Other assets have no price.
+ */
+export function createDexTwapPriceProvider(opts: { client?: DexPoolClient; config?: DexPriceConfig } = {}): PriceProvider {
+	const config = opts.config ?? getDexPriceConfig();
+	let client = opts.client;
+	const getClient = (): DexPoolClient => {
+		if (!client) client = createBaseClient() as unknown as DexPoolClient;
+		return client;
+	};
+
+	async function getEthUsd(): Promise<number> {
+		return readPoolTwap(getClient(), config.wethUsdcPool, config.windowSeconds);
+	}
+
+	return {
+		name: 'dex-twap',
+
+		async getUsdPrice(assetId = 'higher') {
+			try {
+				let price: number;
+				if (assetId === 'ethereum') {
+					price = await getEthUsd();
+				} else if (assetId === 'higher') {
+					if (!config.higherWethPool) {
+						console.warn('[providers/dex] HIGHER_WETH_POOL is not set');
+						return null;
+					}
+					const [higherInEth, ethUsd] = await Promise.all([
+						readPoolTwap(getClient(), config.higherWethPool, config.windowSeconds),
+						getEthUsd(),
+					]);
+					price = higherInEth * ethUsd;
+				} else {
+					return null;
+				}
+				return Number.isFinite(price) && price > 0 ? price : null;
+			} catch (err) {
+				console.warn(`[providers/dex] Failed to read ${assetId} TWAP:`, err);
+				return null;
+			}
+		},
+	};
+}
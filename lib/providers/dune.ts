@@ -0,0 +1,73 @@
+import { fetchAllLatestResults } from '../dune';
+import type { LockupRow } from '../indexers/lockupsFromDune';
+import type { LockupQuery, LockupSource } from './types';
+
+// Dune query returning every HIGHER lockup, and the columns we read from it
+export const DUNE_LOCKUPS_QUERY_ID = 6214515;
+export const DUNE_LOCKUP_COLUMNS = [
+	'sender',
+	'lockTime',
+	'lockUpId',
+	'title',
+	'amount',
+	'receiver',
+	'unlockTime',
+	'unlocked',
+];
+
+// Max lockup IDs per Dune IN (...) filter
+const DUNE_ID_FILTER_BATCH = 500;
+
+/**
+ * Translate a LockupQuery into a Dune filter expression, e.g. `(unlocked = false) AND (receiver IN ('0x..'))`
+ */
+export function buildDuneLockupFilter(query: LockupQuery = {}): string | undefined {
+	const clauses: string[] = [];
+	if (query.unlocked != null) {
+		clauses.push(`unlocked = ${query.unlocked}`);
+	}
+	if (query.receivers) {
+		clauses.push(`receiver IN (${query.receivers.map(a => `'${a.toLowerCase()}'`).join(',')})`);
+	}
+	if (query.afterLockupId != null) {
+		clauses.push(`lockUpId > ${Math.floor(query.afterLockupId)}`);
+	}
+	if (query.lockupIds) {
+		clauses.push(`lockUpId IN (${query.lockupIds.map(id => Math.floor(id)).join(',')})`);
+	}
+	if (clauses.length === 0) return undefined;
+	return clauses.length === 1 ? clauses[0] : clauses.map(c => `(${c})`).join(' AND ');
+}
+
+async function fetchRows(query: LockupQuery): Promise<LockupRow[]> {
+	const rows = await fetchAllLatestResults(DUNE_LOCKUPS_QUERY_ID, {
+		columns: DUNE_LOCKUP_COLUMNS,
+		limit: 1000,
+		filters: buildDuneLockupFilter(query),
+	});
+	return rows as LockupRow[];
+}
+
+/**
+ * Lockup rows from the latest results of the Dune lockups query
+ */
+export function createDuneLockupSource(): LockupSource {
+	return {
+		name: 'dune',
+
+		async fetchLockupRows(query = {}) {
+			if (query.lockupIds && query.lockupIds.length === 0) return [];
+			if (query.receivers && query.receivers.length === 0) return [];
+
+			if (!query.lockupIds || query.lockupIds.length <= DUNE_ID_FILTER_BATCH) {
+				return fetchRows(query);
+			}
+
+			const rows: LockupRow[] = [];
+			for (let i = 0; i < query.lockupIds.length; i += DUNE_ID_FILTER_BATCH) {
+				rows.push(...await fetchRows({ ...query, lockupIds: query.lockupIds.slice(i, i + DUNE_ID_FILTER_BATCH) }));
+			}
+			return rows;
+		},
+	};
+}
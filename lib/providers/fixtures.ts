@@ -0,0 +1,120 @@
+import { readFileSync } from 'fs';
+import type { LockupRow } from '../indexers/lockupsFromDune';
+import type {
+	CastProvider,
+	LockupQuery,
+	LockupSource,
+	PricePoint,
+	PriceProvider,
+	ProviderCast,
+	UserProfile,
+	UserProvider,
+} from './types';
+import offline from './fixtures/offline.json';
+
+/**
+ * In-memory data behind the fixture providers
+ */
+export interface ProviderFixtures {
+	users: UserProfile[];
+	casts: ProviderCast[];
+	lockups: LockupRow[];
+	prices: Record<string, number>;
+	priceHistory?: Record<string, PricePoint[]>; // past prices by asset id, oldest first
+}
+
+/**
+ * Load fixture data from PROVIDER_FIXTURES_PATH (a JSON file in the ProviderFixtures shape),
+ * falling back to the bundled lib/providers/fixtures/offline.json
+ */
+export function loadProviderFixtures(): ProviderFixtures {
+	const path = process.env.PROVIDER_FIXTURES_PATH;
+	const data = path ? JSON.parse(readFileSync(path, 'utf8')) : offline;
+	return {
+		users: data.users ?? [],
+		casts: data.casts ?? [],
+		lockups: data.lockups ?? [],
+		prices: data.prices ?? {},
+		priceHistory: data.priceHistory ?? {},
+	};
+}
+
+function userAddresses(u: UserProfile): string[] {
+	return [u.custodyAddress, ...u.verifiedAddresses].filter((a): a is string => Boolean(a)).map(a => a.toLowerCase());
+}
+
+export function createFixtureUserProvider(users: UserProfile[]): UserProvider {
+	return {
+		name: 'fixture',
+
+		async getUsersByFids(fids) {
+			const wanted = new Set(fids.map(Number));
+			return users.filter(u => wanted.has(u.fid));
+		},
+
+		async getUsersByAddresses(addresses) {
+			const result = new Map<string, UserProfile[]>();
+			for (const address of addresses.map(a => a.toLowerCase())) {
+				const matches = users.filter(u => userAddresses(u).includes(address));
+				if (matches.length > 0) result.set(address, matches);
+			}
+			return result;
+		},
+	};
+}
+
+export function createFixtureCastProvider(casts: ProviderCast[]): CastProvider {
+	return {
+		name: 'fixture',
+
+		async lookupCast(identifier, type) {
+			const id = identifier.trim().toLowerCase();
+			if (type === 'url') {
+				// Farcaster URLs end with a (possibly shortened) cast hash
+				const short = id.split('/').pop() || '';
+				return casts.find(c => short.startsWith('0x') && c.hash.toLowerCase().startsWith(short)) ?? null;
+			}
+			return casts.find(c => c.hash.toLowerCase() === id) ?? null;
+		},
+
+		async getCastsForUser(fid, limit) {
+			return casts
+				.filter(c => c.author.fid === fid)
+				.sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+				.slice(0, limit);
+		},
+	};
+}
+
+function matchesLockupQuery(row: LockupRow, query: LockupQuery): boolean {
+	const unlocked = row.unlocked === true || row.unlocked === 'true' || row.unlocked === 1;
+	if (query.unlocked != null && unlocked !== query.unlocked) return false;
+	if (query.receivers && !query.receivers.map(a => a.toLowerCase()).includes(String(row.receiver).toLowerCase())) return false;
+	if (query.afterLockupId != null && !(Number(row.lockUpId) > query.afterLockupId)) return false;
+	if (query.lockupIds && !query.lockupIds.includes(Number(row.lockUpId))) return false;
+	return true;
+}
+
+export function createFixtureLockupSource(rows: LockupRow[]): LockupSource {
+	return {
+		name: 'fixture',
+
+		async fetchLockupRows(query = {}) {
+			return rows.filter(r => matchesLockupQuery(r, query)).map(r => ({ ...r }));
+		},
+	};
+}
+
+export function createFixturePriceProvider(prices: Record<string, number>, history: Record<string, PricePoint[]> = {}): PriceProvider {
+	return {
+		name: 'fixture',
+
+		async getUsdPrice(assetId = 'higher') {
+			return prices[assetId] ?? null;
+		},
+
+		async getUsdPriceHistory(assetId, from, to) {
+			return (history[assetId] ?? []).filter(p => p.timestamp >= from && p.timestamp <= to);
+		},
+	};
+}
@@ -0,0 +1,120 @@
+import { createNeynarCastProvider, createNeynarUserProvider } from './neynar';
+import { createDuneLockupSource } from './dune';
+import { createCoinGeckoPriceProvider } from './coingecko';
+import { createDexTwapPriceProvider } from './dex';
+import { createCrossCheckedPriceProvider } from './crossCheck';
+import {
+	createFixtureCastProvider,
+	createFixtureLockupSource,
+	createFixturePriceProvider,
+	createFixtureUserProvider,
+	loadProviderFixtures,
+	ProviderFixtures,
+} from './fixtures';
+import type { CastProvider, LockupSource, PriceProvider, ProviderMode, UserProfile, UserProvider } from './types';
+
+export type {
+	CastProvider,
+	LockupQuery,
+	LockupSource,
+	PricePoint,
+	PriceProvider,
+	ProviderCast,
+	ProviderMode,
+	UserProfile,
+	UserProvider,
+} from './types';
+export type { ProviderFixtures } from './fixtures';
+
+interface Providers {
+	users: UserProvider;
+	casts: CastProvider;
+	lockups: LockupSource;
+	prices: PriceProvider;
+}
+
+const PROVIDER_ENV: Record<keyof Providers, string> = {
+	users: 'USER_PROVIDER',
+	casts: 'CAST_PROVIDER',
+	lockups: 'LOCKUP_PROVIDER',
+	prices: 'PRICE_PROVIDER',
+};
+
+let overrides: Partial<Providers> = {};
+const cache: Partial<Providers> = {};
+let fixtures: ProviderFixtures | null = null;
+
+/**
+ * Provider mode for a kind: its own env var (USER_PROVIDER, CAST_PROVIDER, LOCKUP_PROVIDER, PRICE_PROVIDER),
+ * then DATA_PROVIDER, then 'live'
+ */
+export function getProviderMode(kind: keyof Providers): ProviderMode {
+	const raw = (process.env[PROVIDER_ENV[kind]] || process.env.DATA_PROVIDER || 'live').toLowerCase();
+	return raw === 'fixture' ? 'fixture' : 'live';
+}
+
+function getFixtures(): ProviderFixtures {
+	if (!fixtures) fixtures = loadProviderFixtures();
+	return fixtures;
+}
+
+function resolve<K extends keyof Providers>(kind: K, live: () => Providers[K], fixture: (f: ProviderFixtures) => Providers[K]): Providers[K] {
+	const override = overrides[kind];
+	if (override) return override as Providers[K];
+	if (!cache[kind]) {
+		cache[kind] = getProviderMode(kind) === 'fixture' ? fixture(getFixtures()) : live();
+	}
+	return cache[kind] as Providers[K];
+}
+
+export function getUserProvider(): UserProvider {
+	return resolve('users', createNeynarUserProvider, f => createFixtureUserProvider(f.users));
+}
+
+export function getCastProvider(): CastProvider {
+	return resolve('casts', createNeynarCastProvider, f => createFixtureCastProvider(f.casts));
+}
+
+export function getLockupSource(): LockupSource {
+	return resolve('lockups', createDuneLockupSource, f => createFixtureLockupSource(f.lockups));
+}
+
+/**
+ * Live prices from CoinGecko, or with PRICE_PROVIDER=dex from Uniswap v3 TWAPs on Base cross-checked
+ * against CoinGecko (lib/providers/dex.ts, lib/providers/crossCheck.ts)
+ */
+function createLivePriceProvider(): PriceProvider {
+	if (process.env.PRICE_PROVIDER?.toLowerCase() === 'dex') {
+		return createCrossCheckedPriceProvider(createDexTwapPriceProvider(), createCoinGeckoPriceProvider());
+	}
+	return createCoinGeckoPriceProvider();
+}
+
+export function getPriceProvider(): PriceProvider {
+	return resolve('prices', createLivePriceProvider, f => createFixturePriceProvider(f.prices, f.priceHistory));
+}
+
+/**
+ * Replace providers in-process (tests, scripts). Pass an empty object to clear overrides.
+ */
+export function setProviders(next: Partial<Providers>): void {
+	overrides = { ...next };
+}
+
+/**
+ * Clear overrides and cached providers so the env vars are read again
+ */
+export function resetProviders(): void {
+	overrides = {};
+	fixtures = null;
+	for (const key of Object.keys(cache) as Array<keyof Providers>) {
+		delete cache[key];
+	}
+}
+
+/**
+ * Custody plus verified ETH addresses of a user, lowercased and de-duplicated
+ */
+export function getProfileAddresses(user: UserProfile): string[] {
+	return Array.from(new Set([user.custodyAddress, ...user.verifiedAddresses].filter((a): a is string => Boolean(a))));
+}
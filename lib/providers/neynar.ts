@@ -0,0 +1,114 @@
+import type { CastProvider, ProviderCast, UserProfile, UserProvider } from './types';
+
+// Neynar bulk endpoints cap fids/addresses per request
+const BULK_USERS_BATCH = 100;
+const BULK_ADDRESSES_BATCH = 350;
+
+function getNeynarApiKey(): string | null {
+	const apiKey = process.env.NEYNAR_API_KEY;
+	if (!apiKey || apiKey === 'your_neynar_api_key_here') {
+		return null;
+	}
+	return apiKey;
+}
+
+async function getNeynarClient() {
+	const apiKey = getNeynarApiKey();
+	if (!apiKey) return null;
+	const { NeynarAPIClient } = await import('@neynar/nodejs-sdk');
+	return new NeynarAPIClient({ apiKey });
+}
+
+export function toUserProfile(u: any): UserProfile {
+	return {
+		fid: Number(u.fid),
+		username: u.username || '',
+		displayName: u.display_name || u.username || '',
+		pfpUrl: u.pfp_url || '',
+		bio: u.profile?.bio?.text || '',
+		custodyAddress: u.custody_address ? String(u.custody_address).toLowerCase() : null,
+		verifiedAddresses: (u.verified_addresses?.eth_addresses ?? []).map((a: string) => String(a).toLowerCase()),
+	};
+}
+
+export function toProviderCast(c: any): ProviderCast {
+	return {
+		hash: c.hash,
+		text: c.text || '',
+		timestamp: c.timestamp,
+		channelId: c.channel?.id ?? null,
+		parentUrl: c.parent_url ?? null,
+		author: {
+			fid: Number(c.author?.fid),
+			username: c.author?.username || '',
+			displayName: c.author?.display_name || c.author?.username || '',
+			pfpUrl: c.author?.pfp_url || '',
+		},
+	};
+}
+
+/**
+ * Neynar-backed users. Returns empty results when NEYNAR_API_KEY is not configured.
+ */
+export function createNeynarUserProvider(): UserProvider {
+	return {
+		name: 'neynar',
+
+		async getUsersByFids(fids) {
+			const client = await getNeynarClient();
+			if (!client || fids.length === 0) return [];
+
+			const users: UserProfile[] = [];
+			for (let i = 0; i < fids.length; i += BULK_USERS_BATCH) {
+				const res = await client.fetchBulkUsers({ fids: fids.slice(i, i + BULK_USERS_BATCH) });
+				users.push(...(res.users ?? []).map(toUserProfile));
+			}
+			return users;
+		},
+
+		async getUsersByAddresses(addresses) {
+			const result = new Map<string, UserProfile[]>();
+			const client = await getNeynarClient();
+			if (!client || addresses.length === 0) return result;
+
+			for (let i = 0; i < addresses.length; i += BULK_ADDRESSES_BATCH) {
+				const batch = addresses.slice(i, i + BULK_ADDRESSES_BATCH);
+				try {
+					const res = await client.fetchBulkUsersByEthOrSolAddress({ addresses: batch as `0x${string}`[] });
+					for (const [address, users] of Object.entries(res)) {
+						if (Array.isArray(users) && users.length > 0) {
+							result.set(address.toLowerCase(), users.map(toUserProfile));
+						}
+					}
+				} catch (error) {
+					// Neynar returns 404 when none of the addresses has a user
+					console.error(`[providers/neynar] Error fetching users for address batch ${i / BULK_ADDRESSES_BATCH}:`, error);
+				}
+			}
+			return result;
+		},
+	};
+}
+
+/**
+ * Neynar-backed casts. Returns empty results when NEYNAR_API_KEY is not configured.
+ */
+export function createNeynarCastProvider(): CastProvider {
+	return {
+		name: 'neynar',
+
+		async lookupCast(identifier, type) {
+			const client = await getNeynarClient();
+			if (!client) return null;
+			const res = await client.lookupCastByHashOrUrl({ identifier, type });
+			return res.cast ? toProviderCast(res.cast) : null;
+		},
+
+		async getCastsForUser(fid, limit) {
+			const client = await getNeynarClient();
+			if (!client) return [];
+			const res = await client.fetchCastsForUser({ fid, limit });
+			return (res.casts ?? []).map(toProviderCast);
+		},
+	};
+}
@@ -0,0 +1,83 @@
+import type { LockupRow } from '../indexers/lockupsFromDune';
+
+/**
+ * Farcaster user as used across the app (subset of the Neynar user object)
+ */
+export interface UserProfile {
+	fid: number;
+	username: string;
+	displayName: string;
+	pfpUrl: string;
+	bio: string;
+	custodyAddress: string | null; // lowercased
+	verifiedAddresses: string[]; // verified ETH addresses, lowercased
+}
+
+/**
+ * Farcaster cast as used across the app (subset of the Neynar cast object)
+ */
+export interface ProviderCast {
+	hash: string;
+	text: string;
+	timestamp: string;
+	channelId: string | null;
+	parentUrl: string | null;
+	author: {
+		fid: number;
+		username: string;
+		displayName: string;
+		pfpUrl: string;
+	};
+}
+
+export interface UserProvider {
+	readonly name: string;
+	/** Users for the given fids; unknown fids are omitted */
+	getUsersByFids(fids: number[]): Promise<UserProfile[]>;
+	/** Users keyed by lowercased address (custody or verified); unknown addresses are omitted */
+	getUsersByAddresses(addresses: string[]): Promise<Map<string, UserProfile[]>>;
+}
+
+export interface CastProvider {
+	readonly name: string;
+	/** Look up a cast by hash or Farcaster/Warpcast URL; null if not found */
+	lookupCast(identifier: string, type: 'hash' | 'url'): Promise<ProviderCast | null>;
+	/** Most recent casts by a user, newest first */
+	getCastsForUser(fid: number, limit: number): Promise<ProviderCast[]>;
+}
+
+/**
+ * Structured filter over lockup rows (all conditions are ANDed)
+ */
+export interface LockupQuery {
+	unlocked?: boolean;
+	receivers?: string[];
+	lockupIds?: number[];
+	afterLockupId?: number; // lockUpId > afterLockupId
+}
+
+/**
+ * Source of HIGHER lockup rows in the Dune query shape
+ */
+export interface LockupSource {
+	readonly name: string;
+	fetchLockupRows(query?: LockupQuery): Promise<LockupRow[]>;
+}
+
+/**
+ * USD price of an asset at a point in time
+ */
+export interface PricePoint {
+	timestamp: number; // unix seconds
+	usdPrice: number;
+}
+
+export interface PriceProvider {
+	readonly name: string;
+	/** USD price for a CoinGecko asset id (default 'higher'); null if unavailable */
+	getUsdPrice(assetId?: string): Promise<number | null>;
+	/** Past USD prices between two unix times, oldest first, for backfilling price_history; optional */
+	getUsdPriceHistory?(assetId: string, from: number, to: number): Promise<PricePoint[]>;
+}
+
+export type ProviderMode = 'live' | 'fixture';
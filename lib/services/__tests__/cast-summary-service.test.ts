@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeCastHashParam } from '../cast-summary-service';
+
+describe('cast page params', () => {
+	it('normalizes cast hashes with or without the 0x prefix', () => {
+		expect(normalizeCastHashParam('0xABCDEF0123456789abcdef0123456789ABCDEF01')).toBe('0xabcdef0123456789abcdef0123456789abcdef01');
+		expect(normalizeCastHashParam('abcdef0123456789abcdef0123456789abcdef01')).toBe('0xabcdef0123456789abcdef0123456789abcdef01');
+	});
+
+	it('rejects anything that is not a 20-byte hash', () => {
+		expect(normalizeCastHashParam(undefined)).toBeNull();
+		expect(normalizeCastHashParam('0x1234')).toBeNull();
+		expect(normalizeCastHashParam('not-a-hash')).toBeNull();
+	});
+});
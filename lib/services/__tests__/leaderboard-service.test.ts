@@ -0,0 +1,227 @@
+import { beforeAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import {
+	aggregateSupporterTotals,
+	calculateCastWeightedStake,
+	decodeCursor,
+	encodeCursor,
+	getLeaderboardPage,
+	getSupporterLeaderboard,
+	rankCastsByWeightedStake,
+	recomputeWeightedRanks,
+	rankSupporters,
+	rankSupporterTotals,
+	LeaderboardCursor,
+	LeaderboardSort,
+} from '../leaderboard-service';
+import { getStakeRules } from '../../stake-rules';
+import { upsertHigherCast, upsertLockups, LockupRecord } from '../db-service';
+import { resetTestDb, setupTestDb, sql } from '../../__tests__/test-db';
+
+vi.mock('@vercel/postgres', () => import('../../__tests__/test-db'));
+
+const DAY = 86400;
+const T = 1_900_000_000;
+const WEI = (tokens: number) => (BigInt(tokens) * 10n ** 18n).toString();
+
+function entry(hash: string, overrides: Record<string, any> = {}) {
+	return {
+		cast_hash: hash,
+		total_higher_staked: '0',
+		usd_value: null,
+		cast_timestamp: '2025-01-01T00:00:00Z',
+		...overrides,
+	};
+}
+
+function lockup(
+	castHash: string,
+	stakeType: LockupRecord['stakeType'],
+	fid: number,
+	tokens: number,
+	lockTime: number,
+	unlockTime: number,
+	unlocked = false
+) {
+	return { castHash, stakeType, fid, amount: WEI(tokens), lockTime, unlockTime, unlocked };
+}
+
+beforeAll(async () => {
+	await setupTestDb();
+}, 60_000);
+
+beforeEach(async () => {
+	await resetTestDb();
+});
+
+describe('leaderboard pages', () => {
+	// a: most staked; b: longest conviction; c: newest, most supporters; d: same stake as b
+	async function seed() {
+		const casts: Array<[string, number, string, number, number]> = [
+			['0xa', 1000, '2025-01-01T00:00:00Z', 1000, 0],
+			['0xb', 300, '2025-01-02T00:00:00Z', 3000, 0],
+			['0xc', 200, '2025-02-01T00:00:00Z', 200, 1],
+			['0xd', 300, '2025-01-03T00:00:00Z', 10, 0],
+		];
+		for (const [hash, staked, timestamp, weighted, supporters] of casts) {
+			await upsertHigherCast({
+				castHash: hash, creatorFid: 1, creatorUsername: 'alice', castText: 'gm', description: 'gm',
+				castTimestamp: timestamp, totalHigherStaked: staked, castState: 'higher',
+			});
+			await sql`UPDATE leaderboard_entries SET weighted_stake = ${weighted}, supporter_count = ${supporters} WHERE cast_hash = ${hash}`;
+		}
+	}
+
+	async function pageThrough(sort: LeaderboardSort, limit: number) {
+		const hashes: string[] = [];
+		let after: LeaderboardCursor | undefined;
+		do {
+			const page = await getLeaderboardPage({ sort, limit, after });
+			hashes.push(...page.rows.map(r => r.row.cast_hash));
+			after = page.nextCursor ? decodeCursor(page.nextCursor)! : undefined;
+		} while (after);
+		return hashes;
+	}
+
+	it('orders rows by each sort mode, ties by cast hash', async () => {
+		await seed();
+
+		expect(await pageThrough('staked', 10)).toEqual(['0xa', '0xd', '0xb', '0xc']);
+		expect(await pageThrough('weighted', 10)).toEqual(['0xb', '0xa', '0xc', '0xd']);
+		expect(await pageThrough('supporters', 10)).toEqual(['0xc', '0xd', '0xb', '0xa']);
+		expect(await pageThrough('newest', 10)).toEqual(['0xc', '0xd', '0xb', '0xa']);
+	});
+
+	it('pages by keyset, so rank changes between pages never repeat a cast', async () => {
+		await seed();
+
+		const first = await getLeaderboardPage({ sort: 'staked', limit: 2 });
+		expect(first.rows.map(r => [r.row.cast_hash, r.position])).toEqual([['0xa', 1], ['0xd', 2]]);
+		expect(await pageThrough('staked', 1)).toEqual(['0xa', '0xd', '0xb', '0xc']);
+
+		// 0xc overtakes everything after the first page was served
+		await sql`UPDATE leaderboard_entries SET total_higher_staked = 5000 WHERE cast_hash = '0xc'`;
+		const second = await getLeaderboardPage({ sort: 'staked', limit: 2, after: decodeCursor(first.nextCursor!)! });
+		expect(second.rows.map(r => r.row.cast_hash)).toEqual(['0xb']);
+		expect(second.nextCursor).toBeNull();
+	});
+
+	it('serves the persisted weighted ranks in the weighted sort', async () => {
+		await seed();
+		const now = Math.floor(Date.now() / 1000);
+		// Equal higher-days on every cast, so only the tie-break orders them
+		await upsertLockups(['0xa', '0xb', '0xc', '0xd'].map((castHash, i) => ({
+			lockupId: i + 1, castHash, sender: null, receiver: null, fid: 1, amount: WEI(10),
+			lockTime: now - DAY, unlockTime: now + DAY, unlocked: false, stakeType: 'caster' as const,
+		})));
+		await recomputeWeightedRanks();
+
+		const { rows } = await getLeaderboardPage({ sort: 'weighted' });
+		expect(rows.map(r => [r.position, r.row.weighted_rank])).toEqual([[1, 1], [2, 2], [3, 3], [4, 4]]);
+	});
+
+	it('round-trips cursors and rejects malformed ones', () => {
+		const cursor = encodeCursor({ sort: 'weighted', value: '1000.5', castHash: '0xa' });
+		expect(decodeCursor(cursor)).toEqual({ sort: 'weighted', value: '1000.5', castHash: '0xa' });
+		expect(decodeCursor('not-a-cursor')).toBeNull();
+		expect(decodeCursor(Buffer.from(JSON.stringify({ s: 'staked', v: '1; DROP', h: '0xa' })).toString('base64url'))).toBeNull();
+	});
+
+	it('skips stakes with an unknown lock time in higher-days', () => {
+		expect(calculateCastWeightedStake([{ amount: WEI(10), lockTime: T - DAY, unlockTime: T + DAY }], T)).toBe(10);
+		expect(calculateCastWeightedStake([{ amount: WEI(10), lockTime: null, unlockTime: T }], T)).toBe(0);
+	});
+});
+
+describe('higher-days rankings', () => {
+	const stake = (tokens: number, lockDaysAgo: number) => ({ tokens, lock: T - lockDaysAgo * DAY, unlock: T + DAY });
+	const cast = (hash: string, caster: ReturnType<typeof stake>, supporters: Array<[number, ReturnType<typeof stake>]>) => [
+		lockup(hash, 'caster', 1, caster.tokens, caster.lock, caster.unlock),
+		...supporters.map(([fid, s]) => lockup(hash, 'supporter', fid, s.tokens, s.lock, s.unlock)),
+	];
+
+	const rows = [entry('0xa', { cast_state: 'higher' }), entry('0xb', { cast_state: 'higher' }), entry('0xc', { cast_state: 'expired' })];
+	const lockups = [
+		...cast('0xa', stake(1000, 1), [[7, stake(100, 1)]]), // 1100 higher-days
+		...cast('0xb', stake(100, 30), [[7, stake(10, 10)], [8, stake(50, 2)], [0, stake(999, 9)]]), // 3000 + 100 + 100 + 8991
+		...cast('0xc', stake(500, 100), [[8, stake(1, 1)]]), // highest, but not ranked
+	];
+
+	it('ranks only higher casts, by higher-days of all their stakes', () => {
+		const ranked = rankCastsByWeightedStake(rows, lockups, T);
+		expect(ranked.map(r => [r.castHash, r.weightedRank])).toEqual([['0xa', 2], ['0xb', 1], ['0xc', null]]);
+		expect(ranked[0].weightedStake).toBe(1100);
+		expect(ranked[2].weightedStake).toBe(50_001);
+		expect(ranked.map(r => r.supporterCount)).toEqual([1, 2, 1]);
+	});
+
+	it('ranks supporter fids both ways across all casts and skips unresolved wallets', () => {
+		const ranked = rankSupporterTotals(aggregateSupporterTotals(rows, lockups, { currentTime: T }));
+		expect(ranked.map(s => [s.fid, s.weightedStake, s.castsBacked, s.rank, s.activeRank])).toEqual([
+			[7, 200, 2, 1, 1],
+			[8, 101, 2, 2, 2],
+		]);
+	});
+});
+
+describe('supporter leaderboard', () => {
+	const opts = { rules: getStakeRules(1), currentTime: T };
+	const supported = (hash: string, creatorFid: number, supporters: Array<[number, number, boolean]>) => [
+		lockup(hash, 'caster', creatorFid, 1, T - DAY, T + DAY),
+		...supporters.map(([fid, tokens, unlocked]) => lockup(hash, 'supporter', fid, tokens, T - 10 * DAY, T + DAY, unlocked)),
+	];
+	const creator = (hash: string, creatorFid: number) =>
+		entry(hash, { creator_fid: creatorFid, creator_username: `creator-${creatorFid}` });
+
+	// fid 7 backs two casts by creator 1 and one by creator 2; fid 8 only has an unlocked stake
+	const rows = [creator('0xa', 1), creator('0xb', 1), creator('0xc', 2)];
+	const lockups = [
+		...supported('0xa', 1, [[7, 100, false], [8, 600, true]]),
+		...supported('0xb', 1, [[7, 300, false]]),
+		...supported('0xc', 2, [[7, 50, false], [7, 50, false]]),
+	];
+
+	it('totals active stake, builders backed and the biggest backing per fid', () => {
+		const totals = aggregateSupporterTotals(rows, lockups, opts);
+		const seven = totals.find(t => t.fid === 7)!;
+
+		expect(seven).toMatchObject({ activeStake: 500, castsBacked: 3, buildersBacked: 2 });
+		expect(seven.biggestBacking).toEqual({ castHash: '0xb', creatorFid: 1, creatorUsername: 'creator-1', activeStake: 300 });
+		expect(totals.find(t => t.fid === 8)).toMatchObject({ activeStake: 0, weightedStake: 6000, biggestBacking: null });
+	});
+
+	it('ranks by active stake or higher-days, leaving out fids with nothing to rank', () => {
+		const totals = aggregateSupporterTotals(rows, lockups, opts);
+
+		expect(rankSupporters(totals, 'active').map(s => [s.fid, s.rank])).toEqual([[7, 1]]);
+		expect(rankSupporters(totals, 'weighted').map(s => [s.fid, s.rank])).toEqual([[8, 1], [7, 2]]);
+	});
+
+	it('serves the ranking persisted by the sync, one page at a time', async () => {
+		const now = Math.floor(Date.now() / 1000);
+		for (const [hash, creatorFid] of [['0xa', 1], ['0xb', 1], ['0xc', 2]] as const) {
+			await upsertHigherCast({
+				castHash: hash, creatorFid, creatorUsername: `creator-${creatorFid}`, castText: 'gm', description: 'gm',
+				castTimestamp: '2025-01-01T00:00:00Z', totalHigherStaked: 1, castState: 'higher',
+			});
+		}
+		await upsertLockups(lockups.map((l, i) => ({
+			...l, lockupId: i + 1, sender: null, receiver: null,
+			lockTime: l.lockTime - T + now, unlockTime: l.unlockTime - T + now,
+		})));
+		await recomputeWeightedRanks();
+
+		const first = await getSupporterLeaderboard('weighted', { limit: 1 });
+		expect(first.supporters.map(s => [s.fid, s.rank])).toEqual([[8, 1]]);
+		expect(first.totalSupporters).toBe(2);
+		const second = await getSupporterLeaderboard('weighted', { after: Number(first.nextCursor), limit: 1 });
+		expect(second.supporters.map(s => [s.fid, s.rank])).toEqual([[7, 2]]);
+		expect(second.nextCursor).toBeNull();
+
+		const active = await getSupporterLeaderboard('active');
+		expect(active).toMatchObject({ nextCursor: null, totalSupporters: 1 });
+		expect(active.supporters).toEqual([{
+			fid: 7, rank: 1, activeStake: 500, weightedStake: 5000, castsBacked: 3, buildersBacked: 2,
+			biggestBacking: { castHash: '0xb', creatorFid: 1, creatorUsername: 'creator-1', activeStake: 300 },
+		}]);
+	});
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import { createHmac } from 'crypto';
+import { verifyWebhookSignature, decodeLockupWebhookPayload, ingestLockupEvents, LockupCreatedEvent } from '../lockup-ingest-service';
+import { getLockupById } from '../db-service';
+import { createFixtureUserProvider, loadProviderFixtures } from '../../providers/fixtures';
+import { resetProviders, setProviders } from '../../providers';
+import type { CastProvider, ProviderCast } from '../../providers';
+import { resetTestDb, setupTestDb } from '../../__tests__/test-db';
+import created from '../../../scripts/webhooks/fixtures/lockup-created.json';
+import unlocked from '../../../scripts/webhooks/fixtures/lockup-unlocked.json';
+import dune from '../../indexers/__tests__/fixtures/duneLockups.json';
+
+vi.mock('@vercel/postgres', () => import('../../__tests__/test-db'));
+vi.mock('../../base-client', () => ({
+	createBaseClient: () => ({ getBlockNumber: async () => BigInt(100) }),
+}));
+
+const CAST_A = '0xabcdef0123456789abcdef0123456789abcdef01'; // alice
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+beforeAll(async () => {
+	await setupTestDb();
+}, 60_000);
+
+beforeEach(async () => {
+	await resetTestDb();
+	const casts = dune.casts as ProviderCast[];
+	setProviders({
+		users: createFixtureUserProvider(loadProviderFixtures().users),
+		casts: {
+			name: 'mock',
+			lookupCast: async (identifier: string) => casts.find(c => c.hash === identifier.toLowerCase()) ?? null,
+			getCastsForUser: async () => [],
+		} satisfies CastProvider,
+	});
+});
+
+afterEach(() => {
+	resetProviders();
+});
+
+describe('lockup webhook ingestion', () => {
+	it('verifies HMAC-SHA256 signatures over the raw body', () => {
+		const body = JSON.stringify(created);
+		const signature = createHmac('sha256', 'test-key').update(body).digest('hex');
+
+		expect(verifyWebhookSignature(body, signature, 'test-key')).toBe(true);
+		expect(verifyWebhookSignature(body, signature, 'other-key')).toBe(false);
+		expect(verifyWebhookSignature(body + ' ', signature, 'test-key')).toBe(false);
+		expect(verifyWebhookSignature(body, null, 'test-key')).toBe(false);
+	});
+
+	it('decodes LockUpCreated logs from address activity payloads', () => {
+		const events = decodeLockupWebhookPayload(created);
+
+		expect(events.unlockedIds).toEqual([]);
+		expect(events.created).toHaveLength(2);
+		expect(events.created[0]).toMatchObject({
+			lockUpId: 101,
+			token: '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe',
+			receiver: '0x1111111111111111111111111111111111111111',
+			origin: ALICE,
+			amount: '1000000000000000000000',
+			unlockTime: 1900000000,
+			title: '0xabcdef0123456789abcdef0123456789abcdef01',
+		});
+		expect(events.created[1].origin).toBe(BOB);
+	});
+
+	it('decodes unlock events into lockup IDs', () => {
+		const events = decodeLockupWebhookPayload(unlocked);
+
+		expect(events.created).toEqual([]);
+		expect(events.unlockedIds).toEqual([102]);
+	});
+
+	it('ignores logs from other contracts', () => {
+		const foreign = JSON.parse(JSON.stringify(created));
+		foreign.event.activity[0].log.address = '0x0000000000000000000000000000000000000001';
+
+		expect(decodeLockupWebhookPayload(foreign).created.map(e => e.lockUpId)).toEqual([102]);
+	});
+
+	it('classifies stakes by the sender wallet, like the sync', async () => {
+		const event = (lockUpId: number, sender: string, receiver: string): LockupCreatedEvent => ({
+			lockUpId,
+			token: '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe',
+			receiver,
+			sender,
+			origin: null,
+			amount: '1000000000000000000',
+			unlockTime: 1900000000,
+			title: CAST_A,
+			blockNumber: BigInt(90),
+			blockTimestamp: 1800000000,
+			transactionHash: null,
+		});
+
+		// Bob locking for alice's wallet supports her cast; alice locking with bob as receiver is her caster stake
+		const { castsUpdated, skipped } = await ingestLockupEvents({
+			created: [event(301, BOB, ALICE), event(302, ALICE, BOB)],
+			unlockedIds: [],
+		});
+
+		expect(castsUpdated).toEqual([CAST_A]);
+		expect(skipped).toEqual([]);
+		expect(await getLockupById(301)).toMatchObject({ stakeType: 'supporter', fid: 2, sender: BOB, confirmed: true });
+		expect(await getLockupById(302)).toMatchObject({ stakeType: 'caster', fid: 1, sender: ALICE });
+	});
+
+	it('skips lockups whose sender is unknown', async () => {
+		const { skipped } = await ingestLockupEvents({
+			created: [{
+				lockUpId: 303,
+				token: '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe',
+				receiver: ALICE,
+				sender: null,
+				origin: null,
+				amount: '1000000000000000000',
+				unlockTime: 1900000000,
+				title: CAST_A,
+				blockNumber: BigInt(90),
+				blockTimestamp: 1800000000,
+				transactionHash: null,
+			}],
+			unlockedIds: [],
+		});
+
+		expect(skipped).toEqual([303]);
+		expect(await getLockupById(303)).toBeNull();
+	});
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+	classifyDeliveryResponse,
+	groupForDelivery,
+	isRetryable,
+	notificationIdFor,
+	OutboxMessage,
+	retryDelaySeconds,
+} from '../notification-outbox-service';
+
+const PAYLOAD = { title: 'Higher Steak Cooked!', body: 'Your stake has completed.', targetUrl: 'https://higher-steaks.vercel.app' };
+
+function message(id: number, fid: number, payload = PAYLOAD): OutboxMessage {
+	return {
+		id,
+		notificationType: 'stake_expired',
+		fid,
+		referenceId: `lockup-${id}`,
+		notificationId: notificationIdFor('stake_expired', `lockup-${id}`, payload),
+		payload,
+		state: 'sending',
+		attempts: 1,
+		nextAttemptAt: '2026-01-01T00:00:00.000Z',
+		lastError: null,
+		createdAt: '2026-01-01T00:00:00.000Z',
+		deliveredAt: null,
+	};
+}
+
+describe('notification delivery outcomes', () => {
+	it('classifies per-token results from the notification endpoint', () => {
+		expect(classifyDeliveryResponse(200, { successfulTokens: ['t'], invalidTokens: [], rateLimitedTokens: [] }, 't').outcome).toBe('delivered');
+		expect(classifyDeliveryResponse(200, { successfulTokens: [], invalidTokens: ['t'], rateLimitedTokens: [] }, 't').outcome).toBe('invalid_token');
+		expect(classifyDeliveryResponse(200, { successfulTokens: [], invalidTokens: [], rateLimitedTokens: ['t'] }, 't').outcome).toBe('rate_limited');
+		expect(classifyDeliveryResponse(200, { successfulTokens: ['other'] }, 't').outcome).toBe('http_error');
+	});
+
+	it('fails rejected requests without blaming the tokens and retries server errors', () => {
+		expect(classifyDeliveryResponse(400, null, 't')).toEqual({ outcome: 'rejected', httpStatus: 400, detail: null });
+		expect(classifyDeliveryResponse(401, { invalidTokens: ['t'] }, 't').outcome).toBe('rejected');
+		expect(classifyDeliveryResponse(429, null, 't').outcome).toBe('http_error');
+		expect(classifyDeliveryResponse(503, null, 't')).toEqual({ outcome: 'http_error', httpStatus: 503, detail: null });
+		expect(isRetryable('rejected')).toBe(false);
+		expect(isRetryable('http_error')).toBe(true);
+		expect(isRetryable('rate_limited')).toBe(true);
+		expect(isRetryable('invalid_token')).toBe(false);
+		expect(isRetryable('no_token')).toBe(false);
+	});
+
+	it('backs off exponentially up to six hours', () => {
+		expect([1, 2, 3, 4].map(n => retryDelaySeconds(n, 'http_error'))).toEqual([30, 60, 120, 240]);
+		expect(retryDelaySeconds(20, 'network_error')).toBe(6 * 60 * 60);
+		// Rate-limited tokens wait out Farcaster's per-token window
+		expect(retryDelaySeconds(1, 'rate_limited')).toBe(60);
+		expect(retryDelaySeconds(5, 'rate_limited')).toBe(480);
+	});
+});
+
+describe('batched delivery', () => {
+	const WARPCAST = 'https://api.warpcast.com/v1/frame-notifications';
+	const OTHER = 'https://client.example/notifications';
+
+	it('derives a stable notification id from the reference and payload', () => {
+		expect(notificationIdFor('stake_expired', '1', PAYLOAD)).toBe(notificationIdFor('stake_expired', '1', { ...PAYLOAD }));
+		expect(notificationIdFor('stake_expired', '1', PAYLOAD)).not.toBe(notificationIdFor('stake_expired', '1', { ...PAYLOAD, body: 'Other' }));
+		expect(notificationIdFor('stake_expired', '1', PAYLOAD)).not.toBe(notificationIdFor('supporter_added', '1', PAYLOAD));
+		// Same text, different stake: two notifications
+		expect(notificationIdFor('stake_expired', '1', PAYLOAD)).not.toBe(notificationIdFor('stake_expired', '2', PAYLOAD));
+	});
+
+	it('sends a lone recipient its own notification id and a batch a stable combined one', () => {
+		const tokens = new Map([
+			[1, { token: 'a', url: WARPCAST }],
+			[2, { token: 'b', url: WARPCAST }],
+		]);
+		const single = groupForDelivery([message(1, 1)], tokens).batches[0];
+		expect(single.notificationId).toBe(message(1, 1).notificationId);
+
+		const batch = groupForDelivery([message(1, 1), message(2, 2)], tokens).batches[0];
+		const retried = groupForDelivery([message(2, 2), message(1, 1)], tokens).batches[0];
+		expect(batch.notificationId).toBe(retried.notificationId);
+		expect(batch.notificationId).not.toBe(single.notificationId);
+	});
+
+	it('groups recipients by notification URL and payload', () => {
+		const tokens = new Map([
+			[1, { token: 'a', url: WARPCAST }],
+			[2, { token: 'b', url: WARPCAST }],
+			[3, { token: 'c', url: OTHER }],
+		]);
+		const other = { ...PAYLOAD, body: 'Something else' };
+		const { batches, withoutToken } = groupForDelivery([message(1, 1), message(2, 2), message(3, 3), message(4, 1, other), message(5, 9)], tokens);
+
+		expect(batches.map(b => [b.url, b.payload.body, b.recipients.map(r => r.token)])).toEqual([
+			[WARPCAST, PAYLOAD.body, ['a', 'b']],
+			[OTHER, PAYLOAD.body, ['c']],
+			[WARPCAST, 'Something else', ['a']],
+		]);
+		expect(withoutToken.map(m => m.id)).toEqual([5]);
+	});
+
+	it('splits batches at the per-request token limit', () => {
+		const tokens = new Map([1, 2, 3, 4, 5].map(fid => [fid, { token: `t${fid}`, url: WARPCAST }]));
+		// fid 1 twice: its second message goes out in another request rather than being folded into the first
+		const { batches } = groupForDelivery([1, 2, 1, 3, 4, 5].map((fid, i) => message(i + 1, fid)), tokens, 2);
+		expect(batches.map(b => b.recipients.map(r => r.token))).toEqual([['t1', 't2'], ['t1', 't3'], ['t4', 't5']]);
+	});
+
+	it('maps per-token results back to each recipient', () => {
+		const result = { successfulTokens: ['a'], invalidTokens: ['b'], rateLimitedTokens: ['c'] };
+		expect(['a', 'b', 'c'].map(token => classifyDeliveryResponse(200, result, token).outcome)).toEqual(['delivered', 'invalid_token', 'rate_limited']);
+	});
+});
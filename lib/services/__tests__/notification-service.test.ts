@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { casterStakeLostPayload, digestWeek, dueReminder, parseReminderOffsets, weeklyDigestPayload } from '../notification-service';
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+describe('stake reminders', () => {
+	it('parses reminder offsets, largest first', () => {
+		expect(parseReminderOffsets('1h, 7d,24h')).toEqual([
+			{ label: '7d', seconds: 7 * DAY, text: '7 days' },
+			{ label: '24h', seconds: DAY, text: '24 hours' },
+			{ label: '1h', seconds: HOUR, text: '1 hour' },
+		]);
+	});
+
+	it('ignores invalid and duplicate offsets', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		expect(parseReminderOffsets('2x,0h,30m,1d,24h').map(o => o.label)).toEqual(['1d', '30m']);
+		expect(warn).toHaveBeenCalledTimes(2);
+		warn.mockRestore();
+	});
+
+	it('drops offsets shorter than the worker interval', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		expect(parseReminderOffsets('24h,1h,2m').map(o => o.label)).toEqual(['24h', '1h']);
+		// A daily worker could miss anything under a day
+		expect(parseReminderOffsets('7d,24h,1h', DAY).map(o => o.label)).toEqual(['7d', '24h']);
+		expect(warn).toHaveBeenCalledTimes(2);
+		warn.mockRestore();
+	});
+
+	it('picks the closest reminder that is due', () => {
+		const offsets = parseReminderOffsets('7d,24h,1h');
+		const unlock = 1_000_000_000;
+		expect(dueReminder(unlock, unlock - 8 * DAY, offsets)).toBeNull();
+		expect(dueReminder(unlock, unlock - 7 * DAY, offsets)?.label).toBe('7d');
+		expect(dueReminder(unlock, unlock - 2 * DAY, offsets)?.label).toBe('7d');
+		// A run that missed the 7-day and 24-hour windows sends only the 1-hour reminder
+		expect(dueReminder(unlock, unlock - 30 * 60, offsets)?.label).toBe('1h');
+		expect(dueReminder(unlock, unlock, offsets)).toBeNull();
+	});
+});
+
+describe('caster stake lost', () => {
+	it('names the caster and the cast', () => {
+		const payload = casterStakeLostPayload({ castHash: '0xabc', creatorUsername: 'alice', description: 'gm higher' });
+		expect(payload.title.length).toBeLessThanOrEqual(32);
+		expect(payload.body).toContain('@alice');
+		expect(payload.body).toContain('gm higher');
+		expect(payload.targetUrl).toContain('0xabc');
+	});
+});
+
+describe('weekly digest', () => {
+	it('keys each week by its Monday', () => {
+		expect(digestWeek(new Date('2026-10-19T16:00:00Z'))).toBe('2026-10-19');
+		expect(digestWeek(new Date('2026-10-25T23:59:59Z'))).toBe('2026-10-19');
+		expect(digestWeek(new Date('2026-10-26T00:00:00Z'))).toBe('2026-10-26');
+	});
+
+	it('summarizes stakes and ranked casts', () => {
+		const payload = weeklyDigestPayload({ fid: 7, stakedAmount: '1500000000000000000000', stakedCasts: 2, rankedCasts: 1, bestRank: 3 });
+		expect(payload.title.length).toBeLessThanOrEqual(32);
+		expect(payload.body).toBe('You have 1.50K HIGHER staked on 2 casts. 1 of your casts is on the menu, best at #3.');
+		expect(payload.targetUrl).toContain('fid=7');
+	});
+
+	it('leaves out what the user does not have', () => {
+		const payload = weeklyDigestPayload({ fid: 7, stakedAmount: '0', stakedCasts: 0, rankedCasts: 2, bestRank: 1 });
+		expect(payload.body).toBe('2 of your casts are on the menu, best at #1.');
+	});
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { sumValuations, valueLockup } from '../price-service';
+import { KNOWN_STAKE_TOKENS } from '../../tokens';
+
+const PRICES = { higher: 0.005, ethereum: 3000 };
+const WEI = (tokens: number) => (BigInt(tokens) * 10n ** 18n).toString();
+
+describe('lockup valuation', () => {
+	it('values a lockup in its own token at lock time and now', () => {
+		expect(valueLockup({ amount: WEI(1000), lockUsdPrice: 0.004 }, PRICES)).toEqual({ lockUsdValue: 4, usdValue: 5 });
+
+		// 0.01 ETH stored as 6000 HIGHER-equivalent: valued by the ETH amount, not the converted one
+		const eth = { amount: WEI(6000), token: KNOWN_STAKE_TOKENS.ETH.address, tokenAmount: (10n ** 16n).toString(), lockUsdPrice: 2500 };
+		expect(valueLockup(eth, PRICES)).toEqual({ lockUsdValue: 25, usdValue: 30 });
+	});
+
+	it('leaves values unknown without a lock-time or current price', () => {
+		expect(valueLockup({ amount: WEI(1000), lockUsdPrice: null }, PRICES)).toEqual({ lockUsdValue: null, usdValue: 5 });
+		expect(valueLockup({ amount: WEI(1000), lockUsdPrice: 0.004 }, {})).toEqual({ lockUsdValue: 4, usdValue: null });
+		expect(valueLockup({ amount: WEI(1), token: '0x000000000000000000000000000000000000dead' }, PRICES)).toEqual({ lockUsdValue: null, usdValue: null });
+	});
+
+	it('sums only lockups with both values', () => {
+		expect(sumValuations([
+			{ lockUsdValue: 4, usdValue: 5 },
+			{ lockUsdValue: null, usdValue: 100 },
+			{ lockUsdValue: 25, usdValue: 30 },
+		])).toEqual({ lockUsdValue: 29, usdValue: 35, valued: 2 });
+		expect(sumValuations([{ lockUsdValue: null, usdValue: 1 }])).toEqual({ lockUsdValue: null, usdValue: null, valued: 0 });
+	});
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateAttractedSupporters, aggregateBackedCasts, buildCookedCast } from '../profile-service';
+import type { ValidatedLockupRecord } from '../db-service';
+
+const DAY = 86400;
+const T = 1_900_000_000;
+const WEI = (tokens: number) => (BigInt(tokens) * 10n ** 18n).toString();
+
+function lockup(lockupId: number, overrides: Partial<ValidatedLockupRecord>): ValidatedLockupRecord {
+	return {
+		lockupId,
+		castHash: '0xa',
+		sender: null,
+		receiver: null,
+		fid: 1,
+		amount: WEI(100),
+		lockTime: T - 10 * DAY,
+		unlockTime: T + 10 * DAY,
+		unlocked: false,
+		stakeType: 'caster',
+		isValid: true,
+		...overrides,
+	};
+}
+
+describe('creator profiles', () => {
+	const castLockups = [
+		lockup(3, { stakeType: 'supporter', fid: 7, amount: WEI(50), lockTime: T - DAY }),
+		lockup(1, {}),
+		lockup(2, { stakeType: 'supporter', fid: 7, amount: WEI(10), unlocked: true, isValid: false }),
+		lockup(4, { castHash: '0xb', stakeType: 'supporter', fid: 8, amount: WEI(20), lockTime: T - 2 * DAY }),
+		lockup(5, { castHash: '0xb', stakeType: 'supporter', fid: 0, amount: WEI(999) }),
+	];
+
+	it('builds a cast timeline ordered by lock time with caster conviction', () => {
+		const cast = buildCookedCast(
+			{ cast_hash: '0xa', cast_state: 'higher', cast_timestamp: '2025-01-01T00:00:00Z', total_higher_staked: '150', rank: 2, weighted_rank: null },
+			castLockups.filter(l => l.castHash === '0xa'),
+			T
+		);
+
+		expect(cast.timeline.map(t => t.lockupId)).toEqual([1, 2, 3]);
+		expect(cast.casterConviction).toBe(1000);
+		expect(cast.supporterCount).toBe(1);
+		expect(cast).toMatchObject({ rank: 2, weightedRank: null, totalHigherStaked: 150 });
+	});
+
+	it('aggregates attracted supporters by higher-days, skipping unknown fids', () => {
+		expect(aggregateAttractedSupporters(castLockups, T)).toEqual([
+			{ fid: 7, totalStaked: 60, activeStake: 50, weightedStake: 150, castsBacked: 1 },
+			{ fid: 8, totalStaked: 20, activeStake: 20, weightedStake: 40, castsBacked: 1 },
+		]);
+	});
+
+	it('groups a fid\'s own supporter stakes by backed cast', () => {
+		const backed = aggregateBackedCasts(
+			[lockup(6, { castHash: '0xc', stakeType: 'supporter', fid: 7 }), lockup(7, { castHash: '0xd', stakeType: 'supporter', fid: 7, amount: WEI(1) })],
+			[{ cast_hash: '0xc', creator_fid: 2, creator_username: 'bob', description: 'steak', cast_state: 'higher' }],
+			T
+		);
+
+		expect(backed).toEqual([
+			{ castHash: '0xc', creatorFid: 2, creatorUsername: 'bob', description: 'steak', castState: 'higher', totalStaked: 100, activeStake: 100, weightedStake: 1000 },
+			{ castHash: '0xd', creatorFid: 0, creatorUsername: '', description: '', castState: 'invalid', totalStaked: 1, activeStake: 1, weightedStake: 10 },
+		]);
+	});
+});
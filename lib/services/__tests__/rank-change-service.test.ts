@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { diffRanks, RankedCast } from '../rank-change-service';
+
+function ranking(order: string[]): RankedCast[] {
+	return order.map((castHash, i) => ({
+		castHash,
+		rank: i + 1,
+		creatorFid: castHash.charCodeAt(0),
+		creatorUsername: `user-${castHash}`,
+		description: `cast ${castHash}`,
+	}));
+}
+
+function summarize(events: ReturnType<typeof diffRanks>) {
+	return events.map(e => [e.kind, e.cast.castHash, e.previousRank, e.overtakenBy?.castHash ?? null]);
+}
+
+describe('rank changes', () => {
+	it('reports a new #1 and casts entering the top N', () => {
+		const events = diffRanks(ranking(['a', 'b', 'c', 'd']), ranking(['c', 'a', 'b', 'e', 'd']), 4);
+		expect(summarize(events)).toEqual([
+			['top_1', 'c', 3, null],
+			['overtaken', 'a', 1, 'c'],
+			['overtaken', 'b', 2, 'c'],
+			['entered_top', 'e', null, null],
+			['overtaken', 'd', 4, 'e'],
+		]);
+	});
+
+	it('reports the closest cast that passed an overtaken one', () => {
+		const events = diffRanks(ranking(['a', 'b', 'c', 'd']), ranking(['a', 'c', 'd', 'b']), 10);
+		expect(summarize(events)).toEqual([['overtaken', 'b', 2, 'd']]);
+	});
+
+	it('does not report a cast passed by its own creator', () => {
+		const before = ranking(['a', 'b']);
+		const after = ranking(['b', 'a']).map(c => ({ ...c, creatorFid: 1 }));
+		expect(summarize(diffRanks(before.map(c => ({ ...c, creatorFid: 1 })), after))).toEqual([['top_1', 'b', 2, null]]);
+	});
+
+	it('reports nothing without a previous ranking or when ranks hold', () => {
+		expect(diffRanks([], ranking(['a', 'b']))).toEqual([]);
+		expect(diffRanks(ranking(['a', 'b']), ranking(['a', 'b']))).toEqual([]);
+		// Dropping without being passed (a cast above was removed) is not an overtake
+		expect(diffRanks(ranking(['a', 'b', 'c']), ranking(['a', 'c']))).toEqual([]);
+	});
+});
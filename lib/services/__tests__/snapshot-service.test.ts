@@ -0,0 +1,63 @@
+import { beforeAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import { countValidSupporters, getSnapshotEntries, parseTimeParam, recordLeaderboardSnapshot } from '../snapshot-service';
+import { upsertHigherCast, upsertLockups, recomputeRanks } from '../db-service';
+import { getStakeRules } from '../../stake-rules';
+import { resetTestDb, setupTestDb, sql } from '../../__tests__/test-db';
+
+vi.mock('@vercel/postgres', () => import('../../__tests__/test-db'));
+
+const T = 1_900_000_000;
+
+beforeAll(async () => {
+	await setupTestDb();
+}, 60_000);
+
+beforeEach(async () => {
+	await resetTestDb();
+});
+
+describe('leaderboard snapshots', () => {
+	it('counts unique supporter fids with a valid stake', () => {
+		const lockup = (stakeType: 'caster' | 'supporter', fid: number, unlockTime: number, unlocked = false) =>
+			({ castHash: '0xa', stakeType, fid, unlockTime, unlocked });
+		const count = countValidSupporters([
+			lockup('caster', 1, T),
+			// fid 7 twice, fid 8 unlocked, fid 9 unmatched, unknown fid 0
+			lockup('supporter', 7, T),
+			lockup('supporter', 7, T),
+			lockup('supporter', 8, T, true),
+			lockup('supporter', 9, T + 1),
+			lockup('supporter', 0, T),
+		], { rules: getStakeRules(1), currentTime: T - 100 });
+
+		expect(count).toBe(1);
+	});
+
+	it('parses unix seconds and ISO dates for ?at / from / to', () => {
+		expect(parseTimeParam('1700000000')?.toISOString()).toBe('2023-11-14T22:13:20.000Z');
+		expect(parseTimeParam('2025-01-01T00:00:00Z')?.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+		expect(parseTimeParam('last week')).toBeNull();
+		expect(parseTimeParam(' ')).toBeNull();
+	});
+
+	it('records the header and its entries together', async () => {
+		const empty = await recordLeaderboardSnapshot({ source: 'dune', mode: 'full' });
+		expect(empty.entries).toBe(0);
+		expect((await sql`SELECT id FROM leaderboard_snapshots`).rows).toHaveLength(1);
+
+		await upsertHigherCast({
+			castHash: '0xa', creatorFid: 1, creatorUsername: 'alice', castText: 'gm', description: 'gm',
+			castTimestamp: '2025-01-01T00:00:00Z', totalHigherStaked: 300, castState: 'higher',
+		});
+		await upsertLockups([
+			{ lockupId: 1, castHash: '0xa', sender: null, receiver: null, fid: 1, amount: '100', lockTime: null, unlockTime: T, unlocked: false, stakeType: 'caster' },
+			{ lockupId: 2, castHash: '0xa', sender: null, receiver: null, fid: 7, amount: '200', lockTime: null, unlockTime: T, unlocked: false, stakeType: 'supporter' },
+		]);
+		await recomputeRanks();
+
+		const { snapshotId, entries } = await recordLeaderboardSnapshot({ source: 'dune', mode: 'incremental' });
+		expect(snapshotId).toBeGreaterThan(empty.snapshotId);
+		expect(entries).toBe(1);
+		expect(await getSnapshotEntries(snapshotId)).toMatchObject([{ cast_hash: '0xa', rank: 1, supporter_count: 1 }]);
+	});
+});
@@ -1,5 +1,6 @@
-import { getHigherCast, castExistsInDB } from './db-service';
-import { isValidCastHash, containsKeyphrase, extractDescription, isValidHigherCast } from '../cast-helpers';
+import { getHigherCast, getLockupsForCast, castExistsInDB } from './db-service';
+import { isValidCastHash, containsKeyphrase, extractDescription, isValidProviderCast } from '../cast-helpers';
+import { getCastProvider } from '../providers';
 
 export interface CastData {
   hash: string;
@@ -139,56 +140,43 @@ export async function isCastHigher(hash: string): Promise<boolean> {
 
   // Check if there are any valid caster stakes (currentTime < unlockTime)
   const currentTime = Math.floor(Date.now() / 1000);
-  const hasValidCasterStake = dbCast.casterStakeUnlockTimes.some(
-    unlockTime => unlockTime > currentTime
+  const lockups = await getLockupsForCast(hash);
+  const hasValidCasterStake = lockups.some(
+    l => l.stakeType === 'caster' && !l.unlocked && l.unlockTime > currentTime
   );
 
   return hasValidCasterStake && dbCast.castState === 'higher';
 }
 
 /**
- * Validate cast from Neynar API (fallback when not in DB)
+ * Validate cast from the cast provider (Neynar in production; fallback when not in DB)
  */
 export async function validateCastFromNeynar(hash: string): Promise<CastData | null> {
   try {
-    const neynarApiKey = process.env.NEYNAR_API_KEY;
-    if (!neynarApiKey || neynarApiKey === 'your_neynar_api_key_here') {
-      console.warn('[cast-service] Neynar API key not configured');
-      return null;
-    }
-
-    const { NeynarAPIClient } = await import('@neynar/nodejs-sdk');
-    const neynarClient = new NeynarAPIClient({ apiKey: neynarApiKey });
+    const casts = getCastProvider();
 
     // Determine lookup type - if it's a URL, use 'url', otherwise use 'hash'
     const lookupType = hash.includes('farcaster.xyz') || hash.includes('warpcast.com') ? 'url' : 'hash';
 
-    let castResponse;
+    let cast;
     try {
-      castResponse = await neynarClient.lookupCastByHashOrUrl({
-        identifier: hash,
-        type: lookupType,
-      });
+      cast = await casts.lookupCast(hash, lookupType);
     } catch (firstError: any) {
       // If URL type failed, try hash type as fallback
       if (lookupType === 'url' && firstError.message?.includes('400')) {
         console.log('[cast-service] URL type failed, trying hash type instead');
-        castResponse = await neynarClient.lookupCastByHashOrUrl({
-          identifier: hash,
-          type: 'hash',
-        });
+        cast = await casts.lookupCast(hash, 'hash');
       } else {
         throw firstError;
       }
     }
 
-    const cast = castResponse.cast;
     if (!cast) {
       return null;
     }
 
     // Use consolidated validation function (validates both keyphrase and channel)
-    if (!isValidHigherCast(cast.text, cast)) {
+    if (!isValidProviderCast(cast)) {
       return null;
     }
 
@@ -198,8 +186,8 @@ export async function validateCastFromNeynar(hash: string): Promise<CastData | n
       hash: cast.hash,
       fid: cast.author.fid,
       username: cast.author.username,
-      displayName: cast.author.display_name || cast.author.username,
-      pfpUrl: cast.author.pfp_url || '',
+      displayName: cast.author.displayName || cast.author.username,
+      pfpUrl: cast.author.pfpUrl || '',
       castText: cast.text,
       description,
       timestamp: cast.timestamp,
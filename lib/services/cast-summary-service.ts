@@ -0,0 +1,90 @@
+import { sql } from '@vercel/postgres';
+import { getLockupsForCast } from './db-service';
+import { aggregateAttractedSupporters, buildCookedCast, AttractedSupporter, CookedCast } from './profile-service';
+import { getUserProvider } from '../providers';
+
+export interface CastSummary {
+  cast: CookedCast;
+  creator: {
+    fid: number;
+    username: string;
+    displayName: string;
+    pfpUrl: string;
+  };
+  activeCasterStake: number; // tokens in valid caster stakes
+  activeSupporterStake: number; // tokens in valid supporter stakes
+  topSupporters: AttractedSupporter[]; // by higher-days
+  totalSupporters: number;
+}
+
+/**
+ * Normalize a cast hash route param (0x prefix, lowercase). Null if it is not a cast hash.
+ */
+export function normalizeCastHashParam(value: string | undefined): string | null {
+  if (!value) return null;
+  let castHash = value.toLowerCase();
+  if (!castHash.startsWith('0x') && /^[a-f0-9]+$/.test(castHash)) {
+    castHash = '0x' + castHash;
+  }
+  return /^0x[a-f0-9]{40}$/.test(castHash) ? castHash : null;
+}
+
+/**
+ * A cast with its stake timeline, caster profile and top supporters, for the shareable cast page and its embeds.
+ * Null if the cast is not in leaderboard_entries.
+ */
+export async function getCastSummary(castHash: string, opts: { supporterLimit?: number } = {}): Promise<CastSummary | null> {
+  const result = await sql`
+    SELECT * FROM leaderboard_entries
+    WHERE cast_hash = ${castHash}
+  `;
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  const currentTime = Math.floor(Date.now() / 1000);
+  const lockups = await getLockupsForCast(castHash);
+  const cast = buildCookedCast(row, lockups, currentTime);
+  const supporters = aggregateAttractedSupporters(lockups, currentTime);
+  const top = supporters.slice(0, opts.supporterLimit ?? 5);
+
+  const creatorFid = Number(row.creator_fid);
+  const profiles = new Map<number, { username: string; displayName: string; pfpUrl: string }>();
+  try {
+    const users = await getUserProvider().getUsersByFids([creatorFid, ...top.map(s => s.fid)]);
+    for (const user of users) {
+      profiles.set(user.fid, {
+        username: user.username,
+        displayName: user.displayName || user.username,
+        pfpUrl: user.pfpUrl,
+      });
+    }
+  } catch (userError) {
+    console.error('[cast-summary-service] Error fetching users:', userError);
+    // Continue with the stored creator profile
+  }
+
+  const sumActive = (stakeType: 'caster' | 'supporter') => cast.timeline
+    .filter(t => t.stakeType === stakeType && t.isValid)
+    .reduce((sum, t) => sum + t.amount, 0);
+
+  return {
+    cast,
+    creator: {
+      fid: creatorFid,
+      username: row.creator_username,
+      displayName: row.creator_display_name || row.creator_username,
+      pfpUrl: row.creator_pfp_url || profiles.get(creatorFid)?.pfpUrl || '',
+    },
+    activeCasterStake: sumActive('caster'),
+    activeSupporterStake: sumActive('supporter'),
+    topSupporters: top.map(supporter => ({
+      ...supporter,
+      username: profiles.get(supporter.fid)?.username || `fid-${supporter.fid}`,
+      displayName: profiles.get(supporter.fid)?.displayName || `fid-${supporter.fid}`,
+      pfp: profiles.get(supporter.fid)?.pfpUrl || '',
+    })),
+    totalSupporters: supporters.length,
+  };
+}
@@ -1,4 +1,8 @@
-import { sql, createClient } from '@vercel/postgres';
+import { sql, createClient, type VercelClientBase } from '@vercel/postgres';
+import { getStakeRules, validateLockups, StakeRuleOptions } from '../stake-rules';
+import { HIGHER_TOKEN_ADDRESS } from '../contracts';
+
+type SqlTag = VercelClientBase['sql'];
 
 export interface HigherCastData {
 	castHash: string;
@@ -12,24 +16,11 @@ export interface HigherCastData {
 	totalHigherStaked: string;
 	usdValue: string | null;
 	rank: number | null;
-	casterStakeLockupIds: number[];
-	casterStakeAmounts: string[];
-	casterStakeUnlockTimes: number[];
-	casterStakeUnlocked: boolean[];
-	// NEW: lock times
-	casterStakeLockTimes?: number[];
-	supporterStakeLockupIds: number[];
-	supporterStakeAmounts: string[];
-	supporterStakeFids: number[];
-	supporterStakeUnlockTimes: number[];
-	supporterStakeUnlocked: boolean[];
-	// NEW: lock times
-	supporterStakeLockTimes?: number[];
 	castState: 'invalid' | 'valid' | 'higher' | 'expired';
 }
 
 /**
- * Get a higher cast from the database by hash
+ * Get a higher cast from the database by hash. Its stakes live in the lockups table (getLockupsForCast).
  * Uses non-pooling connection to avoid stale data issues
  */
 export async function getHigherCast(hash: string): Promise<HigherCastData | null> {
@@ -57,17 +48,6 @@ export async function getHigherCast(hash: string): Promise<HigherCastData | null
 					total_higher_staked,
 					usd_value,
 					rank,
-					caster_stake_lockup_ids,
-					caster_stake_amounts,
-					caster_stake_unlock_times,
-					caster_stake_unlocked,
-					caster_stake_lock_times,
-					supporter_stake_lockup_ids,
-					supporter_stake_amounts,
-					supporter_stake_fids,
-					supporter_stake_unlock_times,
-					supporter_stake_unlocked,
-					supporter_stake_lock_times,
 					cast_state
 				FROM leaderboard_entries
 				WHERE cast_hash = ${hash}
@@ -86,17 +66,6 @@ export async function getHigherCast(hash: string): Promise<HigherCastData | null
 					total_higher_staked,
 					usd_value,
 					rank,
-					caster_stake_lockup_ids,
-					caster_stake_amounts,
-					caster_stake_unlock_times,
-					caster_stake_unlocked,
-					caster_stake_lock_times,
-					supporter_stake_lockup_ids,
-					supporter_stake_amounts,
-					supporter_stake_fids,
-					supporter_stake_unlock_times,
-					supporter_stake_unlocked,
-					supporter_stake_lock_times,
 					cast_state
 				FROM leaderboard_entries
 				WHERE cast_hash = ${hash}
@@ -125,17 +94,6 @@ export async function getHigherCast(hash: string): Promise<HigherCastData | null
 			totalHigherStaked: row.total_higher_staked?.toString() || '0',
 			usdValue: row.usd_value?.toString() || null,
 			rank: row.rank || null,
-			casterStakeLockupIds: row.caster_stake_lockup_ids || [],
-			casterStakeAmounts: row.caster_stake_amounts?.map((a: any) => a.toString()) || [],
-			casterStakeUnlockTimes: row.caster_stake_unlock_times || [],
-			casterStakeUnlocked: row.caster_stake_unlocked || [],
-			casterStakeLockTimes: row.caster_stake_lock_times || [],
-			supporterStakeLockupIds: row.supporter_stake_lockup_ids || [],
-			supporterStakeAmounts: row.supporter_stake_amounts?.map((a: any) => a.toString()) || [],
-			supporterStakeFids: row.supporter_stake_fids || [],
-			supporterStakeUnlockTimes: row.supporter_stake_unlock_times || [],
-			supporterStakeUnlocked: row.supporter_stake_unlocked || [],
-			supporterStakeLockTimes: row.supporter_stake_lock_times || [],
 			castState: (row.cast_state || 'higher') as 'invalid' | 'valid' | 'higher' | 'expired',
 		};
 	} catch (error) {
@@ -176,11 +134,9 @@ export async function castExistsInDB(hash: string): Promise<boolean> {
 }
 
 /**
- * Upsert a higher cast into the database
- * 
- * Column relationships:
- * - total_higher_staked = sum of all caster_stake_amounts + sum of all supporter_stake_amounts
- * - staker_fids = [creator_fid, ...supporter_stake_fids] (for backward compatibility)
+ * Upsert a cast's leaderboard entry: display metadata, total_higher_staked and cast_state, all derived
+ * by the caller from the cast's rows in the lockups table. Stakes are written with upsertLockups.
+ * rank and usd_value are left to recomputeRanks and refreshPriceValuations.
  */
 export async function upsertHigherCast(data: {
 	castHash: string;
@@ -192,32 +148,10 @@ export async function upsertHigherCast(data: {
 	description: string;
 	castTimestamp: string;
 	totalHigherStaked: number;
-	usdValue?: number;
-	rank?: number;
-	casterStakeLockupIds?: number[];
-	casterStakeAmounts?: string[];
-	casterStakeUnlockTimes?: number[];
-	casterStakeUnlocked?: boolean[];
-	// NEW
-	casterStakeLockTimes?: number[];
-	supporterStakeLockupIds?: number[];
-	supporterStakeAmounts?: string[];
-	supporterStakeFids?: number[];
-	supporterStakeUnlockTimes?: number[];
-	supporterStakeUnlocked?: boolean[];
-	// NEW
-	supporterStakeLockTimes?: number[];
-	stakerFids?: number[]; // For backward compatibility: [creator_fid, ...supporter_stake_fids]
 	castState?: 'invalid' | 'valid' | 'higher' | 'expired';
-}): Promise<void> {
+}, tx: SqlTag = sql): Promise<void> {
 	try {
-		// Calculate staker_fids if not provided (backward compatibility)
-		const stakerFids = data.stakerFids || [
-			data.creatorFid,
-			...(data.supporterStakeFids || [])
-		].filter((fid, index, arr) => arr.indexOf(fid) === index); // Remove duplicates
-		
-		await sql`
+		await tx`
       INSERT INTO leaderboard_entries (
         cast_hash,
         creator_fid,
@@ -228,20 +162,6 @@ export async function upsertHigherCast(data: {
         description,
         cast_timestamp,
         total_higher_staked,
-        usd_value,
-        rank,
-        staker_fids,
-        caster_stake_lockup_ids,
-        caster_stake_amounts,
-        caster_stake_unlock_times,
-        caster_stake_unlocked,
-        caster_stake_lock_times,
-        supporter_stake_lockup_ids,
-        supporter_stake_amounts,
-        supporter_stake_fids,
-        supporter_stake_unlock_times,
-        supporter_stake_unlocked,
-        supporter_stake_lock_times,
         cast_state,
         updated_at
       ) VALUES (
@@ -254,20 +174,6 @@ export async function upsertHigherCast(data: {
         ${data.description},
         ${data.castTimestamp},
         ${data.totalHigherStaked},
-        ${data.usdValue || null},
-        ${data.rank || null},
-        ${stakerFids as any},
-        ${(data.casterStakeLockupIds || []) as any},
-        ${(data.casterStakeAmounts || []) as any},
-        ${(data.casterStakeUnlockTimes || []) as any},
-        ${(data.casterStakeUnlocked || []) as any},
-        ${(data.casterStakeLockTimes || []) as any},
-        ${(data.supporterStakeLockupIds || []) as any},
-        ${(data.supporterStakeAmounts || []) as any},
-        ${(data.supporterStakeFids || []) as any},
-        ${(data.supporterStakeUnlockTimes || []) as any},
-        ${(data.supporterStakeUnlocked || []) as any},
-        ${(data.supporterStakeLockTimes || []) as any},
         ${data.castState || 'higher'},
         NOW()
       )
@@ -281,20 +187,6 @@ export async function upsertHigherCast(data: {
         description = COALESCE(NULLIF(EXCLUDED.description, ''), leaderboard_entries.description),
         cast_timestamp = COALESCE(EXCLUDED.cast_timestamp, leaderboard_entries.cast_timestamp),
         total_higher_staked = EXCLUDED.total_higher_staked,
-        usd_value = EXCLUDED.usd_value,
-        rank = EXCLUDED.rank,
-        staker_fids = EXCLUDED.staker_fids,
-        caster_stake_lockup_ids = EXCLUDED.caster_stake_lockup_ids,
-        caster_stake_amounts = EXCLUDED.caster_stake_amounts,
-        caster_stake_unlock_times = EXCLUDED.caster_stake_unlock_times,
-        caster_stake_unlocked = EXCLUDED.caster_stake_unlocked,
-        caster_stake_lock_times = EXCLUDED.caster_stake_lock_times,
-        supporter_stake_lockup_ids = EXCLUDED.supporter_stake_lockup_ids,
-        supporter_stake_amounts = EXCLUDED.supporter_stake_amounts,
-        supporter_stake_fids = EXCLUDED.supporter_stake_fids,
-        supporter_stake_unlock_times = EXCLUDED.supporter_stake_unlock_times,
-        supporter_stake_unlocked = EXCLUDED.supporter_stake_unlocked,
-        supporter_stake_lock_times = EXCLUDED.supporter_stake_lock_times,
         cast_state = EXCLUDED.cast_state,
         updated_at = NOW()
     `;
@@ -312,66 +204,554 @@ export async function getLockupUnlockedState(castHash: string, lockupId: number)
 	type: 'caster' | 'supporter' | null;
 	unlocked: boolean | null;
 }> {
-	const cast = await getHigherCast(castHash);
-	if (!cast) {
+	const lockup = await getLockupById(lockupId);
+	if (!lockup || lockup.castHash !== castHash) {
 		return { type: null, unlocked: null };
 	}
 
-	const casterIndex = cast.casterStakeLockupIds.findIndex(id => Number(id) === Number(lockupId));
-	if (casterIndex !== -1) {
-		const unlocked = cast.casterStakeUnlocked?.[casterIndex] ?? false;
-		return { type: 'caster', unlocked };
+	return { type: lockup.stakeType, unlocked: lockup.unlocked };
+}
+
+export interface SyncCursor {
+	source: string;
+	lastLockupId: number;
+	lastBlock: number | null;
+	lastLockTime: number;
+	updatedAt: string | null;
+}
+
+/**
+ * Get the persisted incremental sync cursor for a lockup source ('dune' | 'chain').
+ * Returns null if the source has never completed a sync.
+ */
+export async function getSyncCursor(source: string): Promise<SyncCursor | null> {
+	try {
+		const result = await sql`
+      SELECT source, last_lockup_id, last_block, last_lock_time, updated_at
+      FROM lockup_sync_cursors
+      WHERE source = ${source}
+      LIMIT 1
+    `;
+		if (result.rows.length === 0) {
+			return null;
+		}
+		const row = result.rows[0];
+		return {
+			source: row.source,
+			lastLockupId: Number(row.last_lockup_id || 0),
+			lastBlock: row.last_block != null ? Number(row.last_block) : null,
+			lastLockTime: Number(row.last_lock_time || 0),
+			updatedAt: row.updated_at ? String(row.updated_at) : null,
+		};
+	} catch (error) {
+		console.error('[db-service] Error getting sync cursor:', error);
+		return null;
 	}
+}
+
+/**
+ * Persist the incremental sync cursor for a lockup source
+ */
+export async function saveSyncCursor(cursor: Omit<SyncCursor, 'updatedAt'>): Promise<void> {
+	await sql`
+    INSERT INTO lockup_sync_cursors (source, last_lockup_id, last_block, last_lock_time, updated_at)
+    VALUES (${cursor.source}, ${cursor.lastLockupId}, ${cursor.lastBlock}, ${cursor.lastLockTime}, NOW())
+    ON CONFLICT (source) DO UPDATE SET
+      last_lockup_id = EXCLUDED.last_lockup_id,
+      last_block = EXCLUDED.last_block,
+      last_lock_time = EXCLUDED.last_lock_time,
+      updated_at = NOW()
+  `;
+}
+
+/**
+ * Lockup IDs that are stored as still locked but whose unlockTime has passed.
+ * These are the only lockups whose unlocked flag can change between syncs.
+ */
+export async function getExpiredLockedLockupIds(currentTime: number): Promise<number[]> {
+	const result = await sql`
+    SELECT lockup_id FROM lockups
+    WHERE NOT unlocked AND unlock_time <= ${currentTime}
+  `;
+	return result.rows.map(row => Number(row.lockup_id)).filter(id => Number.isFinite(id));
+}
 
-	const supporterIndex = cast.supporterStakeLockupIds.findIndex(id => Number(id) === Number(lockupId));
-	if (supporterIndex !== -1) {
-		const unlocked = cast.supporterStakeUnlocked?.[supporterIndex] ?? false;
-		return { type: 'supporter', unlocked };
+/**
+ * Cast hashes that hold any of the given lockup IDs (caster or supporter)
+ */
+export async function getCastHashesForLockupIds(lockupIds: number[]): Promise<string[]> {
+	if (lockupIds.length === 0) {
+		return [];
 	}
+	const result = await sql`
+    SELECT DISTINCT cast_hash FROM lockups
+    WHERE lockup_id = ANY(${lockupIds as any}::integer[])
+  `;
+	return result.rows.map(row => row.cast_hash);
+}
 
-	return { type: null, unlocked: null };
+/**
+ * 'higher' casts whose caster stakes have all expired or unlocked (state needs to move to 'expired')
+ */
+export async function getStaleHigherCastHashes(currentTime: number): Promise<string[]> {
+	const result = await sql`
+    SELECT le.cast_hash FROM leaderboard_entries le
+    WHERE le.cast_state = 'higher'
+      AND NOT EXISTS (
+        SELECT 1 FROM lockups l
+        WHERE l.cast_hash = le.cast_hash
+          AND l.stake_type = 'caster'
+          AND NOT l.unlocked
+          AND l.unlock_time > ${currentTime}
+      )
+  `;
+	return result.rows.map(row => row.cast_hash);
 }
 
 /**
- * Update the unlocked boolean for a specific lockup in the leaderboard entry.
- * type: 'caster' or 'supporter'. Returns true if updated.
+ * Recompute rank for all 'higher' casts by total_higher_staked (1 = highest); other casts get NULL.
  */
-export async function updateLockupUnlockedState(castHash: string, params: {
-	type: 'caster' | 'supporter';
+export async function recomputeRanks(): Promise<void> {
+	await sql`
+    UPDATE leaderboard_entries le
+    SET rank = ranked.new_rank
+    FROM (
+      SELECT cast_hash, ROW_NUMBER() OVER (ORDER BY total_higher_staked DESC) AS new_rank
+      FROM leaderboard_entries
+      WHERE cast_state = 'higher'
+    ) ranked
+    WHERE le.cast_hash = ranked.cast_hash
+  `;
+	await sql`
+    UPDATE leaderboard_entries
+    SET rank = NULL
+    WHERE cast_state <> 'higher' AND rank IS NOT NULL
+  `;
+}
+
+export type LockupStakeType = 'caster' | 'supporter';
+
+/**
+ * One row of the normalized lockups table
+ */
+export interface LockupRecord {
 	lockupId: number;
+	castHash: string;
+	sender: string | null;
+	receiver: string | null;
+	fid: number; // creator fid for caster stakes, supporter fid for supporter stakes (0 if unknown)
+	amount: string; // HIGHER-equivalent wei (lib/tokens.ts); the raw amount for HIGHER lockups
+	token?: string; // lowercased token address; undefined = unknown (HIGHER for new rows)
+	tokenAmount?: string | null; // amount in the token's smallest unit
+	lockUsdPrice?: number | null; // USD price of the token at lock time (lib/services/price-service.ts)
+	lockTime: number | null;
+	unlockTime: number;
 	unlocked: boolean;
-}): Promise<boolean> {
-	const cast = await getHigherCast(castHash);
-	if (!cast) {
-		return false;
+	stakeType: LockupStakeType;
+	blockNumber?: number | null; // block the lockup was created in, when known
+	txHash?: string | null; // creating transaction, when known
+	confirmed?: boolean; // false while the block is within the confirmation depth; undefined = unknown
+}
+
+export interface ValidatedLockupRecord extends LockupRecord {
+	isValid: boolean;
+}
+
+export interface CastStakeTotals {
+	castHash: string;
+	totalCasterStaked: string; // wei
+	totalSupporterStaked: string; // wei
+	uniqueSupporters: number;
+	minCasterUnlockTime: number;
+	maxCasterUnlockTime: number;
+}
+
+function rowToLockup(row: any): LockupRecord {
+	return {
+		lockupId: Number(row.lockup_id),
+		castHash: row.cast_hash,
+		sender: row.sender || null,
+		receiver: row.receiver || null,
+		fid: Number(row.fid || 0),
+		amount: row.amount?.toString() || '0',
+		token: row.token || HIGHER_TOKEN_ADDRESS.toLowerCase(),
+		tokenAmount: row.token_amount?.toString() ?? null,
+		lockUsdPrice: row.lock_usd_price != null ? Number(row.lock_usd_price) : null,
+		lockTime: row.lock_time != null ? Number(row.lock_time) : null,
+		unlockTime: Number(row.unlock_time || 0),
+		unlocked: Boolean(row.unlocked),
+		stakeType: row.stake_type as LockupStakeType,
+		blockNumber: row.block_number != null ? Number(row.block_number) : null,
+		txHash: row.tx_hash || null,
+		confirmed: row.confirmed == null ? true : Boolean(row.confirmed),
+	};
+}
+
+/**
+ * Apply the stake rules (lib/stake-rules.ts) to lockup rows. `rows` must contain every lockup of each
+ * cast involved so supporter stakes can be matched against their caster stakes.
+ */
+function toValidatedLockups(rows: any[], opts?: StakeRuleOptions): ValidatedLockupRecord[] {
+	return validateLockups(rows.map(rowToLockup), opts);
+}
+
+/**
+ * Idempotent per-lockup upsert keyed on lockupId, written as one statement per batch. Writes are commutative
+ * for the same on-chain lockup, so concurrent syncs, webhooks and unlock calls converge:
+ * - unlocked never reverts to locked
+ * - confirmed never reverts; `confirmed: undefined` means "unknown" and leaves the flag unchanged
+ * - once confirmed, the event fields (cast, amount, unlock time, parties, lock time, token) are immutable
+ * - an unconfirmed row whose event fields differ (lockUpId reused after a reorg) takes the incoming
+ *   fields, including its unlocked flag
+ * - known sender/receiver/lock time/fid/block/tx are kept when the incoming write lacks them
+ * - the amount of a lockup in another token is kept while its token amount is unchanged, so the
+ *   HIGHER-equivalent amount set by priceLockupsAtLockTime survives later writes of the unconverted lockup;
+ *   a changed event clears lock_usd_price so it is converted again
+ * Records without a token keep the stored token (HIGHER for new rows).
+ */
+export async function upsertLockups(records: LockupRecord[]): Promise<void> {
+	// ON CONFLICT can touch a row only once per statement, so repeated lockupIds go in later rounds
+	const rounds: LockupRecord[][] = [];
+	const seen = new Map<number, number>();
+	for (const r of records) {
+		const round = seen.get(r.lockupId) ?? 0;
+		seen.set(r.lockupId, round + 1);
+		if (!rounds[round]) rounds[round] = [];
+		rounds[round].push(r);
 	}
 
-	if (params.type === 'caster') {
-		const idx = cast.casterStakeLockupIds.findIndex(id => Number(id) === Number(params.lockupId));
-		if (idx === -1) return false;
-		const updated = [...(cast.casterStakeUnlocked || [])];
-		updated[idx] = params.unlocked;
+	for (const batch of rounds) {
+		const tokens = batch.map(r => r.token?.toLowerCase() ?? null);
 		await sql`
-      UPDATE leaderboard_entries
-      SET caster_stake_unlocked = ${updated as any}, updated_at = NOW()
-      WHERE cast_hash = ${castHash}
+      INSERT INTO lockups (
+        lockup_id, cast_hash, sender, receiver, fid, amount, token, token_amount, lock_time, unlock_time, unlocked,
+        stake_type, block_number, tx_hash, confirmed, updated_at
+      )
+      SELECT
+        v.lockup_id, v.cast_hash, v.sender, v.receiver, v.fid, v.amount,
+        COALESCE(v.token, existing.token, ${HIGHER_TOKEN_ADDRESS.toLowerCase()}),
+        CASE WHEN v.token IS NULL THEN COALESCE(existing.token_amount, v.amount) ELSE COALESCE(v.token_amount, v.amount) END,
+        v.lock_time, v.unlock_time, v.unlocked, v.stake_type, v.block_number, v.tx_hash,
+        COALESCE(v.confirmed, existing.confirmed, true), NOW()
+      FROM UNNEST(
+        ${batch.map(r => r.lockupId) as any}::integer[],
+        ${batch.map(r => r.castHash) as any}::text[],
+        ${batch.map(r => r.sender) as any}::text[],
+        ${batch.map(r => r.receiver) as any}::text[],
+        ${batch.map(r => r.fid) as any}::integer[],
+        ${batch.map(r => r.amount) as any}::numeric[],
+        ${tokens as any}::text[],
+        ${batch.map(r => r.tokenAmount ?? null) as any}::numeric[],
+        ${batch.map(r => r.lockTime) as any}::bigint[],
+        ${batch.map(r => r.unlockTime) as any}::bigint[],
+        ${batch.map(r => r.unlocked) as any}::boolean[],
+        ${batch.map(r => r.stakeType) as any}::text[],
+        ${batch.map(r => r.blockNumber ?? null) as any}::bigint[],
+        ${batch.map(r => r.txHash ?? null) as any}::text[],
+        ${batch.map(r => r.confirmed ?? null) as any}::boolean[]
+      ) AS v(
+        lockup_id, cast_hash, sender, receiver, fid, amount, token, token_amount, lock_time, unlock_time, unlocked,
+        stake_type, block_number, tx_hash, confirmed
+      )
+      LEFT JOIN lockups existing ON existing.lockup_id = v.lockup_id
+      ON CONFLICT (lockup_id) DO UPDATE SET
+        cast_hash = CASE WHEN lockups.confirmed THEN lockups.cast_hash ELSE EXCLUDED.cast_hash END,
+        sender = CASE WHEN lockups.confirmed THEN COALESCE(lockups.sender, EXCLUDED.sender) ELSE COALESCE(EXCLUDED.sender, lockups.sender) END,
+        receiver = CASE WHEN lockups.confirmed THEN COALESCE(lockups.receiver, EXCLUDED.receiver) ELSE COALESCE(EXCLUDED.receiver, lockups.receiver) END,
+        fid = CASE WHEN EXCLUDED.fid > 0 THEN EXCLUDED.fid ELSE lockups.fid END,
+        amount = CASE
+          WHEN lockups.confirmed OR (
+            EXCLUDED.token <> ${HIGHER_TOKEN_ADDRESS.toLowerCase()}
+            AND lockups.token = EXCLUDED.token
+            AND lockups.token_amount = EXCLUDED.token_amount
+          ) THEN lockups.amount
+          ELSE EXCLUDED.amount
+        END,
+        lock_usd_price = CASE
+          WHEN NOT lockups.confirmed AND (
+            lockups.token <> EXCLUDED.token
+            OR lockups.token_amount IS DISTINCT FROM EXCLUDED.token_amount
+            OR COALESCE(EXCLUDED.lock_time, lockups.lock_time) IS DISTINCT FROM lockups.lock_time
+          ) THEN NULL
+          ELSE lockups.lock_usd_price
+        END,
+        token = CASE WHEN lockups.confirmed THEN lockups.token ELSE EXCLUDED.token END,
+        token_amount = CASE WHEN lockups.confirmed THEN lockups.token_amount ELSE EXCLUDED.token_amount END,
+        lock_time = CASE WHEN lockups.confirmed THEN COALESCE(lockups.lock_time, EXCLUDED.lock_time) ELSE COALESCE(EXCLUDED.lock_time, lockups.lock_time) END,
+        unlock_time = CASE WHEN lockups.confirmed THEN lockups.unlock_time ELSE EXCLUDED.unlock_time END,
+        unlocked = CASE
+          WHEN NOT lockups.confirmed AND (
+            lockups.cast_hash <> EXCLUDED.cast_hash
+            OR lockups.token_amount IS DISTINCT FROM EXCLUDED.token_amount
+            OR (EXCLUDED.token = ${HIGHER_TOKEN_ADDRESS.toLowerCase()} AND lockups.amount <> EXCLUDED.amount)
+            OR lockups.unlock_time <> EXCLUDED.unlock_time
+            OR lockups.receiver <> EXCLUDED.receiver
+            OR lockups.token <> EXCLUDED.token
+          ) THEN EXCLUDED.unlocked
+          ELSE lockups.unlocked OR EXCLUDED.unlocked
+        END,
+        stake_type = EXCLUDED.stake_type,
+        block_number = CASE WHEN lockups.confirmed THEN COALESCE(lockups.block_number, EXCLUDED.block_number) ELSE COALESCE(EXCLUDED.block_number, lockups.block_number) END,
+        tx_hash = CASE WHEN lockups.confirmed THEN COALESCE(lockups.tx_hash, EXCLUDED.tx_hash) ELSE COALESCE(EXCLUDED.tx_hash, lockups.tx_hash) END,
+        confirmed = lockups.confirmed OR EXCLUDED.confirmed,
+        updated_at = NOW()
     `;
-		return true;
 	}
+}
 
-	if (params.type === 'supporter') {
-		const idx = cast.supporterStakeLockupIds.findIndex(id => Number(id) === Number(params.lockupId));
-		if (idx === -1) return false;
-		const updated = [...(cast.supporterStakeUnlocked || [])];
-		updated[idx] = params.unlocked;
-		await sql`
-      UPDATE leaderboard_entries
-      SET supporter_stake_unlocked = ${updated as any}, updated_at = NOW()
-      WHERE cast_hash = ${castHash}
-    `;
-		return true;
+/**
+ * Stored cast_state of a leaderboard entry, or null if the cast has none
+ */
+export async function getCastState(castHash: string, tx: SqlTag = sql): Promise<HigherCastData['castState'] | null> {
+	const result = await tx`SELECT cast_state FROM leaderboard_entries WHERE cast_hash = ${castHash}`;
+	return result.rows[0]?.cast_state ?? null;
+}
+
+/**
+ * Run `fn` in a transaction holding a lock on the cast, passing it the transaction's sql tag. Rebuilds of
+ * the same cast therefore run one after another, and none can write an entry derived from lockups that
+ * another rebuild has since changed.
+ */
+export async function withCastLock<T>(castHash: string, fn: (tx: SqlTag) => Promise<T>): Promise<T> {
+	const client = await sql.connect();
+	try {
+		await client.sql`BEGIN`;
+		await client.sql`SELECT pg_advisory_xact_lock(hashtext(${castHash}))`;
+		const result = await fn(client.sql.bind(client));
+		await client.sql`COMMIT`;
+		return result;
+	} catch (error) {
+		await client.sql`ROLLBACK`;
+		throw error;
+	} finally {
+		client.release();
+	}
+}
+
+/**
+ * Mark a single lockup as unlocked. Unlocked never reverts, so passing false is a no-op.
+ * Returns true if the lockup exists.
+ */
+export async function setLockupUnlocked(lockupId: number, unlocked: boolean = true): Promise<boolean> {
+	const result = await sql`
+    UPDATE lockups SET unlocked = lockups.unlocked OR ${unlocked}, updated_at = NOW()
+    WHERE lockup_id = ${lockupId}
+  `;
+	return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Mark several lockups as unlocked (unlock events, or lockups a source reports as unlocked)
+ */
+export async function setLockupsUnlocked(lockupIds: number[]): Promise<void> {
+	if (lockupIds.length === 0) return;
+	await sql`
+    UPDATE lockups SET unlocked = true, updated_at = NOW()
+    WHERE lockup_id = ANY(${lockupIds as any}::integer[]) AND NOT unlocked
+  `;
+}
+
+/**
+ * Get lockups (with validity) by lockupId
+ */
+export async function getLockupsByIds(lockupIds: number[]): Promise<ValidatedLockupRecord[]> {
+	if (lockupIds.length === 0) {
+		return [];
 	}
+	const result = await sql`
+    SELECT * FROM lockups
+    WHERE cast_hash IN (SELECT cast_hash FROM lockups WHERE lockup_id = ANY(${lockupIds as any}::integer[]))
+  `;
+	const wanted = new Set(lockupIds);
+	return toValidatedLockups(result.rows).filter(l => wanted.has(l.lockupId));
+}
+
+/**
+ * Unconfirmed lockups created at or below the given block (now deep enough to confirm or drop)
+ */
+export async function getUnconfirmedLockups(maxBlock: number): Promise<ValidatedLockupRecord[]> {
+	const result = await sql`
+    SELECT * FROM lockups
+    WHERE cast_hash IN (
+      SELECT cast_hash FROM lockups
+      WHERE NOT confirmed AND (block_number IS NULL OR block_number <= ${maxBlock})
+    )
+    ORDER BY lockup_id ASC
+  `;
+	return toValidatedLockups(result.rows).filter(
+		l => l.confirmed === false && (l.blockNumber == null || l.blockNumber <= maxBlock)
+	);
+}
+
+/**
+ * Mark lockups as confirmed (their block is past the confirmation depth)
+ */
+export async function confirmLockups(lockupIds: number[]): Promise<void> {
+	if (lockupIds.length === 0) return;
+	await sql`
+    UPDATE lockups SET confirmed = true, updated_at = NOW()
+    WHERE lockup_id = ANY(${lockupIds as any}::integer[])
+  `;
+}
+
+/**
+ * Drop unconfirmed lockups whose creating transaction was reorged out. Confirmed lockups are never deleted.
+ */
+export async function deleteUnconfirmedLockups(lockupIds: number[]): Promise<void> {
+	if (lockupIds.length === 0) return;
+	await sql`
+    DELETE FROM lockups
+    WHERE lockup_id = ANY(${lockupIds as any}::integer[]) AND NOT confirmed
+  `;
+}
 
-	return false;
+/**
+ * Get a single lockup (with validity) by lockupId
+ */
+export async function getLockupById(lockupId: number): Promise<ValidatedLockupRecord | null> {
+	const [lockup] = await getLockupsByIds([lockupId]);
+	return lockup ?? null;
 }
 
+/**
+ * Get all lockups (caster and supporter, with validity) for a cast, oldest first
+ */
+export async function getLockupsForCast(castHash: string, opts?: StakeRuleOptions, tx: SqlTag = sql): Promise<ValidatedLockupRecord[]> {
+	const result = await tx`
+    SELECT * FROM lockups
+    WHERE cast_hash = ${castHash}
+    ORDER BY lockup_id ASC
+  `;
+	return toValidatedLockups(result.rows, opts);
+}
+
+/**
+ * Get all lockups (with validity) for several casts, oldest first
+ */
+export async function getLockupsForCasts(castHashes: string[], opts?: StakeRuleOptions): Promise<ValidatedLockupRecord[]> {
+	if (castHashes.length === 0) {
+		return [];
+	}
+	const result = await sql`
+    SELECT * FROM lockups
+    WHERE cast_hash = ANY(${castHashes as any}::text[])
+    ORDER BY lockup_id ASC
+  `;
+	return toValidatedLockups(result.rows, opts);
+}
+
+/**
+ * Group lockup rows by cast hash, keeping their order
+ */
+export function groupLockupsByCast<T extends { castHash: string }>(lockups: T[]): Map<string, T[]> {
+	const byCast = new Map<string, T[]>();
+	for (const lockup of lockups) {
+		if (!byCast.has(lockup.castHash)) byCast.set(lockup.castHash, []);
+		byCast.get(lockup.castHash)!.push(lockup);
+	}
+	return byCast;
+}
+
+/**
+ * Get all lockups attributed to a fid (caster stakes on their casts and supporter stakes on others)
+ */
+export async function getLockupsForFid(fid: number): Promise<ValidatedLockupRecord[]> {
+	const result = await sql`
+    SELECT * FROM lockups
+    WHERE cast_hash IN (SELECT cast_hash FROM lockups WHERE fid = ${fid})
+    ORDER BY lockup_id ASC
+  `;
+	return toValidatedLockups(result.rows).filter(l => l.fid === fid);
+}
+
+/**
+ * Sum valid stakes of already-validated lockups
+ */
+function summarizeValidStakes(lockups: ValidatedLockupRecord[]): {
+	totalCasterStaked: bigint;
+	totalSupporterStaked: bigint;
+	supporterTotals: Map<number, bigint>;
+	casterUnlockTimes: number[];
+} {
+	let totalCasterStaked = 0n;
+	let totalSupporterStaked = 0n;
+	const supporterTotals = new Map<number, bigint>();
+	const casterUnlockTimes: number[] = [];
+
+	for (const l of lockups) {
+		if (!l.isValid) continue;
+		let amount: bigint;
+		try {
+			amount = BigInt(l.amount);
+		} catch {
+			continue;
+		}
+		if (l.stakeType === 'caster') {
+			totalCasterStaked += amount;
+			casterUnlockTimes.push(l.unlockTime);
+		} else {
+			totalSupporterStaked += amount;
+			if (l.fid > 0) {
+				supporterTotals.set(l.fid, (supporterTotals.get(l.fid) || 0n) + amount);
+			}
+		}
+	}
+
+	return { totalCasterStaked, totalSupporterStaked, supporterTotals, casterUnlockTimes };
+}
+
+/**
+ * Aggregated valid stake totals for a cast
+ */
+export async function getCastStakeTotals(castHash: string, opts?: StakeRuleOptions): Promise<CastStakeTotals> {
+	const summary = summarizeValidStakes(await getLockupsForCast(castHash, opts));
+	return {
+		castHash,
+		totalCasterStaked: summary.totalCasterStaked.toString(),
+		totalSupporterStaked: summary.totalSupporterStaked.toString(),
+		uniqueSupporters: summary.supporterTotals.size,
+		minCasterUnlockTime: summary.casterUnlockTimes.length > 0 ? Math.min(...summary.casterUnlockTimes) : 0,
+		maxCasterUnlockTime: summary.casterUnlockTimes.length > 0 ? Math.max(...summary.casterUnlockTimes) : 0,
+	};
+}
+
+/**
+ * Active supporter totals per fid for a cast, largest first
+ */
+export async function getCastSupporterTotals(castHash: string, limit: number = 10): Promise<Array<{
+	fid: number;
+	totalAmount: string; // wei
+}>> {
+	const { supporterTotals } = summarizeValidStakes(await getLockupsForCast(castHash));
+	return Array.from(supporterTotals.entries())
+		.sort((a, b) => (a[1] > b[1] ? -1 : a[1] < b[1] ? 1 : 0))
+		.slice(0, limit)
+		.map(([fid, totalAmount]) => ({ fid, totalAmount: totalAmount.toString() }));
+}
+
+/**
+ * Network-wide valid stake totals over 'higher' casts
+ */
+export async function getNetworkStakeTotals(): Promise<{
+	totalCasterStaked: string; // wei
+	totalSupporterStaked: string; // wei
+	totalCastsStakedOn: number;
+	stakeRulesVersion: number;
+}> {
+	const [lockups, casts] = await Promise.all([
+		sql`
+      SELECT l.* FROM lockups l
+      JOIN leaderboard_entries le ON le.cast_hash = l.cast_hash
+      WHERE le.cast_state = 'higher'
+    `,
+		sql`SELECT COUNT(*) AS total FROM leaderboard_entries WHERE cast_state = 'higher'`,
+	]);
+	const rules = getStakeRules();
+	const summary = summarizeValidStakes(toValidatedLockups(lockups.rows, { rules }));
+	return {
+		totalCasterStaked: summary.totalCasterStaked.toString(),
+		totalSupporterStaked: summary.totalSupporterStaked.toString(),
+		totalCastsStakedOn: Number(casts.rows[0]?.total || 0),
+		stakeRulesVersion: rules.version,
+	};
+}
@@ -0,0 +1,448 @@
+import { sql } from '@vercel/postgres';
+import { calculateWeightedStake } from '../supporter-helpers';
+import { StakeRuleOptions, validateLockups } from '../stake-rules';
+import { getLockupsForCasts, groupLockupsByCast, LockupRecord } from './db-service';
+import { countValidSupporters } from './snapshot-service';
+
+export type LeaderboardSort = 'staked' | 'usd' | 'weighted' | 'supporters' | 'newest';
+
+export const LEADERBOARD_SORTS: readonly LeaderboardSort[] = ['staked', 'usd', 'weighted', 'supporters', 'newest'];
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 50;
+
+export interface LeaderboardQuery {
+  sort?: LeaderboardSort;
+  limit?: number;
+  after?: LeaderboardCursor; // from a decoded cursor
+  fid?: number; // creator fid
+  from?: Date; // cast timestamp window
+  to?: Date;
+  minStake?: number; // total_higher_staked, in tokens
+}
+
+/**
+ * A ranked cast with its numeric values, read from the persisted columns
+ */
+export interface LeaderboardRow {
+  row: any; // leaderboard_entries row
+  position: number; // 1-based position in the sorted, filtered result
+  totalHigherStaked: number;
+  usdValue: number | null;
+  weightedStake: number; // higher-days
+  supporterCount: number;
+  castTimestamp: number; // unix ms
+}
+
+export interface LeaderboardPage {
+  rows: LeaderboardRow[];
+  nextCursor: string | null;
+  sort: LeaderboardSort;
+}
+
+/**
+ * Keyset position: the sort value and cast hash of the last row of the previous page
+ */
+export interface LeaderboardCursor {
+  sort: LeaderboardSort;
+  value: string; // numeric, as returned by Postgres
+  castHash: string;
+}
+
+/**
+ * Opaque page cursor. Only valid for the sort it was issued for.
+ */
+export function encodeCursor(state: LeaderboardCursor): string {
+  return Buffer.from(JSON.stringify({ s: state.sort, v: state.value, h: state.castHash })).toString('base64url');
+}
+
+/**
+ * Decode a cursor, or null if it is malformed
+ */
+export function decodeCursor(cursor: string): LeaderboardCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      !LEADERBOARD_SORTS.includes(parsed?.s)
+      || typeof parsed.v !== 'string' || !/^-?\d+(\.\d+)?$/.test(parsed.v)
+      || typeof parsed.h !== 'string' || !parsed.h
+    ) {
+      return null;
+    }
+    return { sort: parsed.s, value: parsed.v, castHash: parsed.h };
+  } catch {
+    return null;
+  }
+}
+
+type WeightedLockup = Pick<LockupRecord, 'amount' | 'lockTime' | 'unlockTime'>;
+type SupporterLockup = Pick<LockupRecord, 'castHash' | 'stakeType' | 'fid' | 'amount' | 'lockTime' | 'unlockTime' | 'unlocked'>;
+
+// Higher-days of one stake; stakes with an unknown lock/unlock time or no amount count as 0
+function weightedStakeAt(lockup: WeightedLockup, currentTime: number): number {
+  const wei = BigInt(String(lockup.amount || '0'));
+  const lock = Number(lockup.lockTime || 0);
+  const unlock = Number(lockup.unlockTime || 0);
+  if (lock <= 0 || unlock <= 0 || wei <= 0n) {
+    return 0;
+  }
+  return calculateWeightedStake(wei, lock, unlock, currentTime);
+}
+
+/**
+ * Cumulative higher-days of every caster and supporter lockup on a cast, including unlocked and expired
+ * stakes (the same basis as the per-cast supporter leaderboard)
+ */
+export function calculateCastWeightedStake(
+  lockups: WeightedLockup[],
+  currentTime: number = Math.floor(Date.now() / 1000)
+): number {
+  return lockups.reduce((total, lockup) => total + weightedStakeAt(lockup, currentTime), 0);
+}
+
+/**
+ * One page of ranked casts (cast_state = 'higher') matching the filters, in the requested sort.
+ * Sorts descending by the mode's column (weighted_stake and supporter_count are persisted by
+ * recomputeWeightedRanks), then by cast hash. Pages are keyset-based, so a page starts right after the
+ * previous page's last row even if ranks changed in between.
+ */
+export async function getLeaderboardPage(query: LeaderboardQuery = {}): Promise<LeaderboardPage> {
+  const sort = query.sort ?? 'staked';
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const fid = query.fid ?? null;
+  const from = query.from ? query.from.toISOString() : null;
+  const to = query.to ? query.to.toISOString() : null;
+  const minStake = query.minStake ?? null;
+  const afterValue = query.after?.value ?? null;
+  const afterHash = query.after?.castHash ?? null;
+
+  const result = await sql`
+    SELECT * FROM (
+      SELECT le.*, k.sort_value, ROW_NUMBER() OVER (ORDER BY k.sort_value DESC, le.cast_hash DESC) AS position
+      FROM leaderboard_entries le
+      CROSS JOIN LATERAL (
+        SELECT (CASE ${sort}::text
+          WHEN 'usd' THEN COALESCE(le.usd_value, 0)
+          WHEN 'weighted' THEN COALESCE(le.weighted_stake, 0)
+          WHEN 'supporters' THEN le.supporter_count
+          WHEN 'newest' THEN EXTRACT(EPOCH FROM le.cast_timestamp)
+          ELSE le.total_higher_staked
+        END)::numeric AS sort_value
+      ) k
+      WHERE le.cast_state = 'higher'
+        AND (${fid}::integer IS NULL OR le.creator_fid = ${fid})
+        AND (${from}::timestamp IS NULL OR le.cast_timestamp >= ${from}::timestamp)
+        AND (${to}::timestamp IS NULL OR le.cast_timestamp <= ${to}::timestamp)
+        AND (${minStake}::numeric IS NULL OR le.total_higher_staked >= ${minStake})
+    ) ranked
+    WHERE ${afterValue}::numeric IS NULL OR (sort_value, cast_hash) < (${afterValue}::numeric, ${afterHash}::text)
+    ORDER BY sort_value DESC, cast_hash DESC
+    LIMIT ${limit + 1}
+  `;
+
+  const rows = result.rows.slice(0, limit).map(row => ({
+    row,
+    position: Number(row.position),
+    totalHigherStaked: parseFloat(row.total_higher_staked ?? '0') || 0,
+    usdValue: row.usd_value != null ? parseFloat(row.usd_value) : null,
+    weightedStake: row.weighted_stake != null ? parseFloat(row.weighted_stake) : 0,
+    supporterCount: Number(row.supporter_count || 0),
+    castTimestamp: row.cast_timestamp ? new Date(row.cast_timestamp).getTime() : 0,
+  }));
+  const last = rows[rows.length - 1];
+
+  return {
+    rows,
+    nextCursor: result.rows.length > limit && last
+      ? encodeCursor({ sort, value: String(last.row.sort_value), castHash: last.row.cast_hash })
+      : null,
+    sort,
+  };
+}
+
+export interface WeightedCastRank {
+  castHash: string;
+  weightedStake: number;
+  weightedRank: number | null; // only 'higher' casts are ranked
+  supporterCount: number; // unique supporter fids with a valid stake
+}
+
+/**
+ * Higher-days and valid supporter count of every cast in leaderboard_entries rows; 'higher' casts ranked by
+ * higher-days (1 = longest conviction), ties by cast hash descending like getLeaderboardPage, so
+ * weighted_rank matches the position in ?sort=weighted. `lockups` holds the lockups of those casts.
+ */
+export function rankCastsByWeightedStake(
+  rows: any[],
+  lockups: Array<WeightedLockup & SupporterLockup>,
+  currentTime: number
+): WeightedCastRank[] {
+  const lockupsByCast = groupLockupsByCast(lockups);
+  const casts = rows.map(row => ({
+    castHash: row.cast_hash as string,
+    castState: row.cast_state as string,
+    weightedStake: calculateCastWeightedStake(lockupsByCast.get(row.cast_hash) ?? [], currentTime),
+    supporterCount: countValidSupporters(lockupsByCast.get(row.cast_hash) ?? [], { currentTime }),
+  }));
+
+  const ranks = new Map<string, number>();
+  casts
+    .filter(cast => cast.castState === 'higher')
+    .sort((a, b) => b.weightedStake - a.weightedStake || (a.castHash < b.castHash ? 1 : a.castHash > b.castHash ? -1 : 0))
+    .forEach((cast, index) => ranks.set(cast.castHash, index + 1));
+
+  return casts.map(cast => ({
+    castHash: cast.castHash,
+    weightedStake: cast.weightedStake,
+    weightedRank: ranks.get(cast.castHash) ?? null,
+    supporterCount: cast.supporterCount,
+  }));
+}
+
+export type SupporterSort = 'active' | 'weighted';
+
+export const SUPPORTER_SORTS: readonly SupporterSort[] = ['active', 'weighted'];
+
+/**
+ * A supporter fid's stakes across every cast
+ */
+export interface SupporterTotals {
+  fid: number;
+  activeStake: number; // tokens in supporter stakes valid under the stake rules
+  weightedStake: number; // higher-days of all supporter stakes, including unlocked and expired
+  castsBacked: number;
+  buildersBacked: number; // distinct creator fids of those casts
+  biggestBacking: {
+    castHash: string;
+    creatorFid: number;
+    creatorUsername: string;
+    activeStake: number;
+  } | null; // cast with the largest active stake; null without active stakes
+}
+
+/**
+ * Aggregate supporter lockups per fid across leaderboard_entries rows. `lockups` holds every lockup of
+ * those casts (caster lockups decide supporter validity). Stakes from unresolved wallets (fid 0) are skipped.
+ */
+export function aggregateSupporterTotals(
+  rows: any[],
+  lockups: SupporterLockup[],
+  opts: StakeRuleOptions & { currentTime: number }
+): SupporterTotals[] {
+  const supporters = new Map<number, {
+    fid: number;
+    activeWei: bigint;
+    weightedStake: number;
+    casts: Set<string>;
+    builders: Set<number>;
+    activeWeiByCast: Map<string, bigint>;
+  }>();
+  const castsByHash = new Map<string, any>(rows.map(row => [row.cast_hash, row]));
+
+  for (const lockup of validateLockups(lockups, opts)) {
+    const cast = castsByHash.get(lockup.castHash);
+    const wei = BigInt(String(lockup.amount || '0'));
+    if (!cast || lockup.stakeType !== 'supporter' || !(lockup.fid > 0) || wei <= 0n) continue;
+
+    if (!supporters.has(lockup.fid)) {
+      supporters.set(lockup.fid, {
+        fid: lockup.fid,
+        activeWei: 0n,
+        weightedStake: 0,
+        casts: new Set(),
+        builders: new Set(),
+        activeWeiByCast: new Map(),
+      });
+    }
+    const supporter = supporters.get(lockup.fid)!;
+    supporter.weightedStake += weightedStakeAt(lockup, opts.currentTime);
+    supporter.casts.add(lockup.castHash);
+    supporter.builders.add(Number(cast.creator_fid));
+    if (lockup.isValid) {
+      supporter.activeWei += wei;
+      supporter.activeWeiByCast.set(lockup.castHash, (supporter.activeWeiByCast.get(lockup.castHash) ?? 0n) + wei);
+    }
+  }
+
+  const toTokens = (wei: bigint) => Number(wei) / 1e18;
+
+  return Array.from(supporters.values()).map(supporter => {
+    let biggest: [string, bigint] | null = null;
+    for (const entry of supporter.activeWeiByCast) {
+      if (!biggest || entry[1] > biggest[1]) biggest = entry;
+    }
+    const biggestCast = biggest ? castsByHash.get(biggest[0]) : null;
+
+    return {
+      fid: supporter.fid,
+      activeStake: toTokens(supporter.activeWei),
+      weightedStake: supporter.weightedStake,
+      castsBacked: supporter.casts.size,
+      buildersBacked: supporter.builders.size,
+      biggestBacking: biggest && biggestCast ? {
+        castHash: biggest[0],
+        creatorFid: Number(biggestCast.creator_fid),
+        creatorUsername: biggestCast.creator_username,
+        activeStake: toTokens(biggest[1]),
+      } : null,
+    };
+  });
+}
+
+/**
+ * Rank supporters descending by active stake or higher-days (ties fall back to the other measure, then fid).
+ * Supporters with nothing to rank by in that mode are left out.
+ */
+export function rankSupporters(supporters: SupporterTotals[], sort: SupporterSort): Array<SupporterTotals & { rank: number }> {
+  const key = (s: SupporterTotals) => (sort === 'active' ? s.activeStake : s.weightedStake);
+  const tiebreak = (s: SupporterTotals) => (sort === 'active' ? s.weightedStake : s.activeStake);
+  return supporters
+    .filter(s => key(s) > 0)
+    .sort((a, b) => key(b) - key(a) || tiebreak(b) - tiebreak(a) || a.fid - b.fid)
+    .map((supporter, index) => ({ ...supporter, rank: index + 1 }));
+}
+
+/**
+ * A supporter with both rankings, as persisted in supporter_weighted_ranks
+ */
+export interface PersistedSupporterRank extends SupporterTotals {
+  rank: number | null; // by higher-days
+  activeRank: number | null; // by active stake
+}
+
+/**
+ * Rank supporters both ways. A ranking is null when the fid has nothing to rank by in that mode; fids with
+ * neither are left out.
+ */
+export function rankSupporterTotals(supporters: SupporterTotals[]): PersistedSupporterRank[] {
+  const weighted = new Map(rankSupporters(supporters, 'weighted').map(s => [s.fid, s.rank]));
+  const active = new Map(rankSupporters(supporters, 'active').map(s => [s.fid, s.rank]));
+  return supporters
+    .filter(s => weighted.has(s.fid) || active.has(s.fid))
+    .map(s => ({ ...s, rank: weighted.get(s.fid) ?? null, activeRank: active.get(s.fid) ?? null }));
+}
+
+export interface SupporterLeaderboardPage {
+  supporters: Array<SupporterTotals & { rank: number }>;
+  nextCursor: string | null; // rank of the last supporter on the page
+  totalSupporters: number;
+}
+
+/**
+ * One page of the network-wide supporter ranking persisted by recomputeWeightedRanks, in rank order.
+ * Pages are keyset-based on the rank: `after` is the previous page's nextCursor.
+ */
+export async function getSupporterLeaderboard(
+  sort: SupporterSort,
+  opts: { after?: number; limit?: number } = {}
+): Promise<SupporterLeaderboardPage> {
+  const after = opts.after ?? 0;
+  const limit = Math.min(Math.max(opts.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const result = await sql`
+    SELECT s.*, k.sort_rank, le.creator_fid AS biggest_creator_fid, le.creator_username AS biggest_creator_username
+    FROM supporter_weighted_ranks s
+    CROSS JOIN LATERAL (
+      SELECT CASE ${sort}::text WHEN 'weighted' THEN s.rank ELSE s.active_rank END AS sort_rank
+    ) k
+    LEFT JOIN leaderboard_entries le ON le.cast_hash = s.biggest_cast_hash
+    WHERE k.sort_rank > ${after}
+    ORDER BY k.sort_rank ASC
+    LIMIT ${limit + 1}
+  `;
+  const total = await sql`
+    SELECT COUNT(*) AS count FROM supporter_weighted_ranks
+    WHERE (CASE ${sort}::text WHEN 'weighted' THEN rank ELSE active_rank END) IS NOT NULL
+  `;
+
+  const supporters = result.rows.slice(0, limit).map(row => ({
+    fid: Number(row.fid),
+    rank: Number(row.sort_rank),
+    activeStake: parseFloat(row.active_stake ?? '0') || 0,
+    weightedStake: parseFloat(row.weighted_stake ?? '0') || 0,
+    castsBacked: Number(row.casts_backed || 0),
+    buildersBacked: Number(row.builders_backed || 0),
+    biggestBacking: row.biggest_cast_hash && row.biggest_creator_fid != null ? {
+      castHash: row.biggest_cast_hash,
+      creatorFid: Number(row.biggest_creator_fid),
+      creatorUsername: row.biggest_creator_username,
+      activeStake: parseFloat(row.biggest_active_stake ?? '0') || 0,
+    } : null,
+  }));
+
+  return {
+    supporters,
+    nextCursor: result.rows.length > limit ? String(supporters[supporters.length - 1].rank) : null,
+    totalSupporters: Number(total.rows[0]?.count ?? 0),
+  };
+}
+
+/**
+ * Recompute and persist the rankings: weighted_stake / weighted_rank / supporter_count on leaderboard_entries
+ * and both supporter rankings (higher-days and active stake) in supporter_weighted_ranks. Run after every
+ * sync, since higher-days grow and stakes expire with time even when no lockup changed.
+ */
+export async function recomputeWeightedRanks(): Promise<{ casts: number; supporters: number }> {
+  const currentTime = Math.floor(Date.now() / 1000);
+  const result = await sql`
+    SELECT cast_hash, cast_state, creator_fid, creator_username
+    FROM leaderboard_entries
+  `;
+  const lockups = await getLockupsForCasts(result.rows.map(row => row.cast_hash));
+
+  const casts = rankCastsByWeightedStake(result.rows, lockups, currentTime);
+  if (casts.length > 0) {
+    await sql`
+      UPDATE leaderboard_entries le
+      SET weighted_stake = w.weighted_stake, weighted_rank = w.weighted_rank, supporter_count = w.supporter_count
+      FROM UNNEST(
+        ${casts.map(c => c.castHash) as any}::text[],
+        ${casts.map(c => c.weightedStake) as any}::numeric[],
+        ${casts.map(c => c.weightedRank) as any}::integer[],
+        ${casts.map(c => c.supporterCount) as any}::integer[]
+      ) AS w(cast_hash, weighted_stake, weighted_rank, supporter_count)
+      WHERE le.cast_hash = w.cast_hash
+    `;
+  }
+
+  const supporters = rankSupporterTotals(aggregateSupporterTotals(result.rows, lockups, { currentTime }));
+  const fids = supporters.map(s => s.fid);
+  await sql`
+    INSERT INTO supporter_weighted_ranks (
+      fid, weighted_stake, rank, casts_backed, active_stake, active_rank, builders_backed,
+      biggest_cast_hash, biggest_active_stake, updated_at
+    )
+    SELECT
+      s.fid, s.weighted_stake, s.rank, s.casts_backed, s.active_stake, s.active_rank, s.builders_backed,
+      s.biggest_cast_hash, s.biggest_active_stake, NOW()
+    FROM UNNEST(
+      ${fids as any}::integer[],
+      ${supporters.map(s => s.weightedStake) as any}::numeric[],
+      ${supporters.map(s => s.rank) as any}::integer[],
+      ${supporters.map(s => s.castsBacked) as any}::integer[],
+      ${supporters.map(s => s.activeStake) as any}::numeric[],
+      ${supporters.map(s => s.activeRank) as any}::integer[],
+      ${supporters.map(s => s.buildersBacked) as any}::integer[],
+      ${supporters.map(s => s.biggestBacking?.castHash ?? null) as any}::text[],
+      ${supporters.map(s => s.biggestBacking?.activeStake ?? null) as any}::numeric[]
+    ) AS s(fid, weighted_stake, rank, casts_backed, active_stake, active_rank, builders_backed, biggest_cast_hash, biggest_active_stake)
+    ON CONFLICT (fid) DO UPDATE SET
+      weighted_stake = EXCLUDED.weighted_stake,
+      rank = EXCLUDED.rank,
+      casts_backed = EXCLUDED.casts_backed,
+      active_stake = EXCLUDED.active_stake,
+      active_rank = EXCLUDED.active_rank,
+      builders_backed = EXCLUDED.builders_backed,
+      biggest_cast_hash = EXCLUDED.biggest_cast_hash,
+      biggest_active_stake = EXCLUDED.biggest_active_stake,
+      updated_at = EXCLUDED.updated_at
+  `;
+  await sql`
+    DELETE FROM supporter_weighted_ranks
+    WHERE NOT (fid = ANY(${fids as any}::integer[]))
+  `;
+
+  return { casts: casts.length, supporters: supporters.length };
+}
+
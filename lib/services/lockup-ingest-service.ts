@@ -0,0 +1,347 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { parseEventLogs, zeroAddress, type Hex, type Log } from 'viem';
+import { LOCKUP_ABI, LOCKUP_CONTRACT } from '../contracts';
+import { isValidCastHash } from '../cast-helpers';
+import { createBaseClient } from '../base-client';
+import { getCastHashesForLockupIds, recomputeRanks, setLockupsUnlocked } from './db-service';
+import { isValidStake } from './stake-service';
+import { getStakeToken } from '../tokens';
+import { aggregateLockupRows, writeCastFromLockups, rebuildCastFromLockups, LockupRow } from '../indexers/lockupsFromDune';
+import { getLockupSender } from '../indexers/lockupsFromChain';
+import { getSafeBlock } from '../indexers/lockupWrites';
+
+/**
+ * A LockUpCreated event decoded from a webhook payload
+ */
+export interface LockupCreatedEvent {
+  lockUpId: number;
+  token: string;
+  receiver: string;
+  sender: string | null; // wallet whose tokens were locked (getLockupSender), if known
+  origin: string | null; // transaction origin, if the payload carries it
+  amount: string; // wei
+  unlockTime: number;
+  title: string;
+  blockNumber: bigint | null;
+  blockTimestamp: number | null;
+  transactionHash: string | null;
+}
+
+export interface DecodedLockupEvents {
+  created: LockupCreatedEvent[];
+  unlockedIds: number[];
+}
+
+interface PayloadLog {
+  log: Log;
+  origin: string | null;
+  blockTimestamp: number | null;
+}
+
+/**
+ * Verify an HMAC-SHA256 hex signature over the raw request body (Alchemy x-alchemy-signature style)
+ */
+export function verifyWebhookSignature(rawBody: string, signature: string | null, signingKey: string): boolean {
+  if (!signature || !signingKey) {
+    return false;
+  }
+  const expected = createHmac('sha256', signingKey).update(rawBody, 'utf8').digest('hex');
+  const provided = signature.trim().toLowerCase().replace(/^sha256=/, '');
+  if (provided.length !== expected.length) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(provided, 'utf8'), Buffer.from(expected, 'utf8'));
+}
+
+function toBigIntOrNull(v: any): bigint | null {
+  if (v === null || v === undefined || v === '') return null;
+  try {
+    return BigInt(v);
+  } catch {
+    return null;
+  }
+}
+
+function toTimestampOrNull(v: any): number | null {
+  if (v === null || v === undefined || v === '') return null;
+  const n = typeof v === 'number' ? v : /^\d+$/.test(String(v)) || String(v).startsWith('0x') ? Number(BigInt(v)) : Date.parse(String(v)) / 1000;
+  return Number.isFinite(n) ? Math.floor(n) : null;
+}
+
+function toViemLog(raw: any, fallback: { blockNumber?: any; transactionHash?: any } = {}): Log {
+  return {
+    address: String(raw.address ?? raw.account?.address ?? '').toLowerCase() as Hex,
+    topics: (raw.topics ?? []) as [Hex, ...Hex[]],
+    data: (raw.data ?? '0x') as Hex,
+    blockNumber: toBigIntOrNull(raw.blockNumber ?? fallback.blockNumber),
+    blockHash: (raw.blockHash ?? null) as Hex | null,
+    transactionHash: (raw.transactionHash ?? raw.transaction?.hash ?? fallback.transactionHash ?? null) as Hex | null,
+    transactionIndex: raw.transactionIndex != null ? Number(raw.transactionIndex) : null,
+    logIndex: raw.logIndex != null ? Number(raw.logIndex) : raw.index != null ? Number(raw.index) : null,
+    removed: Boolean(raw.removed),
+  } as Log;
+}
+
+/**
+ * Collect raw logs from the supported payload shapes:
+ * - Alchemy address activity: event.activity[].log (+ activity.fromAddress)
+ * - Alchemy custom (GraphQL) webhooks: event.data.block.logs[] (+ log.transaction.from)
+ * - Plain { logs: [...] } payloads (e.g. Neynar-style or local fixtures)
+ */
+function extractPayloadLogs(payload: any): PayloadLog[] {
+  const out: PayloadLog[] = [];
+
+  for (const activity of payload?.event?.activity ?? []) {
+    if (!activity?.log) continue;
+    out.push({
+      log: toViemLog(activity.log, { blockNumber: activity.blockNum, transactionHash: activity.hash }),
+      origin: activity.fromAddress ? String(activity.fromAddress).toLowerCase() : null,
+      blockTimestamp: null,
+    });
+  }
+
+  const block = payload?.event?.data?.block;
+  for (const raw of block?.logs ?? []) {
+    out.push({
+      log: toViemLog(raw, { blockNumber: block.number }),
+      origin: raw.transaction?.from?.address ? String(raw.transaction.from.address).toLowerCase() : null,
+      blockTimestamp: toTimestampOrNull(block.timestamp),
+    });
+  }
+
+  for (const raw of payload?.logs ?? []) {
+    out.push({
+      log: toViemLog(raw),
+      origin: raw.from ? String(raw.from).toLowerCase() : null,
+      blockTimestamp: toTimestampOrNull(raw.blockTimestamp),
+    });
+  }
+
+  return out.filter(p => p.log.address === LOCKUP_CONTRACT.toLowerCase() && !p.log.removed);
+}
+
+/**
+ * Decode lockup contract events from a webhook payload using LOCKUP_ABI
+ */
+export function decodeLockupWebhookPayload(payload: any): DecodedLockupEvents {
+  return decodeLockupLogs(extractPayloadLogs(payload));
+}
+
+function decodeLockupLogs(entries: PayloadLog[]): DecodedLockupEvents {
+  const created: LockupCreatedEvent[] = [];
+  const unlockedIds = new Set<number>();
+
+  for (const { log, origin, blockTimestamp } of entries) {
+    const [ev] = parseEventLogs({ abi: LOCKUP_ABI, logs: [log], strict: false });
+    if (!ev || ev.args.lockUpId == null) continue;
+
+    if (ev.eventName === 'LockUpCreated') {
+      created.push({
+        lockUpId: Number(ev.args.lockUpId),
+        token: String(ev.args.token || '').toLowerCase(),
+        receiver: String(ev.args.receiver || '').toLowerCase(),
+        sender: null,
+        origin,
+        amount: (ev.args.amount ?? BigInt(0)).toString(),
+        unlockTime: Number(ev.args.unlockTime ?? 0),
+        title: String(ev.args.title || ''),
+        blockNumber: log.blockNumber,
+        blockTimestamp,
+        transactionHash: log.transactionHash,
+      });
+    } else {
+      unlockedIds.add(Number(ev.args.lockUpId));
+    }
+  }
+
+  return { created, unlockedIds: Array.from(unlockedIds) };
+}
+
+function normalizeTitleHash(title: string): string | null {
+  let h = title.trim().toLowerCase();
+  if (!h.startsWith('0x') && /^[0-9a-f]+$/.test(h)) h = `0x${h}`;
+  return isValidCastHash(h) ? h : null;
+}
+
+// Fill in lock time (block timestamp) when the payload did not carry it, and the sender from the
+// transaction receipt as the on-chain indexer does. Falls back to the payload's transaction origin when
+// the receipt cannot be read; the sender is null when neither is known.
+async function hydrateCreatedEvent(ev: LockupCreatedEvent): Promise<{ lockTime: number; sender: string | null }> {
+  let lockTime = ev.blockTimestamp;
+  let sender = ev.sender;
+  if (lockTime == null || sender == null) {
+    try {
+      const client = createBaseClient();
+      if (lockTime == null && ev.blockNumber != null) {
+        const block = await client.getBlock({ blockNumber: ev.blockNumber });
+        lockTime = Number(block.timestamp);
+      }
+      if (sender == null && ev.transactionHash) {
+        const receipt = await client.getTransactionReceipt({ hash: ev.transactionHash as Hex });
+        sender = getLockupSender(receipt, BigInt(ev.lockUpId));
+      }
+    } catch (err) {
+      console.warn('[lockup-ingest] Failed to hydrate lockup from RPC:', ev.lockUpId, err);
+    }
+  }
+  return {
+    lockTime: lockTime ?? Math.floor(Date.now() / 1000),
+    sender: sender ?? ev.origin,
+  };
+}
+
+// Current chain head, used to decide whether webhook lockups are past the confirmation depth
+async function getHeadBlock(): Promise<number | null> {
+  try {
+    return Number(await createBaseClient().getBlockNumber());
+  } catch (err) {
+    console.warn('[lockup-ingest] Failed to read head block:', err);
+    return null;
+  }
+}
+
+/**
+ * Apply decoded lockup events to the leaderboard: classify new lockups in stakeable tokens per cast,
+ * mark unlocked lockups, and write only the affected casts. New lockups are classified by
+ * aggregateLockupRows, as in the scheduled sync: caster stakes come from the cast owner's wallets.
+ * Lockups without a known sender are skipped until the sync picks them up. Lockups from blocks within
+ * the confirmation depth are stored unconfirmed until the sync re-checks them.
+ */
+export async function ingestLockupEvents(events: DecodedLockupEvents): Promise<{
+  castsUpdated: string[];
+  skipped: number[];
+}> {
+  const skipped: number[] = [];
+  const unlockedSet = new Set(events.unlockedIds);
+  const rows: LockupRow[] = [];
+
+  for (const ev of events.created) {
+    if (!normalizeTitleHash(ev.title) || !getStakeToken(ev.token)) {
+      skipped.push(ev.lockUpId);
+      continue;
+    }
+    const { lockTime, sender } = await hydrateCreatedEvent(ev);
+    if (!sender) {
+      skipped.push(ev.lockUpId);
+      continue;
+    }
+    rows.push({
+      sender,
+      lockTime,
+      lockUpId: ev.lockUpId,
+      title: ev.title,
+      amount: ev.amount,
+      receiver: ev.receiver,
+      unlockTime: ev.unlockTime,
+      unlocked: unlockedSet.has(ev.lockUpId),
+      token: ev.token,
+      blockNumber: ev.blockNumber != null ? Number(ev.blockNumber) : undefined,
+      txHash: ev.transactionHash ?? undefined,
+    });
+  }
+
+  await setLockupsUnlocked(events.unlockedIds);
+  const affected = new Set<string>(await getCastHashesForLockupIds(events.unlockedIds));
+
+  // Without a head block we cannot tell how deep the lockups are; keep every lockup with a block unconfirmed
+  const headBlock = rows.length > 0 ? await getHeadBlock() : null;
+  const aggregated = await aggregateLockupRows(rows, { safeBlock: headBlock != null ? getSafeBlock(headBlock) : -1 });
+
+  const castsUpdated: string[] = [];
+  const written = new Set<number>();
+  for (const [castHash, cast] of aggregated) {
+    if (cast.lockups.length === 0) continue;
+    await writeCastFromLockups(cast);
+    for (const l of cast.lockups) written.add(l.lockupId);
+    affected.delete(castHash);
+    castsUpdated.push(castHash);
+  }
+  // Lockups of casts that could not be resolved
+  skipped.push(...rows.map(r => Number(r.lockUpId)).filter(id => !written.has(id)));
+
+  // Casts that only had lockups unlocked
+  for (const castHash of affected) {
+    if (await rebuildCastFromLockups(castHash)) castsUpdated.push(castHash);
+  }
+
+  if (castsUpdated.length > 0) {
+    await recomputeRanks();
+  }
+
+  return { castsUpdated, skipped };
+}
+
+export interface ConfirmedLockup {
+  lockUpId: number;
+  castHash: string | null;
+  valid: boolean;
+}
+
+export type LockupConfirmation =
+  | { status: 'pending' | 'reverted' | 'no_lockup' }
+  | { status: 'confirmed'; lockups: ConfirmedLockup[]; castsUpdated: string[]; skipped: number[] };
+
+/**
+ * Confirm a createLockUp transaction from its receipt and record the new lockups immediately.
+ * Each LockUpCreated event is validated with isValidStake before it is ingested.
+ */
+export async function confirmLockupTransaction(
+  txHash: Hex,
+  currentTime: number = Math.floor(Date.now() / 1000)
+): Promise<LockupConfirmation> {
+  const client = createBaseClient();
+
+  let receipt;
+  try {
+    receipt = await client.getTransactionReceipt({ hash: txHash });
+  } catch {
+    // Not mined yet (or not visible to this RPC node)
+    return { status: 'pending' };
+  }
+  if (receipt.status !== 'success') {
+    return { status: 'reverted' };
+  }
+
+  const block = await client.getBlock({ blockNumber: receipt.blockNumber });
+  const origin = String(receipt.from).toLowerCase();
+  const entries: PayloadLog[] = receipt.logs
+    .filter(log => log.address.toLowerCase() === LOCKUP_CONTRACT.toLowerCase())
+    .map(log => ({ log: log as Log, origin, blockTimestamp: Number(block.timestamp) }));
+
+  const created = decodeLockupLogs(entries).created.map(ev => ({
+    ...ev,
+    sender: getLockupSender(receipt, BigInt(ev.lockUpId)),
+  }));
+  if (created.length === 0) {
+    return { status: 'no_lockup' };
+  }
+
+  const lockups: ConfirmedLockup[] = [];
+  const valid: LockupCreatedEvent[] = [];
+  const invalidIds: number[] = [];
+  for (const ev of created) {
+    const isValid = isValidStake({
+      lockupId: String(ev.lockUpId),
+      token: ev.token,
+      isERC20: ev.token !== zeroAddress,
+      unlockTime: ev.unlockTime,
+      unlocked: false,
+      amount: BigInt(ev.amount),
+      receiver: ev.receiver,
+      title: ev.title,
+    }, currentTime);
+    lockups.push({ lockUpId: ev.lockUpId, castHash: normalizeTitleHash(ev.title), valid: isValid });
+    if (isValid) {
+      valid.push(ev);
+    } else {
+      invalidIds.push(ev.lockUpId);
+    }
+  }
+
+  if (valid.length === 0) {
+    return { status: 'confirmed', lockups, castsUpdated: [], skipped: invalidIds };
+  }
+
+  const { castsUpdated, skipped } = await ingestLockupEvents({ created: valid, unlockedIds: [] });
+  return { status: 'confirmed', lockups, castsUpdated, skipped: [...invalidIds, ...skipped] };
+}
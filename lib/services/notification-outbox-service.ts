@@ -0,0 +1,478 @@
+import { createHash } from 'crypto';
+import { sql } from '@vercel/postgres';
+
+export type NotificationType =
+  | 'stake_expired'
+  | 'stake_expiring'
+  | 'supporter_added'
+  | 'rank_change'
+  | 'caster_stake_lost'
+  | 'weekly_digest';
+
+export type OutboxState = 'pending' | 'sending' | 'delivered' | 'failed' | 'skipped';
+
+/**
+ * Outcome of one delivery attempt, as recorded in notification_attempts
+ */
+export type AttemptOutcome =
+  | 'delivered'
+  | 'rate_limited' // Farcaster rate-limited the token; retried
+  | 'invalid_token' // token listed in invalidTokens; disabled and not retried
+  | 'rejected' // whole request refused (4xx other than 429); not retried, tokens left enabled
+  | 'no_token' // fid has no enabled notification token; not retried
+  | 'http_error' // 429 / 5xx / unexpected response; retried
+  | 'network_error'; // request failed; retried
+
+export interface NotificationPayload {
+  title: string;
+  body: string;
+  targetUrl: string;
+}
+
+export interface OutboxMessage {
+  id: number;
+  notificationType: NotificationType;
+  fid: number;
+  referenceId: string;
+  notificationId: string;
+  payload: NotificationPayload;
+  state: OutboxState;
+  attempts: number;
+  nextAttemptAt: string; // ISO timestamp
+  lastError: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+export interface DeliveryAttempt {
+  outcome: AttemptOutcome;
+  httpStatus: number | null;
+  detail: string | null;
+}
+
+// Farcaster accepts at most this many tokens per notification request
+export const MAX_TOKENS_PER_REQUEST = 100;
+// Retries stop after this many attempts and the message is marked failed
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+// Farcaster allows one notification per token every 30 seconds
+const RATE_LIMIT_RETRY_DELAY_SECONDS = 60;
+// A message claimed for longer than this is assumed to belong to a crashed worker and is claimed again
+const STUCK_AFTER_SECONDS = 10 * 60;
+
+/**
+ * Delay before the next attempt: exponential from 30s, capped at 6h. Rate-limited tokens wait at least a minute.
+ */
+export function retryDelaySeconds(attempts: number, outcome: AttemptOutcome): number {
+  const backoff = Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS);
+  return outcome === 'rate_limited' ? Math.max(backoff, RATE_LIMIT_RETRY_DELAY_SECONDS) : backoff;
+}
+
+export function isRetryable(outcome: AttemptOutcome): boolean {
+  return outcome === 'rate_limited' || outcome === 'http_error' || outcome === 'network_error';
+}
+
+/**
+ * Classify a Farcaster notification endpoint response for one token.
+ * Reference: https://miniapps.farcaster.xyz/docs/guides/notifications
+ */
+export function classifyDeliveryResponse(status: number, result: any, token: string): DeliveryAttempt {
+  // A refused request says nothing about individual tokens; only invalidTokens disables a token
+  if (status >= 400 && status < 500 && status !== 429) {
+    return { outcome: 'rejected', httpStatus: status, detail: null };
+  }
+  if (status < 200 || status >= 300) {
+    return { outcome: 'http_error', httpStatus: status, detail: null };
+  }
+  if (result?.successfulTokens?.includes(token)) {
+    return { outcome: 'delivered', httpStatus: status, detail: null };
+  }
+  if (result?.invalidTokens?.includes(token)) {
+    return { outcome: 'invalid_token', httpStatus: status, detail: 'token listed in invalidTokens' };
+  }
+  if (result?.rateLimitedTokens?.includes(token)) {
+    return { outcome: 'rate_limited', httpStatus: status, detail: 'token listed in rateLimitedTokens' };
+  }
+  return { outcome: 'http_error', httpStatus: status, detail: 'token missing from response' };
+}
+
+function rowToMessage(row: any): OutboxMessage {
+  return {
+    id: Number(row.id),
+    notificationType: row.notification_type,
+    fid: Number(row.fid),
+    referenceId: row.reference_id,
+    notificationId: row.notification_id,
+    payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+    state: row.state,
+    attempts: Number(row.attempts),
+    nextAttemptAt: new Date(row.next_attempt_at).toISOString(),
+    lastError: row.last_error ?? null,
+    createdAt: new Date(row.created_at).toISOString(),
+    deliveredAt: row.delivered_at ? new Date(row.delivered_at).toISOString() : null,
+  };
+}
+
+function digest(parts: string[]): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex').slice(0, 32);
+}
+
+/**
+ * Farcaster notificationId of a message. Derived from its reference and content, so it is stable across
+ * retries (Farcaster drops a duplicate if an earlier attempt did get through) while two notifications that
+ * only share their text stay distinct.
+ */
+export function notificationIdFor(notificationType: NotificationType, referenceId: string, payload: NotificationPayload): string {
+  return `higher-steaks-${notificationType}-${digest([referenceId, payload.title, payload.body, payload.targetUrl])}`;
+}
+
+/**
+ * Messages with the same payload key can go out in one notification request
+ */
+export function payloadKeyFor(notificationType: NotificationType, payload: NotificationPayload): string {
+  return digest([notificationType, payload.title, payload.body, payload.targetUrl]);
+}
+
+// notificationId of a request: the recipients' own notificationIds combined, so a retry of the same
+// recipients reuses it
+function batchNotificationId(notificationType: NotificationType, notificationIds: string[]): string {
+  const ids = Array.from(new Set(notificationIds)).sort();
+  return ids.length === 1 ? ids[0] : `higher-steaks-${notificationType}-${digest(ids)}`;
+}
+
+/**
+ * Add a notification to the outbox. Each (type, fid, referenceId) is enqueued once; returns the new
+ * message id, or null if it was already enqueued or sent.
+ */
+export async function enqueueNotification(
+  notificationType: NotificationType,
+  fid: number,
+  referenceId: string,
+  payload: NotificationPayload
+): Promise<number | null> {
+  const notificationId = notificationIdFor(notificationType, referenceId, payload);
+  const result = await sql`
+    INSERT INTO notification_outbox (notification_type, fid, reference_id, notification_id, payload)
+    SELECT ${notificationType}, ${fid}, ${referenceId}, ${notificationId}, ${JSON.stringify(payload)}::jsonb
+    -- Also skip notifications already in the notification_sent ledger (sent before the outbox existed)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM notification_sent
+      WHERE notification_type = ${notificationType} AND fid = ${fid} AND reference_id = ${referenceId}
+    )
+    ON CONFLICT (notification_type, fid, reference_id) DO NOTHING
+    RETURNING id
+  `;
+  return result.rows[0] ? Number(result.rows[0].id) : null;
+}
+
+/**
+ * Claim due messages for delivery: pending ones whose next attempt is due, and ones stuck in 'sending'.
+ * Claimed messages move to 'sending' with their attempt counted, so concurrent workers never share one.
+ */
+async function claimMessages(opts: { ids?: number[]; limit: number }): Promise<OutboxMessage[]> {
+  const ids = opts.ids ?? null;
+  const result = await sql`
+    UPDATE notification_outbox
+    SET state = 'sending', locked_at = NOW(), attempts = attempts + 1, updated_at = NOW()
+    WHERE id IN (
+      SELECT id FROM notification_outbox
+      WHERE ((state = 'pending' AND next_attempt_at <= NOW())
+          OR (state = 'sending' AND locked_at < NOW() - make_interval(secs => ${STUCK_AFTER_SECONDS})))
+        AND (${ids as any}::int[] IS NULL OR id = ANY(${ids as any}::int[]))
+      ORDER BY next_attempt_at ASC
+      LIMIT ${opts.limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  return result.rows.map(rowToMessage);
+}
+
+async function recordAttempt(messageId: number, attempt: DeliveryAttempt): Promise<void> {
+  await sql`
+    INSERT INTO notification_attempts (outbox_id, outcome, http_status, detail)
+    VALUES (${messageId}, ${attempt.outcome}, ${attempt.httpStatus}, ${attempt.detail})
+  `;
+}
+
+interface NotificationToken {
+  token: string;
+  url: string;
+}
+
+/**
+ * One notification request: recipients sharing a notification URL and payload key, each token at most
+ * once and at most MAX_TOKENS_PER_REQUEST tokens
+ */
+export interface DeliveryBatch {
+  url: string;
+  notificationId: string;
+  payload: NotificationPayload;
+  recipients: Array<{ message: OutboxMessage; token: string }>;
+}
+
+async function getNotificationTokens(fids: number[]): Promise<Map<number, NotificationToken>> {
+  const tokens = new Map<number, NotificationToken>();
+  if (fids.length === 0) return tokens;
+  const result = await sql`
+    SELECT fid, token, notification_url
+    FROM notification_tokens
+    WHERE fid = ANY(${fids as any}::int[]) AND enabled = true
+  `;
+  for (const row of result.rows) {
+    tokens.set(Number(row.fid), { token: row.token, url: row.notification_url });
+  }
+  return tokens;
+}
+
+/**
+ * Group messages into notification requests by notification URL and payload key. A second message for a
+ * token that is already in a request goes into another request, so each notification reaches the user.
+ * Messages whose fid has no token are returned separately.
+ */
+export function groupForDelivery(
+  messages: OutboxMessage[],
+  tokensByFid: Map<number, NotificationToken>,
+  maxTokens: number = MAX_TOKENS_PER_REQUEST
+): { batches: DeliveryBatch[]; withoutToken: OutboxMessage[] } {
+  const groups = new Map<string, DeliveryBatch[]>();
+  const batches: DeliveryBatch[] = [];
+  const withoutToken: OutboxMessage[] = [];
+
+  for (const message of messages) {
+    const tokenData = tokensByFid.get(message.fid);
+    if (!tokenData) {
+      withoutToken.push(message);
+      continue;
+    }
+    const key = JSON.stringify([tokenData.url, payloadKeyFor(message.notificationType, message.payload)]);
+    const group = groups.get(key) ?? [];
+    groups.set(key, group);
+    let batch = group.find(b => b.recipients.length < maxTokens && !b.recipients.some(r => r.token === tokenData.token));
+    if (!batch) {
+      batch = { url: tokenData.url, notificationId: '', payload: message.payload, recipients: [] };
+      group.push(batch);
+      batches.push(batch);
+    }
+    batch.recipients.push({ message, token: tokenData.token });
+  }
+
+  for (const batch of batches) {
+    batch.notificationId = batchNotificationId(
+      batch.recipients[0].message.notificationType,
+      batch.recipients.map(r => r.message.notificationId)
+    );
+  }
+  return { batches, withoutToken };
+}
+
+// Send one batch and classify the response for each recipient, by message id
+async function sendBatch(batch: DeliveryBatch): Promise<Map<number, DeliveryAttempt>> {
+  const attempts = new Map<number, DeliveryAttempt>();
+  const tokens = batch.recipients.map(r => r.token);
+
+  let response: Response;
+  try {
+    response = await fetch(batch.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        notificationId: batch.notificationId,
+        ...batch.payload,
+        tokens,
+      }),
+    });
+  } catch (err: any) {
+    const detail = String(err?.message || err).slice(0, 500);
+    for (const { message } of batch.recipients) {
+      attempts.set(message.id, { outcome: 'network_error', httpStatus: null, detail });
+    }
+    return attempts;
+  }
+
+  const text = await response.text().catch(() => '');
+  let result: any = null;
+  try {
+    result = text ? JSON.parse(text) : null;
+  } catch {
+    // Non-JSON body; classified by status alone
+  }
+
+  for (const { message, token } of batch.recipients) {
+    const attempt = classifyDeliveryResponse(response.status, result, token);
+    if (!response.ok && !attempt.detail) {
+      attempt.detail = text.slice(0, 500) || null;
+    }
+    attempts.set(message.id, attempt);
+  }
+
+  // Disable only the tokens Farcaster reported invalid, and only ones this request sent
+  const invalidTokens = new Set<string>(
+    response.ok && Array.isArray(result?.invalidTokens)
+      ? result.invalidTokens.filter((token: unknown) => typeof token === 'string' && tokens.includes(token))
+      : []
+  );
+
+  if (invalidTokens.size > 0) {
+    await sql`
+      UPDATE notification_tokens
+      SET enabled = false, updated_at = NOW()
+      WHERE token = ANY(${Array.from(invalidTokens) as any}::text[])
+    `;
+  }
+  return attempts;
+}
+
+// Record an attempt and move the message to its next state
+async function settleMessage(message: OutboxMessage, attempt: DeliveryAttempt): Promise<OutboxState> {
+  await recordAttempt(message.id, attempt);
+
+  if (attempt.outcome === 'delivered') {
+    await sql`
+      UPDATE notification_outbox
+      SET state = 'delivered', delivered_at = NOW(), locked_at = NULL, last_error = NULL, updated_at = NOW()
+      WHERE id = ${message.id}
+    `;
+    // notification_sent stays the ledger of delivered notifications
+    await sql`
+      INSERT INTO notification_sent (notification_type, fid, reference_id)
+      VALUES (${message.notificationType}, ${message.fid}, ${message.referenceId})
+      ON CONFLICT (notification_type, fid, reference_id) DO NOTHING
+    `;
+    return 'delivered';
+  }
+
+  const lastError = [attempt.outcome, attempt.httpStatus, attempt.detail].filter(v => v != null).join(': ');
+  let state: OutboxState;
+  if (attempt.outcome === 'no_token') {
+    state = 'skipped';
+  } else if (isRetryable(attempt.outcome) && message.attempts < MAX_DELIVERY_ATTEMPTS) {
+    state = 'pending';
+  } else {
+    state = 'failed';
+  }
+  const delay = state === 'pending' ? retryDelaySeconds(message.attempts, attempt.outcome) : 0;
+
+  await sql`
+    UPDATE notification_outbox
+    SET state = ${state},
+        next_attempt_at = NOW() + make_interval(secs => ${delay}),
+        locked_at = NULL,
+        last_error = ${lastError},
+        updated_at = NOW()
+    WHERE id = ${message.id}
+  `;
+  return state;
+}
+
+async function deliverClaimed(messages: OutboxMessage[]): Promise<Record<OutboxState, number>> {
+  const counts: Record<OutboxState, number> = { pending: 0, sending: 0, delivered: 0, failed: 0, skipped: 0 };
+  const tokensByFid = await getNotificationTokens(Array.from(new Set(messages.map(m => m.fid))));
+  const { batches, withoutToken } = groupForDelivery(messages, tokensByFid);
+
+  const settle = async (message: OutboxMessage, attempt: DeliveryAttempt) => {
+    counts[await settleMessage(message, attempt)] += 1;
+  };
+  await Promise.all(withoutToken.map(message => settle(message, { outcome: 'no_token', httpStatus: null, detail: null })));
+  for (const batch of batches) {
+    const attempts = await sendBatch(batch);
+    await Promise.all(batch.recipients.map(({ message }) => settle(message, attempts.get(message.id)!)));
+  }
+  return counts;
+}
+
+/**
+ * Try to deliver one message now (e.g. right after enqueueing it). Returns true if it was delivered;
+ * otherwise it stays in the outbox for the worker to retry.
+ */
+export async function deliverNotification(messageId: number): Promise<boolean> {
+  try {
+    const claimed = await claimMessages({ ids: [messageId], limit: 1 });
+    const counts = await deliverClaimed(claimed);
+    return counts.delivered > 0;
+  } catch (err) {
+    console.error(`[notification-outbox] Error delivering message ${messageId}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Outbox worker: deliver every due message, up to `limit`, one request per notification URL and payload key
+ * (up to MAX_TOKENS_PER_REQUEST tokens each). Returns the resulting state counts (pending = scheduled for
+ * another attempt).
+ */
+export async function deliverPendingNotifications(opts: { limit?: number } = {}): Promise<Record<OutboxState, number>> {
+  const claimed = await claimMessages({ limit: opts.limit ?? 1000 });
+  return deliverClaimed(claimed);
+}
+
+/**
+ * Outbox overview for the admin view: counts per state, messages stuck past their due time or claim,
+ * and failed messages, each with its recent attempts.
+ */
+export async function getOutboxOverview(opts: { limit?: number } = {}): Promise<{
+  counts: Record<string, number>;
+  stuck: Array<OutboxMessage & { attemptLog: Array<DeliveryAttempt & { attemptedAt: string }> }>;
+  failed: Array<OutboxMessage & { attemptLog: Array<DeliveryAttempt & { attemptedAt: string }> }>;
+}> {
+  const limit = opts.limit ?? 50;
+  const countsResult = await sql`
+    SELECT state, COUNT(*)::int AS count FROM notification_outbox GROUP BY state
+  `;
+  const stuckResult = await sql`
+    SELECT * FROM notification_outbox
+    WHERE (state = 'pending' AND next_attempt_at < NOW() - make_interval(secs => ${STUCK_AFTER_SECONDS}))
+       OR (state = 'sending' AND locked_at < NOW() - make_interval(secs => ${STUCK_AFTER_SECONDS}))
+    ORDER BY next_attempt_at ASC
+    LIMIT ${limit}
+  `;
+  const failedResult = await sql`
+    SELECT * FROM notification_outbox
+    WHERE state = 'failed'
+    ORDER BY updated_at DESC
+    LIMIT ${limit}
+  `;
+
+  const messages = [...stuckResult.rows, ...failedResult.rows].map(rowToMessage);
+  const ids = messages.map(m => m.id);
+  const attemptsResult = ids.length > 0
+    ? await sql`
+        SELECT outbox_id, outcome, http_status, detail, attempted_at
+        FROM notification_attempts
+        WHERE outbox_id = ANY(${ids as any}::int[])
+        ORDER BY attempted_at DESC
+      `
+    : { rows: [] as any[] };
+  const attemptsById = new Map<number, Array<DeliveryAttempt & { attemptedAt: string }>>();
+  for (const row of attemptsResult.rows) {
+    const list = attemptsById.get(Number(row.outbox_id)) ?? [];
+    list.push({
+      outcome: row.outcome,
+      httpStatus: row.http_status != null ? Number(row.http_status) : null,
+      detail: row.detail ?? null,
+      attemptedAt: new Date(row.attempted_at).toISOString(),
+    });
+    attemptsById.set(Number(row.outbox_id), list);
+  }
+  const withAttempts = (m: OutboxMessage) => ({ ...m, attemptLog: attemptsById.get(m.id) ?? [] });
+
+  return {
+    counts: Object.fromEntries(countsResult.rows.map(r => [r.state, Number(r.count)])),
+    stuck: stuckResult.rows.map(rowToMessage).map(withAttempts),
+    failed: failedResult.rows.map(rowToMessage).map(withAttempts),
+  };
+}
+
+/**
+ * Move failed or skipped messages back to pending for another round of attempts
+ */
+export async function requeueNotifications(ids: number[]): Promise<number> {
+  if (ids.length === 0) return 0;
+  const result = await sql`
+    UPDATE notification_outbox
+    SET state = 'pending', attempts = 0, next_attempt_at = NOW(), locked_at = NULL, updated_at = NOW()
+    WHERE id = ANY(${ids as any}::int[]) AND state IN ('failed', 'skipped')
+  `;
+  return result.rowCount ?? 0;
+}
@@ -0,0 +1,81 @@
+import { sql } from '@vercel/postgres';
+import {
+  NotificationPreference,
+  NotificationPreferenceKey,
+  resolvePreferences,
+} from '../notification-preferences';
+
+export interface NotificationPreferenceUpdate {
+  key: NotificationPreferenceKey;
+  enabled?: boolean;
+  threshold?: number;
+}
+
+/**
+ * Notification preferences for several fids, with defaults for events they have not set
+ */
+export async function getNotificationPreferencesForFids(fids: number[]): Promise<Map<number, NotificationPreference[]>> {
+  const preferences = new Map<number, NotificationPreference[]>();
+  if (fids.length === 0) return preferences;
+
+  const [rows, tokens] = await Promise.all([
+    sql`
+      SELECT fid, notification_type, enabled, threshold
+      FROM notification_preferences
+      WHERE fid = ANY(${fids as any}::int[])
+    `,
+    sql`
+      SELECT fid, threshold_usd
+      FROM notification_tokens
+      WHERE fid = ANY(${fids as any}::int[])
+    `,
+  ]);
+
+  const rowsByFid = new Map<number, Array<{ key: string; enabled: boolean; threshold: number | null }>>();
+  for (const row of rows.rows) {
+    const fid = Number(row.fid);
+    const list = rowsByFid.get(fid) ?? [];
+    list.push({ key: row.notification_type, enabled: row.enabled, threshold: row.threshold != null ? Number(row.threshold) : null });
+    rowsByFid.set(fid, list);
+  }
+  const supporterThresholds = new Map<number, number>();
+  for (const row of tokens.rows) {
+    if (row.threshold_usd != null) supporterThresholds.set(Number(row.fid), parseFloat(row.threshold_usd.toString()));
+  }
+
+  for (const fid of fids) {
+    preferences.set(fid, resolvePreferences(rowsByFid.get(fid) ?? [], supporterThresholds.get(fid)));
+  }
+  return preferences;
+}
+
+/**
+ * Notification preferences of a fid, with defaults for events they have not set
+ */
+export async function getNotificationPreferences(fid: number): Promise<NotificationPreference[]> {
+  const preferences = await getNotificationPreferencesForFids([fid]);
+  return preferences.get(fid)!;
+}
+
+/**
+ * Store preference changes for a fid (fields left out keep their current value) and return the full list
+ */
+export async function saveNotificationPreferences(
+  fid: number,
+  updates: NotificationPreferenceUpdate[]
+): Promise<NotificationPreference[]> {
+  const current = await getNotificationPreferences(fid);
+  for (const update of updates) {
+    const pref = current.find(p => p.key === update.key);
+    if (!pref) continue;
+    const enabled = update.enabled ?? pref.enabled;
+    const threshold = update.threshold ?? pref.threshold;
+    await sql`
+      INSERT INTO notification_preferences (fid, notification_type, enabled, threshold)
+      VALUES (${fid}, ${update.key}, ${enabled}, ${threshold})
+      ON CONFLICT (fid, notification_type)
+      DO UPDATE SET enabled = EXCLUDED.enabled, threshold = EXCLUDED.threshold, updated_at = NOW()
+    `;
+  }
+  return getNotificationPreferences(fid);
+}
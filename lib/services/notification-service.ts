@@ -1,5 +1,12 @@
 import { sql } from '@vercel/postgres';
 import { formatUnits } from 'viem';
+import { getLatestStakeTokenPrices, getLatestUsdPrice } from './price-service';
+import { getNotificationPreferences, getNotificationPreferencesForFids } from './notification-preferences-service';
+import { RANK_CHANGE_TOP_N, RankChangeEvent } from './rank-change-service';
+import { deliverNotification, enqueueNotification, NotificationPayload, NotificationType } from './notification-outbox-service';
+import { APP_URL, castPageUrl, stakeExtendUrl } from '../app-url';
+import { getKnownStakeToken, HIGHER_STAKE_TOKEN, KNOWN_STAKE_TOKENS, StakeToken } from '../tokens';
+import { isNotificationAllowed, NotificationPreference } from '../notification-preferences';
 
 // Format token amount with K/M/B suffixes (same as UserModal)
 function formatTokenAmount(amount: string): string {
@@ -18,211 +25,87 @@ function formatTokenAmount(amount: string): string {
   }
 }
 
-// Get HIGHER token price in USD from CoinGecko
-async function getHigherPrice(): Promise<number> {
-  try {
-    const priceResponse = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=higher&vs_currencies=usd', {
-      next: { revalidate: 300 },
-    });
-    if (priceResponse.ok) {
-      const priceData = await priceResponse.json();
-      return priceData?.higher?.usd || 0;
-    }
-  } catch (err) {
-    console.warn('[notification-service] Failed to fetch HIGHER price:', err);
-  }
-  return 0;
-}
-
-// Check if notification was already sent to prevent duplicates
-async function hasNotificationBeenSent(
-  notificationType: 'stake_expired' | 'supporter_added',
-  fid: number,
-  referenceId: string
-): Promise<boolean> {
-  try {
-    const result = await sql`
-      SELECT id FROM notification_sent
-      WHERE notification_type = ${notificationType}
-        AND fid = ${fid}
-        AND reference_id = ${referenceId}
-      LIMIT 1
-    `;
-    return result.rows.length > 0;
-  } catch (err) {
-    console.error('[notification-service] Error checking notification_sent:', err);
-    return false;
-  }
+// USD price of a stake token from price_history (0 if unavailable)
+async function getTokenPrice(token: StakeToken): Promise<number> {
+  return (await getLatestUsdPrice(token.priceId)) ?? 0;
 }
 
-// Mark notification as sent
-async function markNotificationSent(
-  notificationType: 'stake_expired' | 'supporter_added',
-  fid: number,
-  referenceId: string
-): Promise<void> {
+// Notification preferences of a fid (lib/notification-preferences.ts); null if they cannot be loaded
+async function getPreferences(fid: number): Promise<NotificationPreference[] | null> {
   try {
-    await sql`
-      INSERT INTO notification_sent (notification_type, fid, reference_id)
-      VALUES (${notificationType}, ${fid}, ${referenceId})
-      ON CONFLICT (notification_type, fid, reference_id) DO NOTHING
-    `;
+    return await getNotificationPreferences(fid);
   } catch (err) {
-    console.error('[notification-service] Error marking notification as sent:', err);
-  }
-}
-
-// Get notification token from database (stored via webhook events)
-async function getNotificationToken(fid: number): Promise<{ token: string; url: string; threshold?: number } | null> {
-  try {
-    // Query database for enabled notification token
-    const result = await sql`
-      SELECT token, notification_url, threshold_usd 
-      FROM notification_tokens 
-      WHERE fid = ${fid} AND enabled = true 
-      LIMIT 1
-    `;
-    
-    if (result.rows.length === 0) {
-      return null;
-    }
-
-    const row = result.rows[0];
-    return {
-      token: row.token,
-      url: row.notification_url,
-      threshold: row.threshold_usd ? parseFloat(row.threshold_usd.toString()) : undefined,
-    };
-  } catch (err) {
-    console.error('[notification-service] Error getting notification token:', err);
+    console.error('[notification-service] Error getting notification preferences:', err);
     return null;
   }
 }
 
-// Get notification threshold for a user (defaults to $10 if not found)
-async function getNotificationThreshold(fid: number): Promise<number> {
-  try {
-    const result = await sql`
-      SELECT threshold_usd 
-      FROM notification_tokens 
-      WHERE fid = ${fid} AND enabled = true 
-      LIMIT 1
-    `;
-    
-    if (result.rows.length === 0 || !result.rows[0].threshold_usd) {
-      return 10.00; // Default threshold
-    }
-
-    return parseFloat(result.rows[0].threshold_usd.toString());
-  } catch (err) {
-    console.error('[notification-service] Error getting notification threshold:', err);
-    return 10.00; // Default threshold on error
-  }
-}
-
-// Send notification via Farcaster notification URL
+// Enqueue a notification in the outbox and, unless deliverNow is false, try to deliver it right away.
+// Returns false if it was already enqueued or not delivered yet; undelivered messages are delivered by
+// the outbox worker, batched per notification URL.
 async function sendNotification(
+  notificationType: NotificationType,
   fid: number,
-  title: string,
-  body: string,
-  targetUrl: string
+  referenceId: string,
+  payload: NotificationPayload,
+  deliverNow: boolean = true
 ): Promise<boolean> {
   try {
-    // Get token from database
-    const tokenData = await getNotificationToken(fid);
-    if (!tokenData) {
-      console.log(`[notification-service] No notification token for FID ${fid}`);
-      return false;
-    }
-
-    // Send to Farcaster notification URL
-    // Reference: https://miniapps.farcaster.xyz/docs/guides/notifications
-    const notificationId = `higher-steaks-${Date.now()}-${fid}`;
-    
-    const response = await fetch(tokenData.url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        notificationId,
-        title,
-        body,
-        targetUrl,
-        tokens: [tokenData.token],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[notification-service] Failed to send notification: ${response.status} ${errorText}`);
-      
-      // Handle invalid tokens - remove from database
-      if (response.status === 400 || response.status === 401) {
-        await sql`
-          UPDATE notification_tokens
-          SET enabled = false, updated_at = NOW()
-          WHERE fid = ${fid} AND token = ${tokenData.token}
-        `;
-      }
-      
+    const messageId = await enqueueNotification(notificationType, fid, referenceId, payload);
+    if (messageId === null) {
       return false;
     }
-
-    const result = await response.json();
-    
-    // Handle response: remove invalid tokens, track rate-limited tokens
-    if (result.invalidTokens && result.invalidTokens.length > 0) {
-      for (const invalidToken of result.invalidTokens) {
-        await sql`
-          UPDATE notification_tokens
-          SET enabled = false, updated_at = NOW()
-          WHERE fid = ${fid} AND token = ${invalidToken}
-        `;
-      }
-    }
-
-    return result.successfulTokens && result.successfulTokens.length > 0;
+    return deliverNow ? await deliverNotification(messageId) : true;
   } catch (err) {
     console.error('[notification-service] Error sending notification:', err);
     return false;
   }
 }
 
-// Send stake expiration notification
-export async function sendStakeExpiredNotification(
-  fid: number,
-  lockupId: string,
-  amount: string, // amount in wei
-  castOwner: { fid: number; username: string }
-): Promise<boolean> {
-  const referenceId = lockupId;
-  
-  // Check if already sent
-  if (await hasNotificationBeenSent('stake_expired', fid, referenceId)) {
-    return false;
-  }
-
-  // Convert from wei to HIGHER units for display
-  let amountHigher = '0';
+// Amount in a token's smallest unit, formatted for display (e.g. "1.20K HIGHER")
+function formatStakeAmount(amount: string, token: StakeToken): string {
+  let units = '0';
   try {
-    const wei = BigInt(amount ?? '0');
-    amountHigher = formatUnits(wei, 18);
+    units = formatUnits(BigInt(amount ?? '0'), token.decimals);
   } catch {
     // Fallback: use raw amount string if parsing fails
-    amountHigher = amount;
+    units = amount;
   }
+  return `${formatTokenAmount(units)} ${token.symbol}`;
+}
 
-  const formattedAmount = formatTokenAmount(amountHigher);
+// Enqueue a stake expiration notification for the outbox worker. Returns false if it was already enqueued.
+export async function queueStakeExpiredNotification(
+  fid: number,
+  lockupId: string,
+  amount: string, // in the token's smallest unit
+  castOwnerUsername: string,
+  token: StakeToken = HIGHER_STAKE_TOKEN
+): Promise<boolean> {
   const title = 'Higher Steak Cooked!';
-  const body = `Your stake of ${formattedAmount} HIGHER on @${castOwner.username} has completed. Withdraw now to continue supporting others!`;
-  const targetUrl = `https://higher-steaks.vercel.app?fid=${fid}`;
+  const body = `Your stake of ${formatStakeAmount(amount, token)} on @${castOwnerUsername} has completed. Withdraw now to continue supporting others!`;
+  const targetUrl = `${APP_URL}?fid=${fid}`;
 
-  const success = await sendNotification(fid, title, body, targetUrl);
-  
-  if (success) {
-    await markNotificationSent('stake_expired', fid, referenceId);
-  }
-  
-  return success;
+  return sendNotification('stake_expired', fid, lockupId, { title, body, targetUrl }, false);
+}
+
+// Enqueue a pre-expiry reminder for the outbox worker, linking to the restake flow on the cast.
+// Returns false if this reminder was already enqueued.
+export async function queueStakeReminderNotification(
+  fid: number,
+  lockupId: string,
+  amount: string, // in the token's smallest unit
+  castHash: string,
+  castOwnerUsername: string,
+  reminder: ReminderOffset,
+  token: StakeToken = HIGHER_STAKE_TOKEN
+): Promise<boolean> {
+  const referenceId = `${lockupId}-${reminder.label}`;
+  const title = 'Your steak is almost done';
+  const body = `Your stake of ${formatStakeAmount(amount, token)} on @${castOwnerUsername} unlocks in ${reminder.text}. Extend now to keep it on the menu!`;
+  const targetUrl = stakeExtendUrl(castHash);
+
+  return sendNotification('stake_expiring', fid, referenceId, { title, body, targetUrl }, false);
 }
 
 // Send supporter notification
@@ -232,130 +115,400 @@ export async function sendSupporterNotification(
   amount: string,
   castHash: string,
   description: string,
-  supporterUsername: string
+  supporterUsername: string,
+  token: StakeToken = HIGHER_STAKE_TOKEN
 ): Promise<boolean> {
-  // Get user's notification threshold from database (defaults to $10)
-  const threshold = await getNotificationThreshold(castOwnerFid);
-  
-  // Check threshold USD minimum
-  const pricePerToken = await getHigherPrice();
+  const preferences = await getPreferences(castOwnerFid);
+  if (!preferences) {
+    return false;
+  }
+
+  // Check the cast owner's new-support preference and USD minimum (amount is in the staked token)
+  const pricePerToken = await getTokenPrice(token);
   const amountNum = parseFloat(amount.replace(/,/g, ''));
   const usdValue = amountNum * pricePerToken;
-  
-  if (usdValue < threshold) {
-    console.log(`[notification-service] Supporter stake ${usdValue} USD below ${threshold} USD threshold for fid ${castOwnerFid}`);
+
+  if (!isNotificationAllowed(preferences, 'supporter_added', usdValue)) {
+    console.log(`[notification-service] Supporter stake of ${usdValue} USD not notified for fid ${castOwnerFid} (preferences)`);
     return false;
   }
 
   const referenceId = `${castHash}-${supporterFid}`;
-  
-  // Check if already sent
-  if (await hasNotificationBeenSent('supporter_added', castOwnerFid, referenceId)) {
-    return false;
-  }
 
   const formattedAmount = formatTokenAmount(amount);
   const title = `@${supporterUsername} is supporting you!`;
-  const body = `@${supporterUsername} just staked ${formattedAmount} HIGHER on your cast: ${description}`;
-  const targetUrl = `https://higher-steaks.vercel.app/cast/${castHash}`;
+  const body = `@${supporterUsername} just staked ${formattedAmount} ${token.symbol} on your cast: ${description}`;
+  const targetUrl = castPageUrl(castHash);
 
-  const success = await sendNotification(castOwnerFid, title, body, targetUrl);
-  
-  if (success) {
-    await markNotificationSent('supporter_added', castOwnerFid, referenceId);
+  return sendNotification('supporter_added', castOwnerFid, referenceId, { title, body, targetUrl });
+}
+
+/**
+ * A reminder sent `seconds` before a stake unlocks
+ */
+export interface ReminderOffset {
+  label: string; // as configured, e.g. '24h'
+  seconds: number;
+  text: string; // e.g. '24 hours'
+}
+
+// Reminders before unlock (override with STAKE_REMINDER_OFFSETS: comma-separated, units m/h/d)
+const DEFAULT_REMINDER_OFFSETS = '7d,24h,1h';
+
+// How often the outbox worker runs (the deliver-notifications schedule in vercel.json). A reminder closer to
+// unlock than this could fall between two runs, so shorter offsets are dropped.
+const REMINDER_RUN_INTERVAL_SECONDS = 5 * 60;
+
+// Expired stakes are still announced this long after unlock, so missed cron runs catch up
+const EXPIRED_CATCH_UP_SECONDS = 7 * 24 * 60 * 60;
+
+const OFFSET_UNITS: Record<string, { seconds: number; name: string }> = {
+  m: { seconds: 60, name: 'minute' },
+  h: { seconds: 60 * 60, name: 'hour' },
+  d: { seconds: 24 * 60 * 60, name: 'day' },
+};
+
+/**
+ * Parse reminder offsets such as "7d,24h,1h", largest first. Invalid entries, and offsets shorter than
+ * `minSeconds` (the worker interval) that no run may land in, are ignored.
+ */
+export function parseReminderOffsets(
+  value: string = process.env.STAKE_REMINDER_OFFSETS || DEFAULT_REMINDER_OFFSETS,
+  minSeconds: number = REMINDER_RUN_INTERVAL_SECONDS
+): ReminderOffset[] {
+  const offsets = new Map<number, ReminderOffset>();
+  for (const part of value.split(',')) {
+    const label = part.trim().toLowerCase();
+    if (!label) continue;
+    const match = label.match(/^(\d+)([mhd])$/);
+    const count = match ? parseInt(match[1], 10) : 0;
+    if (!match || count <= 0) {
+      console.warn(`[notification-service] Ignoring invalid reminder offset "${part.trim()}"`);
+      continue;
+    }
+    const unit = OFFSET_UNITS[match[2]];
+    const seconds = count * unit.seconds;
+    if (seconds < minSeconds) {
+      console.warn(`[notification-service] Ignoring reminder offset "${part.trim()}", shorter than the ${minSeconds}s worker interval`);
+      continue;
+    }
+    if (!offsets.has(seconds)) {
+      offsets.set(seconds, { label, seconds, text: `${count} ${unit.name}${count === 1 ? '' : 's'}` });
+    }
   }
-  
-  return success;
+  return Array.from(offsets.values()).sort((a, b) => b.seconds - a.seconds);
+}
+
+/**
+ * The reminder due for a stake: the closest offset whose time has come, while the stake is still locked.
+ * Only the closest is sent, so a run that lands late skips reminders that are already out of date.
+ */
+export function dueReminder(unlockTime: number, now: number, offsets: ReminderOffset[]): ReminderOffset | null {
+  if (now >= unlockTime) return null;
+  let due: ReminderOffset | null = null;
+  for (const offset of offsets) {
+    if (unlockTime - offset.seconds <= now && (!due || offset.seconds < due.seconds)) {
+      due = offset;
+    }
+  }
+  return due;
 }
 
-// Check and send expired stake notifications (for cron job)
-export async function checkAndSendExpiredStakeNotifications(): Promise<number> {
+// Enqueue pre-expiry reminders and expiry notifications for every locked stake that is due one (for cron
+// job, which then runs the outbox worker). Due notifications are found from the lockups themselves, so a
+// missed run catches up on the next one; the outbox enqueues each notification once.
+export async function queueStakeExpiryNotifications(): Promise<{ reminders: number; expired: number }> {
+  const queued = { reminders: 0, expired: 0 };
   try {
-    const currentTime = Math.floor(Date.now() / 1000);
-    
-    // Query expired stakes from database (both caster and supporter)
+    const now = Math.floor(Date.now() / 1000);
+    const offsets = parseReminderOffsets();
+    const horizon = offsets.length > 0 ? offsets[0].seconds : 0;
+
+    // lockups.fid is the staker: the creator for caster stakes, the supporter for supporter stakes
     const result = await sql`
-      SELECT DISTINCT
-        le.creator_fid,
-        le.creator_username,
-        le.caster_stake_lockup_ids,
-        le.caster_stake_amounts,
-        le.caster_stake_unlock_times,
-        le.caster_stake_unlocked,
-        le.supporter_stake_lockup_ids,
-        le.supporter_stake_amounts,
-        le.supporter_stake_fids,
-        le.supporter_stake_unlock_times,
-        le.supporter_stake_unlocked
-      FROM leaderboard_entries le
-      WHERE (le.caster_stake_unlock_times IS NOT NULL AND array_length(le.caster_stake_unlock_times, 1) > 0)
-         OR (le.supporter_stake_unlock_times IS NOT NULL AND array_length(le.supporter_stake_unlock_times, 1) > 0)
+      SELECT l.lockup_id, l.fid, l.amount, l.token, l.token_amount, l.unlock_time, l.cast_hash, le.creator_username
+      FROM lockups l
+      LEFT JOIN leaderboard_entries le ON le.cast_hash = l.cast_hash
+      WHERE l.unlocked = false
+        AND l.confirmed = true
+        AND l.fid > 0
+        AND l.unlock_time > ${now - EXPIRED_CATCH_UP_SECONDS}
+        AND l.unlock_time <= ${now + horizon}
+      ORDER BY l.unlock_time ASC
     `;
 
-    let sentCount = 0;
+    const preferencesByFid = await getNotificationPreferencesForFids(Array.from(new Set(result.rows.map(r => Number(r.fid)))));
+    const prices = await getLatestStakeTokenPrices(Object.values(KNOWN_STAKE_TOKENS));
 
     for (const row of result.rows) {
-      const creatorFid = row.creator_fid;
-      const creatorUsername = row.creator_username || `user-${creatorFid}`;
-
-      // Check caster stakes (stakes by cast owner on their own cast)
-      const casterLockupIds = row.caster_stake_lockup_ids || [];
-      const casterAmounts = row.caster_stake_amounts || [];
-      const casterUnlockTimes = row.caster_stake_unlock_times || [];
-      const casterUnlocked = row.caster_stake_unlocked || [];
-
-      for (let i = 0; i < casterLockupIds.length; i++) {
-        const unlockTime = casterUnlockTimes[i];
-        const isUnlocked = casterUnlocked[i];
-        const lockupId = casterLockupIds[i]?.toString();
-        const amount = casterAmounts[i]?.toString() || '0';
-
-        if (unlockTime && unlockTime <= currentTime && unlockTime > currentTime - 24 * 60 * 60 && !isUnlocked && lockupId) {
-          const success = await sendStakeExpiredNotification(
-            creatorFid,
-            lockupId,
-            amount,
-            { fid: creatorFid, username: creatorUsername }
-          );
-          if (success) {
-            sentCount++;
-          }
+      const token = getKnownStakeToken(row.token ?? HIGHER_STAKE_TOKEN.address);
+      if (!token) continue;
+      const fid = Number(row.fid);
+      const lockupId = row.lockup_id.toString();
+      const unlockTime = Number(row.unlock_time);
+      const amount = (row.token_amount ?? row.amount ?? '0').toString();
+      const castOwnerUsername = row.creator_username || 'a cast';
+
+      // The staker's stake-expiring preference; without a price the USD minimum cannot be checked, so it passes
+      const price = prices[token.priceId];
+      const usdValue = price > 0 ? parseFloat(formatUnits(BigInt(amount), token.decimals)) * price : Infinity;
+      if (!isNotificationAllowed(preferencesByFid.get(fid) ?? [], 'stake_expiring', usdValue)) continue;
+
+      if (unlockTime <= now) {
+        if (await queueStakeExpiredNotification(fid, lockupId, amount, castOwnerUsername, token)) {
+          queued.expired++;
         }
+        continue;
       }
 
-      // Check supporter stakes (stakes by supporters on this cast)
-      const supporterLockupIds = row.supporter_stake_lockup_ids || [];
-      const supporterAmounts = row.supporter_stake_amounts || [];
-      const supporterFids = row.supporter_stake_fids || [];
-      const supporterUnlockTimes = row.supporter_stake_unlock_times || [];
-      const supporterUnlocked = row.supporter_stake_unlocked || [];
-
-      for (let i = 0; i < supporterLockupIds.length; i++) {
-        const unlockTime = supporterUnlockTimes[i];
-        const isUnlocked = supporterUnlocked[i];
-        const lockupId = supporterLockupIds[i]?.toString();
-        const amount = supporterAmounts[i]?.toString() || '0';
-        const supporterFid = supporterFids[i];
-
-        if (unlockTime && unlockTime <= currentTime && unlockTime > currentTime - 24 * 60 * 60 && !isUnlocked && lockupId && supporterFid) {
-          // For supporter stakes, notify the supporter (not the cast owner)
-          // The cast owner is the "castOwner" in the notification message
-          const success = await sendStakeExpiredNotification(
-            supporterFid,
-            lockupId,
-            amount,
-            { fid: creatorFid, username: creatorUsername }
-          );
-          if (success) {
-            sentCount++;
-          }
-        }
+      const reminder = dueReminder(unlockTime, now, offsets);
+      if (reminder && await queueStakeReminderNotification(fid, lockupId, amount, row.cast_hash, castOwnerUsername, reminder, token)) {
+        queued.reminders++;
       }
     }
+  } catch (err) {
+    console.error('[notification-service] Error queueing stake expiry notifications:', err);
+  }
+  return queued;
+}
+
+// Rank-change notifications per fid in any 24 hours
+const RANK_NOTIFICATIONS_PER_DAY = 3;
+
+// Cast description shortened to fit a notification body
+function shortDescription(description: string): string {
+  const text = (description || '').trim();
+  return text.length > 48 ? `${text.slice(0, 47)}…` : text;
+}
+
+function rankChangePayload(event: RankChangeEvent): NotificationPayload {
+  const description = shortDescription(event.cast.description);
+  const targetUrl = castPageUrl(event.cast.castHash);
+  switch (event.kind) {
+    case 'top_1':
+      return { title: 'Your cast hit #1!', body: `"${description}" is now #1 on the Higher Steaks menu.`, targetUrl };
+    case 'entered_top':
+      return { title: `Your cast is in the top ${RANK_CHANGE_TOP_N}!`, body: `"${description}" moved up to #${event.cast.rank} on the menu.`, targetUrl };
+    case 'overtaken': {
+      const overtaker = event.overtakenBy?.creatorUsername ? `@${event.overtakenBy.creatorUsername}` : 'another cast';
+      return {
+        title: `You were overtaken by ${overtaker}`.slice(0, 32),
+        body: `${overtaker} passed "${description}", now #${event.cast.rank} on the menu. Add stake to climb back!`,
+        targetUrl,
+      };
+    }
+  }
+}
 
-    return sentCount;
+// Enqueue rank-change notifications for cast creators (after a sync; delivered by the outbox worker).
+// Each event is enqueued at most once per cast and UTC day, and each fid gets at most
+// RANK_NOTIFICATIONS_PER_DAY in 24 hours, best news first. Returns the number enqueued.
+export async function queueRankChangeNotifications(events: RankChangeEvent[]): Promise<number> {
+  if (events.length === 0) return 0;
+  let queued = 0;
+  try {
+    const fids = Array.from(new Set(events.map(e => e.cast.creatorFid).filter(fid => fid > 0)));
+    const preferencesByFid = await getNotificationPreferencesForFids(fids);
+    const recent = await sql`
+      SELECT fid, COUNT(*)::int AS count
+      FROM notification_outbox
+      WHERE notification_type = 'rank_change'
+        AND fid = ANY(${fids as any}::int[])
+        AND created_at > NOW() - INTERVAL '24 hours'
+      GROUP BY fid
+    `;
+    const recentCounts = new Map<number, number>(recent.rows.map(r => [Number(r.fid), Number(r.count)]));
+
+    const day = new Date().toISOString().slice(0, 10);
+    const priority: Record<RankChangeEvent['kind'], number> = { top_1: 0, entered_top: 1, overtaken: 2 };
+    const ordered = [...events].sort((a, b) => priority[a.kind] - priority[b.kind] || a.cast.rank - b.cast.rank);
+
+    for (const event of ordered) {
+      const fid = event.cast.creatorFid;
+      if (fid <= 0) continue;
+      if (!isNotificationAllowed(preferencesByFid.get(fid) ?? [], 'rank_change', event.cast.rank)) continue;
+      if ((recentCounts.get(fid) ?? 0) >= RANK_NOTIFICATIONS_PER_DAY) continue;
+
+      const referenceId = `${event.cast.castHash}-${event.kind}-${day}`;
+      if (await sendNotification('rank_change', fid, referenceId, rankChangePayload(event), false)) {
+        recentCounts.set(fid, (recentCounts.get(fid) ?? 0) + 1);
+        queued++;
+      }
+    }
+  } catch (err) {
+    console.error('[notification-service] Error queueing rank change notifications:', err);
+  }
+  return queued;
+}
+
+// The latest caster unlock time identifies a loss, so a cast that regains a caster stake and loses it again
+// notifies again
+function casterStakeLostReference(castHash: string, lastCasterUnlockTime: number): string {
+  return `${castHash}-${lastCasterUnlockTime}`;
+}
+
+export function casterStakeLostPayload(cast: { castHash: string; creatorUsername: string; description: string }): NotificationPayload {
+  const creator = cast.creatorUsername ? `@${cast.creatorUsername}` : 'The caster';
+  return {
+    title: 'A cast you support expired',
+    body: `${creator}'s caster stake on "${shortDescription(cast.description)}" ended, so it left the menu.`,
+    targetUrl: castPageUrl(cast.castHash),
+  };
+}
+
+// Enqueue caster-stake-lost notifications for the supporters of a cast that moved from 'higher' to
+// 'expired' (its caster stakes lapsed or were unlocked). Each supporter with a locked stake on the cast is
+// notified once per loss, if their caster_stake_lost preference allows the USD value of that stake; without
+// a price the minimum passes. Delivered by the outbox worker. Returns the number enqueued.
+export async function queueCasterStakeLostNotifications(
+  castHash: string,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<number> {
+  let queued = 0;
+  try {
+    const supporters = await sql`
+      SELECT l.fid, l.token, SUM(COALESCE(l.token_amount, l.amount)) AS amount
+      FROM lockups l
+      WHERE l.cast_hash = ${castHash}
+        AND l.stake_type = 'supporter'
+        AND l.unlocked = false
+        AND l.confirmed = true
+        AND l.fid > 0
+        AND l.unlock_time > ${now}
+      GROUP BY l.fid, l.token
+    `;
+    if (supporters.rows.length === 0) return 0;
+
+    const cast = await sql`
+      SELECT le.creator_username, le.description, MAX(l.unlock_time) AS last_caster_unlock_time
+      FROM leaderboard_entries le
+      LEFT JOIN lockups l ON l.cast_hash = le.cast_hash AND l.stake_type = 'caster'
+      WHERE le.cast_hash = ${castHash}
+      GROUP BY le.creator_username, le.description
+    `;
+    const row = cast.rows[0];
+    if (!row) return 0;
+    const referenceId = casterStakeLostReference(castHash, Number(row.last_caster_unlock_time ?? 0));
+    const payload = casterStakeLostPayload({ castHash, creatorUsername: row.creator_username, description: row.description });
+
+    // USD value of each supporter's stake on the cast, across tokens
+    const prices = await getLatestStakeTokenPrices(Object.values(KNOWN_STAKE_TOKENS));
+    const usdByFid = new Map<number, number>();
+    for (const r of supporters.rows) {
+      const token = getKnownStakeToken(r.token ?? HIGHER_STAKE_TOKEN.address);
+      const price = token ? prices[token.priceId] : 0;
+      const usdValue = token && price > 0 ? parseFloat(formatUnits(BigInt(r.amount.toString()), token.decimals)) * price : Infinity;
+      usdByFid.set(Number(r.fid), (usdByFid.get(Number(r.fid)) ?? 0) + usdValue);
+    }
+
+    const preferencesByFid = await getNotificationPreferencesForFids(Array.from(usdByFid.keys()));
+    for (const [fid, usdValue] of usdByFid) {
+      if (!isNotificationAllowed(preferencesByFid.get(fid) ?? [], 'caster_stake_lost', usdValue)) continue;
+      if (await sendNotification('caster_stake_lost', fid, referenceId, payload, false)) {
+        queued++;
+      }
+    }
+  } catch (err) {
+    console.error('[notification-service] Error queueing caster stake lost notifications:', err);
+  }
+  return queued;
+}
+
+/**
+ * One user's week for the weekly digest
+ */
+export interface WeeklyDigestSummary {
+  fid: number;
+  stakedAmount: string; // HIGHER-equivalent wei in locked stakes
+  stakedCasts: number; // casts those stakes are on
+  rankedCasts: number; // own casts on the menu
+  bestRank: number | null;
+}
+
+/**
+ * Digest week of a date: the UTC date of its Monday (e.g. '2026-10-19'), so each user gets one digest a week
+ */
+export function digestWeek(date: Date): string {
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
+
+export function weeklyDigestPayload(summary: WeeklyDigestSummary): NotificationPayload {
+  const parts: string[] = [];
+  if (summary.stakedCasts > 0) {
+    const amount = formatStakeAmount(summary.stakedAmount, HIGHER_STAKE_TOKEN);
+    parts.push(`You have ${amount} staked on ${summary.stakedCasts} cast${summary.stakedCasts === 1 ? '' : 's'}.`);
+  }
+  if (summary.rankedCasts > 0) {
+    const casts = summary.rankedCasts === 1 ? '1 of your casts is' : `${summary.rankedCasts} of your casts are`;
+    parts.push(`${casts} on the menu, best at #${summary.bestRank}.`);
+  }
+  return {
+    title: 'Your week on Higher Steaks',
+    body: parts.join(' '),
+    targetUrl: `${APP_URL}?fid=${summary.fid}`,
+  };
+}
+
+// Enqueue the weekly digest for every fid with notifications enabled that has locked stakes or casts on
+// the menu (for the weekly cron; delivered by the outbox worker). Gated on the weekly_digest preference
+// and the USD value of the user's locked stakes; without a HIGHER price the minimum passes. Each fid gets
+// one digest per week. Returns the number enqueued.
+export async function queueWeeklyDigestNotifications(now: Date = new Date()): Promise<number> {
+  let queued = 0;
+  try {
+    const tokens = await sql`SELECT fid FROM notification_tokens WHERE enabled = true`;
+    const fids = tokens.rows.map(r => Number(r.fid));
+    if (fids.length === 0) return 0;
+
+    const currentTime = Math.floor(now.getTime() / 1000);
+    const [stakes, casts] = await Promise.all([
+      sql`
+        SELECT fid, SUM(amount) AS amount, COUNT(DISTINCT cast_hash)::int AS casts
+        FROM lockups
+        WHERE fid = ANY(${fids as any}::int[])
+          AND unlocked = false
+          AND confirmed = true
+          AND unlock_time > ${currentTime}
+        GROUP BY fid
+      `,
+      sql`
+        SELECT creator_fid, COUNT(*)::int AS casts, MIN(rank) AS best_rank
+        FROM leaderboard_entries
+        WHERE creator_fid = ANY(${fids as any}::int[])
+          AND cast_state = 'higher'
+          AND rank IS NOT NULL
+        GROUP BY creator_fid
+      `,
+    ]);
+
+    const summaries = new Map<number, WeeklyDigestSummary>();
+    const summary = (fid: number) => {
+      if (!summaries.has(fid)) summaries.set(fid, { fid, stakedAmount: '0', stakedCasts: 0, rankedCasts: 0, bestRank: null });
+      return summaries.get(fid)!;
+    };
+    for (const row of stakes.rows) {
+      Object.assign(summary(Number(row.fid)), { stakedAmount: row.amount.toString(), stakedCasts: Number(row.casts) });
+    }
+    for (const row of casts.rows) {
+      Object.assign(summary(Number(row.creator_fid)), { rankedCasts: Number(row.casts), bestRank: Number(row.best_rank) });
+    }
+    if (summaries.size === 0) return 0;
+
+    const higherPrice = await getTokenPrice(HIGHER_STAKE_TOKEN);
+    const preferencesByFid = await getNotificationPreferencesForFids(Array.from(summaries.keys()));
+    const week = digestWeek(now);
+
+    for (const [fid, digest] of summaries) {
+      const usdValue = higherPrice > 0 ? parseFloat(formatUnits(BigInt(digest.stakedAmount), HIGHER_STAKE_TOKEN.decimals)) * higherPrice : Infinity;
+      if (!isNotificationAllowed(preferencesByFid.get(fid) ?? [], 'weekly_digest', usdValue)) continue;
+      if (await sendNotification('weekly_digest', fid, week, weeklyDigestPayload(digest), false)) {
+        queued++;
+      }
+    }
   } catch (err) {
-    console.error('[notification-service] Error checking expired stakes:', err);
-    return 0;
+    console.error('[notification-service] Error queueing weekly digests:', err);
   }
+  return queued;
 }
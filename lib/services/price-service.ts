@@ -0,0 +1,291 @@
+import { sql } from '@vercel/postgres';
+import { formatUnits } from 'viem';
+import { getPriceProvider } from '../providers';
+import { getKnownStakeToken, getStakeToken, getStakeTokens, HIGHER_STAKE_TOKEN, KNOWN_STAKE_TOKENS, StakeToken, StakeTokenPrices, toHigherEquivalent } from '../tokens';
+import { recomputeRanks, LockupRecord } from './db-service';
+import { rebuildCastFromLockups } from '../indexers/lockupsFromDune';
+
+// A stored price newer than this is used instead of asking the provider again
+const PRICE_MAX_AGE_SECONDS = 10 * 60;
+
+// Lock-time prices use the sample nearest to the lock time within this window
+const LOCK_PRICE_WINDOW_SECONDS = 24 * 60 * 60;
+
+export interface LockupValuation {
+  lockUsdValue: number | null; // at the token's price when locked; null until price_history covers the lock time
+  usdValue: number | null; // at the current price
+}
+
+/**
+ * Store a USD price sample. Samples are unique per asset and time.
+ */
+export async function recordPrice(assetId: string, usdPrice: number, source: string, observedAt: number = Math.floor(Date.now() / 1000)): Promise<void> {
+  await sql`
+    INSERT INTO price_history (asset_id, observed_at, usd_price, source)
+    VALUES (${assetId}, to_timestamp(${observedAt}), ${usdPrice}, ${source})
+    ON CONFLICT (asset_id, observed_at) DO NOTHING
+  `;
+}
+
+/**
+ * Latest USD price of an asset: the newest stored sample if it is recent, otherwise a fresh price from the
+ * price provider (recorded in price_history). Falls back to the newest stored sample when the provider
+ * has no price. Null if neither has one.
+ */
+export async function getLatestUsdPrice(assetId: string): Promise<number | null> {
+  const result = await sql`
+    SELECT usd_price, EXTRACT(EPOCH FROM observed_at) AS observed_at
+    FROM price_history
+    WHERE asset_id = ${assetId}
+    ORDER BY observed_at DESC
+    LIMIT 1
+  `;
+  const stored = result.rows[0];
+  const now = Math.floor(Date.now() / 1000);
+  if (stored && now - Number(stored.observed_at) <= PRICE_MAX_AGE_SECONDS) {
+    return Number(stored.usd_price);
+  }
+
+  const provider = getPriceProvider();
+  const price = await provider.getUsdPrice(assetId);
+  if (price !== null) {
+    await recordPrice(assetId, price, provider.name, now);
+    return price;
+  }
+  return stored ? Number(stored.usd_price) : null;
+}
+
+/**
+ * Latest USD prices for HIGHER and the given tokens, keyed by price id. Tokens without a price are left out.
+ */
+export async function getLatestStakeTokenPrices(tokens: StakeToken[] = getStakeTokens()): Promise<StakeTokenPrices> {
+  const priceIds = Array.from(new Set([HIGHER_STAKE_TOKEN.priceId, ...tokens.map(t => t.priceId)]));
+  const prices: StakeTokenPrices = {};
+  await Promise.all(priceIds.map(async priceId => {
+    const price = await getLatestUsdPrice(priceId);
+    if (price !== null) prices[priceId] = price;
+  }));
+  return prices;
+}
+
+/**
+ * Stored USD price of an asset nearest to a unix time, within a day of it. Null if there is none.
+ */
+export async function getUsdPriceAt(assetId: string, timestamp: number): Promise<number | null> {
+  const result = await sql`
+    SELECT usd_price
+    FROM price_history
+    WHERE asset_id = ${assetId}
+      AND observed_at BETWEEN to_timestamp(${timestamp - LOCK_PRICE_WINDOW_SECONDS}) AND to_timestamp(${timestamp + LOCK_PRICE_WINDOW_SECONDS})
+    ORDER BY ABS(EXTRACT(EPOCH FROM observed_at) - ${timestamp})
+    LIMIT 1
+  `;
+  return result.rows[0] ? Number(result.rows[0].usd_price) : null;
+}
+
+/**
+ * Store past prices from the price provider, if it has a history. Returns the number of samples fetched.
+ */
+export async function backfillPriceHistory(assetId: string, from: number, to: number): Promise<number> {
+  const provider = getPriceProvider();
+  if (!provider.getUsdPriceHistory || to <= from) {
+    return 0;
+  }
+  const points = await provider.getUsdPriceHistory(assetId, from, to);
+  if (points.length === 0) {
+    return 0;
+  }
+  await sql`
+    INSERT INTO price_history (asset_id, observed_at, usd_price, source)
+    SELECT ${assetId}, to_timestamp(p.observed_at), p.usd_price, ${provider.name}
+    FROM UNNEST(
+      ${points.map(p => p.timestamp) as any}::bigint[],
+      ${points.map(p => p.usdPrice) as any}::numeric[]
+    ) AS p(observed_at, usd_price)
+    ON CONFLICT (asset_id, observed_at) DO NOTHING
+  `;
+  return points.length;
+}
+
+/**
+ * Set lock_usd_price on lockups that do not have one yet, from the price_history sample nearest to their
+ * lock time, and convert lockups in other tokens to their HIGHER-equivalent amount at those lock-time
+ * prices (token amount × token price / HIGHER price × weight). Until then they count as 0. Lock times not
+ * yet covered are backfilled from the provider's history first. Tokens off the allow-list are left
+ * unpriced. Returns the number of lockups priced and the casts whose amounts were converted.
+ */
+export async function priceLockupsAtLockTime(): Promise<{ priced: number; castHashes: string[] }> {
+  const now = Math.floor(Date.now() / 1000);
+  const higherAddress = HIGHER_STAKE_TOKEN.address.toLowerCase();
+  const castHashes = new Set<string>();
+  let priced = 0;
+
+  for (const known of Object.values(KNOWN_STAKE_TOKENS)) {
+    const address = known.address.toLowerCase();
+    const isHigher = address === higherAddress;
+    const token = isHigher ? HIGHER_STAKE_TOKEN : getStakeToken(address);
+    if (!token) continue;
+
+    const range = await sql`
+      SELECT MIN(lock_time) AS min_lock_time, MAX(lock_time) AS max_lock_time
+      FROM lockups
+      WHERE lock_usd_price IS NULL AND lock_time IS NOT NULL AND token = ${address}
+    `;
+    const minLockTime = range.rows[0]?.min_lock_time;
+    if (minLockTime == null) continue;
+
+    // Converting needs HIGHER's lock-time price too
+    const from = Number(minLockTime) - LOCK_PRICE_WINDOW_SECONDS;
+    const to = Math.min(Number(range.rows[0].max_lock_time) + LOCK_PRICE_WINDOW_SECONDS, now);
+    for (const priceId of isHigher ? [token.priceId] : [token.priceId, HIGHER_STAKE_TOKEN.priceId]) {
+      try {
+        await backfillPriceHistory(priceId, from, to);
+      } catch (error) {
+        console.error(`[price-service] Failed to backfill ${priceId} prices:`, error);
+        // Price what the stored samples already cover
+      }
+    }
+
+    if (isHigher) {
+      const result = await sql`
+        UPDATE lockups l
+        SET lock_usd_price = (
+          SELECT p.usd_price
+          FROM price_history p
+          WHERE p.asset_id = ${token.priceId}
+            AND p.observed_at BETWEEN to_timestamp(l.lock_time - ${LOCK_PRICE_WINDOW_SECONDS}) AND to_timestamp(l.lock_time + ${LOCK_PRICE_WINDOW_SECONDS})
+          ORDER BY ABS(EXTRACT(EPOCH FROM p.observed_at) - l.lock_time)
+          LIMIT 1
+        ),
+        updated_at = NOW()
+        WHERE l.lock_usd_price IS NULL AND l.lock_time IS NOT NULL AND l.token = ${address}
+          AND EXISTS (
+            SELECT 1 FROM price_history p
+            WHERE p.asset_id = ${token.priceId}
+              AND p.observed_at BETWEEN to_timestamp(l.lock_time - ${LOCK_PRICE_WINDOW_SECONDS}) AND to_timestamp(l.lock_time + ${LOCK_PRICE_WINDOW_SECONDS})
+          )
+      `;
+      priced += result.rowCount ?? 0;
+      continue;
+    }
+
+    const pending = await sql`
+      SELECT lockup_id, cast_hash, token_amount, lock_time
+      FROM lockups
+      WHERE lock_usd_price IS NULL AND lock_time IS NOT NULL AND token = ${address}
+    `;
+    const converted: Array<{ lockupId: number; castHash: string; tokenAmount: string; lockTime: number; amount: string; price: number }> = [];
+    for (const row of pending.rows) {
+      const lockTime = Number(row.lock_time);
+      const tokenPrice = await getUsdPriceAt(token.priceId, lockTime);
+      const higherPrice = await getUsdPriceAt(HIGHER_STAKE_TOKEN.priceId, lockTime);
+      if (tokenPrice === null || higherPrice === null) continue;
+      const amount = toHigherEquivalent(BigInt(row.token_amount), token, {
+        [token.priceId]: tokenPrice,
+        [HIGHER_STAKE_TOKEN.priceId]: higherPrice,
+      });
+      if (amount === null) continue;
+      converted.push({
+        lockupId: Number(row.lockup_id),
+        castHash: row.cast_hash,
+        tokenAmount: String(row.token_amount),
+        lockTime,
+        amount: amount.toString(),
+        price: tokenPrice,
+      });
+    }
+    if (converted.length === 0) continue;
+
+    // Only rows still as read: a lockup rewritten meanwhile is converted on a later run
+    const result = await sql`
+      UPDATE lockups l
+      SET amount = v.amount, lock_usd_price = v.price, updated_at = NOW()
+      FROM UNNEST(
+        ${converted.map(c => c.lockupId) as any}::bigint[],
+        ${converted.map(c => c.tokenAmount) as any}::numeric[],
+        ${converted.map(c => c.lockTime) as any}::bigint[],
+        ${converted.map(c => c.amount) as any}::numeric[],
+        ${converted.map(c => c.price) as any}::numeric[]
+      ) AS v(lockup_id, token_amount, lock_time, amount, price)
+      WHERE l.lockup_id = v.lockup_id
+        AND l.lock_usd_price IS NULL
+        AND l.token = ${address}
+        AND l.token_amount = v.token_amount
+        AND l.lock_time = v.lock_time
+      RETURNING l.cast_hash
+    `;
+    priced += result.rowCount ?? 0;
+    for (const row of result.rows) castHashes.add(row.cast_hash);
+  }
+
+  return { priced, castHashes: Array.from(castHashes) };
+}
+
+/**
+ * Record current prices of the stake tokens, price lockups at their lock time (rebuilding and reranking
+ * casts whose other-token lockups were converted) and revalue every cast's usd_value at the current HIGHER
+ * price. Run after each lockup sync.
+ */
+export async function refreshPriceValuations(): Promise<{ lockupsPriced: number; castsRepriced: number; higherPrice: number | null }> {
+  const prices = await getLatestStakeTokenPrices();
+  const { priced: lockupsPriced, castHashes } = await priceLockupsAtLockTime();
+
+  let castsRepriced = 0;
+  for (const castHash of castHashes) {
+    if (await rebuildCastFromLockups(castHash)) castsRepriced += 1;
+  }
+  if (castsRepriced > 0) {
+    await recomputeRanks();
+  }
+
+  const higherPrice = prices[HIGHER_STAKE_TOKEN.priceId] ?? null;
+  if (higherPrice !== null) {
+    // total_higher_staked is HIGHER-equivalent, so one price values every token
+    await sql`
+      UPDATE leaderboard_entries
+      SET usd_value = total_higher_staked * ${higherPrice}
+    `;
+  }
+  return { lockupsPriced, castsRepriced, higherPrice };
+}
+
+/**
+ * USD value of a lockup in its own token, at lock time and now
+ */
+export function valueLockup(
+  lockup: Pick<LockupRecord, 'amount' | 'token' | 'tokenAmount' | 'lockUsdPrice'>,
+  prices: StakeTokenPrices
+): LockupValuation {
+  const token = getKnownStakeToken(lockup.token ?? HIGHER_STAKE_TOKEN.address);
+  if (!token) {
+    return { lockUsdValue: null, usdValue: null };
+  }
+  let units: number;
+  try {
+    units = parseFloat(formatUnits(BigInt(lockup.tokenAmount ?? lockup.amount), token.decimals));
+  } catch {
+    return { lockUsdValue: null, usdValue: null };
+  }
+  const price = prices[token.priceId];
+  return {
+    lockUsdValue: lockup.lockUsdPrice != null ? units * lockup.lockUsdPrice : null,
+    usdValue: price > 0 ? units * price : null,
+  };
+}
+
+/**
+ * Total lock-time and current value of lockups. Only lockups with both values count, so the two totals
+ * compare like with like.
+ */
+export function sumValuations(valuations: LockupValuation[]): LockupValuation & { valued: number } {
+  let lockUsdValue = 0;
+  let usdValue = 0;
+  let valued = 0;
+  for (const v of valuations) {
+    if (v.lockUsdValue === null || v.usdValue === null) continue;
+    lockUsdValue += v.lockUsdValue;
+    usdValue += v.usdValue;
+    valued += 1;
+  }
+  return valued > 0 ? { lockUsdValue, usdValue, valued } : { lockUsdValue: null, usdValue: null, valued: 0 };
+}
@@ -0,0 +1,267 @@
+import { sql } from '@vercel/postgres';
+import { getLockupsForCasts, getLockupsForFid, ValidatedLockupRecord } from './db-service';
+import { calculateWeightedStake } from '../supporter-helpers';
+import { getUserProvider } from '../providers';
+
+export interface StakeTimelineEntry {
+  lockupId: number;
+  stakeType: 'caster' | 'supporter';
+  fid: number;
+  amount: number; // tokens
+  lockTime: number | null;
+  unlockTime: number;
+  unlocked: boolean;
+  isValid: boolean;
+  weightedStake: number; // higher-days so far
+}
+
+export interface CookedCast {
+  castHash: string;
+  castText: string;
+  description: string;
+  castTimestamp: string;
+  castState: 'valid' | 'higher' | 'expired';
+  rank: number | null;
+  weightedRank: number | null;
+  totalHigherStaked: number;
+  usdValue: number | null;
+  casterConviction: number; // higher-days of the creator's own stakes on the cast
+  supporterCount: number; // unique supporter fids with a valid stake
+  timeline: StakeTimelineEntry[]; // oldest lock first
+}
+
+export interface AttractedSupporter {
+  fid: number;
+  username: string;
+  displayName: string;
+  pfp: string;
+  totalStaked: number; // tokens, all stakes
+  activeStake: number; // tokens, valid stakes
+  weightedStake: number;
+  castsBacked: number; // of this creator's casts
+}
+
+export interface BackedCast {
+  castHash: string;
+  creatorFid: number;
+  creatorUsername: string;
+  description: string;
+  castState: string;
+  totalStaked: number;
+  activeStake: number;
+  weightedStake: number;
+}
+
+export interface CreatorProfile {
+  fid: number;
+  username: string;
+  displayName: string;
+  pfpUrl: string;
+  casterConviction: number; // higher-days across all their casts
+  activeCasterStake: number; // tokens
+  casts: CookedCast[];
+  supporters: AttractedSupporter[];
+  backedCasts: BackedCast[];
+}
+
+function toTokens(wei: string): number {
+  try {
+    return Number(BigInt(wei)) / 1e18;
+  } catch {
+    return 0;
+  }
+}
+
+function lockupWeightedStake(lockup: ValidatedLockupRecord, currentTime: number): number {
+  if (!lockup.lockTime || !lockup.unlockTime) return 0;
+  try {
+    return calculateWeightedStake(BigInt(lockup.amount), lockup.lockTime, lockup.unlockTime, currentTime);
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * A cast's summary and stake timeline from its leaderboard_entries row and lockups
+ */
+export function buildCookedCast(row: any, lockups: ValidatedLockupRecord[], currentTime: number): CookedCast {
+  const timeline = lockups
+    .map(l => ({
+      lockupId: l.lockupId,
+      stakeType: l.stakeType,
+      fid: l.fid,
+      amount: toTokens(l.amount),
+      lockTime: l.lockTime,
+      unlockTime: l.unlockTime,
+      unlocked: l.unlocked,
+      isValid: l.isValid,
+      weightedStake: lockupWeightedStake(l, currentTime),
+    }))
+    .sort((a, b) => (a.lockTime ?? 0) - (b.lockTime ?? 0) || a.lockupId - b.lockupId);
+
+  const supporterFids = new Set(
+    timeline.filter(t => t.stakeType === 'supporter' && t.isValid && t.fid > 0).map(t => t.fid)
+  );
+
+  return {
+    castHash: row.cast_hash,
+    castText: row.cast_text,
+    description: row.description,
+    castTimestamp: new Date(row.cast_timestamp).toISOString(),
+    castState: row.cast_state,
+    rank: row.rank != null ? Number(row.rank) : null,
+    weightedRank: row.weighted_rank != null ? Number(row.weighted_rank) : null,
+    totalHigherStaked: parseFloat(row.total_higher_staked ?? '0') || 0,
+    usdValue: row.usd_value != null ? parseFloat(row.usd_value) : null,
+    casterConviction: timeline
+      .filter(t => t.stakeType === 'caster')
+      .reduce((sum, t) => sum + t.weightedStake, 0),
+    supporterCount: supporterFids.size,
+    timeline,
+  };
+}
+
+/**
+ * Supporter stakes on a creator's casts, aggregated per supporter fid (unknown fid 0 skipped), by higher-days
+ */
+export function aggregateAttractedSupporters(
+  lockups: ValidatedLockupRecord[],
+  currentTime: number
+): Array<Omit<AttractedSupporter, 'username' | 'displayName' | 'pfp'>> {
+  const supporters = new Map<number, { fid: number; totalStaked: number; activeStake: number; weightedStake: number; casts: Set<string> }>();
+
+  for (const l of lockups) {
+    if (l.stakeType !== 'supporter' || l.fid <= 0) continue;
+    if (!supporters.has(l.fid)) {
+      supporters.set(l.fid, { fid: l.fid, totalStaked: 0, activeStake: 0, weightedStake: 0, casts: new Set() });
+    }
+    const supporter = supporters.get(l.fid)!;
+    const amount = toTokens(l.amount);
+    supporter.totalStaked += amount;
+    if (l.isValid) supporter.activeStake += amount;
+    supporter.weightedStake += lockupWeightedStake(l, currentTime);
+    supporter.casts.add(l.castHash);
+  }
+
+  return Array.from(supporters.values())
+    .map(({ casts, ...supporter }) => ({ ...supporter, castsBacked: casts.size }))
+    .sort((a, b) => b.weightedStake - a.weightedStake || b.totalStaked - a.totalStaked || a.fid - b.fid);
+}
+
+/**
+ * A fid's own supporter stakes grouped by cast, largest higher-days first. castRows supplies creator
+ * and description; casts missing from it are still listed.
+ */
+export function aggregateBackedCasts(lockups: ValidatedLockupRecord[], castRows: any[], currentTime: number): BackedCast[] {
+  const rowsByHash = new Map<string, any>(castRows.map(row => [row.cast_hash, row]));
+  const casts = new Map<string, BackedCast>();
+
+  for (const l of lockups) {
+    if (l.stakeType !== 'supporter') continue;
+    if (!casts.has(l.castHash)) {
+      const row = rowsByHash.get(l.castHash);
+      casts.set(l.castHash, {
+        castHash: l.castHash,
+        creatorFid: row ? Number(row.creator_fid) : 0,
+        creatorUsername: row?.creator_username || '',
+        description: row?.description || '',
+        castState: row?.cast_state || 'invalid',
+        totalStaked: 0,
+        activeStake: 0,
+        weightedStake: 0,
+      });
+    }
+    const cast = casts.get(l.castHash)!;
+    const amount = toTokens(l.amount);
+    cast.totalStaked += amount;
+    if (l.isValid) cast.activeStake += amount;
+    cast.weightedStake += lockupWeightedStake(l, currentTime);
+  }
+
+  return Array.from(casts.values())
+    .sort((a, b) => b.weightedStake - a.weightedStake || b.totalStaked - a.totalStaked);
+}
+
+/**
+ * Everything a fid has cooked (higher, expired and valid casts with stake timelines), the supporters
+ * those casts attracted and the casts the fid backed. Null if the fid has no casts, stakes or profile.
+ */
+export async function getCreatorProfile(fid: number): Promise<CreatorProfile | null> {
+  const currentTime = Math.floor(Date.now() / 1000);
+
+  const castResult = await sql`
+    SELECT * FROM leaderboard_entries
+    WHERE creator_fid = ${fid} AND cast_state IN ('higher', 'expired', 'valid')
+    ORDER BY cast_timestamp DESC
+  `;
+  const castRows = castResult.rows;
+
+  const [castLockups, ownLockups] = await Promise.all([
+    getLockupsForCasts(castRows.map(row => row.cast_hash)),
+    getLockupsForFid(fid),
+  ]);
+
+  const lockupsByCast = new Map<string, ValidatedLockupRecord[]>();
+  for (const l of castLockups) {
+    if (!lockupsByCast.has(l.castHash)) lockupsByCast.set(l.castHash, []);
+    lockupsByCast.get(l.castHash)!.push(l);
+  }
+  const casts = castRows.map(row => buildCookedCast(row, lockupsByCast.get(row.cast_hash) ?? [], currentTime));
+
+  const backedLockups = ownLockups.filter(l => l.stakeType === 'supporter');
+  const backedHashes = Array.from(new Set(backedLockups.map(l => l.castHash)));
+  const backedRows = backedHashes.length > 0
+    ? (await sql`
+        SELECT cast_hash, creator_fid, creator_username, description, cast_state
+        FROM leaderboard_entries
+        WHERE cast_hash = ANY(${backedHashes as any}::text[])
+      `).rows
+    : [];
+  const backedCasts = aggregateBackedCasts(backedLockups, backedRows, currentTime);
+
+  const attracted = aggregateAttractedSupporters(castLockups, currentTime);
+
+  // Profiles for the creator and their supporters
+  const profiles = new Map<number, { username: string; displayName: string; pfpUrl: string }>();
+  try {
+    const users = await getUserProvider().getUsersByFids([fid, ...attracted.map(s => s.fid)]);
+    for (const user of users) {
+      profiles.set(user.fid, {
+        username: user.username,
+        displayName: user.displayName || user.username,
+        pfpUrl: user.pfpUrl,
+      });
+    }
+  } catch (userError) {
+    console.error('[profile-service] Error fetching users:', userError);
+    // Continue without profiles
+  }
+
+  const creator = profiles.get(fid);
+  if (!creator && casts.length === 0 && backedCasts.length === 0) {
+    return null;
+  }
+
+  const fallbackRow = castRows[0];
+  return {
+    fid,
+    username: creator?.username || fallbackRow?.creator_username || `fid-${fid}`,
+    displayName: creator?.displayName || fallbackRow?.creator_display_name || fallbackRow?.creator_username || `fid-${fid}`,
+    pfpUrl: creator?.pfpUrl || fallbackRow?.creator_pfp_url || '',
+    casterConviction: casts.reduce((sum, cast) => sum + cast.casterConviction, 0),
+    activeCasterStake: casts.reduce(
+      (sum, cast) => sum + cast.timeline
+        .filter(t => t.stakeType === 'caster' && t.isValid)
+        .reduce((castSum, t) => castSum + t.amount, 0),
+      0
+    ),
+    casts,
+    supporters: attracted.map(supporter => ({
+      ...supporter,
+      username: profiles.get(supporter.fid)?.username || `fid-${supporter.fid}`,
+      displayName: profiles.get(supporter.fid)?.displayName || `fid-${supporter.fid}`,
+      pfp: profiles.get(supporter.fid)?.pfpUrl || '',
+    })),
+    backedCasts,
+  };
+}
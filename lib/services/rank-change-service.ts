@@ -0,0 +1,77 @@
+import { sql } from '@vercel/postgres';
+
+// Casts moving into this many top ranks get an "entered the top" notification
+export const RANK_CHANGE_TOP_N = 10;
+
+export interface RankedCast {
+  castHash: string;
+  rank: number;
+  creatorFid: number;
+  creatorUsername: string;
+  description: string;
+}
+
+export type RankChangeKind = 'top_1' | 'entered_top' | 'overtaken';
+
+export interface RankChangeEvent {
+  kind: RankChangeKind;
+  cast: RankedCast;
+  previousRank: number | null; // null if the cast was not ranked before
+  overtakenBy?: RankedCast; // for 'overtaken': the cast that passed it, now closest above it
+}
+
+/**
+ * Ranked 'higher' casts, best first
+ */
+export async function getRankedCasts(): Promise<RankedCast[]> {
+  const result = await sql`
+    SELECT cast_hash, rank, creator_fid, creator_username, description
+    FROM leaderboard_entries
+    WHERE cast_state = 'higher' AND rank IS NOT NULL
+    ORDER BY rank ASC
+  `;
+  return result.rows.map(row => ({
+    castHash: row.cast_hash,
+    rank: Number(row.rank),
+    creatorFid: Number(row.creator_fid),
+    creatorUsername: row.creator_username,
+    description: row.description,
+  }));
+}
+
+/**
+ * Rank changes between two rankings, at most one per cast: it hit #1, it entered the top N, or it was
+ * overtaken by a cast that was below it. A cast passed by its own creator's cast is not reported as
+ * overtaken. Without a previous ranking there is nothing to compare, so no events.
+ */
+export function diffRanks(before: RankedCast[], after: RankedCast[], topN: number = RANK_CHANGE_TOP_N): RankChangeEvent[] {
+  if (before.length === 0) return [];
+  const previousRanks = new Map(before.map(c => [c.castHash, c.rank]));
+  const events: RankChangeEvent[] = [];
+
+  for (const cast of after) {
+    const previousRank = previousRanks.get(cast.castHash) ?? null;
+
+    if (cast.rank === 1 && previousRank !== 1) {
+      events.push({ kind: 'top_1', cast, previousRank });
+      continue;
+    }
+    if (cast.rank <= topN && (previousRank === null || previousRank > topN)) {
+      events.push({ kind: 'entered_top', cast, previousRank });
+      continue;
+    }
+    if (previousRank !== null && cast.rank > previousRank) {
+      // Casts now above this one that were ranked below it (or unranked) before; report the closest
+      const overtakenBy = after
+        .filter(other => other.rank < cast.rank
+          && other.creatorFid !== cast.creatorFid
+          && (previousRanks.get(other.castHash) ?? Infinity) > previousRank)
+        .sort((a, b) => b.rank - a.rank)[0];
+      if (overtakenBy) {
+        events.push({ kind: 'overtaken', cast, previousRank, overtakenBy });
+      }
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,172 @@
+import { sql } from '@vercel/postgres';
+import { getStakeRules, validateLockups, StakeRuleOptions } from '../stake-rules';
+import { getLockupsForCasts, groupLockupsByCast, LockupRecord } from './db-service';
+
+export interface LeaderboardSnapshot {
+  id: number;
+  takenAt: string; // ISO timestamp
+  source: string;
+  mode: string;
+  stakeRulesVersion: number;
+}
+
+export interface CastHistoryPoint {
+  snapshotId: number;
+  takenAt: string; // ISO timestamp
+  rank: number;
+  totalHigherStaked: string;
+  usdValue: string | null;
+  supporterCount: number;
+}
+
+/**
+ * Unique supporter fids with a valid stake, from every lockup of a cast
+ */
+export function countValidSupporters(
+  lockups: Array<Pick<LockupRecord, 'castHash' | 'stakeType' | 'fid' | 'unlockTime' | 'unlocked'>>,
+  opts: StakeRuleOptions = {}
+): number {
+  const fids = new Set<number>();
+  for (const l of validateLockups(lockups, opts)) {
+    if (l.stakeType === 'supporter' && l.isValid && l.fid > 0) fids.add(l.fid);
+  }
+  return fids.size;
+}
+
+/**
+ * Parse a time query parameter: unix seconds or an ISO 8601 date. Returns null if invalid.
+ */
+export function parseTimeParam(value: string): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const date = /^\d+$/.test(trimmed) ? new Date(Number(trimmed) * 1000) : new Date(trimmed);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function rowToSnapshot(row: any): LeaderboardSnapshot {
+  return {
+    id: Number(row.id),
+    takenAt: new Date(row.taken_at).toISOString(),
+    source: row.source,
+    mode: row.mode,
+    stakeRulesVersion: Number(row.stake_rules_version),
+  };
+}
+
+/**
+ * Record the current ranked casts (cast_state = 'higher') as an immutable snapshot.
+ * Called after every lockup sync, once ranks are final.
+ */
+export async function recordLeaderboardSnapshot(meta: {
+  source: string;
+  mode: string;
+}): Promise<{ snapshotId: number; entries: number }> {
+  const rules = getStakeRules();
+  const currentTime = Math.floor(Date.now() / 1000);
+
+  const current = await sql`
+    SELECT cast_hash, rank, total_higher_staked, usd_value
+    FROM leaderboard_entries
+    WHERE cast_state = 'higher' AND rank IS NOT NULL
+    ORDER BY rank ASC
+  `;
+
+  const rows = current.rows;
+  const lockupsByCast = groupLockupsByCast(await getLockupsForCasts(rows.map(r => r.cast_hash)));
+  const supporterCounts = rows.map(row =>
+    countValidSupporters(lockupsByCast.get(row.cast_hash) ?? [], { rules, currentTime })
+  );
+
+  // Header and entries in one statement, so readers never see a snapshot without its entries
+  const snapshot = await sql`
+    WITH snapshot AS (
+      INSERT INTO leaderboard_snapshots (source, mode, stake_rules_version)
+      VALUES (${meta.source}, ${meta.mode}, ${rules.version})
+      RETURNING id
+    ), entries AS (
+      INSERT INTO leaderboard_snapshot_entries
+        (snapshot_id, cast_hash, rank, total_higher_staked, usd_value, supporter_count)
+      SELECT snapshot.id, e.cast_hash, e.rank, e.total_higher_staked, e.usd_value, e.supporter_count
+      FROM snapshot, UNNEST(
+        ${rows.map(r => r.cast_hash) as any}::text[],
+        ${rows.map(r => Number(r.rank)) as any}::integer[],
+        ${rows.map(r => String(r.total_higher_staked ?? '0')) as any}::numeric[],
+        ${rows.map(r => (r.usd_value != null ? String(r.usd_value) : null)) as any}::numeric[],
+        ${supporterCounts as any}::integer[]
+      ) AS e(cast_hash, rank, total_higher_staked, usd_value, supporter_count)
+    )
+    SELECT id FROM snapshot
+  `;
+  const snapshotId = Number(snapshot.rows[0].id);
+
+  return { snapshotId, entries: rows.length };
+}
+
+/**
+ * Latest snapshot taken at or before `at`, or null if none exists yet
+ */
+export async function getSnapshotAt(at: Date): Promise<LeaderboardSnapshot | null> {
+  const result = await sql`
+    SELECT * FROM leaderboard_snapshots
+    WHERE taken_at <= ${at.toISOString()}
+    ORDER BY taken_at DESC, id DESC
+    LIMIT 1
+  `;
+  return result.rows.length > 0 ? rowToSnapshot(result.rows[0]) : null;
+}
+
+/**
+ * Entries of a snapshot in rank order, with display fields from leaderboard_entries.
+ * Rows use leaderboard_entries column names so they format like live entries.
+ */
+export async function getSnapshotEntries(snapshotId: number, limit: number = 10): Promise<any[]> {
+  const result = await sql`
+    SELECT
+      se.cast_hash, se.rank, se.total_higher_staked, se.usd_value, se.supporter_count,
+      le.creator_fid, le.creator_username, le.creator_display_name, le.creator_pfp_url,
+      le.cast_text, le.description, le.cast_timestamp
+    FROM leaderboard_snapshot_entries se
+    JOIN leaderboard_entries le ON le.cast_hash = se.cast_hash
+    WHERE se.snapshot_id = ${snapshotId}
+    ORDER BY se.rank ASC
+    LIMIT ${limit}
+  `;
+  return result.rows;
+}
+
+/**
+ * A cast's rank and totals across snapshots, oldest first. Snapshots in which the cast was not ranked are omitted.
+ */
+export async function getCastHistory(castHash: string, opts: {
+  from?: Date;
+  to?: Date;
+  limit?: number;
+} = {}): Promise<CastHistoryPoint[]> {
+  const from = (opts.from ?? new Date(0)).toISOString();
+  const to = (opts.to ?? new Date()).toISOString();
+  const limit = opts.limit ?? 500;
+
+  // Most recent `limit` points in the range, returned oldest first
+  const result = await sql`
+    SELECT * FROM (
+      SELECT s.id, s.taken_at, se.rank, se.total_higher_staked, se.usd_value, se.supporter_count
+      FROM leaderboard_snapshot_entries se
+      JOIN leaderboard_snapshots s ON s.id = se.snapshot_id
+      WHERE se.cast_hash = ${castHash}
+        AND s.taken_at >= ${from}
+        AND s.taken_at <= ${to}
+      ORDER BY s.taken_at DESC, s.id DESC
+      LIMIT ${limit}
+    ) points
+    ORDER BY taken_at ASC, id ASC
+  `;
+
+  return result.rows.map(row => ({
+    snapshotId: Number(row.id),
+    takenAt: new Date(row.taken_at).toISOString(),
+    rank: Number(row.rank),
+    totalHigherStaked: row.total_higher_staked?.toString() || '0',
+    usdValue: row.usd_value != null ? row.usd_value.toString() : null,
+    supporterCount: Number(row.supporter_count || 0),
+  }));
+}
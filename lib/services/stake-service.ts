@@ -1,6 +1,8 @@
-import { HIGHER_TOKEN_ADDRESS } from '../contracts';
+import { formatUnits } from 'viem';
 import { isValidCastHash } from '../cast-helpers';
-import { getHigherCast } from './db-service';
+import { getKnownStakeToken, getStakeToken, isHigherToken, HIGHER_STAKE_TOKEN, StakeToken, StakeTokenPrices } from '../tokens';
+import { getHigherCast, getLockupsForCast, ValidatedLockupRecord } from './db-service';
+import { getPriceProvider, getUserProvider } from '../providers';
 
 export interface LockupData {
   lockupId: string;
@@ -13,11 +15,9 @@ export interface LockupData {
   title: string;
 }
 
-export type StakeType = 'caster' | 'supporter' | 'invalid';
-
 /**
  * Check if a stake is valid
- * Valid if: (a) contains valid cast hash in title, (b) token = HIGHER, (c) currentTime < unlockTime
+ * Valid if: (a) contains valid cast hash in title, (b) token is on the stake token allow-list, (c) currentTime < unlockTime
  */
 export function isValidStake(lockup: LockupData, currentTime: number): boolean {
   // Check if title contains valid cast hash
@@ -25,8 +25,8 @@ export function isValidStake(lockup: LockupData, currentTime: number): boolean {
     return false;
   }
 
-  // Check if token is HIGHER
-  if (lockup.token.toLowerCase() !== HIGHER_TOKEN_ADDRESS.toLowerCase()) {
+  // Check if token is stakeable (lib/tokens.ts)
+  if (!getStakeToken(lockup.token)) {
     return false;
   }
 
@@ -44,70 +44,67 @@ export function isValidStake(lockup: LockupData, currentTime: number): boolean {
 }
 
 /**
- * Classify a stake as caster or supporter
- * Returns 'caster' if receiverAddress maps to caster fid, 'supporter' if not, 'invalid' if can't determine
+ * Current USD prices of HIGHER and the given tokens, for display. Ranked amounts are converted once, at
+ * lock-time prices (priceLockupsAtLockTime). Tokens whose price is unavailable are left out.
  */
-export async function classifyStake(
-  lockupId: string,
-  castHash: string,
-  receiverAddress: string
-): Promise<StakeType> {
-  // Get cast from DB to find creator FID
-  const cast = await getHigherCast(castHash);
-  if (!cast) {
-    // Can't classify without cast info
-    return 'invalid';
-  }
-
-  const creatorFid = cast.creatorFid;
-
-  // Map receiver address to FID using Neynar
-  const receiverFid = await getFidFromAddress(receiverAddress);
-  if (!receiverFid) {
-    // Can't determine FID, but we can still classify based on known addresses
-    // For now, return invalid if we can't map
-    return 'invalid';
-  }
-
-  // If receiver FID matches creator FID, it's a caster stake
-  if (receiverFid === creatorFid) {
-    return 'caster';
-  }
+export async function getStakeTokenPrices(tokens: StakeToken[]): Promise<StakeTokenPrices> {
+  const priceIds = Array.from(new Set([HIGHER_STAKE_TOKEN.priceId, ...tokens.map(t => t.priceId)]));
+  const prices: StakeTokenPrices = {};
+  await Promise.all(priceIds.map(async priceId => {
+    const price = await getPriceProvider().getUsdPrice(priceId);
+    if (price !== null) prices[priceId] = price;
+  }));
+  return prices;
+}
 
-  return 'supporter';
+export interface StakeTokenBreakdown {
+  token: string; // symbol
+  address: string;
+  tokenAmount: string; // in the token's smallest unit
+  higherEquivalent: string; // HIGHER-equivalent wei, as ranked
+  usdValue: number | null;
 }
 
 /**
- * Get FID from Ethereum address using Neynar
+ * Total valid stakes per token, HIGHER first. USD values use the token's own price, so mixed
+ * ETH/HIGHER stakes show what was actually locked.
  */
-async function getFidFromAddress(address: string): Promise<number | null> {
-  try {
-    const neynarApiKey = process.env.NEYNAR_API_KEY;
-    if (!neynarApiKey || neynarApiKey === 'your_neynar_api_key_here') {
-      return null;
+export function summarizeStakesByToken(lockups: ValidatedLockupRecord[], prices: StakeTokenPrices): StakeTokenBreakdown[] {
+  const totals = new Map<string, { token: StakeToken; tokenAmount: bigint; higherEquivalent: bigint }>();
+  for (const l of lockups) {
+    if (!l.isValid) continue;
+    const token = getKnownStakeToken(l.token ?? HIGHER_STAKE_TOKEN.address);
+    if (!token) continue;
+    let tokenAmount: bigint;
+    let higherEquivalent: bigint;
+    try {
+      tokenAmount = BigInt(l.tokenAmount ?? l.amount);
+      higherEquivalent = BigInt(l.amount);
+    } catch {
+      continue;
     }
+    const entry = totals.get(token.symbol) ?? { token, tokenAmount: 0n, higherEquivalent: 0n };
+    entry.tokenAmount += tokenAmount;
+    entry.higherEquivalent += higherEquivalent;
+    totals.set(token.symbol, entry);
+  }
 
-    const { NeynarAPIClient } = await import('@neynar/nodejs-sdk');
-    const neynarClient = new NeynarAPIClient({ apiKey: neynarApiKey });
-
-    const users = await neynarClient.fetchBulkUsersByEthOrSolAddress({
-      addresses: [address as `0x${string}`],
+  return Array.from(totals.values())
+    .sort((a, b) => (isHigherToken(a.token.address) ? -1 : isHigherToken(b.token.address) ? 1 : a.token.symbol.localeCompare(b.token.symbol)))
+    .map(({ token, tokenAmount, higherEquivalent }) => {
+      const price = prices[token.priceId];
+      return {
+        token: token.symbol,
+        address: token.address.toLowerCase(),
+        tokenAmount: tokenAmount.toString(),
+        higherEquivalent: higherEquivalent.toString(),
+        usdValue: price > 0 ? parseFloat(formatUnits(tokenAmount, token.decimals)) * price : null,
+      };
     });
-
-    const userArray = users[address.toLowerCase()];
-    if (userArray && userArray.length > 0) {
-      return userArray[0].fid;
-    }
-
-    return null;
-  } catch (error) {
-    console.error('[stake-service] Error getting FID from address:', error);
-    return null;
-  }
 }
 
 /**
- * Batch get FIDs from addresses using Neynar
+ * Batch get FIDs from addresses via the user provider
  */
 export async function getFidsFromAddresses(addresses: string[]): Promise<Map<string, number>> {
   const result = new Map<string, number>();
@@ -117,33 +114,12 @@ export async function getFidsFromAddresses(addresses: string[]): Promise<Map<str
   }
 
   try {
-    const neynarApiKey = process.env.NEYNAR_API_KEY;
-    if (!neynarApiKey || neynarApiKey === 'your_neynar_api_key_here') {
-      return result;
-    }
-
-    const { NeynarAPIClient } = await import('@neynar/nodejs-sdk');
-    const neynarClient = new NeynarAPIClient({ apiKey: neynarApiKey });
-
-    // Batch in chunks of 350 (Neynar limit)
-    const batchSize = 350;
-    for (let i = 0; i < addresses.length; i += batchSize) {
-      const batch = addresses.slice(i, i + batchSize);
-      try {
-        const users = await neynarClient.fetchBulkUsersByEthOrSolAddress({
-          addresses: batch as `0x${string}`[],
-        });
-
-        for (const [address, userArray] of Object.entries(users)) {
-          if (userArray && userArray.length > 0) {
-            result.set(address.toLowerCase(), userArray[0].fid);
-          }
-        }
-      } catch (error) {
-        console.error(`[stake-service] Error fetching FIDs for batch ${i / batchSize}:`, error);
+    const users = await getUserProvider().getUsersByAddresses(addresses);
+    for (const [address, userArray] of users) {
+      if (userArray.length > 0) {
+        result.set(address, userArray[0].fid);
       }
     }
-
     return result;
   } catch (error) {
     console.error('[stake-service] Error batch getting FIDs from addresses:', error);
@@ -166,43 +142,24 @@ export async function getStakesForCast(castHash: string): Promise<{
     fid: number;
   }>;
 }> {
-  const cast = await getHigherCast(castHash);
-  if (!cast) {
-    return { casterStakes: [], supporterStakes: [] };
-  }
-
-  // Filter valid caster stakes: !unlocked only (no expiry check)
-  const casterStakeUnlocked = cast.casterStakeUnlocked || [];
-  const casterStakes = cast.casterStakeLockupIds
-    .map((lockupId, index) => ({
-      lockupId: lockupId.toString(),
-      amount: cast.casterStakeAmounts[index] || '0',
-      unlockTime: cast.casterStakeUnlockTimes[index] || 0,
-      unlocked: casterStakeUnlocked[index] || false,
-    }))
-    .filter(stake => !stake.unlocked);
-
-  // Filter valid supporter stakes: !unlocked && unlockTime matches at least one caster unlockTime
-  const supporterStakeUnlockTimes = cast.supporterStakeUnlockTimes || [];
-  const supporterStakeUnlocked = cast.supporterStakeUnlocked || [];
-
-  // Build Set of ALL caster unlockTimes (regardless of unlocked status)
-  const casterUnlockSet = new Set(
-    cast.casterStakeUnlockTimes.filter((t: any) => typeof t === 'number' && Number.isFinite(t))
-  );
-
-  const supporterStakes = cast.supporterStakeLockupIds
-    .map((lockupId, index) => ({
-      lockupId: lockupId.toString(),
-      amount: cast.supporterStakeAmounts[index] || '0',
-      fid: cast.supporterStakeFids[index] || 0,
-      unlockTime: supporterStakeUnlockTimes[index] || 0,
-      unlocked: supporterStakeUnlocked[index] || false,
-    }))
-    .filter((stake) => {
-      // Valid supporter stake: !unlocked && unlockTime matches at least one caster unlockTime
-      return !stake.unlocked && casterUnlockSet.has(stake.unlockTime);
-    });
+  // Validity follows the stake rules (lib/stake-rules.ts), applied by getLockupsForCast
+  const lockups = await getLockupsForCast(castHash);
+
+  const casterStakes = lockups
+    .filter(l => l.stakeType === 'caster' && l.isValid)
+    .map(l => ({
+      lockupId: l.lockupId.toString(),
+      amount: l.amount,
+      unlockTime: l.unlockTime,
+    }));
+
+  const supporterStakes = lockups
+    .filter(l => l.stakeType === 'supporter' && l.isValid)
+    .map(l => ({
+      lockupId: l.lockupId.toString(),
+      amount: l.amount,
+      fid: l.fid,
+    }));
 
   return { casterStakes, supporterStakes };
 }
@@ -211,13 +168,10 @@ export async function getStakesForCast(castHash: string): Promise<{
  * Get min caster stake unlock time for a cast
  */
 export async function getMinCasterStakeUnlockTime(castHash: string): Promise<number> {
-  const cast = await getHigherCast(castHash);
-  if (!cast || cast.casterStakeUnlockTimes.length === 0) {
-    return 0;
-  }
-
   const currentTime = Math.floor(Date.now() / 1000);
-  const validUnlockTimes = cast.casterStakeUnlockTimes.filter(t => t > currentTime);
+  const validUnlockTimes = (await getLockupsForCast(castHash))
+    .filter(l => l.stakeType === 'caster' && !l.unlocked && l.unlockTime > currentTime)
+    .map(l => l.unlockTime);
 
   if (validUnlockTimes.length === 0) {
     return 0;
@@ -0,0 +1,139 @@
+/**
+ * Stake validity rules: which lockups count towards a cast's stake.
+ *
+ * Every consumer (indexer totals, db-service reads, API routes) evaluates validity through this module.
+ * Rule sets are versioned and never edited in place; change the rules by adding a version and selecting
+ * it with STAKE_RULES_VERSION.
+ */
+
+/**
+ * How a supporter stake's unlockTime is compared with the cast's caster stakes:
+ * - 'exact': equals at least one caster unlockTime
+ * - 'window': within toleranceSeconds of at least one caster unlockTime
+ * - 'min': at least the earliest caster unlockTime (minus toleranceSeconds)
+ */
+export type SupporterMatchMode = 'exact' | 'window' | 'min';
+
+export interface StakeRules {
+  version: number;
+  supporterMatch: SupporterMatchMode;
+  toleranceSeconds: number;
+  checkExpiry: boolean; // stakes at or past their unlockTime are invalid
+}
+
+export const STAKE_RULE_VERSIONS: Readonly<Record<number, StakeRules>> = {
+  // Original rule: caster stake valid while locked; supporter stake valid while locked and its
+  // unlockTime equals a caster unlockTime. Expiry is not checked.
+  1: { version: 1, supporterMatch: 'exact', toleranceSeconds: 0, checkExpiry: false },
+  // Supporter unlockTime within an hour of a caster unlockTime; expired stakes are invalid
+  2: { version: 2, supporterMatch: 'window', toleranceSeconds: 3600, checkExpiry: true },
+  // Supporter locks at least until the earliest caster unlockTime; expired stakes are invalid
+  3: { version: 3, supporterMatch: 'min', toleranceSeconds: 0, checkExpiry: true },
+};
+
+export const DEFAULT_STAKE_RULES_VERSION = 1;
+
+/**
+ * Rule set for a version, defaulting to STAKE_RULES_VERSION (or version 1).
+ * An unknown version falls back to the default with a warning rather than failing every read.
+ */
+export function getStakeRules(version?: number): StakeRules {
+  const requested = version ?? parseInt(process.env.STAKE_RULES_VERSION || '', 10);
+  const rules = STAKE_RULE_VERSIONS[requested];
+  if (rules) {
+    return rules;
+  }
+  if (Number.isFinite(requested)) {
+    console.warn(`[stake-rules] Unknown stake rules version ${requested}, using ${DEFAULT_STAKE_RULES_VERSION}`);
+  }
+  return STAKE_RULE_VERSIONS[DEFAULT_STAKE_RULES_VERSION];
+}
+
+export interface StakeRuleOptions {
+  rules?: StakeRules;
+  currentTime?: number; // unix seconds, defaults to now
+}
+
+interface StakeState {
+  unlocked: boolean;
+  unlockTime?: number | null;
+}
+
+function resolve(opts: StakeRuleOptions): { rules: StakeRules; currentTime: number } {
+  return {
+    rules: opts.rules ?? getStakeRules(),
+    currentTime: opts.currentTime ?? Math.floor(Date.now() / 1000),
+  };
+}
+
+function hasUnlockTime(stake: StakeState): stake is StakeState & { unlockTime: number } {
+  return typeof stake.unlockTime === 'number' && Number.isFinite(stake.unlockTime);
+}
+
+function isLive(stake: StakeState, rules: StakeRules, currentTime: number): boolean {
+  if (stake.unlocked) return false;
+  if (rules.checkExpiry && hasUnlockTime(stake) && stake.unlockTime <= currentTime) return false;
+  return true;
+}
+
+/**
+ * A caster stake is valid while it is locked (and, if the rules check expiry, unexpired)
+ */
+export function isCasterStakeValid(stake: StakeState, opts: StakeRuleOptions = {}): boolean {
+  const { rules, currentTime } = resolve(opts);
+  return isLive(stake, rules, currentTime);
+}
+
+/**
+ * A supporter stake is valid while it is live and its unlockTime matches the cast's caster stakes
+ * under rules.supporterMatch. casterUnlockTimes holds every caster stake of the cast, including
+ * unlocked and expired ones. A supporter stake with an unknown unlockTime cannot be matched and is invalid.
+ */
+export function isSupporterStakeValid(
+  stake: StakeState,
+  casterUnlockTimes: number[],
+  opts: StakeRuleOptions = {}
+): boolean {
+  const { rules, currentTime } = resolve(opts);
+  if (!hasUnlockTime(stake) || !isLive(stake, rules, currentTime)) {
+    return false;
+  }
+
+  const casterTimes = casterUnlockTimes.filter(t => typeof t === 'number' && Number.isFinite(t));
+  if (casterTimes.length === 0) {
+    return false;
+  }
+
+  switch (rules.supporterMatch) {
+    case 'exact':
+      return casterTimes.includes(stake.unlockTime);
+    case 'window':
+      return casterTimes.some(t => Math.abs(t - stake.unlockTime) <= rules.toleranceSeconds);
+    case 'min':
+      return stake.unlockTime >= Math.min(...casterTimes) - rules.toleranceSeconds;
+  }
+}
+
+/**
+ * Attach isValid to lockup rows. Supporter stakes are matched against the caster stakes of the same
+ * cast found in `lockups`, so pass every lockup of each cast involved.
+ */
+export function validateLockups<T extends StakeState & { castHash: string; stakeType: 'caster' | 'supporter'; unlockTime: number }>(
+  lockups: T[],
+  opts: StakeRuleOptions = {}
+): Array<T & { isValid: boolean }> {
+  const resolved = resolve(opts);
+  const casterTimesByCast = new Map<string, number[]>();
+  for (const l of lockups) {
+    if (l.stakeType !== 'caster') continue;
+    if (!casterTimesByCast.has(l.castHash)) casterTimesByCast.set(l.castHash, []);
+    casterTimesByCast.get(l.castHash)!.push(l.unlockTime);
+  }
+
+  return lockups.map(l => ({
+    ...l,
+    isValid: l.stakeType === 'caster'
+      ? isCasterStakeValid(l, resolved)
+      : isSupporterStakeValid(l, casterTimesByCast.get(l.castHash) ?? [], resolved),
+  }));
+}
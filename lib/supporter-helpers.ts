@@ -2,6 +2,8 @@
  * Helper functions for supporter modal and stake calculations
  */
 
+import { isSupporterStakeValid, StakeRuleOptions } from './stake-rules';
+
 /**
  * Format max caster unlock time to readable format (e.g., "30d", "2w", "5h")
  */
@@ -100,30 +102,17 @@ export function aggregateSupporterStakes(
 }
 
 /**
- * Filter valid supporter stakes based on unlock time matching.
- *
- * Rules:
- * - We no longer check for "not expired" (no currentTime comparison).
- * - A supporter stake is considered valid if its unlockTime matches
- *   at least one of the corresponding caster stake unlock times.
- *
- * If a supporter stake has no unlockTime, we currently keep it (cannot validate).
+ * Filter supporter stakes (all still locked) to those valid under the stake rules (lib/stake-rules.ts).
+ * Stakes without an unlockTime cannot be matched against the caster stakes and are dropped.
  */
 export function filterValidSupporterStakes(
   supporterStakes: Array<{ fid: number; pfp: string; totalAmount: string; unlockTime?: number }>,
-  casterUnlockTimes: number[]
+  casterUnlockTimes: number[],
+  opts: StakeRuleOptions = {}
 ): Array<{ fid: number; pfp: string; totalAmount: string }> {
-  const casterUnlockSet = new Set(casterUnlockTimes.filter(t => typeof t === 'number' && Number.isFinite(t)));
-
-  return supporterStakes.filter(stake => {
-    // If unlockTime is not available, we can't validate; include for now
-    if (stake.unlockTime === undefined) {
-      return true;
-    }
-
-    // Keep only if unlockTime matches at least one caster unlock time
-    return casterUnlockSet.has(stake.unlockTime);
-  });
+  return supporterStakes.filter(stake =>
+    isSupporterStakeValid({ unlocked: false, unlockTime: stake.unlockTime }, casterUnlockTimes, opts)
+  );
 }
 
 /**
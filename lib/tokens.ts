@@ -0,0 +1,123 @@
+import { zeroAddress } from 'viem';
+import { HIGHER_TOKEN_ADDRESS } from './contracts';
+
+/**
+ * A token that can be locked up as a stake. Stakes are ranked in HIGHER-equivalent units:
+ * amount × (token USD price / HIGHER USD price) × weight.
+ */
+export interface StakeToken {
+  symbol: string;
+  address: `0x${string}`;
+  decimals: number;
+  isERC20: boolean; // false for native ETH, locked by sending value with createLockUp
+  priceId: string; // asset id for the price provider (CoinGecko ids)
+  weight: number; // multiplier on the HIGHER-equivalent amount; HIGHER is always 1
+}
+
+export const HIGHER_STAKE_TOKEN: StakeToken = {
+  symbol: 'HIGHER',
+  address: HIGHER_TOKEN_ADDRESS,
+  decimals: 18,
+  isERC20: true,
+  priceId: 'higher',
+  weight: 1,
+};
+
+// Tokens on Base that can be enabled through NEXT_PUBLIC_STAKE_TOKENS
+export const KNOWN_STAKE_TOKENS: Readonly<Record<string, StakeToken>> = {
+  HIGHER: HIGHER_STAKE_TOKEN,
+  DEGEN: {
+    symbol: 'DEGEN',
+    address: '0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed',
+    decimals: 18,
+    isERC20: true,
+    priceId: 'degen-base',
+    weight: 1,
+  },
+  // Native ETH: the lockup contract records the zero address as the token
+  ETH: {
+    symbol: 'ETH',
+    address: zeroAddress,
+    decimals: 18,
+    isERC20: false,
+    priceId: 'ethereum',
+    weight: 1,
+  },
+  USDC: {
+    symbol: 'USDC',
+    address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    decimals: 6,
+    isERC20: true,
+    priceId: 'usd-coin',
+    weight: 1,
+  },
+};
+
+/**
+ * USD prices keyed by StakeToken.priceId
+ */
+export type StakeTokenPrices = Record<string, number>;
+
+/**
+ * Parse a stake token allow-list: comma-separated symbols, each optionally with a weight
+ * (e.g. "HIGHER,DEGEN:0.5"). HIGHER is always stakeable and always first; unknown symbols and
+ * invalid weights are ignored.
+ */
+export function parseStakeTokens(value: string | undefined): StakeToken[] {
+  const tokens: StakeToken[] = [HIGHER_STAKE_TOKEN];
+  for (const entry of (value || '').split(',')) {
+    const [rawSymbol, rawWeight] = entry.split(':').map(s => s.trim());
+    const known = KNOWN_STAKE_TOKENS[(rawSymbol || '').toUpperCase()];
+    if (!known || tokens.some(t => t.symbol === known.symbol)) continue;
+    const weight = rawWeight ? parseFloat(rawWeight) : known.weight;
+    tokens.push({ ...known, weight: Number.isFinite(weight) && weight > 0 ? weight : known.weight });
+  }
+  return tokens;
+}
+
+/**
+ * Stakeable tokens, configured with NEXT_PUBLIC_STAKE_TOKENS (defaults to HIGHER only)
+ */
+export function getStakeTokens(): StakeToken[] {
+  return parseStakeTokens(process.env.NEXT_PUBLIC_STAKE_TOKENS);
+}
+
+/**
+ * The allow-listed stake token at an address, or null if the token is not stakeable
+ */
+export function getStakeToken(address: string | null | undefined, tokens: StakeToken[] = getStakeTokens()): StakeToken | null {
+  if (!address) return null;
+  const wanted = address.toLowerCase();
+  return tokens.find(t => t.address.toLowerCase() === wanted) ?? null;
+}
+
+/**
+ * The known stake token at an address whether or not it is enabled, for labelling stored lockups
+ */
+export function getKnownStakeToken(address: string | null | undefined): StakeToken | null {
+  return getStakeToken(address, Object.values(KNOWN_STAKE_TOKENS));
+}
+
+export function isHigherToken(address: string | null | undefined): boolean {
+  return (address || '').toLowerCase() === HIGHER_TOKEN_ADDRESS.toLowerCase();
+}
+
+// Price ratios are applied as fixed-point integers with this many decimals
+const RATIO_DECIMALS = 12;
+
+/**
+ * Convert a raw token amount (in the token's smallest unit) to HIGHER-equivalent wei.
+ * Null if the token or HIGHER price is missing.
+ */
+export function toHigherEquivalent(amount: bigint, token: StakeToken, prices: StakeTokenPrices): bigint | null {
+  if (isHigherToken(token.address)) {
+    return amount;
+  }
+  const tokenPrice = prices[token.priceId];
+  const higherPrice = prices[HIGHER_STAKE_TOKEN.priceId];
+  if (!(tokenPrice > 0) || !(higherPrice > 0)) {
+    return null;
+  }
+  const ratio = BigInt(Math.round((tokenPrice / higherPrice) * token.weight * 10 ** RATIO_DECIMALS));
+  return (amount * ratio * BigInt(10) ** BigInt(18)) / (BigInt(10) ** BigInt(token.decimals + RATIO_DECIMALS));
+}
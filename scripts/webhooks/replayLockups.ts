@@ -0,0 +1,48 @@
+#!/usr/bin/env ts-node
+// Replay fixture lockup webhook payloads against a running app (default http://localhost:3000).
+// Usage: ts-node scripts/webhooks/replayLockups.ts [fixture.json ...]
+// Without arguments, replays lockup-created.json then lockup-unlocked.json.
+import 'dotenv/config';
+import { createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+
+const DEFAULT_FIXTURES = ['lockup-created.json', 'lockup-unlocked.json'];
+
+(async () => {
+	const signingKey = process.env.LOCKUP_WEBHOOK_SIGNING_KEY;
+	if (!signingKey) {
+		console.error('[replay] LOCKUP_WEBHOOK_SIGNING_KEY is not set');
+		process.exit(1);
+	}
+
+	const baseUrl = process.env.REPLAY_BASE_URL || 'http://localhost:3000';
+	const args = process.argv.slice(2);
+	const files = args.length > 0
+		? args
+		: DEFAULT_FIXTURES.map(f => path.join(__dirname, 'fixtures', f));
+
+	try {
+		for (const file of files) {
+			const body = readFileSync(file, 'utf8');
+			const signature = createHmac('sha256', signingKey).update(body, 'utf8').digest('hex');
+			const res = await fetch(`${baseUrl}/api/webhooks/lockups`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					'x-alchemy-signature': signature,
+				},
+				body,
+			});
+			const json = await res.json().catch(() => null);
+			console.log(`[replay] ${path.basename(file)} -> ${res.status}`, json);
+			if (!res.ok) {
+				process.exit(1);
+			}
+		}
+		process.exit(0);
+	} catch (err) {
+		console.error('[replay] failed', err);
+		process.exit(1);
+	}
+})();
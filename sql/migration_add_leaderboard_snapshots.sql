@@ -0,0 +1,27 @@
+-- Migration: Immutable leaderboard snapshots
+-- Every lockup sync records the ranked ('higher') casts as they stood after the sync, so past rankings
+-- and per-cast time series can be queried. Rows are only ever inserted.
+
+CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+  id SERIAL PRIMARY KEY,
+  taken_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  source VARCHAR(20) NOT NULL, -- lockup source of the sync ('dune' | 'chain')
+  mode VARCHAR(20) NOT NULL, -- 'full' | 'incremental'
+  stake_rules_version INTEGER NOT NULL -- lib/stake-rules.ts version used for supporter counts
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_snapshots_taken_at ON leaderboard_snapshots(taken_at);
+
+CREATE TABLE IF NOT EXISTS leaderboard_snapshot_entries (
+  snapshot_id INTEGER NOT NULL REFERENCES leaderboard_snapshots(id) ON DELETE CASCADE,
+  cast_hash VARCHAR(255) NOT NULL,
+  rank INTEGER NOT NULL,
+  total_higher_staked NUMERIC NOT NULL,
+  usd_value NUMERIC,
+  supporter_count INTEGER NOT NULL DEFAULT 0, -- unique supporter fids with a valid stake
+  PRIMARY KEY (snapshot_id, cast_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_snapshot_entries_cast ON leaderboard_snapshot_entries(cast_hash, snapshot_id);
+
+-- Verify: SELECT * FROM leaderboard_snapshots ORDER BY taken_at DESC LIMIT 5;
@@ -0,0 +1,63 @@
+-- Migration: Reorg- and idempotency-safe lockup writes
+-- Lockups seen within LOCKUP_CONFIRMATION_DEPTH blocks of the chain head are stored unconfirmed with their
+-- block and transaction, so the sync can confirm them later or drop them if they were reorged out.
+-- Existing rows are treated as confirmed.
+
+ALTER TABLE lockups ADD COLUMN IF NOT EXISTS block_number BIGINT;
+ALTER TABLE lockups ADD COLUMN IF NOT EXISTS tx_hash VARCHAR(66);
+ALTER TABLE lockups ADD COLUMN IF NOT EXISTS confirmed BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_lockups_unconfirmed ON lockups(block_number) WHERE NOT confirmed;
+
+-- valid_lockups selects l.*, so it (and the views on top of it) must be recreated to pick up the new columns
+DROP VIEW IF EXISTS network_stake_totals;
+DROP VIEW IF EXISTS cast_supporter_totals;
+DROP VIEW IF EXISTS cast_stake_totals;
+DROP VIEW IF EXISTS valid_lockups;
+
+-- Lockups annotated with validity:
+-- - caster stake: valid while not unlocked (no expiry check)
+-- - supporter stake: valid while not unlocked AND unlock_time matches any caster unlock_time on the same cast
+CREATE OR REPLACE VIEW valid_lockups AS
+SELECT
+  l.*,
+  CASE
+    WHEN l.stake_type = 'caster' THEN NOT l.unlocked
+    ELSE NOT l.unlocked AND EXISTS (
+      SELECT 1 FROM lockups c
+      WHERE c.cast_hash = l.cast_hash
+        AND c.stake_type = 'caster'
+        AND c.unlock_time = l.unlock_time
+    )
+  END AS is_valid
+FROM lockups l;
+
+-- Per-cast stake aggregates
+CREATE OR REPLACE VIEW cast_stake_totals AS
+SELECT
+  cast_hash,
+  COALESCE(SUM(amount) FILTER (WHERE stake_type = 'caster' AND is_valid), 0) AS total_caster_staked,
+  COALESCE(SUM(amount) FILTER (WHERE stake_type = 'supporter' AND is_valid), 0) AS total_supporter_staked,
+  COUNT(DISTINCT fid) FILTER (WHERE stake_type = 'supporter' AND is_valid AND fid > 0) AS unique_supporters,
+  MIN(unlock_time) FILTER (WHERE stake_type = 'caster' AND is_valid) AS min_caster_unlock_time,
+  MAX(unlock_time) FILTER (WHERE stake_type = 'caster' AND is_valid) AS max_caster_unlock_time
+FROM valid_lockups
+GROUP BY cast_hash;
+
+-- Per-cast, per-supporter active stake totals
+CREATE OR REPLACE VIEW cast_supporter_totals AS
+SELECT cast_hash, fid, SUM(amount) AS total_amount
+FROM valid_lockups
+WHERE stake_type = 'supporter' AND is_valid AND fid > 0
+GROUP BY cast_hash, fid;
+
+-- Network-wide totals over 'higher' casts
+CREATE OR REPLACE VIEW network_stake_totals AS
+SELECT
+  COALESCE(SUM(t.total_caster_staked), 0) AS total_caster_staked,
+  COALESCE(SUM(t.total_supporter_staked), 0) AS total_supporter_staked,
+  COUNT(*) AS total_casts_staked_on
+FROM leaderboard_entries le
+LEFT JOIN cast_stake_totals t ON t.cast_hash = le.cast_hash
+WHERE le.cast_state = 'higher';
+
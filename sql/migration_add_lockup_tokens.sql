@@ -0,0 +1,13 @@
+-- Migration: Lockups in tokens other than HIGHER
+-- Stakeable tokens are allow-listed in lib/tokens.ts (NEXT_PUBLIC_STAKE_TOKENS). amount stays the ranking unit:
+-- HIGHER-equivalent wei, converted at the lock-time price (migration_convert_lockups_at_lock_price.sql); token_amount keeps the raw amount in the staked token.
+-- Existing rows are HIGHER lockups.
+
+ALTER TABLE lockups ADD COLUMN IF NOT EXISTS token VARCHAR(42) NOT NULL DEFAULT '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe';
+ALTER TABLE lockups ADD COLUMN IF NOT EXISTS token_amount NUMERIC(78, 0);
+
+UPDATE lockups SET token_amount = amount WHERE token_amount IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lockups_token ON lockups(token);
+
+-- Verify: SELECT token, COUNT(*), SUM(token_amount), SUM(amount) FROM lockups GROUP BY token;
@@ -0,0 +1,103 @@
+-- Migration: Normalized lockups table (one row per lockup)
+-- Replaces the parallel caster_stake_* / supporter_stake_* arrays on leaderboard_entries as the
+-- source for stake queries. The arrays are dropped by migration_drop_stake_arrays.sql once this table
+-- is backfilled.
+
+CREATE TABLE IF NOT EXISTS lockups (
+  lockup_id INTEGER PRIMARY KEY, -- lockUpId on the lockup contract
+  cast_hash VARCHAR(255) NOT NULL, -- lockup title
+  sender VARCHAR(42), -- wallet that created the lockup (NULL for backfilled rows)
+  receiver VARCHAR(42), -- wallet that can unlock (NULL for backfilled rows)
+  fid INTEGER, -- creator fid for caster stakes, supporter fid for supporter stakes (0 if unknown)
+  amount NUMERIC(78, 0) NOT NULL DEFAULT 0, -- wei
+  lock_time BIGINT,
+  unlock_time BIGINT NOT NULL,
+  unlocked BOOLEAN NOT NULL DEFAULT false,
+  stake_type VARCHAR(20) NOT NULL, -- 'caster' or 'supporter'
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT lockups_stake_type_check CHECK (stake_type IN ('caster', 'supporter'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_lockups_cast_hash ON lockups(cast_hash);
+CREATE INDEX IF NOT EXISTS idx_lockups_fid ON lockups(fid);
+CREATE INDEX IF NOT EXISTS idx_lockups_cast_type_unlock ON lockups(cast_hash, stake_type, unlock_time);
+
+-- Backfill caster stakes from leaderboard_entries arrays
+INSERT INTO lockups (lockup_id, cast_hash, fid, amount, lock_time, unlock_time, unlocked, stake_type)
+SELECT s.lockup_id, le.cast_hash, le.creator_fid, COALESCE(s.amount, 0), s.lock_time, COALESCE(s.unlock_time, 0), COALESCE(s.unlocked, false), 'caster'
+FROM leaderboard_entries le,
+  unnest(
+    le.caster_stake_lockup_ids,
+    le.caster_stake_amounts,
+    le.caster_stake_lock_times,
+    le.caster_stake_unlock_times,
+    le.caster_stake_unlocked
+  ) AS s(lockup_id, amount, lock_time, unlock_time, unlocked)
+WHERE s.lockup_id IS NOT NULL
+ON CONFLICT (lockup_id) DO NOTHING;
+
+-- Backfill supporter stakes from leaderboard_entries arrays
+INSERT INTO lockups (lockup_id, cast_hash, fid, amount, lock_time, unlock_time, unlocked, stake_type)
+SELECT s.lockup_id, le.cast_hash, COALESCE(s.fid, 0), COALESCE(s.amount, 0), s.lock_time, COALESCE(s.unlock_time, 0), COALESCE(s.unlocked, false), 'supporter'
+FROM leaderboard_entries le,
+  unnest(
+    le.supporter_stake_lockup_ids,
+    le.supporter_stake_amounts,
+    le.supporter_stake_fids,
+    le.supporter_stake_lock_times,
+    le.supporter_stake_unlock_times,
+    le.supporter_stake_unlocked
+  ) AS s(lockup_id, amount, fid, lock_time, unlock_time, unlocked)
+WHERE s.lockup_id IS NOT NULL
+ON CONFLICT (lockup_id) DO NOTHING;
+
+-- Lockups annotated with validity:
+-- - caster stake: valid while not unlocked (no expiry check)
+-- - supporter stake: valid while not unlocked AND unlock_time matches any caster unlock_time on the same cast
+CREATE OR REPLACE VIEW valid_lockups AS
+SELECT
+  l.*,
+  CASE
+    WHEN l.stake_type = 'caster' THEN NOT l.unlocked
+    ELSE NOT l.unlocked AND EXISTS (
+      SELECT 1 FROM lockups c
+      WHERE c.cast_hash = l.cast_hash
+        AND c.stake_type = 'caster'
+        AND c.unlock_time = l.unlock_time
+    )
+  END AS is_valid
+FROM lockups l;
+
+-- Per-cast stake aggregates
+CREATE OR REPLACE VIEW cast_stake_totals AS
+SELECT
+  cast_hash,
+  COALESCE(SUM(amount) FILTER (WHERE stake_type = 'caster' AND is_valid), 0) AS total_caster_staked,
+  COALESCE(SUM(amount) FILTER (WHERE stake_type = 'supporter' AND is_valid), 0) AS total_supporter_staked,
+  COUNT(DISTINCT fid) FILTER (WHERE stake_type = 'supporter' AND is_valid AND fid > 0) AS unique_supporters,
+  MIN(unlock_time) FILTER (WHERE stake_type = 'caster' AND is_valid) AS min_caster_unlock_time,
+  MAX(unlock_time) FILTER (WHERE stake_type = 'caster' AND is_valid) AS max_caster_unlock_time
+FROM valid_lockups
+GROUP BY cast_hash;
+
+-- Per-cast, per-supporter active stake totals
+CREATE OR REPLACE VIEW cast_supporter_totals AS
+SELECT cast_hash, fid, SUM(amount) AS total_amount
+FROM valid_lockups
+WHERE stake_type = 'supporter' AND is_valid AND fid > 0
+GROUP BY cast_hash, fid;
+
+-- Network-wide totals over 'higher' casts
+CREATE OR REPLACE VIEW network_stake_totals AS
+SELECT
+  COALESCE(SUM(t.total_caster_staked), 0) AS total_caster_staked,
+  COALESCE(SUM(t.total_supporter_staked), 0) AS total_supporter_staked,
+  COUNT(*) AS total_casts_staked_on
+FROM leaderboard_entries le
+LEFT JOIN cast_stake_totals t ON t.cast_hash = le.cast_hash
+WHERE le.cast_state = 'higher';
+
+-- Verify: row counts should match the array lengths
+-- SELECT stake_type, COUNT(*) FROM lockups GROUP BY stake_type;
+-- SELECT SUM(array_length(caster_stake_lockup_ids, 1)), SUM(array_length(supporter_stake_lockup_ids, 1)) FROM leaderboard_entries;
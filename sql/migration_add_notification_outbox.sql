@@ -0,0 +1,37 @@
+-- Migration: durable notification outbox
+-- Every notification is enqueued here before it is sent. The outbox worker delivers due messages with
+-- exponential backoff, and each attempt's outcome is recorded in notification_attempts.
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id SERIAL PRIMARY KEY,
+  notification_type VARCHAR(50) NOT NULL, -- 'stake_expired' or 'supporter_added'
+  fid INTEGER NOT NULL,
+  reference_id VARCHAR(255) NOT NULL, -- same as notification_sent.reference_id
+  notification_id VARCHAR(128) NOT NULL, -- Farcaster notificationId, stable across retries
+  payload JSONB NOT NULL, -- { title, body, targetUrl }
+  state VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending | sending | delivered | failed | skipped
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP, -- when a worker claimed the message
+  last_error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  delivered_at TIMESTAMP,
+  UNIQUE(notification_type, fid, reference_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due ON notification_outbox(next_attempt_at) WHERE state IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_state ON notification_outbox(state);
+
+CREATE TABLE IF NOT EXISTS notification_attempts (
+  id SERIAL PRIMARY KEY,
+  outbox_id INTEGER NOT NULL REFERENCES notification_outbox(id) ON DELETE CASCADE,
+  attempted_at TIMESTAMP DEFAULT NOW(),
+  outcome VARCHAR(20) NOT NULL, -- delivered | rate_limited | invalid_token | rejected | no_token | http_error | network_error
+  http_status INTEGER,
+  detail TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_attempts_outbox ON notification_attempts(outbox_id);
+
+-- Verify: SELECT state, COUNT(*) FROM notification_outbox GROUP BY state;
@@ -0,0 +1,14 @@
+-- Migration: per-event notification preferences
+-- One row per fid and event the user has changed (lib/notification-preferences.ts); events without a row
+-- use their defaults. For 'supporter_added' the default threshold is notification_tokens.threshold_usd.
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  fid INTEGER NOT NULL,
+  notification_type VARCHAR(50) NOT NULL, -- supporter_added | stake_expiring | caster_stake_lost | rank_change | weekly_digest
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  threshold NUMERIC, -- USD minimum, or top-N rank for rank_change
+  updated_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (fid, notification_type)
+);
+
+-- Verify: SELECT notification_type, COUNT(*) FILTER (WHERE NOT enabled) AS disabled FROM notification_preferences GROUP BY notification_type;
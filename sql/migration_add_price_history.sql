@@ -0,0 +1,16 @@
+-- Migration: USD price history
+-- Prices are sampled from the configured price provider (PRICE_PROVIDER) on every sync and whenever a
+-- fresh price is needed, and backfilled from the provider's history where it has one. Each lockup keeps
+-- the USD price of its token at lock time so stakes can be valued "then vs now".
+
+CREATE TABLE IF NOT EXISTS price_history (
+  asset_id VARCHAR(64) NOT NULL, -- price provider asset id (StakeToken.priceId)
+  observed_at TIMESTAMP NOT NULL,
+  usd_price NUMERIC NOT NULL,
+  source VARCHAR(32) NOT NULL, -- price provider name
+  PRIMARY KEY (asset_id, observed_at)
+);
+
+ALTER TABLE lockups ADD COLUMN IF NOT EXISTS lock_usd_price NUMERIC;
+
+-- Verify: SELECT asset_id, COUNT(*), MIN(observed_at), MAX(observed_at) FROM price_history GROUP BY asset_id;
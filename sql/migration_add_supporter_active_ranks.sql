@@ -0,0 +1,17 @@
+-- Migration: Persisted supporter leaderboard
+-- /api/leaderboard/supporters reads both rankings from supporter_weighted_ranks instead of recomputing them
+-- per request. The sync job replaces the table after every run; a fid ranked in only one mode has NULL in
+-- the other rank column.
+
+ALTER TABLE supporter_weighted_ranks
+ALTER COLUMN rank DROP NOT NULL, -- by weighted_stake; NULL without higher-days
+ADD COLUMN IF NOT EXISTS active_stake NUMERIC NOT NULL DEFAULT 0, -- tokens in supporter stakes valid under the stake rules
+ADD COLUMN IF NOT EXISTS active_rank INTEGER, -- by active_stake; NULL without an active stake
+ADD COLUMN IF NOT EXISTS builders_backed INTEGER NOT NULL DEFAULT 0, -- distinct creator fids of the casts backed
+ADD COLUMN IF NOT EXISTS biggest_cast_hash VARCHAR(255), -- cast with the largest active stake
+ADD COLUMN IF NOT EXISTS biggest_active_stake NUMERIC;
+
+CREATE INDEX IF NOT EXISTS idx_supporter_weighted_ranks_active_rank ON supporter_weighted_ranks(active_rank);
+
+-- Run a sync afterwards to fill the new columns.
+-- Verify: SELECT fid, active_rank, active_stake, rank, weighted_stake FROM supporter_weighted_ranks ORDER BY active_rank LIMIT 10;
@@ -0,0 +1,8 @@
+-- Migration: Persisted supporter count per cast
+-- /api/leaderboard/top pages in SQL (keyset on the sort column and cast_hash), so every sort key needs a
+-- column. The sync job recomputes supporter_count with weighted_stake after every run.
+
+ALTER TABLE leaderboard_entries
+ADD COLUMN IF NOT EXISTS supporter_count INTEGER NOT NULL DEFAULT 0; -- unique supporter fids with a valid stake
+
+-- Verify: SELECT cast_hash, rank, supporter_count FROM leaderboard_entries WHERE cast_state = 'higher' ORDER BY supporter_count DESC LIMIT 10;
@@ -0,0 +1,12 @@
+-- Migration: Add persisted cursor for incremental lockup syncs
+-- One row per lockup source ('dune' or 'chain')
+
+CREATE TABLE IF NOT EXISTS lockup_sync_cursors (
+  source VARCHAR(20) PRIMARY KEY,
+  last_lockup_id INTEGER NOT NULL DEFAULT 0, -- highest lockUpId processed
+  last_block BIGINT, -- last block scanned (chain source only)
+  last_lock_time BIGINT NOT NULL DEFAULT 0, -- highest lockTime processed
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Verify: SELECT * FROM lockup_sync_cursors;
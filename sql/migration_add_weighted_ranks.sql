@@ -0,0 +1,22 @@
+-- Migration: Time-weighted ("higher-days") rankings
+-- The sync job recomputes these after every run, since higher-days keep growing while stakes are locked.
+-- weighted_rank sits next to the raw-amount rank: only 'higher' casts are ranked, other casts get NULL.
+
+ALTER TABLE leaderboard_entries
+ADD COLUMN IF NOT EXISTS weighted_stake NUMERIC, -- higher-days of every caster and supporter stake on the cast
+ADD COLUMN IF NOT EXISTS weighted_rank INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_weighted_rank ON leaderboard_entries(weighted_rank);
+
+-- Supporter fids ranked by higher-days of their supporter stakes across all casts (replaced on every sync)
+CREATE TABLE IF NOT EXISTS supporter_weighted_ranks (
+  fid INTEGER PRIMARY KEY,
+  weighted_stake NUMERIC NOT NULL,
+  rank INTEGER NOT NULL,
+  casts_backed INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supporter_weighted_ranks_rank ON supporter_weighted_ranks(rank);
+
+-- Verify: SELECT cast_hash, rank, weighted_rank, weighted_stake FROM leaderboard_entries WHERE weighted_rank IS NOT NULL ORDER BY weighted_rank LIMIT 10;
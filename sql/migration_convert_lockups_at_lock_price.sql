@@ -0,0 +1,10 @@
+-- Migration: Convert other-token lockups at their lock-time price
+-- amount of a lockup in another token used to be converted at the price when it was synced. The price step
+-- after each sync (priceLockupsAtLockTime) converts lockups without a lock_usd_price at the lock-time price
+-- instead, so clearing it reconverts every existing one. Until the next sync they keep their old amount.
+
+UPDATE lockups
+SET lock_usd_price = NULL, updated_at = NOW()
+WHERE token <> '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe';
+
+-- Verify: SELECT token, COUNT(*), COUNT(lock_usd_price), SUM(token_amount), SUM(amount) FROM lockups GROUP BY token;
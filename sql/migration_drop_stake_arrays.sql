@@ -0,0 +1,17 @@
+-- Migration: Drop the parallel stake arrays from leaderboard_entries
+-- Stakes live only in the lockups table (sql/migration_add_lockups_table.sql backfilled it from these
+-- arrays). leaderboard_entries keeps cast metadata and the derived totals, state and ranks.
+
+ALTER TABLE leaderboard_entries
+  DROP COLUMN IF EXISTS staker_fids,
+  DROP COLUMN IF EXISTS caster_stake_lockup_ids,
+  DROP COLUMN IF EXISTS caster_stake_amounts,
+  DROP COLUMN IF EXISTS caster_stake_unlock_times,
+  DROP COLUMN IF EXISTS caster_stake_lock_times,
+  DROP COLUMN IF EXISTS caster_stake_unlocked,
+  DROP COLUMN IF EXISTS supporter_stake_lockup_ids,
+  DROP COLUMN IF EXISTS supporter_stake_amounts,
+  DROP COLUMN IF EXISTS supporter_stake_fids,
+  DROP COLUMN IF EXISTS supporter_stake_unlock_times,
+  DROP COLUMN IF EXISTS supporter_stake_lock_times,
+  DROP COLUMN IF EXISTS supporter_stake_unlocked;
@@ -0,0 +1,85 @@
+-- Migration: Stake validity views per rule version
+-- valid_lockups and the aggregate views on top of it hard-coded stake rules version 1. They are recreated
+-- over every version in stake_rule_versions (mirroring lib/stake-rules.ts), with a rules_version column to
+-- filter on, e.g. SELECT * FROM cast_stake_totals WHERE rules_version = 3.
+
+DROP VIEW IF EXISTS network_stake_totals;
+DROP VIEW IF EXISTS cast_supporter_totals;
+DROP VIEW IF EXISTS cast_stake_totals;
+DROP VIEW IF EXISTS valid_lockups;
+
+-- Stake validity rule versions, mirroring STAKE_RULE_VERSIONS in lib/stake-rules.ts (add a row with each new version)
+CREATE TABLE IF NOT EXISTS stake_rule_versions (
+  version INTEGER PRIMARY KEY,
+  supporter_match VARCHAR(10) NOT NULL, -- 'exact', 'window' or 'min'
+  tolerance_seconds INTEGER NOT NULL DEFAULT 0,
+  check_expiry BOOLEAN NOT NULL, -- stakes at or past their unlock_time are invalid
+  CONSTRAINT stake_rule_versions_match_check CHECK (supporter_match IN ('exact', 'window', 'min'))
+);
+
+INSERT INTO stake_rule_versions (version, supporter_match, tolerance_seconds, check_expiry) VALUES
+  (1, 'exact', 0, false),
+  (2, 'window', 3600, true),
+  (3, 'min', 0, true)
+ON CONFLICT (version) DO NOTHING;
+
+-- Lockups annotated with validity under every rule version (filter on rules_version); expiry is checked
+-- against NOW(). A stake counts while it is locked; a supporter stake also needs a matching caster stake:
+-- - 'exact': unlock_time equals a caster unlock_time
+-- - 'window': within tolerance_seconds of a caster unlock_time
+-- - 'min': at least the earliest caster unlock_time (minus tolerance_seconds)
+CREATE OR REPLACE VIEW valid_lockups AS
+SELECT
+  r.version AS rules_version,
+  l.*,
+  NOT l.unlocked
+    AND NOT (r.check_expiry AND l.unlock_time <= EXTRACT(EPOCH FROM NOW()))
+    AND (
+      l.stake_type = 'caster'
+      OR EXISTS (
+        SELECT 1 FROM lockups c
+        WHERE c.cast_hash = l.cast_hash
+          AND c.stake_type = 'caster'
+          AND CASE r.supporter_match
+            WHEN 'exact' THEN c.unlock_time = l.unlock_time
+            WHEN 'window' THEN ABS(c.unlock_time - l.unlock_time) <= r.tolerance_seconds
+            ELSE l.unlock_time >= c.unlock_time - r.tolerance_seconds
+          END
+      )
+    ) AS is_valid
+FROM lockups l
+CROSS JOIN stake_rule_versions r;
+
+-- Per-cast stake aggregates, per rule version
+CREATE OR REPLACE VIEW cast_stake_totals AS
+SELECT
+  rules_version,
+  cast_hash,
+  COALESCE(SUM(amount) FILTER (WHERE stake_type = 'caster' AND is_valid), 0) AS total_caster_staked,
+  COALESCE(SUM(amount) FILTER (WHERE stake_type = 'supporter' AND is_valid), 0) AS total_supporter_staked,
+  COUNT(DISTINCT fid) FILTER (WHERE stake_type = 'supporter' AND is_valid AND fid > 0) AS unique_supporters,
+  MIN(unlock_time) FILTER (WHERE stake_type = 'caster' AND is_valid) AS min_caster_unlock_time,
+  MAX(unlock_time) FILTER (WHERE stake_type = 'caster' AND is_valid) AS max_caster_unlock_time
+FROM valid_lockups
+GROUP BY rules_version, cast_hash;
+
+-- Per-cast, per-supporter active stake totals, per rule version
+CREATE OR REPLACE VIEW cast_supporter_totals AS
+SELECT rules_version, cast_hash, fid, SUM(amount) AS total_amount
+FROM valid_lockups
+WHERE stake_type = 'supporter' AND is_valid AND fid > 0
+GROUP BY rules_version, cast_hash, fid;
+
+-- Network-wide totals over 'higher' casts, per rule version
+CREATE OR REPLACE VIEW network_stake_totals AS
+SELECT
+  r.version AS rules_version,
+  COALESCE(SUM(t.total_caster_staked), 0) AS total_caster_staked,
+  COALESCE(SUM(t.total_supporter_staked), 0) AS total_supporter_staked,
+  COUNT(le.cast_hash) AS total_casts_staked_on
+FROM stake_rule_versions r
+LEFT JOIN leaderboard_entries le ON le.cast_state = 'higher'
+LEFT JOIN cast_stake_totals t ON t.cast_hash = le.cast_hash AND t.rules_version = r.version
+GROUP BY r.version;
+
+-- Verify: SELECT rules_version, COUNT(*) FILTER (WHERE is_valid) FROM valid_lockups GROUP BY rules_version;
@@ -19,10 +19,53 @@ CREATE TABLE IF NOT EXISTS notification_sent (
   id SERIAL PRIMARY KEY,
   notification_type VARCHAR(50) NOT NULL, -- 'stake_expired' or 'supporter_added'
   fid INTEGER NOT NULL,
-  reference_id VARCHAR(255) NOT NULL, -- lockup_id for expired, cast_hash+lockup_id for supporter
+  reference_id VARCHAR(255) NOT NULL, -- lockup_id for expired, lockup_id-offset for expiring, cast_hash+lockup_id for supporter
   sent_at TIMESTAMP DEFAULT NOW(),
   UNIQUE(notification_type, fid, reference_id)
 );
 
 CREATE INDEX IF NOT EXISTS idx_notification_sent_fid ON notification_sent(fid);
 CREATE INDEX IF NOT EXISTS idx_notification_sent_type ON notification_sent(notification_type);
+
+-- Notification outbox (every notification is enqueued here; delivered with retries by the outbox worker)
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id SERIAL PRIMARY KEY,
+  notification_type VARCHAR(50) NOT NULL, -- 'stake_expired', 'stake_expiring', 'supporter_added', 'rank_change', 'caster_stake_lost' or 'weekly_digest'
+  fid INTEGER NOT NULL,
+  reference_id VARCHAR(255) NOT NULL, -- same as notification_sent.reference_id
+  notification_id VARCHAR(128) NOT NULL, -- Farcaster notificationId, stable across retries
+  payload JSONB NOT NULL, -- { title, body, targetUrl }
+  state VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending | sending | delivered | failed | skipped
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP, -- when a worker claimed the message
+  last_error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  delivered_at TIMESTAMP,
+  UNIQUE(notification_type, fid, reference_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due ON notification_outbox(next_attempt_at) WHERE state IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_state ON notification_outbox(state);
+
+CREATE TABLE IF NOT EXISTS notification_attempts (
+  id SERIAL PRIMARY KEY,
+  outbox_id INTEGER NOT NULL REFERENCES notification_outbox(id) ON DELETE CASCADE,
+  attempted_at TIMESTAMP DEFAULT NOW(),
+  outcome VARCHAR(20) NOT NULL, -- delivered | rate_limited | invalid_token | rejected | no_token | http_error | network_error
+  http_status INTEGER,
+  detail TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_attempts_outbox ON notification_attempts(outbox_id);
+
+-- Per-event notification preferences (defaults apply to events without a row)
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  fid INTEGER NOT NULL,
+  notification_type VARCHAR(50) NOT NULL, -- supporter_added | stake_expiring | caster_stake_lost | rank_change | weekly_digest
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  threshold NUMERIC, -- USD minimum, or top-N rank for rank_change
+  updated_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (fid, notification_type)
+);
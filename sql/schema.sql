@@ -9,24 +9,14 @@ CREATE TABLE IF NOT EXISTS leaderboard_entries (
   cast_text TEXT NOT NULL,
   description TEXT NOT NULL,
   cast_timestamp TIMESTAMP NOT NULL,
-  total_higher_staked NUMERIC(30, 18) NOT NULL, -- Sum of caster_stake_amounts + supporter_stake_amounts
-  staker_fids INTEGER[] NOT NULL DEFAULT '{}', -- [creator_fid, ...supporter_stake_fids] (for backward compatibility)
+  total_higher_staked NUMERIC(30, 18) NOT NULL, -- Sum of valid lockups on the cast (lockups table)
   usd_value NUMERIC(15, 2),
   rank INTEGER,
   updated_at TIMESTAMP DEFAULT NOW(),
-  -- New columns for caster/supporter stake separation
-  caster_stake_lockup_ids INTEGER[] DEFAULT '{}',
-  caster_stake_amounts NUMERIC[] DEFAULT '{}',
-  caster_stake_unlock_times INTEGER[] DEFAULT '{}',
-  caster_stake_lock_times BIGINT[] DEFAULT '{}', -- ADDED: Missing column
-  caster_stake_unlocked BOOLEAN[] DEFAULT '{}',
-  supporter_stake_lockup_ids INTEGER[] DEFAULT '{}',
-  supporter_stake_amounts NUMERIC[] DEFAULT '{}',
-  supporter_stake_fids INTEGER[] DEFAULT '{}',
-  supporter_stake_unlock_times INTEGER[] DEFAULT '{}',
-  supporter_stake_lock_times BIGINT[] DEFAULT '{}', -- ADDED: Missing column
-  supporter_stake_unlocked BOOLEAN[] DEFAULT '{}',
-  cast_state VARCHAR(20) DEFAULT 'higher' -- 'invalid', 'valid', 'higher', or 'expired'
+  cast_state VARCHAR(20) DEFAULT 'higher', -- 'invalid', 'valid', 'higher', or 'expired'
+  weighted_stake NUMERIC, -- higher-days of all stakes on the cast, recomputed every sync
+  weighted_rank INTEGER, -- rank of 'higher' casts by weighted_stake
+  supporter_count INTEGER NOT NULL DEFAULT 0 -- unique supporter fids with a valid stake, recomputed every sync
 );
 
 -- Indexes for performance
@@ -34,4 +24,167 @@ CREATE INDEX IF NOT EXISTS idx_total_higher_staked ON leaderboard_entries(total_
 CREATE INDEX IF NOT EXISTS idx_rank ON leaderboard_entries(rank);
 CREATE INDEX IF NOT EXISTS idx_cast_hash ON leaderboard_entries(cast_hash);
 CREATE INDEX IF NOT EXISTS idx_creator_fid ON leaderboard_entries(creator_fid);
-CREATE INDEX IF NOT EXISTS idx_cast_state ON leaderboard_entries(cast_state);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_cast_state ON leaderboard_entries(cast_state);
+CREATE INDEX IF NOT EXISTS idx_weighted_rank ON leaderboard_entries(weighted_rank);
+
+-- Incremental lockup sync cursor (one row per lockup source: 'dune' or 'chain')
+CREATE TABLE IF NOT EXISTS lockup_sync_cursors (
+  source VARCHAR(20) PRIMARY KEY,
+  last_lockup_id INTEGER NOT NULL DEFAULT 0,
+  last_block BIGINT,
+  last_lock_time BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Normalized lockups (one row per lockup)
+CREATE TABLE IF NOT EXISTS lockups (
+  lockup_id INTEGER PRIMARY KEY, -- lockUpId on the lockup contract
+  cast_hash VARCHAR(255) NOT NULL, -- lockup title
+  sender VARCHAR(42), -- wallet that created the lockup (NULL for backfilled rows)
+  receiver VARCHAR(42), -- wallet that can unlock (NULL for backfilled rows)
+  fid INTEGER, -- creator fid for caster stakes, supporter fid for supporter stakes (0 if unknown)
+  amount NUMERIC(78, 0) NOT NULL DEFAULT 0, -- HIGHER-equivalent wei (lib/tokens.ts); other tokens are 0 until converted at the lock-time price
+  token VARCHAR(42) NOT NULL DEFAULT '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe', -- staked token (lowercased)
+  token_amount NUMERIC(78, 0), -- raw amount in the staked token's smallest unit
+  lock_usd_price NUMERIC, -- USD price of the token at lock time, from price_history (NULL until known)
+  lock_time BIGINT,
+  unlock_time BIGINT NOT NULL,
+  unlocked BOOLEAN NOT NULL DEFAULT false,
+  stake_type VARCHAR(20) NOT NULL, -- 'caster' or 'supporter'
+  block_number BIGINT, -- block of the LockUpCreated event (on-chain sources)
+  tx_hash VARCHAR(66), -- creating transaction (on-chain sources)
+  confirmed BOOLEAN NOT NULL DEFAULT true, -- false while within LOCKUP_CONFIRMATION_DEPTH blocks of the head
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT lockups_stake_type_check CHECK (stake_type IN ('caster', 'supporter'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_lockups_cast_hash ON lockups(cast_hash);
+CREATE INDEX IF NOT EXISTS idx_lockups_fid ON lockups(fid);
+CREATE INDEX IF NOT EXISTS idx_lockups_cast_type_unlock ON lockups(cast_hash, stake_type, unlock_time);
+CREATE INDEX IF NOT EXISTS idx_lockups_unconfirmed ON lockups(block_number) WHERE NOT confirmed;
+CREATE INDEX IF NOT EXISTS idx_lockups_token ON lockups(token);
+
+-- Stake validity rule versions, mirroring STAKE_RULE_VERSIONS in lib/stake-rules.ts (add a row with each new version)
+CREATE TABLE IF NOT EXISTS stake_rule_versions (
+  version INTEGER PRIMARY KEY,
+  supporter_match VARCHAR(10) NOT NULL, -- 'exact', 'window' or 'min'
+  tolerance_seconds INTEGER NOT NULL DEFAULT 0,
+  check_expiry BOOLEAN NOT NULL, -- stakes at or past their unlock_time are invalid
+  CONSTRAINT stake_rule_versions_match_check CHECK (supporter_match IN ('exact', 'window', 'min'))
+);
+
+INSERT INTO stake_rule_versions (version, supporter_match, tolerance_seconds, check_expiry) VALUES
+  (1, 'exact', 0, false),
+  (2, 'window', 3600, true),
+  (3, 'min', 0, true)
+ON CONFLICT (version) DO NOTHING;
+
+-- Lockups annotated with validity under every rule version (filter on rules_version); expiry is checked
+-- against NOW(). A stake counts while it is locked; a supporter stake also needs a matching caster stake:
+-- - 'exact': unlock_time equals a caster unlock_time
+-- - 'window': within tolerance_seconds of a caster unlock_time
+-- - 'min': at least the earliest caster unlock_time (minus tolerance_seconds)
+CREATE OR REPLACE VIEW valid_lockups AS
+SELECT
+  r.version AS rules_version,
+  l.*,
+  NOT l.unlocked
+    AND NOT (r.check_expiry AND l.unlock_time <= EXTRACT(EPOCH FROM NOW()))
+    AND (
+      l.stake_type = 'caster'
+      OR EXISTS (
+        SELECT 1 FROM lockups c
+        WHERE c.cast_hash = l.cast_hash
+          AND c.stake_type = 'caster'
+          AND CASE r.supporter_match
+            WHEN 'exact' THEN c.unlock_time = l.unlock_time
+            WHEN 'window' THEN ABS(c.unlock_time - l.unlock_time) <= r.tolerance_seconds
+            ELSE l.unlock_time >= c.unlock_time - r.tolerance_seconds
+          END
+      )
+    ) AS is_valid
+FROM lockups l
+CROSS JOIN stake_rule_versions r;
+
+-- Per-cast stake aggregates, per rule version
+CREATE OR REPLACE VIEW cast_stake_totals AS
+SELECT
+  rules_version,
+  cast_hash,
+  COALESCE(SUM(amount) FILTER (WHERE stake_type = 'caster' AND is_valid), 0) AS total_caster_staked,
+  COALESCE(SUM(amount) FILTER (WHERE stake_type = 'supporter' AND is_valid), 0) AS total_supporter_staked,
+  COUNT(DISTINCT fid) FILTER (WHERE stake_type = 'supporter' AND is_valid AND fid > 0) AS unique_supporters,
+  MIN(unlock_time) FILTER (WHERE stake_type = 'caster' AND is_valid) AS min_caster_unlock_time,
+  MAX(unlock_time) FILTER (WHERE stake_type = 'caster' AND is_valid) AS max_caster_unlock_time
+FROM valid_lockups
+GROUP BY rules_version, cast_hash;
+
+-- Per-cast, per-supporter active stake totals, per rule version
+CREATE OR REPLACE VIEW cast_supporter_totals AS
+SELECT rules_version, cast_hash, fid, SUM(amount) AS total_amount
+FROM valid_lockups
+WHERE stake_type = 'supporter' AND is_valid AND fid > 0
+GROUP BY rules_version, cast_hash, fid;
+
+-- Network-wide totals over 'higher' casts, per rule version
+CREATE OR REPLACE VIEW network_stake_totals AS
+SELECT
+  r.version AS rules_version,
+  COALESCE(SUM(t.total_caster_staked), 0) AS total_caster_staked,
+  COALESCE(SUM(t.total_supporter_staked), 0) AS total_supporter_staked,
+  COUNT(le.cast_hash) AS total_casts_staked_on
+FROM stake_rule_versions r
+LEFT JOIN leaderboard_entries le ON le.cast_state = 'higher'
+LEFT JOIN cast_stake_totals t ON t.cast_hash = le.cast_hash AND t.rules_version = r.version
+GROUP BY r.version;
+
+-- Immutable leaderboard snapshots, one per lockup sync (insert-only)
+CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+  id SERIAL PRIMARY KEY,
+  taken_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  source VARCHAR(20) NOT NULL, -- 'dune' | 'chain'
+  mode VARCHAR(20) NOT NULL, -- 'full' | 'incremental'
+  stake_rules_version INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_snapshots_taken_at ON leaderboard_snapshots(taken_at);
+
+-- Ranked ('higher') casts as they stood in each snapshot
+CREATE TABLE IF NOT EXISTS leaderboard_snapshot_entries (
+  snapshot_id INTEGER NOT NULL REFERENCES leaderboard_snapshots(id) ON DELETE CASCADE,
+  cast_hash VARCHAR(255) NOT NULL,
+  rank INTEGER NOT NULL,
+  total_higher_staked NUMERIC NOT NULL,
+  usd_value NUMERIC,
+  supporter_count INTEGER NOT NULL DEFAULT 0, -- unique supporter fids with a valid stake
+  PRIMARY KEY (snapshot_id, cast_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_snapshot_entries_cast ON leaderboard_snapshot_entries(cast_hash, snapshot_id);
+
+-- Supporter fids ranked by higher-days and by active stake across all casts (replaced on every sync)
+CREATE TABLE IF NOT EXISTS supporter_weighted_ranks (
+  fid INTEGER PRIMARY KEY,
+  weighted_stake NUMERIC NOT NULL,
+  rank INTEGER, -- by weighted_stake; NULL without higher-days
+  casts_backed INTEGER NOT NULL DEFAULT 0,
+  active_stake NUMERIC NOT NULL DEFAULT 0, -- tokens in supporter stakes valid under the stake rules
+  active_rank INTEGER, -- by active_stake; NULL without an active stake
+  builders_backed INTEGER NOT NULL DEFAULT 0, -- distinct creator fids of the casts backed
+  biggest_cast_hash VARCHAR(255), -- cast with the largest active stake
+  biggest_active_stake NUMERIC,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supporter_weighted_ranks_rank ON supporter_weighted_ranks(rank);
+CREATE INDEX IF NOT EXISTS idx_supporter_weighted_ranks_active_rank ON supporter_weighted_ranks(active_rank);
+
+-- USD prices sampled from the price provider (insert-only)
+CREATE TABLE IF NOT EXISTS price_history (
+  asset_id VARCHAR(64) NOT NULL, -- price provider asset id (StakeToken.priceId)
+  observed_at TIMESTAMP NOT NULL,
+  usd_price NUMERIC NOT NULL,
+  source VARCHAR(32) NOT NULL, -- price provider name
+  PRIMARY KEY (asset_id, observed_at)
+);